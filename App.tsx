@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback, useLayoutEffect } from 'react';
-import { Event, ProgressStep, StepTemplate, StepSetTemplate } from './types';
-import Header, { SortOrder } from './components/Header';
+import { Event, ProgressStep, StepTemplate, StepSetTemplate, PendingAction, AppData, TrashedEvent, MediaType, MediaMetadata, StepGroup, LifecycleStatus, Attachment, AttachmentFiles, CoverCrop, CoverRendition, CoverRenditions, FocalPoint, ActiveFilters, SavedView, SortOrder, TagMatchMode } from './types';
+import Header from './components/Header';
 import EventCard from './components/EventCard';
 import EventDetailView from './components/EventDetailView';
 import FAB from './components/FAB';
@@ -9,35 +9,59 @@ import FilterChips from './components/FilterChips';
 import ManageTagsModal from './components/ManageTagsModal';
 import EventEditModal from './components/EventEditModal';
 import TagInput from './components/TagInput';
+import MediaTypePicker from './components/MediaTypePicker';
 import ContextMenu, { ContextMenuAction } from './components/ContextMenu';
-import { PencilIcon, TrashIcon, ExclamationTriangleIcon, CheckIcon, PlusIcon, LoadingSpinnerIcon, ArchiveBoxIcon } from './components/icons';
+import CoverCropDialog from './components/CoverCropDialog';
+import { PencilIcon, TrashIcon, ExclamationTriangleIcon, CheckIcon, PlusIcon, LoadingSpinnerIcon, ArchiveBoxIcon, PinIcon } from './components/icons';
 import StepsEditorPanel from './components/StepsEditorPanel';
 import ControlsBar from './components/ControlsBar';
 import SettingsModal from './components/SettingsModal';
+import TrashModal from './components/TrashModal';
+import StatisticsModal from './components/StatisticsModal';
+import ImportPreviewModal from './components/ImportPreviewModal';
+import ExportEventsModal, { ExportScope } from './components/ExportEventsModal';
+import SavedViewChips from './components/SavedViewChips';
+import SavedViewsModal from './components/SavedViewsModal';
+import TextImportModal from './components/TextImportModal';
 import DatabaseManagerModal, { DEFAULT_DB_NAME_EXPORT, DEMO_DB_NAME_EXPORT, TEMP_STORAGE_DB_NAME_EXPORT } from './components/DatabaseManagerModal';
 import Snackbar from './components/Snackbar';
 import WelcomeModal from './components/WelcomeModal';
 import ManageSelectionTagsModal from './components/ManageSelectionTagsModal';
+import PendingJournalReviewModal from './components/PendingJournalReviewModal';
+import { PENDING_ACTION_STORES, writePendingActions } from './utils/persistPendingActions';
+import { JOURNAL_DB_NAME, PendingActionJournal, createJournalSessionId, holdSessionLock, loadJournals, saveJournal, deleteJournals } from './utils/pendingActionJournal';
+import { applyPendingActions, createHistoryEntry, prepareHistoryActions, HistoryEntry } from './utils/pendingActions';
+import { applyStepChanges, stampStepActivity } from './utils/stepActivity';
+import { MIGRATION_STORES, ADDED_STORES, LATEST_DB_VERSION, APPLIED_MIGRATIONS_KEY, AppliedMigration, MigrationError, runMigrations, createIdbMigrationContext } from './utils/migrations';
+import { createBackupArchive, readBackupFile, ParsedBackup } from './utils/backupArchive';
+import { ImportMode, diffImport, planImport } from './utils/importPlan';
+import { BACKUP_DOCUMENT_VERSION, SkippedRecord, validateBackupDocument } from './utils/backupValidation';
+import { TextExportFormat, eventsToCsv, eventsToMarkdown } from './utils/textExport';
+import { ParsedTextEvent } from './utils/textImport';
+import { DEFAULT_MEDIA_TYPE, MEDIA_TYPES, normalizeMediaMetadata } from './utils/mediaTypes';
+import { compareLifecycleStatus, getLifecycleStatus } from './utils/lifecycle';
+import { MAX_ATTACHMENT_SIZE, collectActionAttachmentIds, collectAttachmentIds, createAttachment, findQueuedAttachmentFile, formatFileSize } from './utils/attachments';
+import { useBlobUrl } from './hooks/useObjectUrl';
+import { parseSearchQuery } from './utils/searchQuery';
+import { SearchIndex, searchEvents, updateSearchIndex } from './utils/searchIndex';
+import { EVENT_ORDER_KEY, NO_EVENT_ORDER, EventDropTarget, EventOrder, readEventOrder, mapEventOrderIds, mergeEventOrder, createManualComparator, createPinnedComparator, togglePinned, moveEvents } from './utils/eventOrder';
+import useDragReorder, { findDropPosition } from './hooks/useDragReorder';
+import { cycleTagFilter, hasTagFilter, mapFilterTags, matchesTagFilter, setUntaggedOnly } from './utils/tagFilter';
+import { SAVED_VIEWS_KEY, DEFAULT_FILTERS, DEFAULT_SORT_ORDER, NO_SAVED_VIEWS, SavedViews, ViewState, readSavedViews, mergeSavedViews, createSavedView, isViewApplied, moveSavedView, deleteSavedView, renameTagInSavedViews, removeTagsFromSavedViews } from './utils/savedViews';
+import { COVER_RENDITION_SIZES, collectActionCoverImageIds, collectCoverImageIds, createCoverRenditions, extractInlineCovers, findQueuedCoverImage, generateCoverImageId, inlineCoverImages, pickCoverRendition, resizeImage } from './utils/coverImages';
 
 
 // =================================================================
 // IndexedDB 数据库逻辑
 // =================================================================
-const DB_VERSION = 1;
-const STORES = {
-    events: 'events',
-    tags: 'tags',
-    stepTemplates: 'stepTemplates',
-    stepSetTemplates: 'stepSetTemplates',
-    metadata: 'metadata',
-    originalImages: 'originalImages',
-};
+const STORES = { ...MIGRATION_STORES, ...ADDED_STORES };
 const DB_PREFIX = 'essenmelia-db';
 const DEFAULT_DB_NAME = DEFAULT_DB_NAME_EXPORT;
 const DEMO_DB_NAME = DEMO_DB_NAME_EXPORT;
 const SETTINGS_DB_NAME = 'essenmelia-db-settings';
 
 export const DEFAULT_ANIMATED_PLACEHOLDER = 'DEFAULT_ANIMATED_PLACEHOLDER';
+const HISTORY_LIMIT = 50;
 
 const dbConnections = new Map<string, IDBDatabase>();
 
@@ -47,35 +71,47 @@ const initDB = (dbName: string): Promise<IDBDatabase> => {
             return resolve(dbConnections.get(dbName)!);
         }
 
-        const request = indexedDB.open(dbName, DB_VERSION);
+        const request = indexedDB.open(dbName, LATEST_DB_VERSION);
+        let migrationError: MigrationError | null = null;
 
         request.onerror = () => {
-            console.error(`数据库错误 (${dbName}):`, request.error);
-            reject(request.error);
+            const error = migrationError || request.error;
+            console.error(`数据库错误 (${dbName}):`, error);
+            reject(error);
+        };
+
+        request.onblocked = () => {
+            console.warn(`数据库 ${dbName} 升级被阻止。请关闭其他标签页后再试。`);
         };
 
         request.onsuccess = (event) => {
             const dbInstance = (event.target as IDBOpenDBRequest).result;
+            // Another tab is upgrading this database; release our connection so it can proceed.
+            dbInstance.onversionchange = () => {
+                dbInstance.close();
+                dbConnections.delete(dbName);
+            };
             dbConnections.set(dbName, dbInstance);
             resolve(dbInstance);
         };
 
         request.onupgradeneeded = (event) => {
             const dbInstance = (event.target as IDBOpenDBRequest).result;
-            Object.values(STORES).forEach(storeName => {
-                 if (!dbInstance.objectStoreNames.contains(storeName)) {
-                    if(storeName === STORES.events || storeName === STORES.stepTemplates || storeName === STORES.stepSetTemplates) {
-                        dbInstance.createObjectStore(storeName, { keyPath: 'id' });
-                    } else if (storeName === STORES.originalImages) {
-                        // For original images, the key will be the eventId, which is not part of the File/Blob object itself.
-                        // So, we don't specify a keyPath here.
-                        dbInstance.createObjectStore(storeName);
+            const transaction = request.transaction!;
+            runMigrations(createIdbMigrationContext(dbInstance, transaction), event.oldVersion)
+                .then(applied => {
+                    if (applied.length > 0) {
+                        console.info(`数据库 ${dbName} 已从版本 ${event.oldVersion} 升级到 ${LATEST_DB_VERSION}。`);
                     }
-                    else {
-                        dbInstance.createObjectStore(storeName);
+                })
+                .catch(error => {
+                    migrationError = error instanceof MigrationError ? error : new MigrationError(LATEST_DB_VERSION, error);
+                    try {
+                        transaction.abort();
+                    } catch {
+                        // The upgrade already aborted or finished, for example after a failed request; `onerror` reports it.
                     }
-                }
-            });
+                });
         };
     });
 };
@@ -88,6 +124,10 @@ const getStore = (dbName: string, storeName: string, mode: IDBTransactionMode):
     });
 };
 
+/**
+ * Clears a store and rewrites it from scratch. Reserved for seeding and explicit restores;
+ * regular edits are saved incrementally by `persistPendingActions`.
+ */
 async function saveDataInStore<T>(dbName: string, storeName: string, data: T[]): Promise<void> {
     const store = await getStore(dbName, storeName, 'readwrite');
     return new Promise((resolve, reject) => {
@@ -108,28 +148,6 @@ async function saveDataInStore<T>(dbName: string, storeName: string, data: T[]):
     });
 }
 
-const saveDataInStoreByKey = async (dbName: string, storeName: string, data: any, key: string): Promise<void> => {
-    const store = await getStore(dbName, storeName, 'readwrite');
-    return new Promise((resolve, reject) => {
-        const request = store.put(data, key);
-        request.onsuccess = () => resolve();
-        request.onerror = (event) => reject((event.target as IDBRequest).error);
-    });
-};
-
-
-async function insertDataInStore<T>(dbName: string, storeName: string, data: T[]): Promise<void> {
-    if (data.length === 0) return Promise.resolve();
-    const store = await getStore(dbName, storeName, 'readwrite');
-    return new Promise((resolve, reject) => {
-        const transaction = store.transaction;
-        data.forEach(item => {
-            store.put(item); // 'put' works like add/update. With new IDs, it's an add.
-        });
-        transaction.oncomplete = () => resolve();
-        transaction.onerror = (event) => reject((event.target as IDBRequest).error);
-    });
-}
 
 const saveTagsInStore = async (dbName: string, tags: string[]): Promise<void> => {
     const store = await getStore(dbName, STORES.tags, 'readwrite');
@@ -167,6 +185,22 @@ export const deleteDataFromStoreByKey = async (dbName: string, storeName: string
     });
 };
 
+/** All records of a store keyed by id, such as original images (keyed by event id), attachments or cover renditions. */
+const getAllFilesFromStore = async <T = File>(dbName: string, storeName: string): Promise<Map<string, T>> => {
+    const store = await getStore(dbName, storeName, 'readonly');
+    return new Promise((resolve, reject) => {
+        const files = new Map<string, T>();
+        const request = store.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve(files);
+            files.set(cursor.key as string, cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
 const getTagsFromStore = async (dbName: string): Promise<string[]> => {
     const store = await getStore(dbName, STORES.tags, 'readonly');
     return new Promise((resolve, reject) => {
@@ -194,6 +228,115 @@ const saveMetadata = async (dbName: string, key: IDBValidKey, value: any): Promi
     });
 };
 
+const deleteTrashedEvents = async (dbName: string, ids: string[] | 'all'): Promise<void> => {
+    const db = await initDB(dbName);
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORES.trash, 'readwrite');
+        const store = transaction.objectStore(STORES.trash);
+        if (ids === 'all') {
+            store.clear();
+        } else {
+            ids.forEach(id => store.delete(id));
+        }
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/** Permanently deletes trash entries older than `retentionDays`. A retention of 0 keeps them forever. */
+const purgeExpiredTrash = async (dbName: string, retentionDays: number): Promise<number> => {
+    if (retentionDays <= 0) return 0;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const db = await initDB(dbName);
+    return new Promise((resolve, reject) => {
+        let purged = 0;
+        const transaction = db.transaction(STORES.trash, 'readwrite');
+        const request = transaction.objectStore(STORES.trash).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if (new Date(cursor.value.deletedAt).getTime() < cutoff) {
+                cursor.delete();
+                purged++;
+            }
+            cursor.continue();
+        };
+        transaction.oncomplete = () => resolve(purged);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Deletes records of a file store (attachments, cover images) that neither an event nor
+ * a trashed event refers to, apart from those in `keepIds` (e.g. files an undo would bring back).
+ */
+const deleteUnreferencedFiles = async (
+    dbName: string,
+    storeName: string,
+    collectIds: (events: Event[], ids: Set<string>) => Set<string>,
+    keepIds: Set<string>
+): Promise<number> => {
+    const db = await initDB(dbName);
+    return new Promise((resolve, reject) => {
+        let deleted = 0;
+        const transaction = db.transaction([STORES.events, STORES.trash, storeName], 'readwrite');
+        const eventsRequest = transaction.objectStore(STORES.events).getAll();
+        const trashRequest = transaction.objectStore(STORES.trash).getAll();
+        const filesStore = transaction.objectStore(storeName);
+        const keysRequest = filesStore.getAllKeys();
+        keysRequest.onsuccess = () => {
+            const referenced = collectIds([
+                ...(eventsRequest.result as Event[]),
+                ...(trashRequest.result as TrashedEvent[]).map(item => item.event),
+            ], new Set(keepIds));
+            keysRequest.result.forEach(key => {
+                if (referenced.has(key as string)) return;
+                filesStore.delete(key);
+                deleted++;
+            });
+        };
+        transaction.oncomplete = () => resolve(deleted);
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Creates the thumbnails that covers moved out of older event records or imported
+ * backups are missing. Images are decoded outside of any transaction, so each
+ * thumbnail is written on its own; a cover replaced in the meantime is left alone.
+ */
+const generateMissingThumbnails = async (dbName: string): Promise<number> => {
+    const covers = await getAllFilesFromStore<CoverRenditions>(dbName, STORES.coverImages);
+    let generated = 0;
+    for (const [coverImageId, renditions] of covers) {
+        if (renditions.thumbnail) continue;
+        const thumbnail = await resizeImage(renditions.medium, COVER_RENDITION_SIZES.thumbnail);
+        const store = await getStore(dbName, STORES.coverImages, 'readwrite');
+        await new Promise<void>((resolve, reject) => {
+            const request = store.get(coverImageId);
+            request.onsuccess = () => {
+                const current: CoverRenditions | undefined = request.result;
+                if (current && !current.thumbnail) {
+                    store.put({ ...current, thumbnail }, coverImageId);
+                    generated++;
+                }
+                resolve();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return generated;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(a.href);
+    a.remove();
+};
+
 // =================================================================
 // Data Definitions
 // =================================================================
@@ -202,6 +345,7 @@ const tutorialEvent: Event = {
     title: "应用导览：探索您的工作区",
     description: "这是一个快速导览，帮助您熟悉应用的主要功能区域。跟随这些步骤来了解如何充分利用它。",
     createdAt: new Date(),
+    mediaType: 'generic',
     tags: ['教程'],
     steps: [
         { id: 'step-tutorial-1', description: "🧭 顶部导航栏：屏幕顶部的栏是您的指挥中心。您可以在这里搜索所有事件，对它们进行排序，以及访问设置菜单 ⚙️。", timestamp: new Date(), completed: false },
@@ -224,6 +368,7 @@ const demoEvents: Event[] = [
     title: '上线新网站',
     description: '完成公司新网站上线的所有阶段，从设计到部署。',
     createdAt: new Date('2023-10-01T09:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-1-1', description: '完成 UI/UX 设计模型', timestamp: new Date('2023-10-05T14:00:00Z'), completed: true },
       { id: 'step-1-2', description: '开发前端组件', timestamp: new Date('2023-10-15T18:00:00Z'), completed: true },
@@ -238,6 +383,7 @@ const demoEvents: Event[] = [
     title: '第四季度营销活动',
     description: '策划并执行假日季的营销活动。',
     createdAt: new Date('2023-09-20T11:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-2-1', description: '定义活动目标和关键绩效指标', timestamp: new Date('2023-09-25T10:00:00Z'), completed: true },
       { id: 'step-2-2', description: '创作广告素材和文案', timestamp: new Date('2023-10-02T15:00:00Z'), completed: true },
@@ -250,6 +396,7 @@ const demoEvents: Event[] = [
     title: '移动应用重构',
     description: '重构 iOS 和 Android 移动应用的旧代码库。',
     createdAt: new Date('2023-11-01T10:00:00Z'),
+    mediaType: 'generic',
     steps: [],
     tags: ['技术债', '移动开发'],
   },
@@ -258,6 +405,7 @@ const demoEvents: Event[] = [
     title: '计划公司年度静修',
     description: '为整个团队组织一次令人难忘的年度静修活动，重点关注团队建设和未来一年的战略规划。',
     createdAt: new Date('2023-11-05T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-4-1', description: '调查团队偏好', timestamp: new Date(), completed: true },
       { id: 'step-4-2', description: '研究和预订场地', timestamp: new Date(), completed: true },
@@ -270,6 +418,7 @@ const demoEvents: Event[] = [
     title: '撰写并出版一本电子书',
     description: '完成关于现代前端开发的电子书的整个流程，从大纲到最终出版。',
     createdAt: new Date('2023-08-15T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-5-1', description: '创建详细大纲', timestamp: new Date(), completed: true },
       { id: 'step-5-2', description: '撰写第一稿', timestamp: new Date(), completed: true },
@@ -284,6 +433,7 @@ const demoEvents: Event[] = [
     title: '马拉松训练',
     description: '遵循为期16周的训练计划，为即将到来的城市马拉松做准备，目标是跑进4小时。',
     createdAt: new Date('2023-10-10T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-6-1', description: '完成第1-4周的基础训练', timestamp: new Date(), completed: true },
       { id: 'step-6-2', description: '完成第5-8周的里程累积', timestamp: new Date(), completed: false },
@@ -296,6 +446,7 @@ const demoEvents: Event[] = [
     title: '学习一门新语言：西班牙语',
     description: '通过每日练习和每周课程达到会话流利水平 (B1)。',
     createdAt: new Date('2023-09-01T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-7-1', description: '完成 Duolingo 基础课程', timestamp: new Date(), completed: true },
       { id: 'step-7-2', description: '与语言伙伴进行10次会话', timestamp: new Date(), completed: false },
@@ -307,6 +458,7 @@ const demoEvents: Event[] = [
     title: '装修厨房',
     description: '管理厨房装修项目，从设计到承包商协调，确保在预算内按时完成。',
     createdAt: new Date('2023-11-12T10:00:00Z'),
+    mediaType: 'generic',
     steps: [],
     imageUrl: DEFAULT_ANIMATED_PLACEHOLDER,
     tags: ['家居', '重要'],
@@ -316,6 +468,7 @@ const demoEvents: Event[] = [
     title: '建立一个个人作品集网站',
     description: '使用 React 和 Tailwind CSS 创建一个展示我作品的现代网站，并部署到 Vercel。',
     createdAt: new Date('2023-10-25T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-9-1', description: '设计网站线框图', timestamp: new Date(), completed: true },
       { id: 'step-9-2', description: '开发可重用组件', timestamp: new Date(), completed: false },
@@ -328,6 +481,7 @@ const demoEvents: Event[] = [
     title: '组织数字文件',
     description: '整理和归档所有云存储和本地驱动器上的数字文件，创建一个可持续的组织系统。',
     createdAt: new Date('2023-11-15T10:00:00Z'),
+    mediaType: 'generic',
     steps: [
       { id: 'step-10-1', description: '分类所有文件', timestamp: new Date(), completed: false },
     ],
@@ -367,81 +521,22 @@ const reviveEventDates = (event: Event): Event => ({
 
 export type OverviewBlockSize = 'sm' | 'md' | 'lg';
 
-interface ActiveFilters {
-  status: 'all' | 'in-progress' | 'completed';
-  tags: string[];
-}
-
-type PendingAction =
-  | { type: 'ADD_EVENT'; payload: { event: Event, originalImage?: File } }
-  | { type: 'UPDATE_EVENT'; payload: { event: Event, originalImage?: File | 'remove' } }
-  | { type: 'DELETE_EVENT'; payload: string } // eventId
-  | { type: 'UPDATE_EVENT_STEPS'; payload: { eventId: string; steps: ProgressStep[] } }
-  | { type: 'ADD_TAG'; payload: string } // new tag
-  | { type: 'DELETE_TAGS'; payload: string[] } // tags to delete
-  | { type: 'RENAME_TAG'; payload: { oldTag: string; newTag: string } }
-  | { type: 'REORDER_TAGS'; payload: string[] }; // reordered tags
-
 /**
- * 在客户端调整图片大小以进行优化。
- * @param file 要调整大小的图片文件。
- * @param options 包含 maxWidth、maxHeight 和 quality 的配置对象。
- * @returns 返回一个解析为优化后图片的 Base64 数据 URL 的 Promise。
+ * Saves a batch of pending actions in a single transaction over all data stores,
+ * so a batch is saved completely or not at all. See `writePendingActions`.
  */
-const resizeImage = (file: File, options: { maxWidth: number; maxHeight: number; quality: number }): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const { maxWidth, maxHeight, quality } = options;
-        let { width, height } = img;
-
-        if (width > height) {
-          if (width > maxWidth) {
-            height = Math.round((height * maxWidth) / width);
-            width = maxWidth;
-          }
-        } else {
-          if (height > maxHeight) {
-            width = Math.round((width * maxHeight) / height);
-            height = maxHeight;
-          }
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          return reject(new Error('无法获取 canvas 上下文'));
-        }
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // 对于 PNG 等可能没有背景的格式，我们添加一个白色背景。
-        // 这可以防止在转换为 JPEG 时出现黑色背景。
-        if (file.type !== 'image/jpeg') {
-            const compositeCanvas = document.createElement('canvas');
-            compositeCanvas.width = width;
-            compositeCanvas.height = height;
-            const compositeCtx = compositeCanvas.getContext('2d')!;
-            compositeCtx.fillStyle = '#FFFFFF'; // 白色背景
-            compositeCtx.fillRect(0, 0, width, height);
-            compositeCtx.drawImage(canvas, 0, 0);
-            resolve(compositeCanvas.toDataURL('image/jpeg', quality));
-        } else {
-            resolve(canvas.toDataURL('image/jpeg', quality));
-        }
-      };
-      img.onerror = (error) => reject(error);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+const persistPendingActions = async (dbName: string, actions: PendingAction[], data: AppData): Promise<void> => {
+    if (actions.length === 0 || dbName === DEMO_DB_NAME || dbName === TEMP_STORAGE_DB_NAME_EXPORT) return;
+    const dbInstance = await initDB(dbName);
+    return new Promise((resolve, reject) => {
+        const transaction = dbInstance.transaction(PENDING_ACTION_STORES, 'readwrite');
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+        writePendingActions(transaction, actions, data);
+    });
 };
 
-
 const App: React.FC = () => {
   const [activeDbName, setActiveDbName] = useState<string>('');
   const [userDbNames, setUserDbNames] = useState<string[]>([]);
@@ -452,9 +547,17 @@ const App: React.FC = () => {
   
   const [isLoading, setIsLoading] = useState(true);
   const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
+  // Read by the startup load, whose closure only knows the queue it was created with.
+  const pendingActionsRef = useRef(pendingActions);
+  pendingActionsRef.current = pendingActions;
+  // Set while a batch is being written, so a second batch cannot write the same actions again.
+  const isSyncingRef = useRef(false);
+  const [journalSessionId] = useState(createJournalSessionId);
+  const [journalsToReview, setJournalsToReview] = useState<PendingActionJournal[]>([]);
   const [dbError, setDbError] = useState<Error | null>(null);
   
-  const [actionNotification, setActionNotification] = useState<{ id: number, message: string } | null>(null);
+  const [actionNotification, setActionNotification] = useState<{ id: number, message: string, action?: 'undo' | 'redo' } | null>(null);
+  const [history, setHistory] = useState<{ undo: HistoryEntry[]; redo: HistoryEntry[] }>({ undo: [], redo: [] });
   const [dbStatus, setDbStatus] = useState<{ id: number; message: string; type: 'loading' | 'success' | 'error' | 'info' } | null>(null);
 
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
@@ -462,6 +565,7 @@ const App: React.FC = () => {
   const [isClosingDetail, setIsClosingDetail] = useState(false);
   const [eventToEdit, setEventToEdit] = useState<Event | null>(null);
   const [isAddEventModalOpen, setAddEventModalOpen] = useState(false);
+  const [isTextImportOpen, setIsTextImportOpen] = useState(false);
   const [isManageTagsModalOpen, setManageTagsModalOpen] = useState(false);
   const [isManageSelectionTagsModalOpen, setIsManageSelectionTagsModalOpen] = useState(false);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; event: Event } | null>(null);
@@ -475,14 +579,24 @@ const App: React.FC = () => {
 
   const [newEventTitle, setNewEventTitle] = useState('');
   const [newEventDescription, setNewEventDescription] = useState('');
-  const [newEventImage, setNewEventImage] = useState<string | null>(null);
+  const [newEventCover, setNewEventCover] = useState<CoverRenditions | null>(null);
+  const newEventCoverUrl = useBlobUrl(newEventCover?.medium ?? null);
   const [newEventOriginalImage, setNewEventOriginalImage] = useState<File | null>(null);
+  const [newEventCoverCrop, setNewEventCoverCrop] = useState<{ crop: CoverCrop; focalPoint: FocalPoint } | null>(null);
+  // The image being cropped stays set while the crop dialog closes.
+  const [coverCropFile, setCoverCropFile] = useState<File | null>(null);
+  const [isCoverCropOpen, setIsCoverCropOpen] = useState(false);
   const [newEventTags, setNewEventTags] = useState<string[]>([]);
+  const [newEventMediaType, setNewEventMediaType] = useState<MediaType>(DEFAULT_MEDIA_TYPE);
+  const [newEventMediaMetadata, setNewEventMediaMetadata] = useState<MediaMetadata>({});
   const [isProcessingImage, setIsProcessingImage] = useState(false);
   
-  const [activeFilters, setActiveFilters] = useState<ActiveFilters>({ status: 'all', tags: [] });
+  const [activeFilters, setActiveFilters] = useState<ActiveFilters>(DEFAULT_FILTERS);
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('createdAt-desc');
+  const [sortOrder, setSortOrder] = useState<SortOrder>(DEFAULT_SORT_ORDER);
+  const [savedViews, setSavedViews] = useState<SavedViews>(NO_SAVED_VIEWS);
+  const [savedViewsModal, setSavedViewsModal] = useState<'save' | 'manage' | null>(null);
+  const [eventOrder, setEventOrder] = useState<EventOrder>(NO_EVENT_ORDER);
   
   // Settings State
   const [isWelcomeModalOpen, setIsWelcomeModalOpen] = useState(false);
@@ -497,6 +611,11 @@ const App: React.FC = () => {
   const [collapseCardImages, setCollapseCardImages] = useState(false);
   const [overviewBlockSize, setOverviewBlockSize] = useState<OverviewBlockSize>('md');
   const [isDeveloperMode, setIsDeveloperMode] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
+  const [trashItems, setTrashItems] = useState<TrashedEvent[] | null>(null);
 
   const [isFilterBarExpanded, setIsFilterBarExpanded] = useState(() => window.innerWidth >= 768);
   const [windowWidth, setWindowWidth] = useState(window.innerWidth);
@@ -515,50 +634,22 @@ const App: React.FC = () => {
     message: string;
     onConfirm?: () => void;
   } | null>(null);
-  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; backup: ParsedBackup; incoming: AppData; coverImages: Map<string, CoverRenditions>; skipped: SkippedRecord[] } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [textExport, setTextExport] = useState<{ format: TextExportFormat; scope: ExportScope } | null>(null);
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
 
   const isTempStorageMode = activeDbName === TEMP_STORAGE_DB_NAME_EXPORT;
   const isSelectionMode = selectedEventIds.size > 0;
 
-  const showActionNotification = (message: string) => {
+  const showActionNotification = (message: string, action?: 'undo' | 'redo') => {
     const id = Date.now();
-    setActionNotification({ id, message });
+    setActionNotification({ id, message, action });
     setTimeout(() => {
         setActionNotification(prev => (prev?.id === id ? null : prev));
-    }, 3000);
+    }, action ? 5000 : 3000);
   };
 
-  const applyPendingActions = (baseEvents: Event[], baseTags: string[], actions: PendingAction[]): { processedEvents: Event[], processedTags: string[] } => {
-    let processedEvents = [...baseEvents];
-    let processedTags = [...baseTags];
-    
-    actions.forEach(action => {
-        switch (action.type) {
-            case 'ADD_EVENT': if (!processedEvents.some(e => e.id === action.payload.event.id)) processedEvents = [action.payload.event, ...processedEvents]; break;
-            case 'UPDATE_EVENT': processedEvents = processedEvents.map(e => e.id === action.payload.event.id ? action.payload.event : e); break;
-            case 'DELETE_EVENT': processedEvents = processedEvents.filter(e => e.id !== action.payload); break;
-            case 'UPDATE_EVENT_STEPS': processedEvents = processedEvents.map(e => e.id === action.payload.eventId ? { ...e, steps: action.payload.steps } : e); break;
-            case 'ADD_TAG': if (!processedTags.includes(action.payload)) processedTags = [...processedTags, action.payload]; break;
-            case 'DELETE_TAGS': const deleteSet = new Set(action.payload); processedTags = processedTags.filter(t => !deleteSet.has(t)); processedEvents = processedEvents.map(e => ({ ...e, tags: e.tags?.filter(t => !deleteSet.has(t)) })); break;
-            case 'RENAME_TAG': const { oldTag, newTag } = action.payload; processedTags = processedTags.map(t => t === oldTag ? newTag : t); processedEvents = processedEvents.map(e => ({...e, tags: e.tags?.map(t => t === oldTag ? newTag : t)})); break;
-            case 'REORDER_TAGS': processedTags = action.payload; break;
-        }
-    });
-    return { processedEvents, processedTags };
-  };
-
-  const saveDataToDb = async (dbName: string, eventsToSave: Event[], tagsToSave: string[], templatesToSave: StepTemplate[], setsToSave: StepSetTemplate[]) => {
-      if (dbName === DEMO_DB_NAME || dbName === TEMP_STORAGE_DB_NAME_EXPORT) return;
-      await Promise.all([
-          saveDataInStore(dbName, STORES.events, eventsToSave),
-          saveTagsInStore(dbName, tagsToSave),
-          saveDataInStore(dbName, STORES.stepTemplates, templatesToSave),
-          saveDataInStore(dbName, STORES.stepSetTemplates, setsToSave),
-      ]);
-  };
-
-
   useEffect(() => {
     const handleResize = () => setWindowWidth(window.innerWidth);
     window.addEventListener('resize', handleResize);
@@ -692,16 +783,18 @@ const App: React.FC = () => {
   const loadGlobalSettings = async () => {
     try {
         await initDB(SETTINGS_DB_NAME);
-        const [dbCardDensity, dbCollapseImages, dbOverviewBlockSize, dbDeveloperMode] = await Promise.all([
+        const [dbCardDensity, dbCollapseImages, dbOverviewBlockSize, dbDeveloperMode, dbTrashRetentionDays] = await Promise.all([
             getMetadata(SETTINGS_DB_NAME, 'cardDensity').catch(() => null),
             getMetadata(SETTINGS_DB_NAME, 'collapseCardImages').catch(() => null),
             getMetadata(SETTINGS_DB_NAME, 'overviewBlockSize').catch(() => null),
             getMetadata(SETTINGS_DB_NAME, 'developerMode').catch(() => null),
+            getMetadata(SETTINGS_DB_NAME, 'trashRetentionDays').catch(() => null),
         ]);
         setCardDensity(dbCardDensity ?? 75);
         setCollapseCardImages(dbCollapseImages ?? false);
         setOverviewBlockSize(dbOverviewBlockSize ?? 'md');
         setIsDeveloperMode(dbDeveloperMode ?? false);
+        setTrashRetentionDays(dbTrashRetentionDays ?? 30);
     } catch (error) {
         console.warn("加载全局设置失败:", error);
         // Set defaults if loading fails
@@ -709,6 +802,7 @@ const App: React.FC = () => {
         setCollapseCardImages(false);
         setOverviewBlockSize('md');
         setIsDeveloperMode(false);
+        setTrashRetentionDays(30);
     }
   };
 
@@ -726,6 +820,13 @@ const App: React.FC = () => {
         // Load global settings first, from their dedicated DB. This runs for all modes.
         await loadGlobalSettings();
 
+        // Changes a previous session could not save are offered for replay once loading is done.
+        try {
+            setJournalsToReview(await loadJournals(journalSessionId));
+        } catch (error) {
+            console.warn("读取未保存更改日志失败:", error);
+        }
+
         const hasLaunchedBefore = localStorage.getItem('hasLaunchedBefore') === 'true';
         let detectedDbNames = await discoverDatabases();
         let activeDb: string;
@@ -753,11 +854,18 @@ const App: React.FC = () => {
         setUserDbNames(detectedDbNames);
         setActiveDbName(activeDb);
 
+        // Changes made while loading are queued and replayed onto what was loaded, like a merge after switching databases.
+        const setLoadedData = (data: AppData) => {
+            const merged = applyPendingActions(data, pendingActionsRef.current);
+            setEvents(merged.events);
+            setCustomTags(merged.tags);
+            setStepTemplates(merged.stepTemplates);
+            setStepSetTemplates(merged.stepSetTemplates);
+        };
+        const emptyData: AppData = { events: [], tags: [], stepTemplates: [], stepSetTemplates: [] };
+
         if (activeDb === TEMP_STORAGE_DB_NAME_EXPORT) {
-            setEvents([]);
-            setCustomTags([]);
-            setStepTemplates([]);
-            setStepSetTemplates([]);
+            setLoadedData(emptyData);
             setDbStatus({ id: Date.now(), message: '无数据库。更改将是临时的。', type: 'info' });
             setIsLoading(false);
             return;
@@ -765,30 +873,16 @@ const App: React.FC = () => {
         
         try {
             const data = await loadData(activeDb);
-            let finalEvents = data.events.map(reviveEventDates);
-            let finalTags = data.tags;
-
-            if (pendingActions.length > 0) {
-                const { processedEvents, processedTags } = applyPendingActions(finalEvents, finalTags, pendingActions);
-                finalEvents = processedEvents;
-                finalTags = processedTags;
-                await saveDataToDb(activeDb, finalEvents, finalTags, data.stepTemplates, data.stepSetTemplates);
-                setPendingActions([]);
-                showActionNotification('临时更改已成功保存。');
-            }
-            
-            setEvents(finalEvents);
-            setCustomTags(finalTags);
-            setStepTemplates(data.stepTemplates);
-            setStepSetTemplates(data.stepSetTemplates);
+            setLoadedData({ ...data, events: data.events.map(reviveEventDates) });
         } catch (error) {
             console.error("加载数据库失败:", error);
             setDbError(error as Error);
-            setEvents([]);
-            setCustomTags([]);
+            setLoadedData(emptyData);
             setDbStatus({
                 id: Date.now(),
-                message: '数据库加载失败。更改将临时保存。',
+                message: error instanceof MigrationError
+                    ? `数据库升级到版本 ${error.version} 失败。更改将临时保存。`
+                    : '数据库加载失败。更改将临时保存。',
                 type: 'error',
             });
         } finally {
@@ -809,51 +903,40 @@ const App: React.FC = () => {
     }
 
     const performSync = async () => {
-        setDbStatus({ id: Date.now(), message: `正在同步 ${pendingActions.length} 项更改...`, type: 'loading' });
-
-        const { processedEvents, processedTags } = applyPendingActions(events, customTags, pendingActions);
-        
+        // The batch that settles updates the queue, which schedules the next sync.
+        if (isSyncingRef.current) return;
+        isSyncingRef.current = true;
+        const batch = pendingActions;
         try {
-            if (activeDbName !== DEMO_DB_NAME) {
-                 await Promise.all([
-                    saveDataInStore(activeDbName, STORES.events, processedEvents),
-                    saveTagsInStore(activeDbName, processedTags),
-                    ...pendingActions.map(action => {
-                        if (action.type === 'ADD_EVENT' && action.payload.originalImage) {
-                            return saveDataInStoreByKey(activeDbName, STORES.originalImages, action.payload.originalImage, action.payload.event.id);
-                        }
-                        if (action.type === 'UPDATE_EVENT' && action.payload.originalImage) {
-                            if (action.payload.originalImage === 'remove') {
-                                return deleteDataFromStoreByKey(activeDbName, STORES.originalImages, action.payload.event.id);
-                            }
-                            return saveDataInStoreByKey(activeDbName, STORES.originalImages, action.payload.originalImage, action.payload.event.id);
-                        }
-                        if (action.type === 'DELETE_EVENT') {
-                            return deleteDataFromStoreByKey(activeDbName, STORES.originalImages, action.payload);
-                        }
-                        return Promise.resolve();
-                    })
-                ]);
-            }
-           
-            setEvents(processedEvents);
-            setCustomTags(processedTags);
-            setPendingActions([]);
+            await persistPendingActions(activeDbName, batch, { events, tags: customTags, stepTemplates, stepSetTemplates });
+            // Actions queued while the transaction was running are kept for the next sync.
+            setPendingActions(prev => prev.filter(action => !batch.includes(action)));
             setDbError(null);
-
-            setDbStatus({ id: Date.now(), message: '同步完成!', type: 'success' });
-
         } catch(error) {
             console.error("同步失败:", error);
             setDbError(error as Error);
             setDbStatus({ id: Date.now(), message: '同步失败！更改未被保存。', type: 'error' });
             // Do NOT clear pendingActions on failure
+        } finally {
+            isSyncingRef.current = false;
         }
     };
     
     const syncTimer = setTimeout(performSync, 500);
     return () => clearTimeout(syncTimer);
-  }, [isLoading, pendingActions, events, customTags, activeDbName, isTempStorageMode, dbError]);
+  }, [isLoading, pendingActions, events, customTags, stepTemplates, stepSetTemplates, activeDbName, isTempStorageMode, dbError]);
+
+  useEffect(() => holdSessionLock(journalSessionId), [journalSessionId]);
+
+  // Mirror the queue into the journal so temporarily saved changes survive a crash or reload.
+  // Demo changes and the explicitly temporary storage mode are meant to be thrown away.
+  useEffect(() => {
+    const shouldJournal = pendingActions.length > 0 && activeDbName !== DEMO_DB_NAME && (!isTempStorageMode || dbError);
+    const write = shouldJournal
+        ? saveJournal(journalSessionId, activeDbName, pendingActions)
+        : deleteJournals([journalSessionId]);
+    write.catch(error => console.warn("写入未保存更改日志失败:", error));
+  }, [pendingActions, activeDbName, isTempStorageMode, dbError, journalSessionId]);
 
     // beforeunload listener for unsaved changes on sync failure
     useEffect(() => {
@@ -871,41 +954,97 @@ const App: React.FC = () => {
         };
     }, [dbError, pendingActions]);
 
+  // History entries describe the active database only.
+  useEffect(() => {
+    setHistory({ undo: [], redo: [] });
+  }, [activeDbName]);
 
-  const saveData = useCallback(async () => {
-    // Save application data (events, tags, etc.)
-    if (!isLoading && activeDbName && !isTempStorageMode && activeDbName !== DEMO_DB_NAME) {
-        try {
-            await Promise.all([
-                saveDataInStore(activeDbName, STORES.events, events),
-                saveTagsInStore(activeDbName, customTags),
-                saveDataInStore(activeDbName, STORES.stepTemplates, stepTemplates),
-                saveDataInStore(activeDbName, STORES.stepSetTemplates, stepSetTemplates),
-            ]);
-        } catch (error) {
-            console.error("保存应用数据失败:", error);
+  const historyHandlersRef = useRef({ undo: () => {}, redo: () => {} });
+  historyHandlersRef.current = { undo: () => handleUndo(), redo: () => handleRedo() };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        // Leave text undo inside inputs to the browser.
+        const target = e.target as HTMLElement;
+        if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            historyHandlersRef.current.undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            historyHandlersRef.current.redo();
         }
-    }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+
+  const saveSettings = useCallback(async () => {
     // Save global settings to their dedicated database, regardless of mode.
+    // Application data is saved incrementally by the sync effect above.
     try {
         await Promise.all([
             saveMetadata(SETTINGS_DB_NAME, 'cardDensity', cardDensity),
             saveMetadata(SETTINGS_DB_NAME, 'collapseCardImages', collapseCardImages),
             saveMetadata(SETTINGS_DB_NAME, 'overviewBlockSize', overviewBlockSize),
             saveMetadata(SETTINGS_DB_NAME, 'developerMode', isDeveloperMode),
+            saveMetadata(SETTINGS_DB_NAME, 'trashRetentionDays', trashRetentionDays),
         ]);
     } catch (error) {
         console.error("保存设置失败:", error);
     }
-  }, [isLoading, activeDbName, events, customTags, stepTemplates, stepSetTemplates, cardDensity, collapseCardImages, overviewBlockSize, isDeveloperMode, isTempStorageMode]);
+  }, [cardDensity, collapseCardImages, overviewBlockSize, isDeveloperMode, trashRetentionDays]);
 
   useEffect(() => {
-    if (pendingActions.length > 0) return;
+    if (isLoading) return;
     const timer = setTimeout(() => {
-      saveData();
+      saveSettings();
     }, 500);
     return () => clearTimeout(timer);
-  }, [saveData, pendingActions]);
+  }, [saveSettings, isLoading]);
+
+  // Trash entries past the retention period, and attachment files and covers nothing refers to, are purged whenever a database is opened.
+  useEffect(() => {
+    if (isLoading || dbError || isTempStorageMode || activeDbName === DEMO_DB_NAME) return;
+    purgeExpiredTrash(activeDbName, trashRetentionDays)
+        .then(purged => { if (purged > 0) console.info(`已从回收站自动清理 ${purged} 个过期事件。`); })
+        .catch(error => console.warn("自动清理回收站失败:", error))
+        .then(sweepAttachments);
+  }, [activeDbName, isLoading, dbError, isTempStorageMode, trashRetentionDays]);
+
+  // Covers moved out of older event records get their thumbnails once the database is open.
+  useEffect(() => {
+    if (isLoading || dbError || isTempStorageMode || activeDbName === DEMO_DB_NAME) return;
+    generateMissingThumbnails(activeDbName)
+        .then(generated => { if (generated > 0) console.info(`已为 ${generated} 张封面生成缩略图。`); })
+        .catch(error => console.warn("生成封面缩略图失败:", error));
+  }, [activeDbName, isLoading, dbError, isTempStorageMode]);
+
+  // Saved views and the manual order belong to the database; its default view is applied once the database is open.
+  useEffect(() => {
+    if (isLoading) return;
+    setSavedViews(NO_SAVED_VIEWS);
+    setEventOrder(NO_EVENT_ORDER);
+    if (dbError || isTempStorageMode || activeDbName === DEMO_DB_NAME) return;
+    let isCancelled = false;
+    getMetadata(activeDbName, SAVED_VIEWS_KEY)
+        .then(value => {
+            if (isCancelled) return;
+            const saved = readSavedViews(value);
+            setSavedViews(saved);
+            const defaultView = saved.views.find(view => view.id === saved.defaultViewId);
+            if (defaultView) applySavedView(defaultView);
+        })
+        .catch(error => console.warn("读取已保存的视图失败:", error));
+    getMetadata(activeDbName, EVENT_ORDER_KEY)
+        .then(value => { if (!isCancelled) setEventOrder(readEventOrder(value)); })
+        .catch(error => console.warn("读取事件顺序失败:", error));
+    return () => { isCancelled = true; };
+  }, [activeDbName, isLoading, dbError, isTempStorageMode]);
   
 
   // Centralized effect to handle auto-dismissing snackbars
@@ -940,62 +1079,140 @@ const App: React.FC = () => {
     };
   }, [dbStatus, windowWidth]);
   
-  const handleStatusFilterChange = (status: 'all' | 'in-progress' | 'completed') => {
+  const handleStatusFilterChange = (status: 'all' | LifecycleStatus) => {
     setActiveFilters(prev => ({ ...prev, status }));
   };
 
   const handleTagFilterChange = (tag: string) => {
-    setActiveFilters(prev => {
-      const newTags = new Set(prev.tags);
-      if (newTags.has(tag)) newTags.delete(tag);
-      else newTags.add(tag);
-      return { ...prev, tags: Array.from(newTags) };
-    });
+    setActiveFilters(prev => cycleTagFilter(prev, tag));
+  };
+
+  const handleTagMatchModeChange = (tagMatchMode: TagMatchMode) => {
+    setActiveFilters(prev => ({ ...prev, tagMatchMode }));
+  };
+
+  const handleUntaggedOnlyChange = (untaggedOnly: boolean) => {
+    setActiveFilters(prev => setUntaggedOnly(prev, untaggedOnly));
   };
 
   const handleResetTagFilters = () => {
-    setActiveFilters(prev => ({ ...prev, tags: [] }));
+    setActiveFilters(prev => ({ ...prev, tags: [], excludedTags: [], untaggedOnly: false }));
+  };
+
+  const handleMediaTypeFilterChange = (mediaType: MediaType | null) => {
+    setActiveFilters(prev => ({ ...prev, mediaType }));
+  };
+
+  const currentViewState: ViewState = { filters: activeFilters, searchQuery, sortOrder };
+  const activeViewId = savedViews.views.find(view => isViewApplied(view, currentViewState))?.id ?? null;
+  // Saved views and the manual order only last for the session in temporary storage and the demo database.
+  const canPersistListSettings = !dbError && !isTempStorageMode && activeDbName !== DEMO_DB_NAME;
+
+  const applySavedView = (view: SavedView) => {
+    setActiveFilters(view.filters);
+    setSearchQuery(view.searchQuery);
+    setSortOrder(view.sortOrder);
+  };
+
+  const updateSavedViews = (next: SavedViews) => {
+    setSavedViews(next);
+    if (!canPersistListSettings) return;
+    saveMetadata(activeDbName, SAVED_VIEWS_KEY, next).catch(error => {
+        console.error("保存视图失败:", error);
+        showActionNotification('视图保存失败');
+    });
+  };
+
+  const handleCreateSavedView = (name: string) => {
+    updateSavedViews({ ...savedViews, views: [...savedViews.views, createSavedView(name, currentViewState)] });
+    if (savedViewsModal === 'save') setSavedViewsModal(null);
+  };
+
+  const handleRenameSavedView = (id: string, name: string): boolean => {
+    if (!name || savedViews.views.some(view => view.name === name && view.id !== id)) return false;
+    updateSavedViews({ ...savedViews, views: savedViews.views.map(view => view.id === id ? { ...view, name } : view) });
+    return true;
+  };
+
+  const updateEventOrder = (next: EventOrder) => {
+    setEventOrder(next);
+    if (!canPersistListSettings) return;
+    saveMetadata(activeDbName, EVENT_ORDER_KEY, next).catch(error => {
+        console.error("保存事件顺序失败:", error);
+        showActionNotification('事件顺序保存失败');
+    });
+  };
+
+  const handleTogglePinned = (event: Event) => {
+    updateEventOrder(togglePinned(eventOrder, event.id));
+  };
+
+  const handleReorderEvents = (ids: string[], target: EventDropTarget) => {
+    updateEventOrder(moveEvents(eventOrder, events, ids, target));
+    setSelectedEventIds(new Set());
   };
 
+  const eventGridRef = useRef<HTMLDivElement>(null);
+  const gridReorder = useDragReorder<{ ids: string[] }, EventDropTarget>(
+    (clientX, clientY, _payload, draggedIds) => eventGridRef.current ? findDropPosition(eventGridRef.current, clientX, clientY, draggedIds) : null,
+    (payload, target) => handleReorderEvents(payload.ids, target)
+  );
+
+  const availableMediaTypes = useMemo(() => [...new Set(events.map(event => event.mediaType))], [events]);
+
+  const parsedSearchQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  const searchIndexRef = useRef<SearchIndex>(new Map());
+  const searchIndex = useMemo(() => {
+    searchIndexRef.current = updateSearchIndex(searchIndexRef.current, events);
+    return searchIndexRef.current;
+  }, [events]);
+
+  // An invalid query leaves the list alone while it is being typed; the search box shows the error.
+  const searchResults = useMemo(
+    () => parsedSearchQuery.node ? searchEvents(searchIndex, parsedSearchQuery.node) : null,
+    [searchIndex, parsedSearchQuery]
+  );
+
   const filteredEvents = useMemo(() => {
     let processedEvents = [...events];
-    if (searchQuery.trim() !== '') {
-      const lowercasedQuery = searchQuery.toLowerCase();
-      processedEvents = processedEvents.filter(event =>
-        event.title.toLowerCase().includes(lowercasedQuery) ||
-        event.description.toLowerCase().includes(lowercasedQuery)
-      );
+    if (searchResults) {
+      processedEvents = processedEvents.filter(event => searchResults.has(event.id));
     }
     if (activeFilters.status !== 'all') {
-      processedEvents = processedEvents.filter(event => {
-        const totalSteps = event.steps.length;
-        if (totalSteps === 0) return activeFilters.status === 'in-progress';
-        const completedSteps = event.steps.filter(step => step.completed).length;
-        if (activeFilters.status === 'in-progress') return completedSteps < totalSteps;
-        if (activeFilters.status === 'completed') return completedSteps === totalSteps;
-        return false;
-      });
+      processedEvents = processedEvents.filter(event => getLifecycleStatus(event) === activeFilters.status);
+    }
+    if (hasTagFilter(activeFilters)) {
+      processedEvents = processedEvents.filter(event => matchesTagFilter(event, activeFilters));
     }
-    if (activeFilters.tags.length > 0) {
-      processedEvents = processedEvents.filter(event =>
-        activeFilters.tags.every(tag => event.tags?.includes(tag))
-      );
+    if (activeFilters.mediaType) {
+      processedEvents = processedEvents.filter(event => event.mediaType === activeFilters.mediaType);
     }
     const getProgress = (event: Event) => {
       if (event.steps.length === 0) return 0;
       return (event.steps.filter(s => s.completed).length / event.steps.length) * 100;
     };
-    return [...processedEvents].sort((a, b) => {
+    const compareManually = createManualComparator(eventOrder);
+    const sortedEvents = [...processedEvents].sort((a, b) => {
       switch (sortOrder) {
         case 'createdAt-asc': return a.createdAt.getTime() - b.createdAt.getTime();
         case 'title-asc': return a.title.localeCompare(b.title);
         case 'title-desc': return b.title.localeCompare(a.title);
         case 'progress-asc': return getProgress(a) - b.createdAt.getTime();
         case 'progress-desc': return getProgress(b) - getProgress(a);
+        case 'status-asc': return compareLifecycleStatus(a, b) || b.createdAt.getTime() - a.createdAt.getTime();
+        // Unrated events come last either way.
+        case 'rating-desc': return (b.rating ?? 0) - (a.rating ?? 0);
+        case 'rating-asc': return (a.rating ?? Infinity) - (b.rating ?? Infinity);
+        case 'manual': return compareManually(a, b);
         default: return b.createdAt.getTime() - a.createdAt.getTime();
       }
     });
-  }, [events, activeFilters, searchQuery, sortOrder]);
+    // Better matches first; the chosen order still applies among equally good ones.
+    if (searchResults) sortedEvents.sort((a, b) => searchResults.get(b.id)!.score - searchResults.get(a.id)!.score);
+    if (eventOrder.pinned.length > 0) sortedEvents.sort(createPinnedComparator(eventOrder));
+    return sortedEvents;
+  }, [events, activeFilters, searchResults, sortOrder, eventOrder]);
 
   const gridConfig = useMemo(() => {
     // This logic is explicitly designed to match the discrete options in SettingsModal.
@@ -1032,33 +1249,33 @@ const App: React.FC = () => {
     }, 300);
   };
   
-  const handleUpdateEvent = (updatedEvent: Event, originalImage?: File | 'remove') => {
-    const isImageChanged = originalImage || updatedEvent.imageUrl !== eventToEdit?.imageUrl;
+  /** `files` are the blobs the update adds: a new original image (or its removal), cover renditions and attachment files. */
+  const handleUpdateEvent = (updatedEvent: Event, files: { originalImage?: File | 'remove'; coverImage?: CoverRenditions; attachmentFiles?: AttachmentFiles } = {}) => {
+    const { originalImage, coverImage, attachmentFiles } = files;
+    const previousEvent = events.find(e => e.id === updatedEvent.id);
+    const isImageChanged = originalImage || updatedEvent.coverImageId !== previousEvent?.coverImageId || updatedEvent.imageUrl !== previousEvent?.imageUrl;
     const finalEvent = {
         ...updatedEvent,
-        hasOriginalImage: isImageChanged ? originalImage instanceof File : (eventToEdit?.hasOriginalImage || false),
+        hasOriginalImage: isImageChanged ? originalImage instanceof File : (previousEvent?.hasOriginalImage || false),
+        ...(previousEvent && applyStepChanges(previousEvent, updatedEvent.steps)),
     };
 
     // Add new tags to global list
     const updatedTags = finalEvent.tags || [];
     const newTagsToCreate = updatedTags.filter(tag => !customTags.includes(tag));
-    newTagsToCreate.forEach(tag => handleAddTag(tag));
+    newTagsToCreate.forEach(tag => handleAddTag(tag, false));
     if (newTagsToCreate.length > 0) {
         const tempMessage = (isLoading || isTempStorageMode || dbError) ? ' (已临时保存)' : '';
         showActionNotification(`已添加新标签: ${newTagsToCreate.join(', ')}${tempMessage}`);
     }
 
+    const updateAction: PendingAction = { type: 'UPDATE_EVENT', payload: { event: finalEvent, originalImage, ...(coverImage && { coverImage }), ...(attachmentFiles && { attachmentFiles }) } };
+    recordHistory('编辑事件', [...newTagsToCreate.map((tag): PendingAction => ({ type: 'ADD_TAG', payload: tag })), updateAction]);
+    setEvents(prev => prev.map(e => e.id === finalEvent.id ? finalEvent : e));
+    // Earlier updates of the same event stay queued: they may carry an original image, a cover or attachment files.
+    setPendingActions(prev => [...prev, updateAction]);
     if (isLoading || isTempStorageMode || dbError) {
-        setEvents(prev => prev.map(e => e.id === finalEvent.id ? finalEvent : e));
-        setPendingActions(prev => [...prev.filter(a => !(a.type === 'UPDATE_EVENT' && a.payload.event.id === finalEvent.id)), { type: 'UPDATE_EVENT', payload: { event: finalEvent, originalImage } }]);
         showActionNotification('更新已临时保存');
-    } else {
-        setEvents(events.map(e => e.id === finalEvent.id ? finalEvent : e));
-         if (originalImage instanceof File) {
-            saveDataInStoreByKey(activeDbName, STORES.originalImages, originalImage, finalEvent.id);
-        } else if (originalImage === 'remove') {
-            deleteDataFromStoreByKey(activeDbName, STORES.originalImages, finalEvent.id);
-        }
     }
     if (selectedEvent?.id === finalEvent.id) {
         setSelectedEvent(finalEvent);
@@ -1068,11 +1285,15 @@ const App: React.FC = () => {
     if (eventForStepsEditor?.id === finalEvent.id) setEventForStepsEditor(finalEvent);
   };
 
-  const handleUpdateEventSteps = (eventId: string, newSteps: ProgressStep[]) => {
+  const handleUpdateEventSteps = (eventId: string, newSteps: ProgressStep[], newStepGroups?: StepGroup[]) => {
+      // Queued step updates of an event replace each other, so each one carries the groups as well.
+      const previousEvent = events.find(e => e.id === eventId);
+      const stepGroups = newStepGroups ?? previousEvent?.stepGroups;
+      const { steps, activityLog } = previousEvent ? applyStepChanges(previousEvent, newSteps) : { steps: newSteps, activityLog: undefined };
       const updateLogic = (prevEvents: Event[]) => {
           return prevEvents.map(e => {
               if (e.id === eventId) {
-                  const updatedEvent = { ...e, steps: newSteps };
+                  const updatedEvent = { ...e, steps, ...(stepGroups && { stepGroups }), ...(activityLog && { activityLog }) };
                   if (selectedEvent?.id === eventId) setSelectedEvent(updatedEvent);
                   if (eventForStepsEditor?.id === eventId) setEventForStepsEditor(updatedEvent);
                   return updatedEvent;
@@ -1080,52 +1301,60 @@ const App: React.FC = () => {
               return e;
           });
       };
+      const stepsAction: PendingAction = { type: 'UPDATE_EVENT_STEPS', payload: { eventId, steps, ...(stepGroups && { stepGroups }), ...(activityLog && { activityLog }) } };
+      recordHistory('更新步骤', [stepsAction]);
+      setEvents(updateLogic);
+      setPendingActions(prev => [...prev.filter(a => !(a.type === 'UPDATE_EVENT_STEPS' && a.payload.eventId === eventId)), stepsAction]);
       if (isLoading || isTempStorageMode || dbError) {
-          setEvents(updateLogic);
-          setPendingActions(prev => [...prev.filter(a => !(a.type === 'UPDATE_EVENT_STEPS' && a.payload.eventId === eventId)), { type: 'UPDATE_EVENT_STEPS', payload: { eventId, steps: newSteps } }]);
           showActionNotification('步骤更新已临时保存');
-      } else {
-          setEvents(updateLogic);
       }
   };
 
-  const handleImageSelected = async (file: File | null) => {
-    setNewEventOriginalImage(file);
+  // A chosen image only becomes the cover once it has been cropped.
+  const handleImageSelected = (file: File | null) => {
     if (file?.type.startsWith('image/')) {
-      setIsProcessingImage(true);
-      try {
-        const resizedImage = await resizeImage(file, { maxWidth: 1920, maxHeight: 1080, quality: 0.8 });
-        setNewEventImage(resizedImage);
-      } catch (error) {
-        console.error("图片处理失败", error);
-        setNotification({
-          type: 'error',
-          title: '图片处理失败',
-          message: '无法处理您选择的图片文件。请尝试其他图片。'
-        });
-        setNewEventOriginalImage(null);
-      } finally {
-        setIsProcessingImage(false);
-      }
+      setCoverCropFile(file);
+      setIsCoverCropOpen(true);
     } else {
-        setNewEventImage(null);
+      setNewEventOriginalImage(file);
+      setNewEventCover(null);
+      setNewEventCoverCrop(null);
+    }
+  };
+
+  const handleCoverCropConfirm = async (crop: CoverCrop, focalPoint: FocalPoint) => {
+    setIsCoverCropOpen(false);
+    if (!coverCropFile) return;
+    setIsProcessingImage(true);
+    try {
+      setNewEventCover(await createCoverRenditions(coverCropFile, crop));
+      setNewEventOriginalImage(coverCropFile);
+      setNewEventCoverCrop({ crop, focalPoint });
+    } catch (error) {
+      console.error("图片处理失败", error);
+      setNotification({
+        type: 'error',
+        title: '图片处理失败',
+        message: '无法处理您选择的图片文件。请尝试其他图片。'
+      });
+    } finally {
+      setIsProcessingImage(false);
     }
   };
 
   const closeAddEventModal = () => {
-    setNewEventTitle(''); setNewEventDescription(''); setNewEventImage(null); setNewEventTags([]); setNewEventOriginalImage(null);
+    setNewEventTitle(''); setNewEventDescription(''); setNewEventCover(null); setNewEventCoverCrop(null); setNewEventTags([]); setNewEventOriginalImage(null);
+    setNewEventMediaType(DEFAULT_MEDIA_TYPE); setNewEventMediaMetadata({});
     setAddEventModalOpen(false);
   };
 
-  const handleAddTag = (tag: string) => {
+  // `recordInHistory` is false when the tag is added as part of a larger change that records its own entry.
+  const handleAddTag = (tag: string, recordInHistory = true) => {
     if (!customTags.includes(tag)) {
-        if (isLoading || isTempStorageMode || dbError) {
-            setCustomTags(prev => [...prev, tag]);
-            setPendingActions(prev => [...prev, { type: 'ADD_TAG', payload: tag }]);
-            // showActionNotification('标签已临时添加');
-        } else {
-            setCustomTags(prev => [...prev, tag]);
-        }
+        const addAction: PendingAction = { type: 'ADD_TAG', payload: tag };
+        if (recordInHistory) recordHistory('添加标签', [addAction]);
+        setCustomTags(prev => [...prev, tag]);
+        setPendingActions(prev => [...prev, addAction]);
     }
   };
 
@@ -1134,7 +1363,7 @@ const App: React.FC = () => {
 
     // Add new tags to global list
     const newTagsToCreate = newEventTags.filter(tag => !customTags.includes(tag));
-    newTagsToCreate.forEach(tag => handleAddTag(tag));
+    newTagsToCreate.forEach(tag => handleAddTag(tag, false));
     if (newTagsToCreate.length > 0) {
       const tempMessage = (isLoading || isTempStorageMode || dbError) ? ' (已临时保存)' : '';
       showActionNotification(`已添加新标签: ${newTagsToCreate.join(', ')}${tempMessage}`);
@@ -1142,22 +1371,43 @@ const App: React.FC = () => {
 
     const newEvent: Event = {
         id: `event-${Date.now()}`, title: newEventTitle, description: newEventDescription,
-        createdAt: new Date(), steps: [], imageUrl: newEventImage || undefined, tags: newEventTags,
+        createdAt: new Date(), steps: [], tags: newEventTags,
+        ...(newEventCover && { coverImageId: generateCoverImageId() }),
+        ...(newEventCoverCrop && { coverCrop: newEventCoverCrop.crop, coverFocalPoint: newEventCoverCrop.focalPoint }),
         hasOriginalImage: !!newEventOriginalImage,
+        mediaType: newEventMediaType, mediaMetadata: normalizeMediaMetadata(newEventMediaType, newEventMediaMetadata),
     };
+    const addAction: PendingAction = { type: 'ADD_EVENT', payload: { event: newEvent, originalImage: newEventOriginalImage || undefined, ...(newEventCover && { coverImage: newEventCover }) } };
+    recordHistory('添加事件', [...newTagsToCreate.map((tag): PendingAction => ({ type: 'ADD_TAG', payload: tag })), addAction]);
+    setEvents(prev => [newEvent, ...prev]);
+    setPendingActions(prev => [...prev, addAction]);
     if (isLoading || isTempStorageMode || dbError) {
-        setEvents(prev => [newEvent, ...prev]);
-        setPendingActions(prev => [...prev, { type: 'ADD_EVENT', payload: { event: newEvent, originalImage: newEventOriginalImage || undefined } }]);
         showActionNotification('事件已临时保存');
-    } else {
-        setEvents([newEvent, ...events]);
-        if (newEventOriginalImage) {
-            saveDataInStoreByKey(activeDbName, STORES.originalImages, newEventOriginalImage, newEvent.id);
-        }
     }
     closeAddEventModal();
   };
   
+  const handleImportTextEvents = (parsedEvents: ParsedTextEvent[]) => {
+    const now = Date.now();
+    const newEvents: Event[] = parsedEvents.map((parsed, i) => ({
+        id: `event-${now}-${i}`, title: parsed.title, description: parsed.description,
+        createdAt: new Date(), tags: parsed.tags, mediaType: newEventMediaType,
+        steps: parsed.steps.map((step, j) => ({ id: `step-${now}-${i}-${j}`, description: step.description, timestamp: new Date(), completed: step.completed })),
+    }));
+    const newTagsToCreate = [...new Set(parsedEvents.flatMap(e => e.tags))].filter(tag => !customTags.includes(tag));
+    const actions: PendingAction[] = [
+        ...newTagsToCreate.map((tag): PendingAction => ({ type: 'ADD_TAG', payload: tag })),
+        // ADD_EVENT prepends, so the first event of the text ends up first.
+        ...[...newEvents].reverse().map((event): PendingAction => ({ type: 'ADD_EVENT', payload: { event } })),
+    ];
+    recordHistory('导入清单', actions);
+    applyHistoryActions(actions);
+    setIsTextImportOpen(false);
+    closeAddEventModal();
+    const tempMessage = (isLoading || isTempStorageMode || dbError) ? ' (已临时保存)' : '';
+    showActionNotification(`已添加 ${newEvents.length} 个事件${tempMessage}`, 'undo');
+  };
+
   const handleDeleteTags = (tagsToDelete: string[]) => {
     const deleteSet = new Set(tagsToDelete);
     const updateState = (currentEvents: Event[], currentTags: string[]) => {
@@ -1165,18 +1415,18 @@ const App: React.FC = () => {
         const newEvents = currentEvents.map(e => ({ ...e, tags: e.tags?.filter(t => !deleteSet.has(t)) }));
         return { newEvents, newTags };
     };
-    if (isLoading || isTempStorageMode || dbError) {
-        const { newEvents, newTags } = updateState(events, customTags);
-        setEvents(newEvents);
-        setCustomTags(newTags);
-        setPendingActions(prev => [...prev, { type: 'DELETE_TAGS', payload: tagsToDelete }]);
-        showActionNotification('标签删除已暂存');
-    } else {
-        const { newEvents, newTags } = updateState(events, customTags);
-        setEvents(newEvents);
-        setCustomTags(newTags);
+    const deleteAction: PendingAction = { type: 'DELETE_TAGS', payload: tagsToDelete };
+    recordHistory('删除标签', [deleteAction]);
+    const { newEvents, newTags } = updateState(events, customTags);
+    setEvents(newEvents);
+    setCustomTags(newTags);
+    setPendingActions(prev => [...prev, deleteAction]);
+    const tempMessage = (isLoading || isTempStorageMode || dbError) ? ' (已暂存)' : '';
+    showActionNotification(`已删除 ${tagsToDelete.length} 个标签${tempMessage}`, 'undo');
+    setActiveFilters(prev => mapFilterTags(prev, tags => tags.filter(t => !deleteSet.has(t))));
+    if (savedViews.views.some(view => [...view.filters.tags, ...view.filters.excludedTags].some(t => deleteSet.has(t)))) {
+        updateSavedViews(removeTagsFromSavedViews(savedViews, deleteSet));
     }
-    setActiveFilters(prev => ({ ...prev, tags: prev.tags.filter(t => !deleteSet.has(t)) }));
   };
 
   const handleRenameTag = (oldTag: string, newTag: string): boolean => {
@@ -1189,60 +1439,295 @@ const App: React.FC = () => {
         return { newEvents, newTags };
     };
 
+    const renameAction: PendingAction = { type: 'RENAME_TAG', payload: { oldTag, newTag } };
+    recordHistory('重命名标签', [renameAction]);
+    const { newEvents, newTags } = updateState(events, customTags);
+    setEvents(newEvents);
+    setCustomTags(newTags);
+    setPendingActions(prev => [...prev, renameAction]);
     if (isLoading || isTempStorageMode || dbError) {
-        const { newEvents, newTags } = updateState(events, customTags);
-        setEvents(newEvents);
-        setCustomTags(newTags);
-        setPendingActions(prev => [...prev, { type: 'RENAME_TAG', payload: { oldTag, newTag } }]);
         showActionNotification('标签重命名已暂存');
-    } else {
-        const { newEvents, newTags } = updateState(events, customTags);
-        setEvents(newEvents);
-        setCustomTags(newTags);
     }
-    setActiveFilters(prev => ({ ...prev, tags: prev.tags.map(t => t === oldTag ? newTag : t) }));
+    setActiveFilters(prev => mapFilterTags(prev, tags => tags.map(t => t === oldTag ? newTag : t)));
+    if (savedViews.views.some(view => view.filters.tags.includes(oldTag) || view.filters.excludedTags.includes(oldTag))) {
+        updateSavedViews(renameTagInSavedViews(savedViews, oldTag, newTag));
+    }
     return true;
   };
 
   const handleReorderTags = (reorderedTags: string[]) => {
+    const reorderAction: PendingAction = { type: 'REORDER_TAGS', payload: reorderedTags };
+    recordHistory('调整标签顺序', [reorderAction]);
+    setCustomTags(reorderedTags);
+    setPendingActions(prev => [...prev, reorderAction]);
     if (isLoading || isTempStorageMode || dbError) {
-        setCustomTags(reorderedTags);
-        setPendingActions(prev => [...prev, { type: 'REORDER_TAGS', payload: reorderedTags }]);
         showActionNotification('标签排序已暂存');
-    } else {
-        setCustomTags(reorderedTags);
     }
   };
 
+  const handleStepTemplatesChange = (templates: StepTemplate[]) => {
+    const templatesAction: PendingAction = { type: 'UPDATE_STEP_TEMPLATES', payload: templates };
+    recordHistory('更新步骤归档', [templatesAction]);
+    setStepTemplates(templates);
+    setPendingActions(prev => [...prev, templatesAction]);
+  };
+
+  const handleStepSetTemplatesChange = (sets: StepSetTemplate[]) => {
+    const setsAction: PendingAction = { type: 'UPDATE_STEP_SET_TEMPLATES', payload: sets };
+    recordHistory('更新步骤模板', [setsAction]);
+    setStepSetTemplates(sets);
+    setPendingActions(prev => [...prev, setsAction]);
+  };
+
+  const findOriginalImage = async (eventId: string): Promise<File | undefined> => {
+    // The newest queued image change wins; otherwise the image is already in the database.
+    for (let i = pendingActions.length - 1; i >= 0; i--) {
+        const action = pendingActions[i];
+        if ((action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') && action.payload.event.id === eventId && action.payload.originalImage) {
+            return action.payload.originalImage instanceof File ? action.payload.originalImage : undefined;
+        }
+    }
+    if (isTempStorageMode || activeDbName === DEMO_DB_NAME) return undefined;
+    return getDataFromStoreByKey(activeDbName, STORES.originalImages, eventId);
+  };
+
+  const loadCoverImage = async (coverImageId: string, rendition: CoverRendition): Promise<Blob | undefined> => {
+    const renditions = findQueuedCoverImage(pendingActions, coverImageId)
+        ?? (isTempStorageMode || activeDbName === DEMO_DB_NAME ? undefined : await getDataFromStoreByKey(activeDbName, STORES.coverImages, coverImageId) as CoverRenditions | undefined);
+    return renditions && pickCoverRendition(renditions, rendition);
+  };
+
+  const findAttachmentFile = async (attachmentId: string): Promise<File | undefined> => {
+    const queued = findQueuedAttachmentFile(pendingActions, attachmentId);
+    if (queued || isTempStorageMode || activeDbName === DEMO_DB_NAME) return queued;
+    return getDataFromStoreByKey(activeDbName, STORES.attachments, attachmentId);
+  };
+
+  const handleAddAttachments = (event: Event, files: File[], stepId?: string) => {
+    const accepted = files.filter(file => file.size <= MAX_ATTACHMENT_SIZE);
+    if (accepted.length < files.length) {
+      setNotification({
+        type: 'error',
+        title: '部分文件未添加',
+        message: `单个附件不能超过 ${formatFileSize(MAX_ATTACHMENT_SIZE)}: ${files.filter(file => !accepted.includes(file)).map(file => file.name).join('、')}`,
+      });
+    }
+    if (accepted.length === 0) return;
+    const attachmentFiles: AttachmentFiles = {};
+    const attachments = accepted.map(file => {
+      const attachment = createAttachment(file, stepId);
+      attachmentFiles[attachment.id] = file;
+      return attachment;
+    });
+    handleUpdateEvent({ ...event, attachments: [...(event.attachments ?? []), ...attachments] }, { attachmentFiles });
+    showActionNotification(`已添加 ${attachments.length} 个附件`, 'undo');
+  };
+
+  const handleSetCoverFromAttachment = async (event: Event, attachment: Attachment) => {
+    try {
+      const file = await findAttachmentFile(attachment.id);
+      if (!file) throw new Error('附件文件不存在');
+      const coverImage = await createCoverRenditions(file);
+      handleUpdateEvent({ ...event, imageUrl: undefined, coverImageId: generateCoverImageId(), coverCrop: undefined, coverFocalPoint: undefined }, { originalImage: file, coverImage });
+      showActionNotification('已设为封面', 'undo');
+    } catch (error) {
+      console.error("设置封面失败:", error);
+      setNotification({ type: 'error', title: '设置封面失败', message: '无法读取或处理此图片。' });
+    }
+  };
+
+  /** Attachment files and cover images an event, the trash or the undo history may still need are kept. */
+  const sweepAttachments = () => {
+    const keepAttachmentIds = collectAttachmentIds(events);
+    const keepCoverImageIds = collectCoverImageIds(events);
+    [...history.undo, ...history.redo].forEach(entry => {
+        [entry.actions, entry.inverse].forEach(actions => {
+            collectActionAttachmentIds(actions, keepAttachmentIds);
+            collectActionCoverImageIds(actions, keepCoverImageIds);
+        });
+    });
+    return Promise.all([
+        deleteUnreferencedFiles(activeDbName, STORES.attachments, collectAttachmentIds, keepAttachmentIds),
+        deleteUnreferencedFiles(activeDbName, STORES.coverImages, collectCoverImageIds, keepCoverImageIds),
+    ])
+        .then(([attachments, coverImages]) => {
+            if (attachments > 0) console.info(`已清理 ${attachments} 个不再使用的附件。`);
+            if (coverImages > 0) console.info(`已清理 ${coverImages} 张不再使用的封面。`);
+        })
+        .catch(error => console.warn("清理附件失败:", error));
+  };
+
+  /** Records `actions` (not yet applied) as one undoable step. */
+  const recordHistory = (label: string, actions: PendingAction[]) => {
+    const { entry, replacedImageIds } = createHistoryEntry(label, { events, tags: customTags, stepTemplates, stepSetTemplates }, actions);
+    setHistory(prev => ({ undo: [...prev.undo, entry].slice(-HISTORY_LIMIT), redo: [] }));
+    // Read before the delete is synced, so undo can put the original image back.
+    replacedImageIds.forEach(id => {
+        findOriginalImage(id)
+            .then(image => { if (image) entry.originalImages.set(id, image); })
+            .catch(error => console.warn("读取原图失败:", error));
+    });
+  };
+
+  // Undo and redo are queued as new actions, so they go through the same sync as any other change.
+  const applyHistoryActions = (actions: PendingAction[]) => {
+    const next = applyPendingActions({ events, tags: customTags, stepTemplates, stepSetTemplates }, actions);
+    setEvents(next.events);
+    setCustomTags(next.tags);
+    setStepTemplates(next.stepTemplates);
+    setStepSetTemplates(next.stepSetTemplates);
+    setPendingActions(prev => [...prev, ...actions]);
+    setActiveFilters(prev => mapFilterTags(prev, tags => tags.filter(t => next.tags.includes(t))));
+
+    if (selectedEvent) {
+        const updated = next.events.find(e => e.id === selectedEvent.id);
+        if (updated) {
+            setSelectedEvent(updated);
+        } else {
+            setSelectedEvent(null);
+            setDetailViewPlaceholder('您正在查看的事件已被删除。');
+        }
+    }
+    if (eventForStepsEditor) {
+        const updated = next.events.find(e => e.id === eventForStepsEditor.id);
+        if (updated) setEventForStepsEditor(updated);
+        else setIsStepsEditorOpen(false);
+    }
+  };
+
+  // The activity log is append-only: rolling steps back or forth adds entries instead of restoring an older log.
+  const handleUndo = () => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    applyHistoryActions(stampStepActivity({ events, tags: customTags, stepTemplates, stepSetTemplates }, prepareHistoryActions(entry.inverse, entry.originalImages)));
+    setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }));
+    showActionNotification(`已撤销: ${entry.label}`, 'redo');
+  };
+
+  const handleRedo = () => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    applyHistoryActions(stampStepActivity({ events, tags: customTags, stepTemplates, stepSetTemplates }, prepareHistoryActions(entry.actions, new Map())));
+    setHistory(prev => ({ undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }));
+    showActionNotification(`已重做: ${entry.label}`, 'undo');
+  };
+
+  const handleApplyJournals = () => {
+    // Journals of other databases stay listed until their database is opened.
+    const journals = journalsToReview.filter(j => j.dbName === activeDbName);
+    if (journals.length === 0) return;
+    const actions = journals.flatMap(j => j.actions);
+    const replayed = applyPendingActions({ events, tags: customTags, stepTemplates, stepSetTemplates }, actions);
+    setEvents(replayed.events);
+    setCustomTags(replayed.tags);
+    setStepTemplates(replayed.stepTemplates);
+    setStepSetTemplates(replayed.stepSetTemplates);
+    // Queued like any other change, so the sync effect saves them or keeps them temporary.
+    setPendingActions(prev => [...actions, ...prev]);
+    setJournalsToReview(prev => prev.filter(j => j.dbName !== activeDbName));
+    saveJournal(journalSessionId, activeDbName, [...actions, ...pendingActions])
+        .then(() => deleteJournals(journals.map(j => j.sessionId)))
+        .catch(error => console.warn("更新未保存更改日志失败:", error));
+    showActionNotification(`已恢复 ${actions.length} 项更改`);
+  };
+
+  const handleDiscardJournals = () => {
+    // Like applying, discarding leaves the journals of other databases for when they are opened.
+    const journals = journalsToReview.filter(j => j.dbName === activeDbName);
+    deleteJournals(journals.map(j => j.sessionId))
+        .catch(error => console.warn("删除未保存更改日志失败:", error));
+    setJournalsToReview(prev => prev.filter(j => j.dbName !== activeDbName));
+  };
+
   const handleOpenContextMenu = (position: { x: number; y: number }, event: Event) => setContextMenu({ ...position, event });
   const handleCloseContextMenu = () => setContextMenu(null);
 
   const handleDeleteEvent = (eventId: string) => {
-    if (isLoading || isTempStorageMode || dbError) {
-        setEvents(prev => prev.filter(e => e.id !== eventId));
-        setPendingActions(prev => [...prev, { type: 'DELETE_EVENT', payload: eventId }]);
-        showActionNotification('删除操作已暂存');
-    } else {
-        setEvents(prev => prev.filter(e => e.id !== eventId));
-        deleteDataFromStoreByKey(activeDbName, STORES.originalImages, eventId);
-    }
+    const deleteAction: PendingAction = { type: 'DELETE_EVENT', payload: eventId };
+    recordHistory('删除事件', [deleteAction]);
+    setEvents(prev => prev.filter(e => e.id !== eventId));
+    setPendingActions(prev => [...prev, deleteAction]);
+    showActionNotification((isLoading || isTempStorageMode || dbError) ? '删除操作已暂存' : '事件已删除', 'undo');
     if (selectedEvent?.id === eventId) {
         setSelectedEvent(null);
         setDetailViewPlaceholder('您正在查看的事件已被删除。');
     }
   };
 
+  const isTrashAvailable = !isTempStorageMode && activeDbName !== DEMO_DB_NAME && !dbError;
+
+  const refreshTrash = async () => {
+    if (!isTrashAvailable) return;
+    try {
+        const items = await getAllDataFromStore<TrashedEvent>(activeDbName, STORES.trash);
+        setTrashItems(items
+            .map(item => ({ ...item, event: reviveEventDates(item.event), deletedAt: new Date(item.deletedAt) }))
+            .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+    } catch (error) {
+        console.error("读取回收站失败:", error);
+        setTrashItems([]);
+        setNotification({ type: 'error', title: '读取失败', message: '无法读取回收站中的事件。' });
+    }
+  };
+
+  const handleOpenTrash = () => {
+    setIsDbManagerOpen(false);
+    setTrashItems(null);
+    setIsTrashOpen(true);
+    refreshTrash();
+  };
+
+  const handleRestoreFromTrash = (item: TrashedEvent) => {
+    setTrashItems(prev => prev?.filter(i => i.id !== item.id) ?? null);
+    if (events.some(e => e.id === item.id)) return;
+    // Persisting the re-added event also removes it from the trash store.
+    const restoreAction: PendingAction = { type: 'ADD_EVENT', payload: { event: item.event, originalImage: item.originalImage, fromTrash: true } };
+    recordHistory('恢复事件', [restoreAction]);
+    setEvents(prev => [item.event, ...prev]);
+    setPendingActions(prev => [...prev, restoreAction]);
+    showActionNotification(`已恢复「${item.event.title}」`, 'undo');
+  };
+
+  const handleDeleteTrashPermanently = async (ids: string[] | 'all') => {
+    try {
+        await deleteTrashedEvents(activeDbName, ids);
+        showActionNotification(ids === 'all' ? '回收站已清空' : '事件已永久删除');
+        sweepAttachments();
+    } catch (error) {
+        console.error("永久删除失败:", error);
+        setNotification({ type: 'error', title: '删除失败', message: '无法从回收站中删除事件。' });
+    }
+    refreshTrash();
+  };
+
   const handleOpenStepsEditor = (event: Event) => {
     setEventForStepsEditor(event); setIsStepsEditorOpen(true);
   };
   
-  const handleExportData = async () => {
+  const handleExportData = async (format: 'json' | 'archive' | TextExportFormat = 'json', scope: ExportScope = 'all') => {
+    const dbNameToExport = isTempStorageMode ? 'temp-session' : activeDbName.replace(`${DB_PREFIX}-`, '');
+    const dateSuffix = new Date().toISOString().split('T')[0];
+
+    // Text exports are reports of what is on screen, so they read the in-memory state and may use the demo database.
+    if (format === 'csv' || format === 'markdown') {
+        const eventsToExport = scope === 'filtered' ? filteredEvents
+            : scope === 'selected' ? events.filter(e => selectedEventIds.has(e.id))
+            : events;
+        const blob = format === 'csv'
+            ? new Blob([eventsToCsv(eventsToExport)], { type: 'text/csv;charset=utf-8' })
+            : new Blob([eventsToMarkdown(eventsToExport, `${getDisplayName(activeDbName)} 进度`)], { type: 'text/markdown;charset=utf-8' });
+        downloadBlob(blob, `essenmelia_${dbNameToExport}_${dateSuffix}.${format === 'csv' ? 'csv' : 'md'}`);
+        setTextExport(null);
+        showActionNotification(`已导出 ${eventsToExport.length} 个事件`);
+        return;
+    }
+
     if (activeDbName === DEMO_DB_NAME && !isTempStorageMode) {
         setNotification({ type: 'error', title: '导出受限', message: '无法导出演示数据库。' });
         return;
     }
     try {
-        let exportDataPayload;
+        let exportDataPayload: AppData;
         if (isTempStorageMode || dbError) {
              exportDataPayload = {
                 events: events,
@@ -1260,107 +1745,108 @@ const App: React.FC = () => {
             exportDataPayload = { events: eventsData, tags: tagsData, stepTemplates: stepTemplatesData, stepSetTemplates: stepSetTemplatesData };
         }
 
-        const exportData = { version: 1, exportedAt: new Date().toISOString(), data: exportDataPayload };
-        const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: "application/json" });
-        const a = document.createElement('a');
-        a.href = URL.createObjectURL(blob);
-        const dbNameToExport = isTempStorageMode ? 'temp-session' : activeDbName.replace(`${DB_PREFIX}-`, '');
-        a.download = `essenmelia_backup_${dbNameToExport}_${new Date().toISOString().split('T')[0]}.json`;
-        a.click();
-        URL.revokeObjectURL(a.href);
-        a.remove();
+        // Covers are inlined again, so the document stands on its own.
+        exportDataPayload = { ...exportDataPayload, events: await inlineCoverImages(exportDataPayload.events, loadCoverImage) };
+        const exportData = { version: BACKUP_DOCUMENT_VERSION, exportedAt: new Date().toISOString(), data: exportDataPayload };
+        let blob: Blob;
+        if (format === 'archive') {
+            let originalImages: Map<string, File>;
+            let attachments: Map<string, File>;
+            let metadata: Record<string, unknown>;
+            let appliedMigrations: AppliedMigration[] = [];
+            if (isTempStorageMode || dbError) {
+                // Files only exist in the pending queue (or in a database that cannot be read right now).
+                originalImages = new Map();
+                const images = await Promise.all(events.map(e => findOriginalImage(e.id).catch(() => undefined)));
+                events.forEach((e, index) => { if (images[index]) originalImages.set(e.id, images[index]); });
+                attachments = new Map();
+                const attachmentIds = [...collectAttachmentIds(events)];
+                const files = await Promise.all(attachmentIds.map(id => findAttachmentFile(id).catch(() => undefined)));
+                attachmentIds.forEach((id, index) => { if (files[index]) attachments.set(id, files[index]); });
+                metadata = { [SAVED_VIEWS_KEY]: savedViews, [EVENT_ORDER_KEY]: eventOrder };
+            } else {
+                const referencedIds = collectAttachmentIds(exportDataPayload.events);
+                let metadataRecords: Map<string, unknown>;
+                [originalImages, attachments, metadataRecords, appliedMigrations] = await Promise.all([
+                    getAllFilesFromStore(activeDbName, STORES.originalImages),
+                    // Files only kept for undo or the trash are left out.
+                    getAllFilesFromStore(activeDbName, STORES.attachments)
+                        .then(files => new Map([...files].filter(([id]) => referencedIds.has(id)))),
+                    getAllFilesFromStore<unknown>(activeDbName, STORES.metadata),
+                    getMetadata(activeDbName, APPLIED_MIGRATIONS_KEY).then(value => value || []),
+                ]);
+                // The migration history goes into the manifest; the seeding flag describes this database only.
+                metadata = Object.fromEntries([...metadataRecords].filter(([key]) => key !== APPLIED_MIGRATIONS_KEY && key !== 'isSeeded'));
+            }
+            blob = await createBackupArchive(exportData, originalImages, attachments, metadata, {
+                sourceDb: dbNameToExport,
+                schemaVersion: LATEST_DB_VERSION,
+                appliedMigrations,
+            });
+        } else {
+            blob = new Blob([JSON.stringify(exportData, null, 2)], { type: "application/json" });
+        }
+        downloadBlob(blob, `essenmelia_backup_${dbNameToExport}_${dateSuffix}.${format === 'archive' ? 'zip' : 'json'}`);
         setNotification({ type: 'success', title: '导出成功', message: '您的数据已开始下载。' });
     } catch (error) {
         setNotification({ type: 'error', title: '导出失败', message: `导出数据时发生错误: ${error instanceof Error ? error.message : '未知错误'}` });
     }
   };
 
-  const handleImportRequest = (file: File) => {
+  const handleImportRequest = async (file: File) => {
      if (activeDbName === DEMO_DB_NAME && !isTempStorageMode) {
         setNotification({ type: 'error', title: '导入受限', message: '无法向演示数据库导入数据。' });
         return;
     }
-    setImportFile(file);
+    try {
+        const backup = await readBackupFile(file);
+        // Invalid records are left out here and listed in the preview.
+        const { data, skipped } = validateBackupDocument(backup.document);
+        const { events: incomingEvents, coverImages } = await extractInlineCovers(data.events);
+        setImportMode('merge');
+        setImportPreview({ fileName: file.name, backup, incoming: { ...data, events: incomingEvents }, coverImages, skipped });
+    } catch (error) {
+        setNotification({ type: 'error', title: '导入失败', message: `读取文件时发生错误: ${error instanceof Error ? error.message : '未知错误'}` });
+    }
   };
 
-  const executeImport = async () => {
-    if (!importFile) return;
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-        try {
-            const importedJson = JSON.parse(e.target?.result as string);
-            const { events: iEvents, tags: iTags, stepTemplates: iStepT, stepSetTemplates: iStepSetT } = importedJson.data;
-            if (!iEvents || !iTags || !iStepT || !iStepSetT) throw new Error("文件格式无效。");
-            setImportFile(null);
-
-            // Regenerate all IDs to prevent any conflicts with existing data.
-            const generateNewId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-            const newEvents = iEvents.map((event: Event) => ({
-                ...event,
-                id: generateNewId('event'),
-                // Set creation date to now, making it clear it's newly imported.
-                createdAt: new Date(),
-                steps: event.steps.map(step => ({
-                    ...step,
-                    id: generateNewId('step'),
-                    // Reset timestamps to avoid confusion with old dates.
-                    timestamp: new Date(),
-                }))
-            }));
-
-            const newStepTemplates = iStepT.map((template: StepTemplate) => ({
-                 ...template,
-                 id: generateNewId('template'),
-            }));
-
-            const newStepSetTemplates = iStepSetT.map((set: StepSetTemplate) => ({
-                ...set,
-                id: generateNewId('set'),
-                steps: set.steps.map(step => ({
-                    ...step,
-                    id: generateNewId('set-step'),
-                }))
-            }));
-            
-            const newTags = iTags; // Tags are strings, no IDs.
+  const importDiff = useMemo(
+    () => importPreview ? diffImport({ events, tags: customTags, stepTemplates, stepSetTemplates }, importPreview.incoming, importMode) : null,
+    [importPreview, importMode, events, customTags, stepTemplates, stepSetTemplates]
+  );
 
-            // Merge new data with existing data.
-            const mergedEvents = [...events, ...newEvents.map(reviveEventDates)];
-            const mergedTags = [...new Set([...customTags, ...newTags])];
-            const mergedStepTemplates = [...stepTemplates, ...newStepTemplates];
-            const mergedStepSetTemplates = [...stepSetTemplates, ...newStepSetTemplates];
+  /** Saved views and the manual order of an archive replace the current ones on restore and are added to them on merge. */
+  /** `copiedEventIds` maps backup event ids to the ids of their copies, so the imported order follows the copies. */
+  const importListSettings = (metadata: Record<string, unknown>, copiedEventIds: Map<string, string>) => {
+    if (metadata[SAVED_VIEWS_KEY]) {
+        const incoming = readSavedViews(metadata[SAVED_VIEWS_KEY]);
+        updateSavedViews(importMode === 'restore' ? incoming : mergeSavedViews(savedViews, incoming));
+    }
+    if (metadata[EVENT_ORDER_KEY]) {
+        // Appending copies every event, so an id without a copy belongs to an event that was not in the backup.
+        const incoming = mapEventOrderIds(readEventOrder(metadata[EVENT_ORDER_KEY]), id => copiedEventIds.get(id) ?? (importMode === 'append' ? undefined : id));
+        updateEventOrder(importMode === 'restore' ? incoming : mergeEventOrder(eventOrder, incoming));
+    }
+  };
 
-            if (isTempStorageMode || dbError) {
-                // In a temporary state, just update the local state with merged data.
-                setEvents(mergedEvents);
-                setCustomTags(mergedTags);
-                setStepTemplates(mergedStepTemplates);
-                setStepSetTemplates(mergedStepSetTemplates);
-                setNotification({ type: 'success', title: '数据已添加', message: '数据已成功添加到您的临时会话中。', onConfirm: () => setIsDbManagerOpen(false) });
-            } else {
-                // For a regular DB, insert the new items into IndexedDB.
-                await Promise.all([
-                    insertDataInStore(activeDbName, STORES.events, newEvents),
-                    insertDataInStore(activeDbName, STORES.stepTemplates, newStepTemplates),
-                    insertDataInStore(activeDbName, STORES.stepSetTemplates, newStepSetTemplates),
-                    saveTagsInStore(activeDbName, mergedTags), // Overwrite tags with the full merged list.
-                ]);
+  const executeImport = () => {
+    if (!importPreview) return;
+    const { backup, incoming, coverImages, skipped } = importPreview;
+    setImportPreview(null);
 
-                // Update component state to reflect the merged data.
-                setEvents(mergedEvents);
-                setCustomTags(mergedTags);
-                setStepTemplates(mergedStepTemplates);
-                setStepSetTemplates(mergedStepSetTemplates);
-                
-                setNotification({ type: 'success', title: '数据已添加', message: '数据已成功添加到当前数据库。', onConfirm: () => setIsDbManagerOpen(false) });
-            }
-        } catch (error) {
-            setImportFile(null);
-            setNotification({ type: 'error', title: '导入失败', message: `导入数据时发生错误: ${error instanceof Error ? error.message : '未知错误'}` });
-        }
-    };
-    reader.readAsText(importFile);
+    // Only a full backup archive speaks for the images, so only then may a restore remove them.
+    const { actions, copiedEventIds } = planImport({ events, tags: customTags, stepTemplates, stepSetTemplates }, incoming, importMode, backup.originalImages, !!backup.manifest, backup.attachments, coverImages);
+    if (actions.length === 0) {
+        setNotification({ type: 'success', title: '无需导入', message: '当前数据库已包含此文件中的所有数据。', onConfirm: () => setIsDbManagerOpen(false) });
+        return;
+    }
+    if (backup.metadata) importListSettings(backup.metadata, copiedEventIds);
+    recordHistory('导入数据', actions);
+    applyHistoryActions(actions);
+    const target = (isTempStorageMode || dbError) ? '您的临时会话' : '当前数据库';
+    const message = (importMode === 'restore' ? `${target}已还原为备份中的内容。` : `数据已成功导入到${target}中。`)
+        + (skipped.length > 0 ? `已跳过 ${skipped.length} 条无效记录。` : '');
+    setNotification({ type: 'success', title: importMode === 'restore' ? '数据已还原' : '数据已导入', message, onConfirm: () => setIsDbManagerOpen(false) });
   };
   
   const handleFormatApp = () => {
@@ -1379,7 +1865,7 @@ const App: React.FC = () => {
     dbConnections.forEach(conn => conn.close());
     dbConnections.clear();
 
-    const dbNamesToDelete = [...new Set([SETTINGS_DB_NAME, DEMO_DB_NAME, ...userDbNames])];
+    const dbNamesToDelete = [...new Set([SETTINGS_DB_NAME, DEMO_DB_NAME, JOURNAL_DB_NAME, ...userDbNames])];
     const deletePromises = dbNamesToDelete.map(name => new Promise<void>((resolve, reject) => {
         const req = indexedDB.deleteDatabase(name);
         req.onsuccess = () => resolve();
@@ -1414,7 +1900,7 @@ const App: React.FC = () => {
     setDbError(null);
     setSelectedEvent(null);
     setDetailViewPlaceholder(null);
-    setActiveFilters({ status: 'all', tags: [] });
+    setActiveFilters(DEFAULT_FILTERS);
     setSearchQuery('');
 
     if (targetDbName === TEMP_STORAGE_DB_NAME_EXPORT) {
@@ -1470,7 +1956,7 @@ const App: React.FC = () => {
       setDbError(null);
       setDbStatus({ id: Date.now(), message: '已进入临时模式。切换数据库将丢失当前更改。', type: 'info' });
       setIsDbManagerOpen(false);
-      setActiveFilters({ status: 'all', tags: [] });
+      setActiveFilters(DEFAULT_FILTERS);
       setSearchQuery('');
       return;
     }
@@ -1490,20 +1976,12 @@ const App: React.FC = () => {
 
             const targetDbData = await loadData(newDbName);
             
-            const { processedEvents, processedTags } = applyPendingActions(
-                targetDbData.events.map(reviveEventDates),
-                targetDbData.tags,
+            dataToSet = applyPendingActions(
+                { ...targetDbData, events: targetDbData.events.map(reviveEventDates) },
                 pendingActions
             );
-            
-            await saveDataToDb(newDbName, processedEvents, processedTags, targetDbData.stepTemplates, targetDbData.stepSetTemplates);
+            await persistPendingActions(newDbName, pendingActions, dataToSet);
 
-            dataToSet = {
-                events: processedEvents,
-                tags: processedTags,
-                stepTemplates: targetDbData.stepTemplates,
-                stepSetTemplates: targetDbData.stepSetTemplates,
-            };
             setDbStatus({ id: Date.now(), message: '临时更改已成功合并！', type: 'success' });
 
         } else {
@@ -1528,8 +2006,13 @@ const App: React.FC = () => {
 
         setDbError(null);
         setPendingActions([]);
+
+        // Offer the changes earlier sessions could not save to this database.
+        loadJournals(journalSessionId)
+            .then(journals => setJournalsToReview(journals.filter(j => j.dbName === newDbName)))
+            .catch(error => console.warn("读取未保存更改日志失败:", error));
         
-        setActiveFilters({ status: 'all', tags: [] });
+        setActiveFilters(DEFAULT_FILTERS);
         setSearchQuery('');
 
     } catch (error) {
@@ -1540,7 +2023,9 @@ const App: React.FC = () => {
             title: '数据库连接失败',
             message: `无法连接到数据库 "${getDisplayName(newDbName)}"。您的更改仍然是临时的。`,
         });
-        setDbStatus(null);
+        setDbStatus(error instanceof MigrationError
+            ? { id: Date.now(), message: `数据库升级到版本 ${error.version} 失败。`, type: 'error' }
+            : null);
         setIsDbManagerOpen(true);
     }
   };
@@ -1628,6 +2113,7 @@ const App: React.FC = () => {
   };
   
   const contextMenuActions: ContextMenuAction[] = contextMenu ? [
+    { label: eventOrder.pinned.includes(contextMenu.event.id) ? '取消置顶' : '置顶', icon: <PinIcon className="w-5 h-5" />, onClick: () => handleTogglePinned(contextMenu.event) },
     { label: '编辑', icon: <PencilIcon className="w-5 h-5" />, onClick: () => setEventToEdit(contextMenu.event) },
     { label: '删除', icon: <TrashIcon className="w-5 h-5" />, isDestructive: true, onClick: () => setConfirmDeleteEventId(contextMenu.event.id) }
   ] : [];
@@ -1679,33 +2165,13 @@ const App: React.FC = () => {
 
     const updateEventsState = (prev: Event[]) => prev.filter(e => !idsToDelete.includes(e.id));
     
-    if (isLoading || isTempStorageMode || dbError) {
-        setEvents(updateEventsState);
-        const deleteActions: PendingAction[] = idsToDelete.map(id => ({ type: 'DELETE_EVENT', payload: id }));
-        
-        const filterPendingActions = (actions: PendingAction[]): PendingAction[] => {
-            return actions.filter(a => {
-                switch (a.type) {
-                    case 'DELETE_EVENT':
-                        return !idsToDelete.includes(a.payload);
-                    case 'ADD_EVENT':
-                    case 'UPDATE_EVENT':
-                        return !idsToDelete.includes(a.payload.event.id);
-                    case 'UPDATE_EVENT_STEPS':
-                        return !idsToDelete.includes(a.payload.eventId);
-                    default:
-                        return true;
-                }
-            });
-        };
-        
-        setPendingActions(prev => [...filterPendingActions(prev), ...deleteActions]);
-        showActionNotification(`${idsToDelete.length} 个删除操作已暂存`);
-    } else {
-        setEvents(updateEventsState);
-        // Also delete original images from DB
-        idsToDelete.forEach(id => deleteDataFromStoreByKey(activeDbName, STORES.originalImages, id));
-    }
+    const deleteActions: PendingAction[] = idsToDelete.map(id => ({ type: 'DELETE_EVENT', payload: id }));
+    recordHistory(`删除 ${idsToDelete.length} 个事件`, deleteActions);
+    setEvents(updateEventsState);
+    
+    // Earlier queued edits stay in the queue so the trash receives the latest version of each event.
+    setPendingActions(prev => [...prev, ...deleteActions]);
+    showActionNotification((isLoading || isTempStorageMode || dbError) ? `${idsToDelete.length} 个删除操作已暂存` : `已删除 ${idsToDelete.length} 个事件`, 'undo');
     
     handleClearSelection();
     setConfirmDeleteSelection(false);
@@ -1724,19 +2190,15 @@ const App: React.FC = () => {
     const updateLogic = (prevEvents: Event[]) => 
         prevEvents.map(e => updatedEventsMap.has(e.id) ? updatedEventsMap.get(e.id)! : e);
 
+    const updateActions: PendingAction[] = updates.map(({ eventId }) => ({
+        type: 'UPDATE_EVENT',
+        payload: { event: updatedEventsMap.get(eventId)! }
+    }));
+    recordHistory('更新标签', updateActions);
+    setEvents(updateLogic);
+    setPendingActions(prev => [...prev, ...updateActions]);
     if (isLoading || isTempStorageMode || dbError) {
-        setEvents(updateLogic);
-        const updateActions: PendingAction[] = updates.map(({ eventId }) => ({
-            type: 'UPDATE_EVENT',
-            payload: { event: updatedEventsMap.get(eventId)! }
-        }));
-        setPendingActions(prev => [
-            ...prev.filter(a => !(a.type === 'UPDATE_EVENT' && updatedEventsMap.has((a.payload as any).event.id))),
-            ...updateActions
-        ]);
         showActionNotification(`${updates.length} 个项目的标签已更新 (临时)`);
-    } else {
-        setEvents(updateLogic);
     }
 
     if (selectedEvent && updatedEventsMap.has(selectedEvent.id)) {
@@ -1764,8 +2226,19 @@ const App: React.FC = () => {
         return <div className="text-center py-20"><h2 className="text-2xl font-semibold text-slate-600 dark:text-slate-400">未找到事件</h2><p className="mt-2 text-slate-500">尝试更改筛选条件或添加新事件。</p></div>;
     }
 
+    // Search results are ranked by relevance, so the manual order can only be changed without a search.
+    const canReorder = sortOrder === 'manual' && !searchResults;
+    // Dragging a selected card moves the whole selection.
+    const getDraggedIds = (event: Event) => selectedEventIds.has(event.id)
+      ? filteredEvents.filter(e => selectedEventIds.has(e.id)).map(e => e.id)
+      : [event.id];
+    const { draggedIds, dropTarget } = gridReorder;
+
     return (
       <div
+        ref={eventGridRef}
+        onDragOver={canReorder ? gridReorder.handleDragOver : undefined}
+        onDrop={canReorder ? gridReorder.handleDrop : undefined}
         style={{
           columnCount: gridConfig.numColumns,
           columnGap: '1.5rem', // Corresponds to Tailwind's `gap-6`
@@ -1774,12 +2247,16 @@ const App: React.FC = () => {
         {filteredEvents.map((event, index) => (
           <div
             key={event.id}
-            className="animate-content-enter opacity-0 mb-6"
+            data-reorder-id={canReorder ? event.id : undefined}
+            className={`relative animate-content-enter opacity-0 mb-6 transition-opacity ${draggedIds.has(event.id) ? '!opacity-30' : ''}`}
             style={{
               animationDelay: `${index * 50}ms`,
               breakInside: 'avoid',
             }}
           >
+            {dropTarget?.id === event.id && (
+              <div className={`absolute left-0 right-0 h-1 bg-slate-800 dark:bg-slate-300 rounded-full ${dropTarget.position === 'before' ? '-top-3.5' : '-bottom-3.5'}`} />
+            )}
             <EventCard
               event={event}
               onClick={handleCardClick}
@@ -1788,9 +2265,32 @@ const App: React.FC = () => {
               isSelectionMode={isSelectionMode}
               onOpenContextMenu={handleOpenContextMenu}
               collapseCardImages={collapseCardImages}
+              loadCoverImage={loadCoverImage}
+              searchResult={searchResults?.get(event.id)}
+              isPinned={eventOrder.pinned.includes(event.id)}
+              dragProps={canReorder ? {
+                onDragStart: (e) => {
+                  const ids = getDraggedIds(event);
+                  gridReorder.startDrag(e, { ids }, ids);
+                },
+                onDragEnd: gridReorder.handleDragEnd,
+                onTouchDrag: (e) => {
+                  const ids = getDraggedIds(event);
+                  const label = ids.length > 1 ? `${ids.length} 个事件` : event.title;
+                  gridReorder.startTouchDrag(e, { ids }, ids, <div className="max-w-[16rem] truncate p-2 rounded-lg bg-white dark:bg-slate-600 shadow-xl font-semibold">{label}</div>);
+                },
+              } : undefined}
             />
           </div>
         ))}
+        {gridReorder.touchDragState && (
+          <div
+            className="fixed top-0 left-0 pointer-events-none z-50"
+            style={{ transform: `translate(${gridReorder.touchDragState.position.x - gridReorder.touchDragState.offset.x}px, ${gridReorder.touchDragState.position.y - gridReorder.touchDragState.offset.y}px)` }}
+          >
+            {gridReorder.touchDragState.ghost}
+          </div>
+        )}
       </div>
     );
   };
@@ -1814,24 +2314,37 @@ const App: React.FC = () => {
         className={`${isMobileDetailView ? 'hidden' : ''} absolute top-0 left-0 right-0 z-40 transition-all duration-300 backdrop-blur-lg`}
       >
         <Header
-          searchQuery={searchQuery} onSearchChange={setSearchQuery}
+          searchQuery={searchQuery} onSearchChange={setSearchQuery} searchError={parsedSearchQuery.error} tags={customTags}
           sortOrder={sortOrder} onSortChange={setSortOrder}
           onOpenSettings={() => setSettingsModalOpen(true)}
+          onOpenStatistics={() => setIsStatisticsOpen(true)}
           isSelectionMode={isSelectionMode}
           selectedCount={selectedEventIds.size}
           onClearSelection={handleClearSelection}
           onDeleteSelection={handleDeleteSelectionRequest}
           onManageSelectionTags={() => setIsManageSelectionTagsModalOpen(true)}
+          onExportSelection={() => setTextExport({ format: 'csv', scope: 'selected' })}
         />
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 w-full">
           <div className="pt-2 flex-shrink-0 transition-all duration-300 pb-8 -mx-4 sm:-mx-6 lg:-mx-8">
+            <SavedViewChips
+              views={savedViews.views}
+              activeViewId={activeViewId}
+              onApply={applySavedView}
+              onSaveCurrent={() => setSavedViewsModal('save')}
+              onManage={() => setSavedViewsModal('manage')}
+            />
             <FilterChips
               activeFilters={activeFilters} onStatusChange={handleStatusFilterChange}
               onTagToggle={handleTagFilterChange} customTags={customTags}
               onManageTags={() => setManageTagsModalOpen(true)}
               isExpanded={isFilterBarExpanded}
               onToggleExpand={() => setIsFilterBarExpanded(prev => !prev)}
+              onTagMatchModeChange={handleTagMatchModeChange}
+              onUntaggedOnlyChange={handleUntaggedOnlyChange}
               onResetTags={handleResetTagFilters}
+              onMediaTypeChange={handleMediaTypeFilterChange}
+              availableMediaTypes={availableMediaTypes}
             />
           </div>
         </div>
@@ -1864,7 +2377,7 @@ const App: React.FC = () => {
             >
               {selectedEvent ? (
                 <div className="pb-24 px-4 sm:px-6 lg:px-8" style={{ paddingTop: `${headerHeight}px` }}>
-                  <EventDetailView key={selectedEvent.id} event={selectedEvent} activeDbName={activeDbName} onBack={handleBackToList} onUpdateEvent={(updatedEvent) => handleUpdateEvent(updatedEvent)} onEdit={setEventToEdit} onEditSteps={handleOpenStepsEditor} overviewBlockSize={overviewBlockSize} onOverviewBlockSizeChange={setOverviewBlockSize} />
+                  <EventDetailView key={selectedEvent.id} event={selectedEvent} activeDbName={activeDbName} onBack={handleBackToList} onUpdateEvent={(updatedEvent) => handleUpdateEvent(updatedEvent)} onEdit={setEventToEdit} onEditSteps={handleOpenStepsEditor} overviewBlockSize={overviewBlockSize} onOverviewBlockSizeChange={setOverviewBlockSize} loadAttachment={findAttachmentFile} loadCoverImage={loadCoverImage} onAddAttachments={handleAddAttachments} onSetCover={handleSetCoverFromAttachment} />
                 </div>
               ) : detailViewPlaceholder ? (
                  <div className="flex items-center justify-center h-full" style={{ paddingTop: `${headerHeight}px` }}>
@@ -1887,6 +2400,7 @@ const App: React.FC = () => {
           <div><label htmlFor="eventTitle" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">事件标题*</label><input type="text" id="eventTitle" value={newEventTitle} onChange={(e) => setNewEventTitle(e.target.value)} placeholder="例如：规划一次为期一周的旅行" className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500" /></div>
           <div><label htmlFor="eventDescription" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">描述</label><textarea id="eventDescription" value={newEventDescription} onChange={(e) => setNewEventDescription(e.target.value)} placeholder="为此新项目添加一些细节..." rows={4} className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500" /></div>
           <div><label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">标签</label><TagInput availableTags={customTags} selectedTags={newEventTags} onChange={setNewEventTags}/></div>
+          <MediaTypePicker mediaType={newEventMediaType} metadata={newEventMediaMetadata} onChange={(type, metadata) => { setNewEventMediaType(type); setNewEventMediaMetadata(metadata); }} />
           <div>
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
               封面图片
@@ -1896,7 +2410,7 @@ const App: React.FC = () => {
               type="file"
               className="sr-only"
               accept="image/*"
-              onChange={(e) => handleImageSelected(e.target.files ? e.target.files[0] : null)}
+              onChange={(e) => { handleImageSelected(e.target.files ? e.target.files[0] : null); e.target.value = ''; }}
               disabled={isProcessingImage}
             />
             <label
@@ -1908,8 +2422,8 @@ const App: React.FC = () => {
                   <LoadingSpinnerIcon className="w-8 h-8" />
                   <span>正在处理...</span>
                 </div>
-              ) : newEventImage ? (
-                <img src={newEventImage} alt="预览" className="w-full h-full object-contain rounded-lg p-1" />
+              ) : newEventCoverUrl ? (
+                <img src={newEventCoverUrl} alt="预览" className="w-full h-full object-contain rounded-lg p-1" />
               ) : (
                 <div className="text-slate-500 dark:text-slate-400 px-6">
                   <svg className="mx-auto h-12 w-12" stroke="currentColor" fill="none" viewBox="0 0 48 48" aria-hidden="true">
@@ -1919,23 +2433,37 @@ const App: React.FC = () => {
                 </div>
               )}
             </label>
-            {newEventImage && (
-                <div className="grid grid-cols-2 gap-2 mt-2">
+            {newEventCover && (
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                    <button type="button" onClick={() => { setCoverCropFile(newEventOriginalImage); setIsCoverCropOpen(true); }} disabled={!newEventOriginalImage} className="w-full text-center px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium disabled:opacity-50">
+                        调整裁剪
+                    </button>
                     <label htmlFor="add-image-upload" className="w-full text-center px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium cursor-pointer">
                         更换图片
                     </label>
-                    <button type="button" onClick={() => { setNewEventImage(null); setNewEventOriginalImage(null); }} className="w-full text-center px-4 py-2.5 rounded-lg text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/40 hover:bg-red-200 dark:hover:bg-red-900/60 transition-all active:scale-95 text-sm font-medium">
+                    <button type="button" onClick={() => { setNewEventCover(null); setNewEventOriginalImage(null); setNewEventCoverCrop(null); }} className="w-full text-center px-4 py-2.5 rounded-lg text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/40 hover:bg-red-200 dark:hover:bg-red-900/60 transition-all active:scale-95 text-sm font-medium">
                         移除图片
                     </button>
                 </div>
             )}
           </div>
-          <div className="flex justify-end gap-3 pt-2">
-            <button onClick={closeAddEventModal} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
-            <button onClick={handleAddEvent} disabled={isProcessingImage} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">创建事件</button>
+          <div className="flex flex-wrap justify-between gap-3 pt-2">
+            <button onClick={() => setIsTextImportOpen(true)} className="px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-95 text-sm font-medium">从清单导入...</button>
+            <div className="flex gap-3">
+              <button onClick={closeAddEventModal} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+              <button onClick={handleAddEvent} disabled={isProcessingImage} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">创建事件</button>
+            </div>
           </div>
         </div>
       </Modal>
+      <CoverCropDialog
+        isOpen={isCoverCropOpen}
+        source={coverCropFile}
+        initialCrop={coverCropFile === newEventOriginalImage ? newEventCoverCrop?.crop : undefined}
+        initialFocalPoint={coverCropFile === newEventOriginalImage ? newEventCoverCrop?.focalPoint : undefined}
+        onClose={() => setIsCoverCropOpen(false)}
+        onConfirm={handleCoverCropConfirm}
+      />
 
       <ManageTagsModal 
         isOpen={isManageTagsModalOpen} 
@@ -1954,7 +2482,7 @@ const App: React.FC = () => {
         onApply={handleUpdateSelectionTags}
         onAddTag={handleAddTag}
       />
-      <EventEditModal event={eventToEdit} isOpen={!!eventToEdit} onClose={() => setEventToEdit(null)} onUpdate={handleUpdateEvent} availableTags={customTags} />
+      <EventEditModal event={eventToEdit} isOpen={!!eventToEdit} onClose={() => setEventToEdit(null)} onUpdate={handleUpdateEvent} loadCoverImage={loadCoverImage} loadOriginalImage={findOriginalImage} availableTags={customTags} />
       
       <SettingsModal
         isOpen={isSettingsModalOpen} onClose={() => setSettingsModalOpen(false)}
@@ -1982,9 +2510,62 @@ const App: React.FC = () => {
         onFormatAppRequest={() => { setIsDbManagerOpen(false); setFormatConfirmModalOpen(true); }}
         onExport={handleExportData} 
         onImport={handleImportRequest}
+        onOpenTrash={handleOpenTrash}
+        onOpenTextExport={() => { setIsDbManagerOpen(false); setTextExport({ format: 'csv', scope: 'all' }); }}
         dbError={dbError}
       />
 
+      <TextImportModal
+        isOpen={isTextImportOpen}
+        onClose={() => setIsTextImportOpen(false)}
+        initialTitle={newEventTitle}
+        onImport={handleImportTextEvents}
+      />
+
+      <ExportEventsModal
+        isOpen={!!textExport}
+        onClose={() => setTextExport(null)}
+        format={textExport?.format ?? 'csv'}
+        onFormatChange={format => setTextExport(prev => prev && { ...prev, format })}
+        scope={textExport?.scope ?? 'all'}
+        onScopeChange={scope => setTextExport(prev => prev && { ...prev, scope })}
+        counts={{ all: events.length, filtered: filteredEvents.length, selected: selectedEventIds.size }}
+        onExport={() => textExport && handleExportData(textExport.format, textExport.scope)}
+      />
+
+      <SavedViewsModal
+        isOpen={!!savedViewsModal}
+        onClose={() => setSavedViewsModal(null)}
+        saved={savedViews}
+        current={currentViewState}
+        canSaveCurrent={!activeViewId}
+        autoFocusName={savedViewsModal === 'save'}
+        isPersistent={canPersistListSettings}
+        onCreate={handleCreateSavedView}
+        onRename={handleRenameSavedView}
+        onDelete={id => updateSavedViews(deleteSavedView(savedViews, id))}
+        onMove={(id, offset) => updateSavedViews(moveSavedView(savedViews, id, offset))}
+        onSetDefault={defaultViewId => updateSavedViews({ ...savedViews, defaultViewId })}
+      />
+
+      <StatisticsModal
+        isOpen={isStatisticsOpen}
+        onClose={() => setIsStatisticsOpen(false)}
+        events={events}
+        onSelectEvent={(event) => { setIsStatisticsOpen(false); handleSelectEvent(event); }}
+      />
+
+      <TrashModal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        items={trashItems}
+        isAvailable={isTrashAvailable}
+        retentionDays={trashRetentionDays}
+        onRetentionDaysChange={setTrashRetentionDays}
+        onRestore={handleRestoreFromTrash}
+        onDeletePermanently={handleDeleteTrashPermanently}
+      />
+
       <Modal isOpen={isCreateDbModalOpen} onClose={() => setIsCreateDbModalOpen(false)} title="创建新数据库" variant="sheet">
         <div className="space-y-4">
             <p className="text-sm text-slate-500 dark:text-slate-400">为一组新项目（例如“工作”或“个人”）创建一个单独的数据库。</p>
@@ -2011,7 +2592,7 @@ const App: React.FC = () => {
       
       <Modal isOpen={confirmDeleteSelection} onClose={() => setConfirmDeleteSelection(false)} title="确认删除" variant="dialog">
         <div className="space-y-4">
-            <p className="text-slate-600 dark:text-slate-300">您确定要删除选中的 {selectedEventIds.size} 个事件吗？此操作无法撤销。</p>
+            <p className="text-slate-600 dark:text-slate-300">您确定要删除选中的 {selectedEventIds.size} 个事件吗？{isTrashAvailable ? '它们将被移至回收站，可随时恢复。' : '删除后可以撤销。'}</p>
             <div className="flex justify-end gap-3 pt-2">
                 <button onClick={() => setConfirmDeleteSelection(false)} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
                 <button onClick={executeDeleteSelection} className="px-5 py-2.5 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 transition-all active:scale-95 text-base">删除</button>
@@ -2021,7 +2602,7 @@ const App: React.FC = () => {
 
       <Modal isOpen={!!confirmDeleteEventId} onClose={() => setConfirmDeleteEventId(null)} title="确认删除" variant="dialog">
         <div className="space-y-4">
-            <p className="text-slate-600 dark:text-slate-300">您确定要删除此事件吗？此操作无法撤销。</p>
+            <p className="text-slate-600 dark:text-slate-300">您确定要删除此事件吗？{isTrashAvailable ? '它将被移至回收站，可随时恢复。' : '删除后可以撤销。'}</p>
             <div className="flex justify-end gap-3 pt-2">
                 <button onClick={() => setConfirmDeleteEventId(null)} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
                 <button onClick={() => { if (confirmDeleteEventId) handleDeleteEvent(confirmDeleteEventId); setConfirmDeleteEventId(null); }} className="px-5 py-2.5 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 transition-all active:scale-95 text-base">删除</button>
@@ -2051,17 +2632,29 @@ const App: React.FC = () => {
           </div>
       </Modal>
       
-      <Modal isOpen={!!importFile} onClose={() => setImportFile(null)} title="确认导入数据" variant="dialog">
-        <div className="space-y-4">
-            <div className="flex items-start gap-3"><ExclamationTriangleIcon className="w-10 h-10 text-yellow-500 flex-shrink-0" />
-                <div><p className="text-slate-600 dark:text-slate-300 font-semibold">您确定要继续吗？</p><p className="text-slate-600 dark:text-slate-300 mt-2">导入此文件会将所有数据添加到当前激活的数据库中。所有事件、步骤和模板都将作为新项目添加。</p></div>
-            </div>
-            <div className="flex justify-end gap-3 pt-2">
-                <button onClick={() => setImportFile(null)} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
-                <button onClick={executeImport} className="px-5 py-2.5 rounded-lg bg-slate-800 text-white dark:bg-slate-200 dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base">是的，导入</button>
-            </div>
-        </div>
-      </Modal>
+      <ImportPreviewModal
+        isOpen={!!importPreview}
+        fileName={importPreview?.fileName ?? ''}
+        imageCount={importPreview?.backup.originalImages.size ?? 0}
+        attachmentCount={importPreview?.backup.attachments.size ?? 0}
+        mode={importMode}
+        onModeChange={setImportMode}
+        diff={importDiff}
+        skipped={importPreview?.skipped ?? []}
+        onConfirm={executeImport}
+        onCancel={() => setImportPreview(null)}
+      />
+
+      <PendingJournalReviewModal
+        journals={isLoading ? [] : journalsToReview}
+        targetDbName={activeDbName}
+        targetDbDisplayName={getDisplayName(activeDbName)}
+        canApply={activeDbName !== DEMO_DB_NAME}
+        getDisplayName={getDisplayName}
+        onApply={handleApplyJournals}
+        onDiscard={handleDiscardJournals}
+        onDecideLater={() => setJournalsToReview([])}
+      />
 
       <Modal isOpen={!!confirmDiscardChanges} onClose={() => setConfirmDiscardChanges(null)} title="确认切换" variant="dialog">
         <div className="space-y-4">
@@ -2103,7 +2696,7 @@ const App: React.FC = () => {
         </Modal>
       )}
 
-      <StepsEditorPanel isOpen={isStepsEditorOpen} onClose={() => setIsStepsEditorOpen(false)} event={eventForStepsEditor} templates={stepTemplates} stepSetTemplates={stepSetTemplates} onStepsChange={handleUpdateEventSteps} onTemplatesChange={setStepTemplates} onStepSetTemplatesChange={setStepSetTemplates} />
+      <StepsEditorPanel isOpen={isStepsEditorOpen} onClose={() => setIsStepsEditorOpen(false)} event={eventForStepsEditor} templates={stepTemplates} stepSetTemplates={stepSetTemplates} onStepsChange={handleUpdateEventSteps} onUndo={handleUndo} onTemplatesChange={handleStepTemplatesChange} onStepSetTemplatesChange={handleStepSetTemplatesChange} />
       
       <WelcomeModal
         isOpen={isWelcomeModalOpen}
@@ -2122,6 +2715,13 @@ const App: React.FC = () => {
         message={actionNotification?.message || ''}
         icon={<ArchiveBoxIcon className="w-5 h-5" />}
         bottomClass={dbStatus ? 'bottom-24' : 'bottom-8'}
+        actionLabel={actionNotification?.action === 'undo' ? '撤销' : actionNotification?.action === 'redo' ? '重做' : undefined}
+        onAction={() => {
+            const action = actionNotification?.action;
+            setActionNotification(null);
+            if (action === 'undo') handleUndo();
+            else if (action === 'redo') handleRedo();
+        }}
       />
     </div>
   );
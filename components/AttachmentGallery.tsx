@@ -0,0 +1,52 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { DocumentTextIcon, LoadingSpinnerIcon, ExclamationTriangleIcon } from './icons';
+import useObjectUrl from '../hooks/useObjectUrl';
+import { formatFileSize, isImageAttachment } from '../utils/attachments';
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[];
+  loadAttachment: (attachmentId: string) => Promise<File | undefined>;
+  onOpen: (attachment: Attachment) => void;
+  size?: 'sm' | 'md';
+}
+
+const tileSizeClasses = {
+  sm: 'w-16 h-16',
+  md: 'w-28 h-28 sm:w-32 sm:h-32',
+};
+
+const ImageTile: React.FC<{ attachment: Attachment; loadAttachment: AttachmentGalleryProps['loadAttachment'] }> = ({ attachment, loadAttachment }) => {
+  const file = useObjectUrl(attachment.id, loadAttachment);
+  if (file.status === 'ready') return <img src={file.url} alt={attachment.name} className="w-full h-full object-cover" loading="lazy" />;
+  return (
+    <div className="w-full h-full flex items-center justify-center text-slate-400 dark:text-slate-500">
+      {file.status === 'loading' ? <LoadingSpinnerIcon className="w-5 h-5" /> : <ExclamationTriangleIcon className="w-6 h-6" />}
+    </div>
+  );
+};
+
+/** Thumbnails of images and tiles for other files. Files are only read once their tile is shown. */
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ attachments, loadAttachment, onOpen, size = 'md' }) => (
+  <div className="flex flex-wrap gap-3">
+    {attachments.map(attachment => (
+      <button
+        key={attachment.id}
+        onClick={() => onOpen(attachment)}
+        title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+        className={`${tileSizeClasses[size]} flex-shrink-0 rounded-xl overflow-hidden shadow-sm bg-slate-200 dark:bg-slate-700 hover:ring-2 hover:ring-slate-400 dark:hover:ring-slate-500 transition-all active:scale-95`}
+      >
+        {isImageAttachment(attachment) ? (
+          <ImageTile attachment={attachment} loadAttachment={loadAttachment} />
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-2 text-slate-600 dark:text-slate-300">
+            <DocumentTextIcon className={size === 'sm' ? 'w-6 h-6' : 'w-8 h-8'} />
+            {size === 'md' && <span className="w-full text-xs text-center truncate">{attachment.name}</span>}
+          </div>
+        )}
+      </button>
+    ))}
+  </div>
+);
+
+export default AttachmentGallery;
@@ -0,0 +1,121 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Attachment } from '../types';
+import { ArrowUpTrayIcon, ChevronLeftIcon, ChevronRightIcon, DocumentTextIcon, ExclamationTriangleIcon, LoadingSpinnerIcon, PhotoIcon, TrashIcon, XIcon } from './icons';
+import useObjectUrl from '../hooks/useObjectUrl';
+import { formatFileSize, isImageAttachment } from '../utils/attachments';
+
+interface AttachmentLightboxProps {
+  attachments: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  loadAttachment: (attachmentId: string) => Promise<File | undefined>;
+  /** E.g. the step an attachment belongs to. */
+  getCaption: (attachment: Attachment) => string | undefined;
+  onSetCover: (attachment: Attachment) => void;
+  onRemove: (attachment: Attachment) => void;
+}
+
+const toolbarButtonClasses = 'flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold text-white/90 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-all active:scale-95';
+
+/** Shows one attachment at a time over the whole window; ← and → move between them. */
+const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({ attachments, index, onIndexChange, onClose, loadAttachment, getCaption, onSetCover, onRemove }) => {
+  const attachment = attachments[index];
+  const file = useObjectUrl(attachment?.id ?? null, loadAttachment);
+  const hasPrevious = index > 0;
+  const hasNext = index < attachments.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && hasPrevious) onIndexChange(index - 1);
+      else if (e.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrevious, hasNext, onClose, onIndexChange]);
+
+  if (!attachment) return null;
+
+  const handleDownload = () => {
+    if (file.status !== 'ready') return;
+    const a = document.createElement('a');
+    a.href = file.url;
+    a.download = attachment.name;
+    a.click();
+  };
+
+  const caption = getCaption(attachment);
+
+  const renderBody = () => {
+    if (file.status === 'loading') return <LoadingSpinnerIcon className="w-8 h-8 text-white/70" />;
+    if (file.status === 'missing') {
+      return (
+        <div className="flex flex-col items-center gap-3 text-white/70">
+          <ExclamationTriangleIcon className="w-12 h-12" />
+          <p>找不到此附件的文件。</p>
+        </div>
+      );
+    }
+    if (isImageAttachment(attachment)) {
+      return <img src={file.url} alt={attachment.name} className="max-w-full max-h-full object-contain select-none" />;
+    }
+    return (
+      <div className="flex flex-col items-center gap-4 text-white/80">
+        <DocumentTextIcon className="w-16 h-16" />
+        <p className="font-semibold break-all text-center">{attachment.name}</p>
+        <button onClick={handleDownload} className="px-4 py-2 rounded-lg bg-white text-slate-900 font-semibold hover:bg-slate-200 transition-all active:scale-95">下载文件</button>
+      </div>
+    );
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90 animate-backdrop-enter" role="dialog" aria-modal="true" aria-label={attachment.name}>
+      <div className="flex items-center justify-between gap-4 p-3 sm:p-4">
+        <div className="min-w-0 text-white">
+          <p className="font-semibold truncate">{attachment.name}</p>
+          <p className="text-xs text-white/60 truncate">
+            {index + 1} / {attachments.length} · {formatFileSize(attachment.size)} · {attachment.addedAt.toLocaleString()}
+            {caption && ` · ${caption}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {isImageAttachment(attachment) && (
+            <button onClick={() => onSetCover(attachment)} disabled={file.status !== 'ready'} className={toolbarButtonClasses}>
+              <PhotoIcon className="w-5 h-5" />
+              <span className="hidden sm:inline">设为封面</span>
+            </button>
+          )}
+          <button onClick={handleDownload} disabled={file.status !== 'ready'} className={toolbarButtonClasses} aria-label="下载">
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">下载</span>
+          </button>
+          <button onClick={() => onRemove(attachment)} className={toolbarButtonClasses} aria-label="删除附件">
+            <TrashIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">删除</span>
+          </button>
+          <button onClick={onClose} className={toolbarButtonClasses} aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+      <div className="relative flex-grow min-h-0 flex items-center justify-center p-4 sm:px-16" onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+        {renderBody()}
+        {hasPrevious && (
+          <button onClick={() => onIndexChange(index - 1)} className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all active:scale-95" aria-label="上一个">
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+        )}
+        {hasNext && (
+          <button onClick={() => onIndexChange(index + 1)} className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all active:scale-95" aria-label="下一个">
+            <ChevronRightIcon className="w-7 h-7" />
+          </button>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AttachmentLightbox;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CoverAspect, CoverCrop, FocalPoint } from '../types';
+import Modal from './Modal';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, LoadingSpinnerIcon } from './icons';
+import { useBlobUrl } from '../hooks/useObjectUrl';
+import { COVER_ASPECTS, DEFAULT_FOCAL_POINT, getCoverAspectRatio } from '../utils/coverImages';
+
+interface CoverCropDialogProps {
+  isOpen: boolean;
+  /** The image to crop; the crop refers to it. */
+  source: Blob | null;
+  initialCrop?: CoverCrop;
+  initialFocalPoint?: FocalPoint;
+  onClose: () => void;
+  onConfirm: (crop: CoverCrop, focalPoint: FocalPoint) => void;
+}
+
+const MAX_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** The largest region of the given aspect ratio that fits in a `width` × `height` image. */
+const fullCropSize = (width: number, height: number, ratio: number) => {
+  const cropWidth = Math.min(width, height * ratio);
+  return { width: cropWidth, height: cropWidth / ratio };
+};
+
+/**
+ * Lets the user choose the part of an image that becomes the cover: an aspect
+ * preset, rotation in quarter turns, zoom, and panning by dragging the image.
+ * In focal point mode, tapping the image marks the point that card covers keep in view.
+ */
+const CoverCropDialog: React.FC<CoverCropDialogProps> = ({ isOpen, source, initialCrop, initialFocalPoint, onClose, onConfirm }) => {
+  const imageUrl = useBlobUrl(source);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [aspect, setAspect] = useState<CoverAspect>('card');
+  const [rotation, setRotation] = useState<CoverCrop['rotation']>(0);
+  const [zoom, setZoom] = useState(1);
+  // The center of the crop, in fractions of the rotated image.
+  const [center, setCenter] = useState({ x: 0.5, y: 0.5 });
+  const [focalPoint, setFocalPoint] = useState<FocalPoint>(DEFAULT_FOCAL_POINT);
+  const [mode, setMode] = useState<'crop' | 'focus'>('crop');
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const dragRef = useRef<{ x: number; y: number; center: { x: number; y: number } } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setNaturalSize(null);
+    setAspect(initialCrop?.aspect ?? 'card');
+    setRotation(initialCrop?.rotation ?? 0);
+    setZoom(1);
+    setCenter(initialCrop ? { x: initialCrop.x + initialCrop.width / 2, y: initialCrop.y + initialCrop.height / 2 } : { x: 0.5, y: 0.5 });
+    setFocalPoint(initialFocalPoint ?? DEFAULT_FOCAL_POINT);
+    setMode('crop');
+  }, [isOpen, source]);
+
+  // A callback ref, since the modal only mounts its content after it has started opening.
+  const containerRef = useCallback((container: HTMLDivElement | null) => {
+    resizeObserverRef.current?.disconnect();
+    resizeObserverRef.current = null;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(container);
+    resizeObserverRef.current = observer;
+  }, []);
+
+  const ratio = getCoverAspectRatio(aspect);
+  const rotatedWidth = naturalSize ? (rotation % 180 === 0 ? naturalSize.width : naturalSize.height) : 0;
+  const rotatedHeight = naturalSize ? (rotation % 180 === 0 ? naturalSize.height : naturalSize.width) : 0;
+  const fullSize = fullCropSize(rotatedWidth, rotatedHeight, ratio);
+  const cropWidth = fullSize.width / zoom;
+  const cropHeight = fullSize.height / zoom;
+  const cropX = clamp(center.x * rotatedWidth - cropWidth / 2, 0, rotatedWidth - cropWidth);
+  const cropY = clamp(center.y * rotatedHeight - cropHeight / 2, 0, rotatedHeight - cropHeight);
+
+  const viewportWidth = Math.min(containerSize.width, containerSize.height * ratio);
+  const viewportHeight = viewportWidth / ratio;
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    setNaturalSize({ width, height });
+    if (initialCrop) {
+      const rotated = initialCrop.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+      const full = fullCropSize(rotated.width, rotated.height, getCoverAspectRatio(initialCrop.aspect));
+      setZoom(clamp(full.width / (initialCrop.width * rotated.width), 1, MAX_ZOOM));
+    }
+  };
+
+  const handleRotate = (quarterTurns: 1 | -1) => {
+    setRotation(prev => ((prev + quarterTurns * 90 + 360) % 360) as CoverCrop['rotation']);
+    setZoom(1);
+    setCenter({ x: 0.5, y: 0.5 });
+  };
+
+  const pointToFocal = (e: React.PointerEvent<HTMLDivElement>): FocalPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (mode === 'focus') {
+      setFocalPoint(pointToFocal(e));
+    }
+    // Panning starts from the clamped crop, so dragging never has to undo an overshoot first.
+    dragRef.current = { x: e.clientX, y: e.clientY, center: { x: (cropX + cropWidth / 2) / rotatedWidth, y: (cropY + cropHeight / 2) / rotatedHeight } };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (mode === 'focus') {
+      setFocalPoint(pointToFocal(e));
+      return;
+    }
+    const imagePixelsPerScreenPixel = cropWidth / viewportWidth;
+    setCenter({
+      x: drag.center.x - (e.clientX - drag.x) * imagePixelsPerScreenPixel / rotatedWidth,
+      y: drag.center.y - (e.clientY - drag.y) * imagePixelsPerScreenPixel / rotatedHeight,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (mode === 'crop') setCenter({ x: (cropX + cropWidth / 2) / rotatedWidth, y: (cropY + cropHeight / 2) / rotatedHeight });
+  };
+
+  const handleConfirm = () => {
+    if (!naturalSize) return;
+    onConfirm({
+      aspect,
+      rotation,
+      x: cropX / rotatedWidth,
+      y: cropY / rotatedHeight,
+      width: cropWidth / rotatedWidth,
+      height: cropHeight / rotatedHeight,
+    }, focalPoint);
+  };
+
+  const segmentClasses = (isActive: boolean) => `px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${isActive ? 'bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-300/50 dark:hover:bg-slate-600/50'}`;
+  const toolButtonClasses = 'p-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-95';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="裁剪封面" maxWidthClass="max-w-2xl">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-1 bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+            {COVER_ASPECTS.map(option => (
+              <button key={option.id} type="button" onClick={() => setAspect(option.id)} className={segmentClasses(aspect === option.id)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={() => handleRotate(-1)} className={toolButtonClasses} aria-label="向左旋转" title="向左旋转">
+              <ArrowUturnLeftIcon className="w-5 h-5" />
+            </button>
+            <button type="button" onClick={() => handleRotate(1)} className={toolButtonClasses} aria-label="向右旋转" title="向右旋转">
+              <ArrowUturnRightIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div ref={containerRef} className="h-72 sm:h-96 flex items-center justify-center bg-slate-900 rounded-lg overflow-hidden">
+          {!imageUrl || !naturalSize ? (
+            <>
+              <LoadingSpinnerIcon className="w-8 h-8 text-white/70" />
+              {imageUrl && <img src={imageUrl} alt="" className="hidden" onLoad={handleImageLoad} />}
+            </>
+          ) : (
+            <div
+              className={`relative overflow-hidden touch-none select-none ${mode === 'crop' ? 'cursor-move' : 'cursor-crosshair'}`}
+              style={{ width: viewportWidth, height: viewportHeight }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <div
+                className="absolute pointer-events-none"
+                style={{
+                  width: `${rotatedWidth / cropWidth * 100}%`,
+                  height: `${rotatedHeight / cropHeight * 100}%`,
+                  left: `${-cropX / cropWidth * 100}%`,
+                  top: `${-cropY / cropHeight * 100}%`,
+                }}
+              >
+                <img
+                  src={imageUrl}
+                  alt="裁剪预览"
+                  draggable={false}
+                  className="absolute max-w-none left-1/2 top-1/2"
+                  style={{
+                    width: `${naturalSize.width / rotatedWidth * 100}%`,
+                    height: `${naturalSize.height / rotatedHeight * 100}%`,
+                    transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                  }}
+                />
+              </div>
+              <div className="absolute inset-0 pointer-events-none ring-1 ring-inset ring-white/60" />
+              <div
+                className={`absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white shadow-md pointer-events-none transition-opacity ${mode === 'focus' ? 'bg-white/40 opacity-100' : 'opacity-60'}`}
+                style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex gap-1 bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+            <button type="button" onClick={() => setMode('crop')} className={segmentClasses(mode === 'crop')}>移动</button>
+            <button type="button" onClick={() => setMode('focus')} className={segmentClasses(mode === 'focus')}>焦点</button>
+          </div>
+          <label className="flex items-center gap-3 flex-grow min-w-[12rem] text-sm font-medium text-slate-700 dark:text-slate-300">
+            缩放
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              onChange={(e) => setZoom(Number(e.target.value))}
+              className="flex-grow accent-slate-800 dark:accent-slate-300"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {mode === 'crop' ? '拖动图片调整裁剪位置。' : '点击图片设置焦点：封面以其他比例显示时，焦点附近的内容会保持可见。'}
+        </p>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button type="button" onClick={onClose} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+          <button type="button" onClick={handleConfirm} disabled={!naturalSize} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">使用此封面</button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CoverCropDialog;
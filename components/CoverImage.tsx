@@ -0,0 +1,46 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CoverRendition, Event } from '../types';
+import useObjectUrl from '../hooks/useObjectUrl';
+import { getCoverObjectPosition } from '../utils/coverImages';
+
+interface CoverImageProps {
+  event: Event;
+  rendition: CoverRendition;
+  loadCoverImage: (coverImageId: string, rendition: CoverRendition) => Promise<Blob | undefined>;
+  /** Waits until the image is about to scroll into view before reading it. */
+  lazy?: boolean;
+  className?: string;
+}
+
+/** Fills its parent with the event's cover, keeping its focal point in view, or stays empty while it is loading. */
+const CoverImage: React.FC<CoverImageProps> = ({ event, rendition, loadCoverImage, lazy = false, className = 'w-full h-full object-cover' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isNearViewport, setIsNearViewport] = useState(!lazy);
+
+  useEffect(() => {
+    if (isNearViewport || !containerRef.current) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsNearViewport(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsNearViewport(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [isNearViewport]);
+
+  const cover = useObjectUrl(isNearViewport ? event.coverImageId ?? null : null, id => loadCoverImage(id, rendition));
+  const src = event.coverImageId ? cover.url : event.imageUrl;
+
+  return (
+    <div ref={containerRef} className="w-full h-full">
+      {src && <img src={src} alt={event.title} className={className} style={{ objectPosition: getCoverObjectPosition(event) }} />}
+    </div>
+  );
+};
+
+export default CoverImage;
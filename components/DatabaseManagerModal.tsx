@@ -3,7 +3,7 @@
 
 import React, { useRef, useState } from 'react';
 import Modal from './Modal';
-import { CheckIcon, ExclamationTriangleIcon, PlusIcon, ArrowUpTrayIcon, SaveIcon, TrashIcon } from './icons';
+import { CheckIcon, ExclamationTriangleIcon, PlusIcon, ArrowUpTrayIcon, SaveIcon, TrashIcon, ArchiveBoxIcon } from './icons';
 import ContextMenu, { ContextMenuAction } from './ContextMenu';
 import useLongPress from '../hooks/useLongPress';
 
@@ -94,15 +94,17 @@ interface DatabaseManagerModalProps {
   onOpenCreateDb: () => void;
   onDeleteDbRequest: (dbName: string) => void;
   onFormatAppRequest: () => void;
-  onExport: () => void;
+  onExport: (format: 'json' | 'archive') => void;
   onImport: (file: File) => void;
+  onOpenTrash: () => void;
+  onOpenTextExport: () => void;
   dbError: Error | null;
 }
 
 const DatabaseManagerModal: React.FC<DatabaseManagerModalProps> = ({ 
     isOpen, onClose, activeDbName, userDbNames, onSwitchDb, 
     onOpenCreateDb, onDeleteDbRequest, onFormatAppRequest, onExport, onImport,
-    dbError
+    onOpenTrash, onOpenTextExport, dbError
 }) => {
   const importInputRef = useRef<HTMLInputElement>(null);
   const isTempStorageMode = activeDbName === TEMP_STORAGE_DB_NAME_EXPORT;
@@ -221,22 +223,52 @@ const DatabaseManagerModal: React.FC<DatabaseManagerModalProps> = ({
                         <p className="text-sm font-medium text-slate-700 dark:text-slate-300">导出数据</p>
                         <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">将<span className="font-bold">当前</span>存储中的所有数据保存到 JSON 文件中。</p>
                     </div>
-                    <button onClick={onExport} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
+                    <button onClick={() => onExport('json')} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
                         <ArrowUpTrayIcon className="w-5 h-5" />
                         导出
                     </button>
                 </div>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div>
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">导出完整备份</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">将数据和所有原始图片一起打包为 ZIP 压缩包。</p>
+                    </div>
+                    <button onClick={() => onExport('archive')} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
+                        <ArchiveBoxIcon className="w-5 h-5" />
+                        备份
+                    </button>
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div>
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">导出为表格或报告</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">将全部、当前筛选或已选中的事件导出为 CSV 或 Markdown。</p>
+                    </div>
+                    <button onClick={onOpenTextExport} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
+                        <ArrowUpTrayIcon className="w-5 h-5" />
+                        CSV / MD
+                    </button>
+                </div>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
                      <div>
                         <p className="text-sm font-medium text-slate-700 dark:text-slate-300">导入数据</p>
-                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">从 JSON 文件加载数据。 <span className="font-bold">数据将被添加到当前存储中，而不会覆盖现有内容。</span></p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">从 JSON 文件或完整备份 (.zip) 加载数据。 <span className="font-bold">导入前可以选择还原、按 ID 合并或添加副本。</span></p>
                     </div>
-                    <input type="file" ref={importInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+                    <input type="file" ref={importInputRef} onChange={handleFileChange} accept=".json,.zip" className="hidden" />
                     <button onClick={handleImportClick} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
                         <SaveIcon className="w-5 h-5" />
                         导入
                     </button>
                 </div>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                     <div>
+                        <p className="text-sm font-medium text-slate-700 dark:text-slate-300">回收站</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">恢复或永久删除<span className="font-bold">当前</span>存储中已删除的事件。</p>
+                    </div>
+                    <button onClick={onOpenTrash} className="w-full sm:w-auto flex-shrink-0 px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
+                        <TrashIcon className="w-5 h-5" />
+                        回收站
+                    </button>
+                </div>
              </div>
         </div>
 
@@ -1,9 +1,14 @@
 import React from 'react';
-import { Event } from '../types';
+import { CoverRendition, Event } from '../types';
 import useLongPress from '../hooks/useLongPress';
-import { CheckIcon } from './icons';
+import { CheckIcon, PinIcon, SearchIcon } from './icons';
 import AnimatedPlaceholder from './AnimatedPlaceholder';
+import CoverImage from './CoverImage';
+import HighlightedText from './HighlightedText';
 import { DEFAULT_ANIMATED_PLACEHOLDER } from '../App';
+import { describeMediaMetadata, getMediaTypeLabel } from '../utils/mediaTypes';
+import { markdownToPlainText } from '../utils/markdown';
+import { EventSearchResult, SearchHit, SearchHitField } from '../utils/searchIndex';
 
 interface EventCardProps {
   event: Event;
@@ -11,8 +16,18 @@ interface EventCardProps {
   onLongPress: (event: Event) => void;
   onOpenContextMenu: (position: { x: number; y: number }, event: Event) => void;
   collapseCardImages?: boolean;
+  loadCoverImage: (coverImageId: string, rendition: CoverRendition) => Promise<Blob | undefined>;
   isSelected: boolean;
   isSelectionMode: boolean;
+  /** Highlights what the current search matched. */
+  searchResult?: EventSearchResult;
+  isPinned?: boolean;
+  /** Set when cards can be dragged into place; touch drags start in selection mode only, so the list still scrolls. */
+  dragProps?: {
+    onDragStart: (e: React.DragEvent) => void;
+    onDragEnd: () => void;
+    onTouchDrag: (e: React.TouchEvent) => void;
+  };
 }
 
 const ProgressBar: React.FC<{ progress: number }> = ({ progress }) => {
@@ -26,11 +41,30 @@ const ProgressBar: React.FC<{ progress: number }> = ({ progress }) => {
   );
 };
 
+const rangesOf = (hits: SearchHit[], field: SearchHitField): [number, number][] =>
+  hits.filter(hit => hit.field === field).map(hit => [hit.start, hit.end]);
+
+/** Points out a match the card does not otherwise show: in a step, a step's note or a tag. */
+const SearchHint: React.FC<{ event: Event; hit: SearchHit }> = ({ event, hit }) => {
+  const step = hit.stepIndex !== undefined ? event.steps[hit.stepIndex] : undefined;
+  return (
+    <p className="flex items-center gap-1.5 mb-3 text-xs text-slate-500 dark:text-slate-400 pointer-events-none">
+      <SearchIcon className="w-3.5 h-3.5 flex-shrink-0" />
+      <span className="truncate">
+        {hit.field === 'tag' && <>匹配标签：<HighlightedText text={hit.tag!} ranges={[[hit.start, hit.end]]} /></>}
+        {hit.field === 'step' && step && <>匹配第 {hit.stepIndex! + 1} 步：<HighlightedText text={step.description} ranges={[[hit.start, hit.end]]} /></>}
+        {hit.field === 'note' && step && <>匹配第 {hit.stepIndex! + 1} 步的笔记：{step.description}</>}
+      </span>
+    </p>
+  );
+};
 
-const EventCard: React.FC<EventCardProps> = ({ event, onClick, onLongPress, onOpenContextMenu, collapseCardImages, isSelected, isSelectionMode }) => {
+const EventCard: React.FC<EventCardProps> = ({ event, onClick, onLongPress, onOpenContextMenu, collapseCardImages, loadCoverImage, isSelected, isSelectionMode, searchResult, isPinned, dragProps }) => {
   const completedSteps = event.steps.filter(step => step.completed).length;
   const totalSteps = event.steps.length;
   const progress = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
+  const searchHits = searchResult?.hits ?? [];
+  const hiddenHit = searchHits.find(hit => hit.field === 'step' || hit.field === 'note' || hit.field === 'tag');
   
   const handleContextMenu = (e: React.MouseEvent) => {
     if (isSelectionMode) return;
@@ -52,8 +86,14 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onLongPress, onOp
   const longPressEvents = useLongPress(
     handleLongPressCallback,
     handleClickCallback,
-    { delay: 400 }
+    { delay: 400, onDrag: isSelectionMode ? dragProps?.onTouchDrag : undefined }
   );
+
+  const handleDragStart = (e: React.DragEvent) => {
+    // A native drag swallows the mouseup, so the pending long press has to be cancelled here.
+    longPressEvents.onMouseLeave(e);
+    dragProps?.onDragStart(e);
+  };
   
   const handleNativeClick = (e: React.MouseEvent) => {
     // 此处理器捕获在 mouseup/touchend 之后触发的原生 'click' 事件。
@@ -68,6 +108,9 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onLongPress, onOp
       {...longPressEvents}
       onClick={handleNativeClick}
       onContextMenu={handleContextMenu}
+      draggable={!!dragProps}
+      onDragStart={dragProps ? handleDragStart : undefined}
+      onDragEnd={dragProps?.onDragEnd}
       className={`relative bg-white dark:bg-slate-800 rounded-2xl shadow-md cursor-pointer transition-all duration-300 overflow-hidden flex flex-col select-none 
       ${isSelectionMode ? 'active:scale-100 hover:-translate-y-0 hover:shadow-md' : 'hover:shadow-xl hover:-translate-y-1 active:scale-[0.98] active:shadow-lg'}`}
     >
@@ -78,18 +121,33 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onLongPress, onOp
             </div>
         </div>
       )}
+      {isPinned && (
+        <div className="absolute top-3 right-3 z-[5] p-1.5 rounded-full bg-white/90 dark:bg-slate-800/90 shadow-sm pointer-events-none" title="已置顶">
+          <PinIcon className="w-4 h-4 text-slate-700 dark:text-slate-200" />
+        </div>
+      )}
       {!collapseCardImages && (
         event.imageUrl === DEFAULT_ANIMATED_PLACEHOLDER ? (
           <AnimatedPlaceholder className="w-full h-40 pointer-events-none" />
-        ) : event.imageUrl ? (
+        ) : event.coverImageId || event.imageUrl ? (
           <div className="w-full h-40 bg-slate-200 dark:bg-slate-700 pointer-events-none">
-            <img src={event.imageUrl} alt={event.title} className="w-full h-full object-cover" />
+            <CoverImage event={event} rendition="thumbnail" loadCoverImage={loadCoverImage} lazy />
           </div>
         ) : null
       )}
       <div className="p-6 flex flex-col flex-grow">
-        <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2 truncate pointer-events-none">{event.title}</h3>
-        <p className="text-slate-600 dark:text-slate-400 text-sm mb-4 line-clamp-2 flex-grow pointer-events-none">{event.description}</p>
+        {(event.mediaType !== 'generic' || event.mediaMetadata?.customType) && (
+          <span className="self-start max-w-full truncate mb-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 pointer-events-none">
+            {[getMediaTypeLabel(event), describeMediaMetadata(event)].filter(Boolean).join(' · ')}
+          </span>
+        )}
+        <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2 truncate pointer-events-none">
+          <HighlightedText text={event.title} ranges={rangesOf(searchHits, 'title')} />
+        </h3>
+        <p className="text-slate-600 dark:text-slate-400 text-sm mb-4 line-clamp-2 flex-grow pointer-events-none">
+          <HighlightedText text={markdownToPlainText(event.description)} ranges={rangesOf(searchHits, 'description')} />
+        </p>
+        {hiddenHit && <SearchHint event={event} hit={hiddenHit} />}
         
         <div className="mt-auto pointer-events-none">
           <div className="flex justify-between items-center mb-2 text-sm text-slate-500 dark:text-slate-400">
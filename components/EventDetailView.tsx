@@ -1,10 +1,19 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Event, ProgressStep } from '../types';
-import { ArrowLeftIcon, CheckIcon, PencilIcon, ArrowUpTrayIcon } from './icons';
+import { Attachment, CoverRendition, Event, ProgressStep, StepActivity, StepActivityType } from '../types';
+import { ArrowLeftIcon, CheckIcon, PencilIcon, ArrowUpTrayIcon, ChevronDownIcon, ChevronRightIcon, PaperClipIcon } from './icons';
+import MarkdownView from './MarkdownView';
+import AttachmentGallery from './AttachmentGallery';
+import AttachmentLightbox from './AttachmentLightbox';
 import { getDataFromStoreByKey, DEFAULT_ANIMATED_PLACEHOLDER } from '../App';
 import AnimatedPlaceholder from './AnimatedPlaceholder';
+import CoverImage from './CoverImage';
+import { StepSection, countCompletedSteps, groupSteps, orderStepsByGroup } from '../utils/stepGroups';
+import { STEP_ACTIVITY_LABELS, describeStepActivity } from '../utils/stepActivity';
+import { MAX_RATING, getLifecycleLabel, getLifecycleStatus } from '../utils/lifecycle';
+import { setStepNote } from '../utils/stepNotes';
+import { getAttachmentsFor } from '../utils/attachments';
 
 
 type OverviewBlockSize = 'sm' | 'md' | 'lg';
@@ -18,6 +27,11 @@ interface EventDetailViewProps {
   overviewBlockSize: OverviewBlockSize;
   onOverviewBlockSizeChange: (size: OverviewBlockSize) => void;
   activeDbName: string;
+  loadAttachment: (attachmentId: string) => Promise<File | undefined>;
+  loadCoverImage: (coverImageId: string, rendition: CoverRendition) => Promise<Blob | undefined>;
+  /** Adds the files to the event, or to a step when `stepId` is given. */
+  onAddAttachments: (event: Event, files: File[], stepId?: string) => void;
+  onSetCover: (event: Event, attachment: Attachment) => void;
 }
 
 const sizeConfig: Record<OverviewBlockSize, { container: string; text: string; icon: string }> = {
@@ -33,7 +47,25 @@ const sizeOptions: { id: OverviewBlockSize; label: string }[] = [
 ];
 
 
-const TimelineItem: React.FC<{ step: ProgressStep; onToggle: () => void; isLast: boolean }> = ({ step, onToggle, isLast }) => {
+interface TimelineItemProps {
+  step: ProgressStep;
+  onToggle: () => void;
+  onSaveNote: (note: string) => void;
+  attachments: Attachment[];
+  loadAttachment: (attachmentId: string) => Promise<File | undefined>;
+  onOpenAttachment: (attachment: Attachment) => void;
+  onAddAttachment: () => void;
+  isLast: boolean;
+}
+
+const TimelineItem: React.FC<TimelineItemProps> = ({ step, onToggle, onSaveNote, attachments, loadAttachment, onOpenAttachment, onAddAttachment, isLast }) => {
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+
+  const saveNote = () => {
+    if (noteDraft !== null) onSaveNote(noteDraft);
+    setNoteDraft(null);
+  };
+
   return (
     <div className="relative flex items-start">
       <div className="flex flex-col items-center mr-4">
@@ -47,23 +79,160 @@ const TimelineItem: React.FC<{ step: ProgressStep; onToggle: () => void; isLast:
         </div>
         {!isLast && <div className={`w-0.5 grow transition-colors duration-500 ${step.completed ? 'bg-slate-800 dark:bg-slate-400' : 'bg-slate-300 dark:bg-slate-600'}`}></div>}
       </div>
-      <div className={`pt-2.5 pb-8 transition-opacity duration-300 ${step.completed ? 'opacity-60' : 'opacity-100'}`}>
-        <p className={`font-medium text-slate-800 dark:text-slate-100 transition-all duration-300 ${step.completed ? 'line-through' : ''}`}>{step.description}</p>
-        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{step.timestamp.toLocaleString()}</p>
+      <div className="pt-2.5 pb-8 min-w-0 flex-grow">
+        <div className={`transition-opacity duration-300 ${step.completed ? 'opacity-60' : 'opacity-100'}`}>
+          <p className={`font-medium text-slate-800 dark:text-slate-100 transition-all duration-300 ${step.completed ? 'line-through' : ''}`}>{step.description}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            {step.timestamp.toLocaleString()}
+            {step.completed && step.completedAt && ` · 完成于 ${step.completedAt.toLocaleString()}`}
+          </p>
+        </div>
+        {noteDraft !== null ? (
+          <div className="mt-2 space-y-2">
+            <textarea
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setNoteDraft(null);
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveNote();
+              }}
+              rows={4}
+              autoFocus
+              placeholder="写点什么... 支持 Markdown，||剧透|| 会被隐藏"
+              className="w-full px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setNoteDraft(null)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95">取消</button>
+              <button onClick={saveNote} className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95">保存笔记</button>
+            </div>
+          </div>
+        ) : step.note ? (
+          <div className="mt-2 p-3 rounded-lg bg-slate-100 dark:bg-slate-800/60 text-sm text-slate-700 dark:text-slate-300">
+            <MarkdownView text={step.note} />
+            <button onClick={() => setNoteDraft(step.note ?? '')} className="mt-2 flex items-center gap-1 text-xs font-semibold text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+              <PencilIcon className="w-3.5 h-3.5" />
+              编辑笔记
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setNoteDraft('')} className="mt-1 flex items-center gap-1 text-xs font-semibold text-slate-400 dark:text-slate-500 hover:text-slate-700 dark:hover:text-slate-200">
+            <PencilIcon className="w-3.5 h-3.5" />
+            添加笔记
+          </button>
+        )}
+        {attachments.length > 0 && (
+          <div className="mt-2">
+            <AttachmentGallery attachments={attachments} loadAttachment={loadAttachment} onOpen={onOpenAttachment} size="sm" />
+          </div>
+        )}
+        <button onClick={onAddAttachment} className="mt-1 flex items-center gap-1 text-xs font-semibold text-slate-400 dark:text-slate-500 hover:text-slate-700 dark:hover:text-slate-200">
+          <PaperClipIcon className="w-3.5 h-3.5" />
+          添加附件
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const UNGROUPED_KEY = '__ungrouped__';
+
+type TimelineTab = 'timeline' | 'history';
+
+const timelineTabs: { id: TimelineTab; label: string }[] = [
+  { id: 'timeline', label: '进度时间线' },
+  { id: 'history', label: '历史' },
+];
+
+const activityBadgeClasses: Record<StepActivityType, string> = {
+  completed: 'bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900',
+  uncompleted: 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300',
+  added: 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200',
+  renamed: 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200',
+  removed: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300',
+};
+
+/** The activity log, newest first and grouped by day. */
+const ActivityHistory: React.FC<{ activityLog: StepActivity[] }> = ({ activityLog }) => {
+  if (activityLog.length === 0) {
+    return (
+      <div className="text-center py-12 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+        <p className="text-slate-500 dark:text-slate-400">还没有任何动态。</p>
+        <p className="text-slate-500 dark:text-slate-400">完成、添加或修改步骤后会记录在这里。</p>
       </div>
+    );
+  }
+
+  const days: { day: string; entries: StepActivity[] }[] = [];
+  [...activityLog].reverse().forEach(entry => {
+    const day = entry.at.toLocaleDateString();
+    const last = days[days.length - 1];
+    if (last?.day === day) last.entries.push(entry);
+    else days.push({ day, entries: [entry] });
+  });
+
+  return (
+    <div className="space-y-6">
+      {days.map(({ day, entries }) => (
+        <div key={day}>
+          <h4 className="text-sm font-semibold text-slate-500 dark:text-slate-400 mb-2">{day}</h4>
+          <ul className="space-y-2">
+            {entries.map((entry, i) => (
+              <li key={`${entry.stepId}-${entry.at.getTime()}-${i}`} className="flex items-center gap-3 p-3 rounded-lg bg-white dark:bg-slate-800 shadow-sm">
+                <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${activityBadgeClasses[entry.type]}`}>{STEP_ACTIVITY_LABELS[entry.type]}</span>
+                <span className="flex-grow min-w-0 truncate text-slate-800 dark:text-slate-100" title={describeStepActivity(entry)}>
+                  {entry.type === 'renamed' ? `${entry.previousDescription ?? ''} → ${entry.description}` : entry.description}
+                </span>
+                <time className="flex-shrink-0 text-xs text-slate-500 dark:text-slate-400" dateTime={entry.at.toISOString()}>
+                  {entry.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </time>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StepSectionHeader: React.FC<{ section: StepSection; isCollapsed: boolean; onToggle: () => void; onMarkComplete: () => void }> = ({ section, isCollapsed, onToggle, onMarkComplete }) => {
+  const completed = countCompletedSteps(section.steps);
+  const total = section.steps.length;
+  return (
+    <div className="flex items-center justify-between gap-3 mb-3">
+      <button onClick={onToggle} className="flex items-center gap-2 min-w-0 text-left text-slate-700 dark:text-slate-200 hover:text-slate-900 dark:hover:text-white" aria-expanded={!isCollapsed}>
+        {isCollapsed ? <ChevronRightIcon className="w-5 h-5 flex-shrink-0" /> : <ChevronDownIcon className="w-5 h-5 flex-shrink-0" />}
+        <span className="font-semibold truncate">{section.group?.name ?? '未分组'}</span>
+        <span className="text-sm text-slate-500 dark:text-slate-400 flex-shrink-0">{completed} / {total}</span>
+      </button>
+      <button
+        onClick={onMarkComplete}
+        disabled={total === 0 || completed === total}
+        className="flex-shrink-0 flex items-center gap-1.5 text-sm font-medium px-3 py-1.5 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-all active:scale-95"
+      >
+        <CheckIcon className="w-4 h-4" />
+        全部完成
+      </button>
     </div>
   );
 };
 
-const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpdateEvent, onEdit, onEditSteps, overviewBlockSize, onOverviewBlockSizeChange, activeDbName }) => {
-  const [localSteps, setLocalSteps] = useState(() => [...event.steps].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+const EventDetailView: React.FC<EventDetailViewProps> = ({
+  event, onBack, onUpdateEvent, onEdit, onEditSteps, overviewBlockSize, onOverviewBlockSizeChange, activeDbName, loadAttachment, loadCoverImage, onAddAttachments, onSetCover,
+}) => {
+  const [localSteps, setLocalSteps] = useState(() => orderStepsByGroup(event.steps, event.stepGroups));
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [timelineTab, setTimelineTab] = useState<TimelineTab>('timeline');
+  // The lightbox pages through the attachments of the event itself or of one step.
+  const [lightbox, setLightbox] = useState<{ stepId?: string; attachmentId: string } | null>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const attachmentTargetRef = useRef<string | undefined>(undefined);
   const isSwipingRef = useRef(false);
   const swipeTargetStateRef = useRef(false);
   const swipedThisActionRef = useRef(false);
 
   useEffect(() => {
-      setLocalSteps([...event.steps].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
-  }, [event.steps]);
+      setLocalSteps(orderStepsByGroup(event.steps, event.stepGroups));
+  }, [event.steps, event.stepGroups]);
 
   const handlePointerMove = (e: PointerEvent) => {
       if (!isSwipingRef.current) return;
@@ -138,6 +307,55 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
     onUpdateEvent({ ...event, steps: updatedSteps });
   };
 
+  const handleSaveStepNote = (stepId: string, note: string) => {
+    const updatedSteps = event.steps.map(step => step.id === stepId ? setStepNote(step, note) : step);
+    onUpdateEvent({ ...event, steps: updatedSteps });
+  };
+
+  const handleMarkSectionComplete = (section: StepSection) => {
+    const sectionStepIds = new Set(section.steps.map(step => step.id));
+    const updatedSteps = event.steps.map(step =>
+      sectionStepIds.has(step.id) ? { ...step, completed: true } : step
+    );
+    onUpdateEvent({ ...event, steps: updatedSteps });
+  };
+
+  const toggleSectionCollapsed = (key: string) => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleChooseAttachments = (stepId?: string) => {
+    attachmentTargetRef.current = stepId;
+    attachmentInputRef.current?.click();
+  };
+
+  const handleAttachmentFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onAddAttachments(event, files, attachmentTargetRef.current);
+  };
+
+  const lightboxAttachments = lightbox ? getAttachmentsFor(event, lightbox.stepId) : [];
+  const lightboxIndex = lightbox ? lightboxAttachments.findIndex(a => a.id === lightbox.attachmentId) : -1;
+
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    const next = lightboxAttachments[lightboxIndex + 1] ?? lightboxAttachments[lightboxIndex - 1];
+    setLightbox(next ? { ...lightbox, attachmentId: next.id } : null);
+    onUpdateEvent({ ...event, attachments: (event.attachments ?? []).filter(a => a.id !== attachment.id) });
+  };
+
+  const getAttachmentCaption = (attachment: Attachment) => {
+    const step = attachment.stepId ? event.steps.find(s => s.id === attachment.stepId) : undefined;
+    return step ? `步骤「${step.description}」` : undefined;
+  };
+
+  const eventAttachments = getAttachmentsFor(event);
+
   const handleDownloadOriginal = async () => {
     try {
       const originalImageFile = await getDataFromStoreByKey(activeDbName, 'originalImages', event.id);
@@ -158,7 +376,27 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
     }
   };
   
-  const sortedSteps = localSteps;
+  const sections = groupSteps(localSteps, event.stepGroups);
+  const hasGroups = (event.stepGroups?.length ?? 0) > 0;
+
+  /** Renders each section with a collapsible header, or the steps alone when the event has no groups. */
+  const renderSections = (renderSteps: (steps: ProgressStep[]) => React.ReactNode) => {
+    if (!hasGroups) return renderSteps(localSteps);
+    return (
+      <div className="space-y-6">
+        {sections.map(section => {
+          const key = section.group?.id ?? UNGROUPED_KEY;
+          const isCollapsed = collapsedSections.has(key);
+          return (
+            <div key={key}>
+              <StepSectionHeader section={section} isCollapsed={isCollapsed} onToggle={() => toggleSectionCollapsed(key)} onMarkComplete={() => handleMarkSectionComplete(section)} />
+              {!isCollapsed && section.steps.length > 0 && renderSteps(section.steps)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
   
   const gridLayoutClasses = {
       sm: 'grid-cols-7',
@@ -174,19 +412,53 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
           返回所有事件
         </button>
         <h2 className="text-3xl lg:text-4xl font-extrabold text-slate-900 dark:text-slate-50 tracking-tight">{event.title}</h2>
-        <p className="mt-2 text-lg text-slate-600 dark:text-slate-400">{event.description}</p>
+        {event.description && <MarkdownView text={event.description} className="mt-2 text-lg text-slate-600 dark:text-slate-400" />}
         <p className="mt-1 text-sm text-slate-500 dark:text-slate-500">创建于: {event.createdAt.toLocaleDateString()}</p>
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200">
+            {getLifecycleLabel(getLifecycleStatus(event))}
+          </span>
+          {event.rating !== undefined && (
+            <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900" aria-label={`评分 ${event.rating}/${MAX_RATING}`}>
+              ★ {event.rating}/{MAX_RATING}
+            </span>
+          )}
+        </div>
+        {event.review && (
+          <blockquote className="mt-4 pl-4 border-l-4 border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+            {event.review}
+          </blockquote>
+        )}
       </header>
       
       {event.imageUrl === DEFAULT_ANIMATED_PLACEHOLDER ? (
         <div className="mb-12 rounded-2xl overflow-hidden shadow-lg animate-content-enter opacity-0" style={{ animationDelay: '200ms' }}>
           <AnimatedPlaceholder className="w-full object-cover aspect-video" />
         </div>
-      ) : event.imageUrl ? (
-        <div className="mb-12 rounded-2xl overflow-hidden shadow-lg animate-content-enter opacity-0" style={{ animationDelay: '200ms' }}>
-          <img src={event.imageUrl} alt={event.title} className="w-full object-cover aspect-video" />
+      ) : event.coverImageId || event.imageUrl ? (
+        <div className="mb-12 rounded-2xl overflow-hidden shadow-lg aspect-video bg-slate-200 dark:bg-slate-700 animate-content-enter opacity-0" style={{ animationDelay: '200ms' }}>
+          <CoverImage event={event} rendition="medium" loadCoverImage={loadCoverImage} />
         </div>
       ) : null}
+
+      <div className="mb-12 animate-content-enter opacity-0" style={{ animationDelay: '250ms' }}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-2xl font-bold text-slate-800 dark:text-slate-200">附件</h3>
+          <button
+            onClick={() => handleChooseAttachments()}
+            className="flex items-center gap-2 text-slate-600 dark:text-slate-300 font-semibold px-4 py-2.5 rounded-lg shadow-sm bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 transition-all active:scale-95"
+          >
+            <PaperClipIcon className="w-5 h-5" />
+            添加附件
+          </button>
+        </div>
+        {eventAttachments.length > 0 ? (
+          <AttachmentGallery attachments={eventAttachments} loadAttachment={loadAttachment} onOpen={(attachment) => setLightbox({ attachmentId: attachment.id })} />
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">可以添加图片或其他文件，图片可以设为封面。</p>
+        )}
+        <input ref={attachmentInputRef} type="file" multiple className="hidden" onChange={handleAttachmentFilesSelected} />
+      </div>
       
       {event.steps.length > 0 && (
         <div className="mb-12 animate-content-enter opacity-0" style={{ animationDelay: '300ms' }}>
@@ -209,8 +481,9 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
               ))}
             </div>
           </div>
+          {renderSections(steps => (
           <div className={`grid ${gridLayoutClasses} gap-3 touch-none`}>
-            {sortedSteps.map(step => {
+            {steps.map(step => {
               const emojiRegex = /^\p{Emoji_Presentation}/u;
               const emojiMatch = step.description.match(emojiRegex);
               const isEmojiStep = !!emojiMatch;
@@ -220,7 +493,7 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
               const isFirstWordStyle = parts.length > 1;
 
               // Original symbolic logic, adjusted to not conflict with the new style.
-              const containsCJK = /[\u4e0-\u9fa5]/.test(step.description);
+              const containsCJK = /[\u4e00-\u9fa5]/.test(step.description);
               const isSymbolic = !isEmojiStep && !isFirstWordStyle && !containsCJK && step.description.length <= 3;
               
               // If it has a space, is an emoji, or is symbolic, use a square layout.
@@ -263,12 +536,29 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
               );
             })}
           </div>
+          ))}
         </div>
       )}
 
       <div className="animate-content-enter opacity-0" style={{ animationDelay: '400ms' }}>
         <div className="flex justify-between items-center mb-6">
-          <h3 className="text-2xl font-bold text-slate-800 dark:text-slate-200">进度时间线</h3>
+          <div role="tablist" className="flex items-center gap-4">
+            {timelineTabs.map(tab => (
+              <button
+                key={tab.id}
+                role="tab"
+                aria-selected={timelineTab === tab.id}
+                onClick={() => setTimelineTab(tab.id)}
+                className={`text-2xl font-bold transition-colors ${
+                  timelineTab === tab.id
+                    ? 'text-slate-800 dark:text-slate-200'
+                    : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
           <div className="flex items-center gap-3">
              {event.hasOriginalImage && (
               <button
@@ -296,24 +586,44 @@ const EventDetailView: React.FC<EventDetailViewProps> = ({ event, onBack, onUpda
           </div>
         </div>
 
-        {event.steps.length > 0 ? (
+        {timelineTab === 'history' ? (
+          <ActivityHistory activityLog={event.activityLog ?? []} />
+        ) : event.steps.length > 0 ? renderSections(steps => (
           <div className="relative">
-             {localSteps.map((step, index) => (
+             {steps.map((step, index) => (
               <TimelineItem 
                 key={step.id} 
                 step={step} 
                 onToggle={() => handleTimelineToggleStep(step.id)}
-                isLast={index === event.steps.length - 1}
+                onSaveNote={(note) => handleSaveStepNote(step.id, note)}
+                attachments={getAttachmentsFor(event, step.id)}
+                loadAttachment={loadAttachment}
+                onOpenAttachment={(attachment) => setLightbox({ stepId: step.id, attachmentId: attachment.id })}
+                onAddAttachment={() => handleChooseAttachments(step.id)}
+                isLast={index === steps.length - 1}
               />
             ))}
           </div>
-        ) : (
+        )) : (
           <div className="text-center py-12 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
             <p className="text-slate-500 dark:text-slate-400">尚未添加任何进度步骤。</p>
             <p className="text-slate-500 dark:text-slate-400">点击“编辑步骤”开始！</p>
           </div>
         )}
       </div>
+
+      {lightboxIndex !== -1 && (
+        <AttachmentLightbox
+          attachments={lightboxAttachments}
+          index={lightboxIndex}
+          onIndexChange={(index) => setLightbox({ ...lightbox, attachmentId: lightboxAttachments[index].id })}
+          onClose={() => setLightbox(null)}
+          loadAttachment={loadAttachment}
+          getCaption={getAttachmentCaption}
+          onSetCover={(attachment) => onSetCover(event, attachment)}
+          onRemove={handleRemoveAttachment}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,82 @@
+import React from 'react';
+import Modal from './Modal';
+import { ArrowUpTrayIcon } from './icons';
+import { TextExportFormat } from '../utils/textExport';
+
+export type ExportScope = 'all' | 'filtered' | 'selected';
+
+interface ExportEventsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  format: TextExportFormat;
+  onFormatChange: (format: TextExportFormat) => void;
+  scope: ExportScope;
+  onScopeChange: (scope: ExportScope) => void;
+  counts: Record<ExportScope, number>;
+  onExport: () => void;
+}
+
+const FORMAT_OPTIONS: { format: TextExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: '每个步骤一行，包含事件标题、标签、步骤、完成状态和时间，适合粘贴到电子表格中。' },
+  { format: 'markdown', label: 'Markdown', description: '每个事件一个清单，包含标签和进度百分比，适合用于周报。' },
+];
+
+const SCOPE_OPTIONS: { scope: ExportScope; label: string }[] = [
+  { scope: 'all', label: '全部' },
+  { scope: 'filtered', label: '当前筛选' },
+  { scope: 'selected', label: '已选中' },
+];
+
+const segmentClass = (isActive: boolean) => `w-full px-3 py-1.5 text-sm font-semibold rounded-md transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+  isActive
+    ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+    : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+}`;
+
+const ExportEventsModal: React.FC<ExportEventsModalProps> = ({
+  isOpen, onClose, format, onFormatChange, scope, onScopeChange, counts, onExport
+}) => {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="导出事件" variant="dialog">
+      <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">格式</label>
+          <div className="flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+            {FORMAT_OPTIONS.map(option => (
+              <button key={option.format} onClick={() => onFormatChange(option.format)} className={segmentClass(format === option.format)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+            {FORMAT_OPTIONS.find(option => option.format === format)?.description}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">范围</label>
+          <div className="flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+            {SCOPE_OPTIONS.map(option => (
+              <button
+                key={option.scope}
+                onClick={() => onScopeChange(option.scope)}
+                disabled={counts[option.scope] === 0}
+                className={segmentClass(scope === option.scope)}
+              >
+                {option.label} ({counts[option.scope]})
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+          <button onClick={onExport} disabled={counts[scope] === 0} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed flex items-center gap-2">
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            导出
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportEventsModal;
@@ -1,12 +1,11 @@
 import React from 'react';
-import { CheckIcon, PencilIcon, ChevronDownIcon, ChevronUpIcon, XIcon } from './icons';
+import { CheckIcon, PencilIcon, ChevronDownIcon, ChevronUpIcon, XIcon, MinusIcon, TagIcon } from './icons';
+import { ActiveFilters, LifecycleStatus, MediaType, TagMatchMode } from '../types';
+import { MEDIA_TYPES } from '../utils/mediaTypes';
+import { LIFECYCLE_STATUSES } from '../utils/lifecycle';
+import { TagFilterState, describeTagFilter, getTagFilterState, hasTagFilter } from '../utils/tagFilter';
 
-type StatusFilter = 'all' | 'in-progress' | 'completed';
-
-interface ActiveFilters {
-  status: StatusFilter;
-  tags: string[];
-}
+type StatusFilter = 'all' | LifecycleStatus;
 
 interface FilterChipProps {
   label: string;
@@ -30,25 +29,60 @@ const Chip: React.FC<FilterChipProps> = ({ label, isActive, onClick }) => {
   );
 };
 
+const TAG_STATE_LABELS: Record<TagFilterState, string> = { include: '包含', exclude: '排除', off: '不筛选' };
+
+/** A tag chip; clicking cycles it through include, exclude and off. */
+const TagChip: React.FC<{ tag: string; state: TagFilterState; onClick: () => void }> = ({ tag, state, onClick }) => {
+  return (
+    <button
+      onClick={onClick}
+      title={`${tag}：${TAG_STATE_LABELS[state]}（点击切换）`}
+      className={`flex-shrink-0 flex items-center justify-center gap-2 px-4 py-2.5 rounded-full text-sm font-semibold transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-500 dark:focus-visible:ring-offset-slate-900 active:scale-95 ${
+        state === 'include'
+          ? 'bg-slate-900 text-white dark:bg-slate-200 dark:text-slate-900'
+          : state === 'exclude'
+            ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/40 dark:text-red-300 dark:hover:bg-red-900/60'
+            : 'bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600'
+      }`}
+    >
+      {state === 'include' && <CheckIcon className="w-4 h-4" />}
+      {state === 'exclude' && <MinusIcon className="w-4 h-4" />}
+      <span className={state === 'exclude' ? 'line-through' : ''}>{tag}</span>
+    </button>
+  );
+};
+
+const TAG_MATCH_MODES: { mode: TagMatchMode; label: string }[] = [
+  { mode: 'all', label: '全部' },
+  { mode: 'any', label: '任一' },
+];
+
 interface FilterChipsProps {
   activeFilters: ActiveFilters;
   onStatusChange: (filter: StatusFilter) => void;
+  /** Moves the tag on to its next state: include, exclude, off. */
   onTagToggle: (tag: string) => void;
+  onTagMatchModeChange: (mode: TagMatchMode) => void;
+  onUntaggedOnlyChange: (untaggedOnly: boolean) => void;
   customTags: string[];
   onManageTags: () => void;
   isExpanded: boolean;
   onToggleExpand: () => void;
   onResetTags: () => void;
+  onMediaTypeChange: (mediaType: MediaType | null) => void;
+  /** Types used by at least one event; type chips are only shown when there is more than one. */
+  availableMediaTypes: MediaType[];
 }
 
 const defaultFilters: { id: StatusFilter; label: string }[] = [
   { id: 'all', label: '全部' },
-  { id: 'in-progress', label: '进行中' },
-  { id: 'completed', label: '已完成' },
+  ...LIFECYCLE_STATUSES,
 ];
 
-const FilterChips: React.FC<FilterChipsProps> = ({ activeFilters, onStatusChange, onTagToggle, customTags, onManageTags, isExpanded, onToggleExpand, onResetTags }) => {
+const FilterChips: React.FC<FilterChipsProps> = ({ activeFilters, onStatusChange, onTagToggle, onTagMatchModeChange, onUntaggedOnlyChange, customTags, onManageTags, isExpanded, onToggleExpand, onResetTags, onMediaTypeChange, availableMediaTypes }) => {
   const hasTags = customTags.length > 0;
+  const tagFilterSummary = describeTagFilter(activeFilters);
+  const mediaTypeFilters = MEDIA_TYPES.filter(type => availableMediaTypes.includes(type.id) || activeFilters.mediaType === type.id);
 
   return (
     <div className="px-4 sm:px-6 lg:px-8">
@@ -64,12 +98,36 @@ const FilterChips: React.FC<FilterChipsProps> = ({ activeFilters, onStatusChange
                 onClick={() => onStatusChange(filter.id)}
               />
             ))}
+            {mediaTypeFilters.length > 1 && (
+              <>
+                <div className="h-5 w-px bg-slate-300 dark:bg-slate-600 flex-shrink-0"></div>
+                {mediaTypeFilters.map((type) => (
+                  <Chip
+                    key={type.id}
+                    label={type.label}
+                    isActive={activeFilters.mediaType === type.id}
+                    onClick={() => onMediaTypeChange(activeFilters.mediaType === type.id ? null : type.id)}
+                  />
+                ))}
+              </>
+            )}
           </div>
 
           {hasTags && (
             <div className="flex-shrink-0 flex items-center gap-2">
               <div className="h-5 w-px bg-slate-300 dark:bg-slate-600 flex-shrink-0"></div>
-              
+
+              {tagFilterSummary && (
+                <button
+                  onClick={onToggleExpand}
+                  title={tagFilterSummary}
+                  className="flex-shrink min-w-0 max-w-[10rem] sm:max-w-xs flex items-center gap-1.5 px-3 py-2.5 rounded-full text-sm font-semibold transition-colors duration-200 bg-white/70 text-slate-700 border border-slate-300 hover:bg-slate-100 dark:bg-slate-800/70 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-700"
+                  aria-label={`标签筛选：${tagFilterSummary}`}
+                >
+                  <TagIcon className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{tagFilterSummary}</span>
+                </button>
+              )}
               <button
                 onClick={onManageTags}
                 className="flex-shrink-0 flex items-center justify-center p-2.5 rounded-full transition-all duration-200 ease-in-out bg-slate-200 text-slate-700 hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-500 dark:focus-visible:ring-offset-slate-900 active:scale-95"
@@ -97,15 +155,39 @@ const FilterChips: React.FC<FilterChipsProps> = ({ activeFilters, onStatusChange
             {hasTags && (
               <div className="max-h-[50vh] overflow-y-auto no-scrollbar pr-2">
                 <div className="flex items-center gap-2 pt-2 flex-wrap">
+                  <div className="flex-shrink-0 flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-full" role="group" aria-label="标签匹配方式">
+                    {TAG_MATCH_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => onTagMatchModeChange(mode)}
+                        disabled={activeFilters.untaggedOnly}
+                        aria-pressed={activeFilters.tagMatchMode === mode}
+                        title={mode === 'all' ? '包含所有选中的标签' : '包含任一选中的标签'}
+                        className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                          activeFilters.tagMatchMode === mode
+                            ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+                            : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <Chip
+                    label="无标签"
+                    isActive={activeFilters.untaggedOnly}
+                    onClick={() => onUntaggedOnlyChange(!activeFilters.untaggedOnly)}
+                  />
+                  <div className="h-5 w-px bg-slate-300 dark:bg-slate-600 flex-shrink-0"></div>
                   {customTags.map((tag) => (
-                    <Chip
+                    <TagChip
                       key={tag}
-                      label={tag}
-                      isActive={activeFilters.tags.includes(tag)}
+                      tag={tag}
+                      state={getTagFilterState(activeFilters, tag)}
                       onClick={() => onTagToggle(tag)}
                     />
                   ))}
-                  {activeFilters.tags.length > 0 && (
+                  {hasTagFilter(activeFilters) && (
                     <button
                       onClick={onResetTags}
                       className="flex-shrink-0 flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-full text-sm font-semibold transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-500 dark:focus-visible:ring-offset-slate-900 active:scale-95 bg-transparent border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
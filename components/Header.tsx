@@ -1,35 +1,45 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SearchIcon, XIcon, ChevronDownIcon, CheckIcon, SettingsIcon, TrashIcon, TagIcon } from './icons';
+import { XIcon, ChevronDownIcon, CheckIcon, SettingsIcon, TrashIcon, TagIcon, ArrowUpTrayIcon, ChartBarIcon } from './icons';
+import SearchQueryInput from './SearchQueryInput';
+import { SearchQueryError } from '../utils/searchQuery';
+import { SortOrder } from '../types';
 
-export type SortOrder = 'createdAt-desc' | 'createdAt-asc' | 'title-asc' | 'title-desc' | 'progress-desc' | 'progress-asc';
-
-const sortOptions: { id: SortOrder; label: string }[] = [
+export const sortOptions: { id: SortOrder; label: string }[] = [
   { id: 'createdAt-desc', label: '最新创建' },
   { id: 'createdAt-asc', label: '最早创建' },
   { id: 'title-asc', label: '标题 (A-Z)' },
   { id: 'title-desc', label: '标题 (Z-A)' },
   { id: 'progress-desc', label: '进度 (高到低)' },
   { id: 'progress-asc', label: '进度 (低到高)' },
+  { id: 'status-asc', label: '状态' },
+  { id: 'rating-desc', label: '评分 (高到低)' },
+  { id: 'rating-asc', label: '评分 (低到高)' },
+  { id: 'manual', label: '手动排序' },
 ];
 
 interface HeaderProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  searchError: SearchQueryError | null;
+  /** Tag names the search box suggests. */
+  tags: string[];
   sortOrder: SortOrder;
   onSortChange: (order: SortOrder) => void;
   onOpenSettings: () => void;
+  onOpenStatistics: () => void;
   isSelectionMode: boolean;
   selectedCount: number;
   onClearSelection: () => void;
   onDeleteSelection: () => void;
   onManageSelectionTags: () => void;
+  onExportSelection: () => void;
 }
 
 
 const Header: React.FC<HeaderProps> = ({ 
-  searchQuery, onSearchChange, sortOrder, onSortChange, onOpenSettings,
+  searchQuery, onSearchChange, searchError, tags, sortOrder, onSortChange, onOpenSettings, onOpenStatistics,
   isSelectionMode, selectedCount, onClearSelection, onDeleteSelection,
-  onManageSelectionTags
+  onManageSelectionTags, onExportSelection
 }) => {
   const [isSortOpen, setIsSortOpen] = useState(false);
   const sortMenuRef = useRef<HTMLDivElement>(null);
@@ -65,6 +75,14 @@ const Header: React.FC<HeaderProps> = ({
                     <TagIcon className="w-5 h-5" />
                     <span className="hidden sm:inline">管理标签</span>
                   </button>
+                  <button
+                    onClick={onExportSelection}
+                    className="text-sm font-semibold px-4 py-2 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors active:scale-95 flex items-center gap-2 border border-l-0 border-slate-300 dark:border-slate-600"
+                    aria-label="导出选中项目"
+                  >
+                    <ArrowUpTrayIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">导出</span>
+                  </button>
                   <button
                     onClick={onDeleteSelection}
                     className="text-sm font-semibold px-4 py-2 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 text-red-600 dark:text-red-400 transition-colors active:scale-95 flex items-center gap-2 rounded-r-lg border border-l-0 border-slate-300 dark:border-slate-600"
@@ -89,27 +107,7 @@ const Header: React.FC<HeaderProps> = ({
               
               <div className="flex items-center gap-2 sm:gap-4 w-full sm:w-auto">
                 {/* Search Input */}
-                <div className="relative flex-1 sm:flex-initial sm:w-full sm:max-w-xs">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <SearchIcon className="h-5 w-5 text-slate-400" />
-                  </div>
-                  <input
-                    type="text"
-                    placeholder="搜索事件..."
-                    value={searchQuery}
-                    onChange={(e) => onSearchChange(e.target.value)}
-                    className="block w-full pl-10 pr-10 py-2.5 border border-slate-300 dark:border-slate-700 bg-white/70 dark:bg-slate-800/70 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-slate-500 transition text-sm"
-                  />
-                  {searchQuery && (
-                    <button
-                      onClick={() => onSearchChange('')}
-                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                      aria-label="清除搜索"
-                    >
-                      <XIcon className="h-5 w-5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" />
-                    </button>
-                  )}
-                </div>
+                <SearchQueryInput value={searchQuery} onChange={onSearchChange} tags={tags} error={searchError} />
 
                 {/* Sort Dropdown */}
                 <div className="relative" ref={sortMenuRef}>
@@ -146,6 +144,14 @@ const Header: React.FC<HeaderProps> = ({
                     </div>
                   )}
                 </div>
+                {/* Statistics Button */}
+                <button
+                  onClick={onOpenStatistics}
+                  className="flex-shrink-0 p-2.5 bg-white/70 dark:bg-slate-800/70 border border-slate-300 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 dark:focus:ring-offset-slate-900 transition-transform active:scale-95"
+                  aria-label="打开统计"
+                >
+                  <ChartBarIcon className="w-5 h-5" />
+                </button>
                  {/* Settings Button */}
                 <button
                   onClick={onOpenSettings}
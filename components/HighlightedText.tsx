@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  /** `[start, end)` string offsets; may overlap. */
+  ranges: [number, number][];
+}
+
+/** The text with the given ranges marked, e.g. the parts a search matched. */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  sorted.forEach(([start, end]) => {
+    start = Math.max(start, position);
+    if (end <= start) return;
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
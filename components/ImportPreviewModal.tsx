@@ -0,0 +1,133 @@
+import React from 'react';
+import Modal from './Modal';
+import { ExclamationTriangleIcon } from './icons';
+import { ImportDiff, ImportDiffCounts, ImportMode } from '../utils/importPlan';
+import { SkippedRecord } from '../utils/backupValidation';
+
+interface ImportPreviewModalProps {
+  isOpen: boolean;
+  fileName: string;
+  imageCount: number;
+  attachmentCount: number;
+  mode: ImportMode;
+  onModeChange: (mode: ImportMode) => void;
+  diff: ImportDiff | null;
+  skipped: SkippedRecord[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MODE_OPTIONS: { mode: ImportMode; label: string; description: string }[] = [
+  { mode: 'restore', label: '还原', description: '让当前数据库与备份完全一致。不在备份中的事件将被移入回收站。' },
+  { mode: 'merge', label: '按 ID 合并', description: '更新 ID 相同的项目并添加新项目，保留 ID 和时间。冲突的事件将作为副本添加。' },
+  { mode: 'append', label: '添加副本', description: '将所有项目作为新副本添加，使用新的 ID 和当前时间。' },
+];
+
+const COLUMNS: { key: keyof ImportDiffCounts; label: string }[] = [
+  { key: 'added', label: '新增' },
+  { key: 'updated', label: '更新' },
+  { key: 'unchanged', label: '未变' },
+  { key: 'conflicting', label: '冲突' },
+  { key: 'removed', label: '移除' },
+];
+
+const ROWS: { key: keyof ImportDiff; label: string }[] = [
+  { key: 'events', label: '事件' },
+  { key: 'tags', label: '标签' },
+  { key: 'stepTemplates', label: '步骤归档' },
+  { key: 'stepSetTemplates', label: '步骤模板' },
+];
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  isOpen, fileName, imageCount, attachmentCount, mode, onModeChange, diff, skipped, onConfirm, onCancel
+}) => {
+  const selectedOption = MODE_OPTIONS.find(option => option.mode === mode)!;
+  const removedEvents = diff?.events.removed ?? 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title="导入数据" variant="dialog">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400 break-all">
+          {fileName}{imageCount > 0 && ` · 含 ${imageCount} 张原始图片`}{attachmentCount > 0 && ` · ${attachmentCount} 个附件`}
+        </p>
+        <div>
+          <div className="flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+            {MODE_OPTIONS.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => onModeChange(option.mode)}
+                className={`w-full px-3 py-1.5 text-sm font-semibold rounded-md transition-all ${
+                  mode === option.mode
+                    ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+                    : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{selectedOption.description}</p>
+        </div>
+        {diff && (
+          <div className="overflow-x-auto rounded-lg bg-slate-100 dark:bg-slate-900/50">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 dark:text-slate-400">
+                  <th className="px-3 py-2 text-left font-semibold"></th>
+                  {COLUMNS.map(column => <th key={column.key} className="px-2 py-2 text-right font-semibold">{column.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700/50">
+                {ROWS.map(row => (
+                  <tr key={row.key} className="text-slate-700 dark:text-slate-300">
+                    <td className="px-3 py-2 font-medium whitespace-nowrap">{row.label}</td>
+                    {COLUMNS.map(column => {
+                      const count = diff[row.key][column.key];
+                      return (
+                        <td key={column.key} className={`px-2 py-2 text-right tabular-nums ${count === 0 ? 'text-slate-400 dark:text-slate-500' : column.key === 'conflicting' || column.key === 'removed' ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {skipped.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-start gap-3">
+              <ExclamationTriangleIcon className="w-6 h-6 text-yellow-500 flex-shrink-0" />
+              <p className="text-sm text-slate-600 dark:text-slate-300">文件中有 {skipped.length} 条记录无效，将被跳过。其余数据可以正常导入。</p>
+            </div>
+            <ul className="max-h-40 overflow-y-auto rounded-lg bg-slate-100 dark:bg-slate-900/50 divide-y divide-slate-200 dark:divide-slate-700/50">
+              {skipped.map(record => (
+                <li key={record.path} className="px-3 py-2 text-xs text-slate-700 dark:text-slate-300 break-words">
+                  <p className="font-semibold">{record.path}{record.label && ` · ${record.label}`}</p>
+                  {record.issues.map((issue, index) => (
+                    <p key={index} className="font-mono text-slate-500 dark:text-slate-400">{issue.path}: {issue.message}</p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {mode === 'restore' && removedEvents > 0 && (
+          <div className="flex items-start gap-3">
+            <ExclamationTriangleIcon className="w-6 h-6 text-yellow-500 flex-shrink-0" />
+            <p className="text-sm text-slate-600 dark:text-slate-300">还原将移除 {removedEvents} 个不在备份中的事件。它们会被移入回收站，也可以立即撤销。</p>
+          </div>
+        )}
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onCancel} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+          <button onClick={onConfirm} disabled={!diff} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">
+            {skipped.length > 0 ? '跳过无效记录并导入' : '导入'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ImportPreviewModal;
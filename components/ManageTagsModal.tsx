@@ -3,6 +3,7 @@ import { XIcon, PlusIcon, TrashIcon, CheckIcon } from './icons';
 import ContextMenu, { ContextMenuAction } from './ContextMenu';
 import Modal from './Modal';
 import useLongPress from '../hooks/useLongPress';
+import useDragReorder, { findDropPosition, getDropIndex } from '../hooks/useDragReorder';
 
 // Helper component for inline editing text (from StepsEditorPanel)
 const InlineEdit: React.FC<{
@@ -200,6 +201,10 @@ interface ManageTagsModalProps {
   onReorderTags: (reorderedTags: string[]) => void;
 }
 
+interface TagDragPayload {
+  tags: string[];
+}
+
 const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags, onAddTag, onDeleteTags, onRenameTag, onReorderTags }) => {
   const [localTags, setLocalTags] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
@@ -207,8 +212,6 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
   
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; tags: Set<string> } | null>(null);
 
-  const [draggedTags, setDraggedTags] = useState<Set<string>>(new Set());
-  const [dropIndex, setDropIndex] = useState<number | null>(null);
   const tagsContainerRef = useRef<HTMLDivElement>(null);
 
   const isSwipingRef = useRef(false);
@@ -217,13 +220,6 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
   const swipeStartCoords = useRef<{ x: number, y: number } | null>(null);
   const SWIPE_THRESHOLD = 5;
   
-  const [touchDragState, setTouchDragState] = useState<{
-    payload: any | null;
-    ghostElement: React.ReactNode | null;
-    position: { x: number; y: number };
-    offset: { x: number; y: number };
-  } | null>(null);
-
 
   useEffect(() => {
     if (isOpen) {
@@ -233,8 +229,7 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
         setSelectedTags(new Set());
         setLastSelectedTag(null);
         setContextMenu(null);
-        setDraggedTags(new Set());
-        setDropIndex(null);
+        reorder.handleDragEnd();
     }
   }, [isOpen, tags]);
   
@@ -395,31 +390,6 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
     }
   };
 
-  const startTouchDrag = useCallback((e: React.TouchEvent, tag: string) => {
-      e.preventDefault();
-      
-      const isDraggingSelected = selectedTags.has(tag);
-      const tagsToDrag = isDraggingSelected && selectedTags.size > 0 ? new Set(selectedTags) : new Set([tag]);
-      
-      setDraggedTags(tagsToDrag);
-      const orderedTagsToDrag = Array.from(tagsToDrag).sort((a, b) => localTags.indexOf(a) - localTags.indexOf(b));
-
-      const payload = { tags: orderedTagsToDrag };
-      
-      const ghostContent = `${orderedTagsToDrag.length}个标签`;
-      const ghost = <div className="p-2 rounded-lg bg-white dark:bg-slate-600 shadow-xl">{ghostContent}</div>;
-
-      const touch = e.touches[0];
-      const targetRect = (e.currentTarget as HTMLElement).getBoundingClientRect();
-      
-      setTouchDragState({
-          payload, ghostElement: ghost,
-          position: { x: touch.clientX, y: touch.clientY },
-          offset: { x: touch.clientX - targetRect.left, y: touch.clientY - targetRect.top }
-      });
-
-  }, [selectedTags, localTags]);
-  
   const commitDrop = useCallback((tagsToDrop: string[], dropIndex: number) => {
       if (tagsToDrop.length === 0) return;
       
@@ -436,108 +406,32 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
 
       setSelectedTags(new Set());
   }, [localTags, onReorderTags]);
-  
-  const updateDropIndicator = useCallback((clientY: number) => {
-      const container = tagsContainerRef.current;
-      if (!container || draggedTags.size === 0) return;
-      
-      const allOriginalElements = Array.from(container.querySelectorAll('[data-reorder-id]')) as HTMLElement[];
-      const draggableElements = allOriginalElements.filter(el => !draggedTags.has(el.dataset.reorderId || ''));
-
-      if (draggableElements.length === 0) {
-          setDropIndex(0);
-          return;
-      }
-
-      const closest = draggableElements.reduce(
-          (acc, child) => {
-              const box = child.getBoundingClientRect();
-              const offset = clientY - (box.top + box.height / 2);
-              if (offset < 0 && offset > acc.offset) {
-                  return { offset: offset, element: child };
-              } else {
-                  return acc;
-              }
-          },
-          { offset: Number.NEGATIVE_INFINITY, element: null as HTMLElement | null }
-      );
-      
-      const newIndex = closest.element
-          ? allOriginalElements.indexOf(closest.element)
-          : allOriginalElements.length;
 
-      if (dropIndex !== newIndex) {
-          setDropIndex(newIndex);
-      }
-  }, [draggedTags, dropIndex]);
-  
-    useEffect(() => {
-        const handleTouchMove = (e: TouchEvent) => {
-            if (touchDragState) {
-                e.preventDefault();
-                const touch = e.touches[0];
-                setTouchDragState(prev => prev ? { ...prev, position: { x: touch.clientX, y: touch.clientY } } : null);
-                updateDropIndicator(touch.clientY);
-            }
-        };
+  const findDropIndex = useCallback((clientX: number, clientY: number, _payload: TagDragPayload, draggedTags: Set<string>) => {
+      const container = tagsContainerRef.current;
+      if (!container) return null;
+      return getDropIndex(container, findDropPosition(container, clientX, clientY, draggedTags));
+  }, []);
 
-        const handleTouchEnd = (e: TouchEvent) => {
-            if (touchDragState && dropIndex !== null) {
-                commitDrop(touchDragState.payload.tags, dropIndex);
-            }
-            setTouchDragState(null);
-            setDropIndex(null);
-            setDraggedTags(new Set());
-        };
-
-        if (touchDragState) {
-            window.addEventListener('touchmove', handleTouchMove, { passive: false });
-            window.addEventListener('touchend', handleTouchEnd);
-        }
+  const reorder = useDragReorder<TagDragPayload, number>(findDropIndex, (payload, dropIndex) => {
+      if (Array.isArray(payload.tags)) commitDrop(payload.tags, dropIndex);
+  });
+  const { draggedIds: draggedTags, dropTarget: dropIndex } = reorder;
 
-        return () => {
-            window.removeEventListener('touchmove', handleTouchMove);
-            window.removeEventListener('touchend', handleTouchEnd);
-        };
-    }, [touchDragState, dropIndex, commitDrop, updateDropIndicator]);
+  const getTagsToDrag = (tag: string) => {
+      // Dragging a selected tag moves the whole selection, in list order.
+      return selectedTags.has(tag) ? localTags.filter(t => selectedTags.has(t)) : [tag];
+  };
 
+  const startTouchDrag = (e: React.TouchEvent, tag: string) => {
+      const tagsToDrag = getTagsToDrag(tag);
+      const ghost = <div className="p-2 rounded-lg bg-white dark:bg-slate-600 shadow-xl">{`${tagsToDrag.length}个标签`}</div>;
+      reorder.startTouchDrag(e, { tags: tagsToDrag }, tagsToDrag, ghost);
+  };
 
   const handleDragStart = (e: React.DragEvent, tag: string) => {
-    const isDraggingSelected = selectedTags.has(tag);
-    const tagsToDrag = isDraggingSelected && selectedTags.size > 0 ? new Set(selectedTags) : new Set([tag]);
-    
-    setDraggedTags(tagsToDrag);
-    const orderedTagsToDrag = Array.from(tagsToDrag).sort((a, b) => localTags.indexOf(a) - localTags.indexOf(b));
-
-    e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('application/json', JSON.stringify({ tags: orderedTagsToDrag }));
-  };
-  
-  const handleDragOver = (e: React.DragEvent) => {
-      e.preventDefault();
-      updateDropIndicator(e.clientY);
-  };
-  
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    const finalDropIndex = dropIndex;
-    setDropIndex(null); 
-    setDraggedTags(new Set());
-    
-    if (finalDropIndex === null) return;
-    
-    let tagsToDrop: string[] = [];
-    try {
-        const data = JSON.parse(e.dataTransfer.getData('application/json'));
-        if (data && Array.isArray(data.tags)) { tagsToDrop = data.tags; }
-    } catch { return; }
-    
-    commitDrop(tagsToDrop, finalDropIndex);
-  };
-  
-  const handleDragEnd = () => {
-    setDraggedTags(new Set());
-    setDropIndex(null);
+    const tagsToDrag = getTagsToDrag(tag);
+    reorder.startDrag(e, { tags: tagsToDrag }, tagsToDrag);
   };
 
   const handleHeaderCloseOrClearSelectionClick = () => {
@@ -583,10 +477,10 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
           <div
               ref={tagsContainerRef}
               className="flex-grow overflow-y-auto flex flex-col gap-2 content-start cursor-default p-2"
-              onDrop={handleDrop}
-              onDragOver={handleDragOver}
-              onDragLeave={() => setDropIndex(null)}
-              onDragEnd={handleDragEnd}
+              onDrop={reorder.handleDrop}
+              onDragOver={reorder.handleDragOver}
+              onDragLeave={reorder.clearDropTarget}
+              onDragEnd={reorder.handleDragEnd}
               onClick={handleContainerClickToDeselect}
           >
               {localTags.length > 0 ? (
@@ -619,13 +513,13 @@ const ManageTagsModal: React.FC<ManageTagsModalProps> = ({ isOpen, onClose, tags
             <AddInput placeholder="添加新标签 (用空格分隔)..." onAdd={handleAddTags} />
           </div>
         </div>
-        {touchDragState && (
+        {reorder.touchDragState && (
             <div 
                 id="touch-drag-ghost"
                 className="fixed top-0 left-0 pointer-events-none z-50" 
-                style={{ transform: `translate(${touchDragState.position.x - touchDragState.offset.x}px, ${touchDragState.position.y - touchDragState.offset.y}px)` }}
+                style={{ transform: `translate(${reorder.touchDragState.position.x - reorder.touchDragState.offset.x}px, ${reorder.touchDragState.position.y - reorder.touchDragState.offset.y}px)` }}
             >
-                {touchDragState.ghostElement}
+                {reorder.touchDragState.ghost}
             </div>
         )}
       </Modal>
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+  className?: string;
+}
+
+const Spoiler: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      onClick={(e) => { e.stopPropagation(); setIsRevealed(true); }}
+      onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); setIsRevealed(true); } }}
+      title={isRevealed ? undefined : '点击显示剧透'}
+      aria-label={isRevealed ? undefined : '剧透，点击显示'}
+      className={`rounded px-0.5 transition-colors ${isRevealed ? 'bg-slate-200 dark:bg-slate-700' : 'bg-slate-700 dark:bg-slate-300 text-transparent cursor-pointer select-none'}`}
+    >
+      {children}
+    </span>
+  );
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'break': return <br key={i} />;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-[0.9em] font-mono">{node.text}</code>;
+      case 'strong': return <strong key={i} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'strike': return <s key={i}>{renderInline(node.children)}</s>;
+      case 'spoiler': return <Spoiler key={i}>{renderInline(node.children)}</Spoiler>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="underline underline-offset-2 text-slate-900 dark:text-slate-100 hover:text-slate-600 dark:hover:text-slate-300 break-words">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const headingClasses = ['text-2xl font-bold', 'text-xl font-bold', 'text-lg font-semibold', 'text-base font-semibold', 'text-base font-semibold', 'text-base font-semibold'];
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+        return <Tag key={i} className={`${headingClasses[block.level - 1]} text-slate-800 dark:text-slate-200`}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph': return <p key={i}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      case 'quote': return <blockquote key={i} className="pl-4 border-l-4 border-slate-300 dark:border-slate-600 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'code': return <pre key={i} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-900/50 overflow-x-auto text-sm font-mono"><code>{block.text}</code></pre>;
+      case 'rule': return <hr key={i} className="border-slate-300 dark:border-slate-600" />;
+    }
+  });
+
+/** Renders text written in the dialect of `utils/markdown.ts`. */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, className }) => (
+  <div className={`space-y-3 break-words ${className ?? ''}`}>{renderBlocks(parseMarkdown(text))}</div>
+);
+
+export default MarkdownView;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { MediaMetadata, MediaType } from '../types';
+import { MEDIA_TYPES, MEDIA_METADATA_FIELDS } from '../utils/mediaTypes';
+
+interface MediaTypePickerProps {
+  mediaType: MediaType;
+  metadata: MediaMetadata;
+  onChange: (mediaType: MediaType, metadata: MediaMetadata) => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500";
+
+/** Type selector plus the detail fields of the selected type. Metadata of other types is kept until saving. */
+const MediaTypePicker: React.FC<MediaTypePickerProps> = ({ mediaType, metadata, onChange }) => {
+  const fields = MEDIA_METADATA_FIELDS[mediaType];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">类型</label>
+      <div className="flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+        {MEDIA_TYPES.map(type => (
+          <button
+            key={type.id}
+            type="button"
+            onClick={() => onChange(type.id, metadata)}
+            className={`w-full px-2 py-1.5 text-sm font-semibold rounded-md transition-all ${
+              mediaType === type.id
+                ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+                : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+            }`}
+          >
+            {type.label}
+          </button>
+        ))}
+      </div>
+      {mediaType === 'generic' ? (
+        <input
+          type="text"
+          value={metadata.customType ?? ''}
+          onChange={(e) => onChange(mediaType, { ...metadata, customType: e.target.value })}
+          placeholder="自定义类型（可选），例如：游戏、课程"
+          className={`${inputClass} mt-2`}
+        />
+      ) : (
+        <div className={`grid gap-2 mt-2 ${fields.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {fields.map(field => (
+            <input
+              key={field.key}
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={metadata[field.key] ?? ''}
+              onChange={(e) => onChange(mediaType, { ...metadata, [field.key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder={field.label}
+              aria-label={field.label}
+              className={inputClass}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaTypePicker;
@@ -0,0 +1,74 @@
+import React from 'react';
+import Modal from './Modal';
+import { ExclamationTriangleIcon } from './icons';
+import { PendingActionJournal, describePendingAction } from '../utils/pendingActionJournal';
+
+interface PendingJournalReviewModalProps {
+  journals: PendingActionJournal[];
+  /** Only journals recorded against this database can be applied; the others stay listed. */
+  targetDbName: string;
+  targetDbDisplayName: string;
+  canApply: boolean;
+  getDisplayName: (dbName: string) => string;
+  onApply: () => void;
+  onDiscard: () => void;
+  onDecideLater: () => void;
+}
+
+const PendingJournalReviewModal: React.FC<PendingJournalReviewModalProps> = ({
+  journals, targetDbName, targetDbDisplayName, canApply, getDisplayName, onApply, onDiscard, onDecideLater
+}) => {
+  const actionCount = journals.reduce((sum, j) => sum + j.actions.length, 0);
+  const applicableCount = journals.filter(j => j.dbName === targetDbName).reduce((sum, j) => sum + j.actions.length, 0);
+  const otherDbCount = actionCount - applicableCount;
+  const canApplyAny = canApply && applicableCount > 0;
+
+  return (
+    <Modal isOpen={journals.length > 0} onClose={onDecideLater} title="恢复未保存的更改" variant="dialog">
+      <div className="space-y-4">
+        <div className="flex items-start gap-3">
+          <ExclamationTriangleIcon className="w-10 h-10 text-yellow-500 flex-shrink-0" />
+          <div>
+            <p className="text-slate-600 dark:text-slate-300 font-semibold">
+              之前的会话有 {actionCount} 项更改未能保存到数据库。
+            </p>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {canApplyAny
+                ? `恢复后，其中 ${applicableCount} 项更改将应用到${targetDbDisplayName}。关闭此窗口可稍后再决定。`
+                : `无法将更改恢复到${targetDbDisplayName}。请关闭此窗口并切换到更改所属的数据库，届时将再次询问。`}
+            </p>
+            {canApplyAny && otherDbCount > 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                另有 {otherDbCount} 项更改属于其他数据库，恢复或丢弃都不影响它们，将保留到切换到对应数据库时再处理。
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="max-h-64 overflow-y-auto rounded-lg bg-slate-100 dark:bg-slate-900/50">
+          {journals.map(journal => (
+            <div key={journal.sessionId}>
+              <p className="sticky top-0 px-3 py-1.5 text-xs font-semibold text-slate-500 dark:text-slate-400 bg-slate-200 dark:bg-slate-800">
+                {new Date(journal.savedAt).toLocaleString('zh-CN')} · {getDisplayName(journal.dbName)}
+              </p>
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700/50">
+                {journal.actions.map((action, index) => (
+                  <li key={index} className="px-3 py-2 text-sm text-slate-700 dark:text-slate-300 break-words">
+                    {describePendingAction(action)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onDiscard} disabled={applicableCount === 0} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium disabled:opacity-50 disabled:cursor-not-allowed">丢弃更改</button>
+          <button onClick={onApply} disabled={!canApplyAny} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">
+            恢复更改
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PendingJournalReviewModal;
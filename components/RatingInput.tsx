@@ -0,0 +1,34 @@
+import React from 'react';
+import { MAX_RATING, MIN_RATING } from '../utils/lifecycle';
+
+interface RatingInputProps {
+  value: number | undefined;
+  /** `undefined` clears the rating. */
+  onChange: (rating: number | undefined) => void;
+}
+
+const ratingValues = Array.from({ length: MAX_RATING - MIN_RATING + 1 }, (_, i) => MIN_RATING + i);
+
+/** A row of 1–10 buttons. Clicking the selected value again clears the rating. */
+const RatingInput: React.FC<RatingInputProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1" role="radiogroup" aria-label="评分">
+    {ratingValues.map(rating => (
+      <button
+        key={rating}
+        type="button"
+        role="radio"
+        aria-checked={value === rating}
+        onClick={() => onChange(value === rating ? undefined : rating)}
+        className={`flex-1 min-w-0 py-1.5 text-sm font-semibold rounded-md transition-all active:scale-95 ${
+          value !== undefined && rating <= value
+            ? 'bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900'
+            : 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'
+        }`}
+      >
+        {rating}
+      </button>
+    ))}
+  </div>
+);
+
+export default RatingInput;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { CheckIcon, PencilIcon, PlusIcon } from './icons';
+import { SavedView } from '../types';
+
+interface SavedViewChipsProps {
+  views: SavedView[];
+  /** The view the list currently matches, if any. */
+  activeViewId: string | null;
+  onApply: (view: SavedView) => void;
+  onSaveCurrent: () => void;
+  onManage: () => void;
+}
+
+const chipClass = 'flex-shrink-0 flex items-center justify-center gap-2 rounded-full text-sm font-semibold transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-slate-500 dark:focus-visible:ring-offset-slate-900 active:scale-95';
+
+/** One chip per saved view, in their saved order, plus buttons to save the current filters and to manage the views. */
+const SavedViewChips: React.FC<SavedViewChipsProps> = ({ views, activeViewId, onApply, onSaveCurrent, onManage }) => {
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 pb-2">
+      <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+        {views.map(view => {
+          const isActive = view.id === activeViewId;
+          return (
+            <button
+              key={view.id}
+              onClick={() => onApply(view)}
+              className={`${chipClass} px-4 py-2 ${
+                isActive
+                  ? 'bg-slate-900 text-white dark:bg-slate-200 dark:text-slate-900'
+                  : 'bg-white/70 text-slate-700 border border-slate-300 hover:bg-slate-100 dark:bg-slate-800/70 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-700'
+              }`}
+              aria-pressed={isActive}
+            >
+              {isActive && <CheckIcon className="w-4 h-4" />}
+              {view.name}
+            </button>
+          );
+        })}
+        {!activeViewId && (
+          <button
+            onClick={onSaveCurrent}
+            className={`${chipClass} px-3 py-2 bg-transparent border border-dashed border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700`}
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>保存视图</span>
+          </button>
+        )}
+        {views.length > 0 && (
+          <button
+            onClick={onManage}
+            className={`${chipClass} p-2 text-slate-500 hover:bg-slate-200 dark:text-slate-400 dark:hover:bg-slate-700`}
+            aria-label="管理视图"
+          >
+            <PencilIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedViewChips;
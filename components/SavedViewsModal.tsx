@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Modal from './Modal';
+import { ChevronDownIcon, ChevronUpIcon, PlusIcon, TrashIcon } from './icons';
+import { sortOptions } from './Header';
+import { SavedView } from '../types';
+import { LIFECYCLE_STATUSES } from '../utils/lifecycle';
+import { MEDIA_TYPES } from '../utils/mediaTypes';
+import { SavedViews, ViewState } from '../utils/savedViews';
+import { describeTagFilter } from '../utils/tagFilter';
+
+interface SavedViewsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  saved: SavedViews;
+  /** The filters, search and sort currently applied, offered as a new view. */
+  current: ViewState;
+  /** False when a saved view already matches `current`. */
+  canSaveCurrent: boolean;
+  /** Focuses the name of the new view, for when the dialog was opened to save one. */
+  autoFocusName: boolean;
+  /** False in temporary storage and the demo database, where views only last until the page is closed. */
+  isPersistent: boolean;
+  onCreate: (name: string) => void;
+  /** Returns false when the name is empty or taken. */
+  onRename: (id: string, name: string) => boolean;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onSetDefault: (id: string | null) => void;
+}
+
+/** A one-line summary such as `进行中 · 标签：A 或 B，不含 C · 最新创建`. */
+export const describeViewState = ({ filters, searchQuery, sortOrder }: ViewState): string => {
+  const parts: string[] = [];
+  if (filters.status !== 'all') parts.push(LIFECYCLE_STATUSES.find(status => status.id === filters.status)?.label ?? filters.status);
+  if (filters.mediaType) parts.push(MEDIA_TYPES.find(type => type.id === filters.mediaType)?.label ?? filters.mediaType);
+  const tagFilter = describeTagFilter(filters);
+  if (tagFilter) parts.push(`标签：${tagFilter}`);
+  if (searchQuery.trim()) parts.push(`搜索：${searchQuery.trim()}`);
+  parts.push(sortOptions.find(option => option.id === sortOrder)?.label ?? sortOrder);
+  return parts.join(' · ');
+};
+
+const iconButtonClass = 'p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+const ViewRow: React.FC<{
+  view: SavedView;
+  isDefault: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onRename: (name: string) => boolean;
+  onDelete: () => void;
+  onMove: (offset: -1 | 1) => void;
+  onToggleDefault: () => void;
+}> = ({ view, isDefault, isFirst, isLast, onRename, onDelete, onMove, onToggleDefault }) => {
+  const [name, setName] = useState(view.name);
+
+  useEffect(() => setName(view.name), [view.name]);
+
+  const commit = () => {
+    if (name.trim() === view.name) return setName(view.name);
+    if (!onRename(name.trim())) setName(view.name);
+  };
+
+  return (
+    <li className="flex items-center gap-2 p-2 rounded-lg bg-white dark:bg-slate-700 shadow-sm">
+      <div className="flex-grow min-w-0">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') setName(view.name);
+          }}
+          aria-label="视图名称"
+          className="w-full bg-transparent p-1 rounded text-sm font-medium text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-500"
+        />
+        <p className="px-1 text-xs text-slate-500 dark:text-slate-400 truncate">{describeViewState(view)}</p>
+      </div>
+      <button
+        onClick={onToggleDefault}
+        className={`flex-shrink-0 px-2 py-1 rounded-md text-xs font-semibold transition-colors ${isDefault ? 'bg-slate-900 text-white dark:bg-slate-200 dark:text-slate-900' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+        aria-pressed={isDefault}
+        title="打开数据库时自动应用"
+      >
+        {isDefault ? '默认' : '设为默认'}
+      </button>
+      <button onClick={() => onMove(-1)} disabled={isFirst} className={iconButtonClass} aria-label="上移">
+        <ChevronUpIcon className="w-4 h-4" />
+      </button>
+      <button onClick={() => onMove(1)} disabled={isLast} className={iconButtonClass} aria-label="下移">
+        <ChevronDownIcon className="w-4 h-4" />
+      </button>
+      <button onClick={onDelete} className={`${iconButtonClass} hover:text-red-600 dark:hover:text-red-400`} aria-label="删除视图">
+        <TrashIcon className="w-4 h-4" />
+      </button>
+    </li>
+  );
+};
+
+/** Saves the current filters as a view, and renames, reorders, deletes and picks the default of the saved ones. */
+const SavedViewsModal: React.FC<SavedViewsModalProps> = ({
+  isOpen, onClose, saved, current, canSaveCurrent, autoFocusName, isPersistent,
+  onCreate, onRename, onDelete, onMove, onSetDefault
+}) => {
+  const [newName, setNewName] = useState('');
+  const nameInputRef = useRef<HTMLInputElement>(null);
+  const isNameTaken = saved.views.some(view => view.name === newName.trim());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setNewName('');
+    if (autoFocusName) nameInputRef.current?.focus();
+  }, [isOpen, autoFocusName]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || isNameTaken) return;
+    onCreate(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="视图" variant="dialog">
+      <div className="space-y-6">
+        {canSaveCurrent && (
+          <form onSubmit={handleCreate}>
+            <label htmlFor="new-view-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">保存当前筛选</label>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">{describeViewState(current)}</p>
+            <div className="flex items-center gap-2">
+              <input
+                id="new-view-name"
+                ref={nameInputRef}
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="视图名称"
+                className="flex-grow min-w-0 px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 rounded-lg text-sm focus:ring-2 focus:ring-slate-500 focus:border-slate-500"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim() || isNameTaken}
+                className="flex-shrink-0 flex items-center gap-1.5 px-4 py-2 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 text-sm font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed"
+              >
+                <PlusIcon className="w-4 h-4" />
+                保存
+              </button>
+            </div>
+            {isNameTaken && <p className="text-xs text-red-600 dark:text-red-400 mt-1">已有同名视图。</p>}
+          </form>
+        )}
+        {saved.views.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">已保存的视图</label>
+            <ul className="space-y-2 p-2 -mx-2 rounded-lg bg-slate-100 dark:bg-slate-800">
+              {saved.views.map((view, index) => (
+                <ViewRow
+                  key={view.id}
+                  view={view}
+                  isDefault={view.id === saved.defaultViewId}
+                  isFirst={index === 0}
+                  isLast={index === saved.views.length - 1}
+                  onRename={(name) => onRename(view.id, name)}
+                  onDelete={() => onDelete(view.id)}
+                  onMove={(offset) => onMove(view.id, offset)}
+                  onToggleDefault={() => onSetDefault(view.id === saved.defaultViewId ? null : view.id)}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+        {!isPersistent && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">当前数据库不会保存视图，关闭页面或切换数据库后视图将丢失。</p>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default SavedViewsModal;
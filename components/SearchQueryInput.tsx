@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SearchIcon, XIcon, ExclamationTriangleIcon } from './icons';
+import { SearchQueryError, getSearchCompletions } from '../utils/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (query: string) => void;
+  /** Offered after `tag:` and for words that match a tag. */
+  tags: string[];
+  error: SearchQueryError | null;
+}
+
+/** The search box, with suggestions for field keys and values and an inline syntax error. */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, tags, error }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Where to put the caret once an accepted suggestion has been rendered.
+  const pendingCursorRef = useRef<number | null>(null);
+
+  const completions = useMemo(
+    () => isFocused && !isDismissed ? getSearchCompletions(value, cursor, tags) : null,
+    [value, cursor, tags, isFocused, isDismissed]
+  );
+
+  useEffect(() => setActiveIndex(0), [completions?.from, completions?.items.length]);
+
+  useEffect(() => {
+    const position = pendingCursorRef.current;
+    if (position === null || !inputRef.current) return;
+    pendingCursorRef.current = null;
+    inputRef.current.setSelectionRange(position, position);
+    setCursor(position);
+  }, [value]);
+
+  const syncCursor = (e: React.SyntheticEvent<HTMLInputElement>) => setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+
+  const accept = (index: number) => {
+    if (!completions) return;
+    const item = completions.items[index];
+    pendingCursorRef.current = completions.from + item.insert.length;
+    onChange(value.slice(0, completions.from) + item.insert + value.slice(completions.to));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + completions.items.length) % completions.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(activeIndex);
+    } else if (e.key === 'Escape') {
+      setIsDismissed(true);
+    }
+  };
+
+  const showError = !!error && value.trim() !== '';
+
+  return (
+    <div className="relative flex-1 sm:flex-initial sm:w-full sm:max-w-xs">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <SearchIcon className="h-5 w-5 text-slate-400" />
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="搜索事件... (如 tag:重要 progress:>50)"
+        value={value}
+        onChange={(e) => { onChange(e.target.value); syncCursor(e); setIsDismissed(false); }}
+        onSelect={syncCursor}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        aria-invalid={showError}
+        aria-autocomplete="list"
+        className={`block w-full pl-10 pr-10 py-2.5 border bg-white/70 dark:bg-slate-800/70 rounded-lg focus:ring-2 transition text-sm ${showError ? 'border-red-400 dark:border-red-500 focus:ring-red-400 focus:border-red-400' : 'border-slate-300 dark:border-slate-700 focus:ring-slate-500 focus:border-slate-500'}`}
+      />
+      {value && (
+        <button
+          onClick={() => onChange('')}
+          className="absolute inset-y-0 right-0 pr-3 flex items-center"
+          aria-label="清除搜索"
+        >
+          <XIcon className="h-5 w-5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" />
+        </button>
+      )}
+      {(showError || completions) && (
+        <div className="absolute z-20 top-full mt-2 left-0 w-full sm:w-80 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 p-2 animate-content-enter">
+          {showError && error && (
+            <p className="flex items-start gap-2 px-2 py-1.5 text-xs text-red-600 dark:text-red-400" role="alert">
+              <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+              <span>第 {error.start + 1} 个字符：{error.message}</span>
+            </p>
+          )}
+          {completions && (
+            <ul role="listbox">
+              {completions.items.map((item, index) => (
+                <li key={item.insert} role="option" aria-selected={index === activeIndex}>
+                  <button
+                    type="button"
+                    // Keeps the focus in the input.
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => accept(index)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`w-full flex items-center justify-between gap-3 text-left px-3 py-2 rounded-md text-sm ${index === activeIndex ? 'bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-slate-50' : 'text-slate-700 dark:text-slate-200'}`}
+                  >
+                    <span className="font-mono truncate">{item.label}</span>
+                    {item.detail && <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">{item.detail}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
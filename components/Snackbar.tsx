@@ -8,9 +8,11 @@ interface SnackbarProps {
   icon?: React.ReactNode;
   bottomClass?: string;
   type?: 'info' | 'success' | 'error' | 'loading';
+  actionLabel?: string;
+  onAction?: () => void;
 }
 
-const Snackbar: React.FC<SnackbarProps> = ({ isOpen, message, icon, bottomClass = 'bottom-8', type = 'info' }) => {
+const Snackbar: React.FC<SnackbarProps> = ({ isOpen, message, icon, bottomClass = 'bottom-8', type = 'info', actionLabel, onAction }) => {
   const [isRendered, setIsRendered] = React.useState(false);
 
   React.useEffect(() => {
@@ -65,6 +67,11 @@ const Snackbar: React.FC<SnackbarProps> = ({ isOpen, message, icon, bottomClass
       <div className={`flex items-center gap-3 rounded-2xl px-5 py-3 shadow-xl border ${currentConfig.style}`}>
         {finalIcon && <div>{finalIcon}</div>}
         <span className="font-semibold text-sm">{message}</span>
+        {actionLabel && onAction && (
+          <button onClick={onAction} className="-mr-2 px-3 py-1 rounded-lg text-sm font-bold text-slate-900 dark:text-slate-100 hover:bg-slate-100 dark:hover:bg-slate-700 transition-all active:scale-95">
+            {actionLabel}
+          </button>
+        )}
       </div>
     </div>
   );
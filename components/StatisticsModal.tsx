@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import Modal from './Modal';
+import { Event } from '../types';
+import {
+  CompletionBucket, STATISTICS_GRANULARITIES, STATISTICS_RANGE_PRESETS, StatisticsGranularity, StatisticsRangePreset,
+  computeStatistics, getStatisticsRange,
+} from '../utils/statistics';
+import { STEP_ACTIVITY_LABELS, describeStepActivity } from '../utils/stepActivity';
+
+interface StatisticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: Event[];
+  onSelectEvent: (event: Event) => void;
+}
+
+const WEEKDAY_LABELS = ['一', '二', '三', '四', '五', '六', '日'];
+
+const heatLevelClasses = [
+  'bg-slate-200 dark:bg-slate-700',
+  'bg-slate-400 dark:bg-slate-500',
+  'bg-slate-500 dark:bg-slate-400',
+  'bg-slate-700 dark:bg-slate-300',
+  'bg-slate-900 dark:bg-slate-100',
+];
+
+const getHeatLevel = (count: number, max: number) => count === 0 || max === 0 ? 0 : Math.min(4, Math.ceil((count / max) * 4));
+
+const SegmentedControl = <T extends string>({ options, value, onChange }: { options: { id: T; label: string }[]; value: T; onChange: (value: T) => void }) => (
+  <div className="flex items-center gap-1 bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+    {options.map(opt => (
+      <button
+        key={opt.id}
+        onClick={() => onChange(opt.id)}
+        className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors whitespace-nowrap ${
+          value === opt.id
+            ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+            : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+        }`}
+        aria-pressed={value === opt.id}
+      >
+        {opt.label}
+      </button>
+    ))}
+  </div>
+);
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-4 rounded-xl bg-slate-100 dark:bg-slate-900/50">
+    <p className="text-sm text-slate-500 dark:text-slate-400">{label}</p>
+    <p className="mt-1 text-2xl font-extrabold text-slate-900 dark:text-slate-50">{value}</p>
+    {hint && <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">{hint}</p>}
+  </div>
+);
+
+/** A calendar of days: one column per week, Monday on top. */
+const CompletionHeatmap: React.FC<{ buckets: CompletionBucket[] }> = ({ buckets }) => {
+  const max = Math.max(0, ...buckets.map(b => b.count));
+  const leadingBlanks = buckets.length > 0 ? (buckets[0].start.getDay() + 6) % 7 : 0;
+  const cells: (CompletionBucket | null)[] = [...Array(leadingBlanks).fill(null), ...buckets];
+  const weeks = Array.from({ length: Math.ceil(cells.length / 7) }, (_, i) => cells.slice(i * 7, i * 7 + 7));
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2">
+      <div className="grid grid-rows-7 gap-1 text-[10px] leading-3 text-slate-500 dark:text-slate-400 flex-shrink-0">
+        {WEEKDAY_LABELS.map(label => <span key={label} className="h-3">{label}</span>)}
+      </div>
+      <div className="flex gap-1">
+        {weeks.map((week, i) => (
+          <div key={i} className="grid grid-rows-7 gap-1">
+            {week.map((bucket, j) => bucket ? (
+              <div key={j} className={`w-3 h-3 rounded-sm ${heatLevelClasses[getHeatLevel(bucket.count, max)]}`} title={`${bucket.label}: 完成 ${bucket.count} 个步骤`} />
+            ) : <div key={j} className="w-3 h-3" />)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CompletionBars: React.FC<{ buckets: CompletionBucket[] }> = ({ buckets }) => {
+  const max = Math.max(1, ...buckets.map(b => b.count));
+  return (
+    <div className="flex items-end gap-1 h-32 overflow-x-auto pb-2">
+      {buckets.map(bucket => (
+        <div key={bucket.label} className="flex-1 min-w-[0.75rem] h-full flex flex-col justify-end" title={`${bucket.label}: 完成 ${bucket.count} 个步骤`}>
+          <div className="w-full rounded-t bg-slate-800 dark:bg-slate-300" style={{ height: `${(bucket.count / max) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }} />
+          <div className="w-full h-px bg-slate-300 dark:bg-slate-600" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClose, events, onSelectEvent }) => {
+  const [rangePreset, setRangePreset] = useState<StatisticsRangePreset>('30d');
+  const [granularity, setGranularity] = useState<StatisticsGranularity>('day');
+
+  const stats = useMemo(
+    () => isOpen ? computeStatistics(events, getStatisticsRange(rangePreset, events), granularity) : null,
+    [isOpen, events, rangePreset, granularity]
+  );
+
+  const eventsById = useMemo(() => new Map(events.map(event => [event.id, event])), [events]);
+
+  const renderContent = () => {
+    if (!stats) return null;
+    const maxTagSteps = Math.max(1, ...stats.tags.map(tag => tag.completedSteps));
+    return (
+      <div className="space-y-8">
+        <div className="flex flex-wrap items-center gap-2">
+          <SegmentedControl options={STATISTICS_RANGE_PRESETS} value={rangePreset} onChange={setRangePreset} />
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            {stats.range.from.toLocaleDateString()} – {stats.range.to.toLocaleDateString()}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <StatCard label="完成步骤" value={String(stats.completedSteps)} hint={stats.undatedCount > 0 ? `另有 ${stats.undatedCount} 个无完成时间` : undefined} />
+          <StatCard label="新建事件" value={String(stats.startedEvents)} />
+          <StatCard label="完成事件" value={String(stats.finishedEvents)} />
+          <StatCard label="当前连续" value={`${stats.currentStreak} 天`} hint={`最长 ${stats.longestStreak} 天`} />
+          <StatCard label="平均完成用时" value={stats.averageDaysToComplete === null ? '—' : `${stats.averageDaysToComplete.toFixed(1)} 天`} hint="从创建到最后一个步骤完成" />
+        </div>
+
+        <section>
+          <div className="flex justify-between items-center mb-4 gap-2">
+            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-200">完成步骤</h3>
+            <SegmentedControl options={STATISTICS_GRANULARITIES} value={granularity} onChange={setGranularity} />
+          </div>
+          {granularity === 'day' ? <CompletionHeatmap buckets={stats.buckets} /> : <CompletionBars buckets={stats.buckets} />}
+        </section>
+
+        <section>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-200 mb-4">按标签</h3>
+          {stats.tags.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">还没有带标签的事件。</p>
+          ) : (
+            <ul className="space-y-2">
+              {stats.tags.map(tag => (
+                <li key={tag.tag} className="text-sm">
+                  <div className="flex justify-between gap-2 text-slate-700 dark:text-slate-200">
+                    <span className="font-semibold truncate">{tag.tag}</span>
+                    <span className="flex-shrink-0 text-slate-500 dark:text-slate-400">完成 {tag.completedSteps} 步 · {tag.finishedEvents}/{tag.events} 个事件</span>
+                  </div>
+                  <div className="mt-1 h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                    <div className="h-full rounded-full bg-slate-800 dark:bg-slate-300" style={{ width: `${(tag.completedSteps / maxTagSteps) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-200 mb-4">最近动态</h3>
+          {stats.activity.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">此时间范围内没有动态。</p>
+          ) : (
+            <ul className="space-y-2">
+              {stats.activity.map((entry, i) => {
+                const event = eventsById.get(entry.eventId);
+                return (
+                  <li key={`${entry.eventId}-${entry.stepId}-${entry.at.getTime()}-${i}`}>
+                    <button
+                      onClick={() => event && onSelectEvent(event)}
+                      className="w-full text-left p-3 rounded-lg bg-slate-100 dark:bg-slate-900/50 hover:bg-slate-200 dark:hover:bg-slate-700/50 transition-colors"
+                    >
+                      <div className="flex justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                        <span className="truncate">{entry.eventTitle} · {STEP_ACTIVITY_LABELS[entry.type]}</span>
+                        <span className="flex-shrink-0">{entry.at.toLocaleString()}</span>
+                      </div>
+                      <p className="mt-1 text-sm text-slate-800 dark:text-slate-100 truncate">{describeStepActivity(entry)}</p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="统计" variant="sheet" maxWidthClass="sm:max-w-3xl">
+      {renderContent()}
+    </Modal>
+  );
+};
+
+export default StatisticsModal;
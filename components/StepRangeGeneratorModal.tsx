@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import { SaveIcon } from './icons';
+import { StepRangeOptions, generateStepRange, getStepRangeError } from '../utils/stepRange';
+
+interface StepRangeGeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialOptions: StepRangeOptions;
+  /** With a season range, every season becomes a step group. */
+  onGenerate: (options: StepRangeOptions, completedCount: number) => void;
+  onSaveAsTemplate: (name: string, descriptions: string[]) => void;
+}
+
+const PREVIEW_LIMIT = 3;
+
+const inputClass = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+const NumberField: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({ id, label, value, onChange }) => (
+  <div>
+    <label htmlFor={id} className={labelClass}>{label}</label>
+    <input type="number" id={id} min={0} inputMode="numeric" value={Number.isNaN(value) ? '' : value} onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))} className={inputClass} />
+  </div>
+);
+
+const StepRangeGeneratorModal: React.FC<StepRangeGeneratorModalProps> = ({ isOpen, onClose, initialOptions, onGenerate, onSaveAsTemplate }) => {
+  const [pattern, setPattern] = useState('');
+  const [start, setStart] = useState(1);
+  const [end, setEnd] = useState(1);
+  const [useSeasons, setUseSeasons] = useState(false);
+  const [seasonFrom, setSeasonFrom] = useState(1);
+  const [seasonTo, setSeasonTo] = useState(1);
+  const [completedCount, setCompletedCount] = useState(0);
+  const [templateName, setTemplateName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setPattern(initialOptions.pattern);
+      setStart(initialOptions.start);
+      setEnd(initialOptions.end);
+      setUseSeasons(!!initialOptions.seasons);
+      setSeasonFrom(initialOptions.seasons?.from ?? 1);
+      setSeasonTo(initialOptions.seasons?.to ?? 1);
+      setCompletedCount(0);
+      setTemplateName('');
+    }
+  }, [isOpen, initialOptions]);
+
+  const options: StepRangeOptions = { pattern, start, end, seasons: useSeasons ? { from: seasonFrom, to: seasonTo } : null };
+  const error = getStepRangeError(options);
+  const descriptions = useMemo(() => generateStepRange(options), [pattern, start, end, useSeasons, seasonFrom, seasonTo]);
+  const clampedCompleted = Math.min(Math.max(0, Number.isNaN(completedCount) ? 0 : completedCount), descriptions.length);
+
+  const preview = descriptions.length > PREVIEW_LIMIT * 2
+    ? [...descriptions.slice(0, PREVIEW_LIMIT), '…', ...descriptions.slice(-PREVIEW_LIMIT)]
+    : descriptions;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="批量生成步骤" variant="sheet">
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="rangePattern" className={labelClass}>命名格式</label>
+          <input type="text" id="rangePattern" value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="例如：第{n}集 或 S{season}E{n:02}" className={`${inputClass} font-mono`} />
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400"><code>{'{n}'}</code> 为编号，<code>{'{season}'}</code> 为季数，<code>{'{n:02}'}</code> 补零到两位。</p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField id="rangeStart" label="起始编号" value={start} onChange={setStart} />
+          <NumberField id="rangeEnd" label="结束编号" value={end} onChange={setEnd} />
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={useSeasons} onChange={(e) => setUseSeasons(e.target.checked)} className="w-4 h-4 rounded" />
+            分季（每季重复以上编号范围，并各自成为一个分组）
+          </label>
+          {useSeasons && (
+            <div className="grid grid-cols-2 gap-3 mt-2">
+              <NumberField id="seasonFrom" label="起始季" value={seasonFrom} onChange={setSeasonFrom} />
+              <NumberField id="seasonTo" label="结束季" value={seasonTo} onChange={setSeasonTo} />
+            </div>
+          )}
+        </div>
+        <NumberField id="rangeCompleted" label="将前 N 个标记为已完成" value={completedCount} onChange={setCompletedCount} />
+
+        <div className="p-4 rounded-lg bg-slate-100 dark:bg-slate-900/50">
+          {error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mb-2">将生成 {descriptions.length} 个步骤{clampedCompleted > 0 ? `，其中 ${clampedCompleted} 个已完成` : ''}</p>
+              <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300 font-mono">
+                {preview.map((description, i) => <li key={i} className="truncate">{description}</li>)}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="rangeTemplateName" className={labelClass}>保存为工作流模板（可选）</label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input type="text" id="rangeTemplateName" value={templateName} onChange={(e) => setTemplateName(e.target.value)} placeholder="输入新模板名称..." className={`${inputClass} flex-grow`} />
+            <button
+              onClick={() => { onSaveAsTemplate(templateName.trim(), descriptions); setTemplateName(''); }}
+              disabled={!!error || templateName.trim() === ''}
+              className="px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <SaveIcon className="w-5 h-5" /> 保存模板
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+          <button onClick={() => onGenerate(options, clampedCompleted)} disabled={!!error} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">
+            添加到步骤
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default StepRangeGeneratorModal;
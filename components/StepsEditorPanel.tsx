@@ -1,10 +1,16 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { Event, ProgressStep, StepTemplate, StepSetTemplate, StepSetTemplateStep } from '../types';
-import { XIcon, PlusIcon, TrashIcon, SaveIcon, ChevronDownIcon, ChevronUpIcon, CheckIcon, ChevronLeftIcon, ChevronRightIcon, ArrowUpTrayIcon, ArchiveBoxIcon } from './icons';
+import { Event, ProgressStep, StepTemplate, StepSetTemplate, StepSetTemplateStep, StepGroup } from '../types';
+import { XIcon, PlusIcon, TrashIcon, SaveIcon, ChevronDownIcon, ChevronUpIcon, CheckIcon, ChevronLeftIcon, ChevronRightIcon, ArrowUpTrayIcon, ArchiveBoxIcon, GripVerticalIcon, DocumentTextIcon } from './icons';
 import ContextMenu, { ContextMenuAction } from './ContextMenu';
 import Modal from './Modal';
 import useLongPress from '../hooks/useLongPress';
+import useDragReorder, { findDropPosition, getDropIndex } from '../hooks/useDragReorder';
 import Snackbar from './Snackbar';
+import StepRangeGeneratorModal from './StepRangeGeneratorModal';
+import { StepRangeOptions, generateStepRangeBySeason, getDefaultStepRange } from '../utils/stepRange';
+import { assignStepGroup, countCompletedSteps, detachOrphanSteps, groupSteps, orderStepsByGroup } from '../utils/stepGroups';
+import { setStepNote } from '../utils/stepNotes';
+import { markdownToPlainText } from '../utils/markdown';
 
 const useWindowWidth = () => {
     const [windowWidth, setWindowWidth] = useState(window.innerWidth);
@@ -97,10 +103,13 @@ interface DraggableItemProps {
         onDragStart: (e: React.DragEvent) => void;
         onTouchStart: (e: React.TouchEvent) => void;
     };
+    /** Steps only: their note and how to edit it. */
+    note?: string;
+    onEditNote?: () => void;
 }
 
 // Sub-component for a single draggable/editable item (used in Panel 1 & 2)
-const DraggableItem: React.FC<DraggableItemProps> = ({ id, itemType, description, onUpdate, onItemClick, onItemLongPress, onItemPointerDown, onContextMenu, isGhost, isSelected, isSelectionMode, dragProps }) => {
+const DraggableItem: React.FC<DraggableItemProps> = ({ id, itemType, description, onUpdate, onItemClick, onItemLongPress, onItemPointerDown, onContextMenu, isGhost, isSelected, isSelectionMode, dragProps, note, onEditNote }) => {
     const [isRenaming, setIsRenaming] = useState(false);
     
     const handleBodyClick = (e: React.MouseEvent | React.TouchEvent) => {
@@ -158,6 +167,19 @@ const DraggableItem: React.FC<DraggableItemProps> = ({ id, itemType, description
                     onEditingChange={setIsRenaming}
                 />
             </div>
+            {onEditNote && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onEditNote(); }}
+                    onPointerDown={e => e.stopPropagation()}
+                    onMouseDown={e => e.stopPropagation()}
+                    onTouchStart={e => e.stopPropagation()}
+                    className={`flex-shrink-0 p-1.5 rounded-md transition-colors ${note ? 'text-slate-700 dark:text-slate-200' : 'text-slate-300 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}
+                    aria-label={note ? '编辑笔记' : '添加笔记'}
+                    title={note ? markdownToPlainText(note) : '添加笔记'}
+                >
+                    <DocumentTextIcon className="w-4 h-4" />
+                </button>
+            )}
         </div>
     );
 };
@@ -449,6 +471,52 @@ const TemplateSetItem: React.FC<{
     );
 };
 
+const STEP_GROUP_DRAG_TYPE = 'application/x-step-group';
+
+// Sub-component for the header of a step group in the current steps panel
+const StepGroupHeader: React.FC<{
+    group: StepGroup;
+    completedCount: number;
+    totalCount: number;
+    isCollapsed: boolean;
+    isDropTarget: boolean;
+    onToggleCollapse: () => void;
+    onRename: (name: string) => void;
+    onMarkComplete: () => void;
+    onDelete: () => void;
+    onGroupDragStart: (e: React.DragEvent) => void;
+    onDragOver: (e: React.DragEvent) => void;
+    onDragLeave: () => void;
+    onDrop: (e: React.DragEvent) => void;
+}> = ({ group, completedCount, totalCount, isCollapsed, isDropTarget, onToggleCollapse, onRename, onMarkComplete, onDelete, onGroupDragStart, onDragOver, onDragLeave, onDrop }) => {
+    const [isRenaming, setIsRenaming] = useState(false);
+
+    return (
+        <div
+            onDragOver={onDragOver}
+            onDragLeave={onDragLeave}
+            onDrop={onDrop}
+            onClick={(e) => e.stopPropagation()}
+            className={`flex items-center gap-1 mt-2 first:mt-0 px-1 py-1.5 rounded-lg transition-colors ${isDropTarget ? 'bg-slate-200 dark:bg-slate-700 ring-2 ring-slate-500' : ''}`}
+        >
+            <div draggable={!isRenaming} onDragStart={onGroupDragStart} className="p-1 cursor-grab text-slate-400" aria-label={`拖动分组 ${group.name}`}>
+                <GripVerticalIcon className="w-4 h-4" />
+            </div>
+            <button onClick={onToggleCollapse} className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-100" aria-expanded={!isCollapsed} aria-label={isCollapsed ? '展开分组' : '折叠分组'}>
+                {isCollapsed ? <ChevronRightIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+            </button>
+            <InlineEdit text={group.name} onSave={onRename} onEditingChange={setIsRenaming} className="font-semibold text-sm truncate" />
+            <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0 px-1">{completedCount} / {totalCount}</span>
+            <button onClick={onMarkComplete} disabled={totalCount === 0 || completedCount === totalCount} className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" aria-label="将分组标记为完成" title="全部完成">
+                <CheckIcon className="w-4 h-4" />
+            </button>
+            <button onClick={onDelete} className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="删除分组" title="删除分组（保留步骤）">
+                <XIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
 const AddInput: React.FC<{
     placeholder: string;
     onAdd: (value: string) => void | boolean;
@@ -538,6 +606,12 @@ const SaveAsSetInput: React.FC<{
     );
 };
 
+/** Where dragged items go: a panel and the index among its items. */
+interface StepDropTarget {
+    panel: 'current' | 'archive' | 'templateSet';
+    index: number;
+}
+
 const DropIndicator: React.FC<{className?: string, orientation?: 'vertical' | 'horizontal'}> = ({className, orientation = 'horizontal'}) => {
     if (orientation === 'vertical') {
         return <div className={`w-1 h-10 bg-slate-800 dark:bg-slate-300 rounded-full self-center ${className}`} />;
@@ -634,14 +708,16 @@ interface StepsEditorPanelProps {
   event: Event | null;
   templates: StepTemplate[];
   stepSetTemplates: StepSetTemplate[];
-  onStepsChange: (eventId: string, newSteps: ProgressStep[]) => void;
+  /** `stepGroups` is only passed when the groups changed. */
+  onStepsChange: (eventId: string, newSteps: ProgressStep[], stepGroups?: StepGroup[]) => void;
+  onUndo?: () => void;
   onTemplatesChange: (newTemplates: StepTemplate[]) => void;
   onStepSetTemplatesChange: (newTemplates: StepSetTemplate[]) => void;
 }
 
 const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({ 
     isOpen, onClose, event, templates, stepSetTemplates, 
-    onStepsChange, onTemplatesChange, onStepSetTemplatesChange
+    onStepsChange, onUndo, onTemplatesChange, onStepSetTemplatesChange
 }) => {
   const prevEventIdRef = useRef<string | null>(null);
   const [activeEvent, setActiveEvent] = useState<Event | null>(null);
@@ -664,7 +740,9 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
   };
 
   const [currentSteps, setCurrentSteps] = useState<ProgressStep[]>([]);
-  const [draggedIds, setDraggedIds] = useState<Set<string>>(new Set());
+  const [stepGroups, setStepGroups] = useState<StepGroup[]>([]);
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<Set<string>>(new Set());
+  const [groupDropTargetId, setGroupDropTargetId] = useState<string | null>(null);
   
   const [selectedCurrentStepIds, setSelectedCurrentStepIds] = useState<Set<string>>(new Set());
   const [lastSelectedCurrentStepId, setLastSelectedCurrentStepId] = useState<string | null>(null);
@@ -675,14 +753,14 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
   const [selectedTemplateSetIds, setSelectedTemplateSetIds] = useState<Set<string>>(new Set());
   const [lastSelectedTemplateSetId, setLastSelectedTemplateSetId] = useState<string | null>(null);
 
-  const [snackbar, setSnackbar] = useState<{ id: number; message: string; icon?: React.ReactNode } | null>(null);
+  const [snackbar, setSnackbar] = useState<{ id: number; message: string; icon?: React.ReactNode; undoable?: boolean } | null>(null);
 
-  const showSnackbar = (message: string, icon?: React.ReactNode) => {
+  const showSnackbar = (message: string, icon?: React.ReactNode, undoable = false) => {
     const id = Date.now();
-    setSnackbar({ id, message, icon });
+    setSnackbar({ id, message, icon, undoable });
     setTimeout(() => {
         setSnackbar(prev => (prev?.id === id ? null : prev));
-    }, 3000);
+    }, undoable ? 5000 : 3000);
   };
 
   const isSelectionMode = useMemo(() => 
@@ -698,14 +776,8 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
   const [showClearStepsConfirm, setShowClearStepsConfirm] = useState(false);
   const [newTemplateModalData, setNewTemplateModalData] = useState<{ items: { description: string }[] } | null>(null);
   const [newTemplateName, setNewTemplateName] = useState('');
-
-  const [dropIndicator, setDropIndicator] = useState<{ panel: 'current' | 'archive' | 'templateSet'; index: number } | null>(null);
-  const [touchDragState, setTouchDragState] = useState<{
-    payload: any | null;
-    ghostElement: React.ReactNode | null;
-    position: { x: number; y: number };
-    offset: { x: number; y: number };
-  } | null>(null);
+  const [isRangeGeneratorOpen, setIsRangeGeneratorOpen] = useState(false);
+  const [noteEditor, setNoteEditor] = useState<{ stepId: string; draft: string } | null>(null);
 
     // Refs for swipe-to-select functionality
     const isSwipingRef = useRef(false);
@@ -733,13 +805,16 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
       // If the panel is opened for a new event, reset all state.
       // Otherwise, if it's the same event, only update the current steps list
       // to reflect changes, but preserve selections.
+      const groups = activeEvent.stepGroups ?? [];
       if (activeEvent.id !== prevEventIdRef.current) {
-        setCurrentSteps(activeEvent.steps.slice().sort((a,b) => a.timestamp.getTime() - b.timestamp.getTime()));
+        setCurrentSteps(orderStepsByGroup(activeEvent.steps, groups));
         clearAllSelections();
+        setCollapsedGroupIds(new Set());
         setActivePanelIndex(0);
       } else {
-        setCurrentSteps(activeEvent.steps.slice().sort((a,b) => a.timestamp.getTime() - b.timestamp.getTime()));
+        setCurrentSteps(orderStepsByGroup(activeEvent.steps, groups));
       }
+      setStepGroups(groups);
       prevEventIdRef.current = activeEvent.id;
     }
   }, [activeEvent]);
@@ -818,24 +893,134 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     }, [selectedCurrentStepIds, selectedTemplateIds, selectedTemplateSetIds, handlePointerMove, handlePointerUp]);
 
 
-  const handleDragEnd = () => {
-      setDraggedIds(new Set());
-      setDropIndicator(null);
-  };
-
-  const handleCurrentStepsChange = useCallback((newSteps: ProgressStep[]) => {
+  const handleCurrentStepsChange = useCallback((newSteps: ProgressStep[], newGroups?: StepGroup[]) => {
     if (!activeEvent) return;
     const now = Date.now();
-    const orderedSteps = newSteps.map((step, index) => ({
+    // Steps are stored in timestamp order, so they are arranged group by group before being stamped.
+    const orderedSteps = groupSteps(newSteps, newGroups ?? stepGroups).flatMap(section => section.steps).map((step, index) => ({
       ...step,
       timestamp: new Date(now + index),
     }));
     setCurrentSteps(orderedSteps);
-    onStepsChange(activeEvent.id, orderedSteps);
-  }, [activeEvent, onStepsChange]);
+    if (newGroups) setStepGroups(newGroups);
+    onStepsChange(activeEvent.id, orderedSteps, newGroups);
+  }, [activeEvent, stepGroups, onStepsChange]);
+
+  const moveStepsToGroup = (stepIds: Set<string>, groupId: string | undefined) => {
+    handleCurrentStepsChange(currentSteps.map(step => stepIds.has(step.id) ? assignStepGroup(step, groupId) : step));
+    setSelectedCurrentStepIds(new Set());
+    setContextMenu(null);
+  };
+
+  const handleCreateGroup = () => {
+    const newGroup: StepGroup = { id: `group-${Date.now()}`, name: `分组 ${stepGroups.length + 1}` };
+    // Selected steps move into the new group.
+    const newSteps = currentSteps.map(step => selectedCurrentStepIds.has(step.id) ? assignStepGroup(step, newGroup.id) : step);
+    handleCurrentStepsChange(newSteps, [...stepGroups, newGroup]);
+    setSelectedCurrentStepIds(new Set());
+  };
+
+  const handleRenameGroup = (groupId: string, name: string) => {
+    handleCurrentStepsChange(currentSteps, stepGroups.map(group => group.id === groupId ? { ...group, name } : group));
+  };
+
+  const handleDeleteGroup = (groupId: string) => {
+    const remainingGroups = stepGroups.filter(group => group.id !== groupId);
+    handleCurrentStepsChange(detachOrphanSteps(currentSteps, remainingGroups), remainingGroups);
+  };
+
+  const handleMarkGroupComplete = (groupId: string) => {
+    handleCurrentStepsChange(currentSteps.map(step => step.groupId === groupId ? { ...step, completed: true } : step));
+  };
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setCollapsedGroupIds(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  const handleGroupDragStart = (e: React.DragEvent, groupId: string) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(STEP_GROUP_DRAG_TYPE, groupId);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleGroupHeaderDragOver = (e: React.DragEvent, groupId: string) => {
+    // Groups are reordered by dropping them on another header; steps dropped on a header join that group.
+    e.preventDefault();
+    e.stopPropagation();
+    reorder.clearDropTarget();
+    setGroupDropTargetId(groupId);
+  };
+
+  const handleGroupHeaderDrop = (e: React.DragEvent, groupId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setGroupDropTargetId(null);
+    const draggedGroupId = e.dataTransfer.getData(STEP_GROUP_DRAG_TYPE);
+    if (draggedGroupId) {
+        if (draggedGroupId === groupId) return;
+        const dragged = stepGroups.find(group => group.id === draggedGroupId);
+        if (!dragged) return;
+        const reordered = stepGroups.filter(group => group.id !== draggedGroupId);
+        reordered.splice(stepGroups.findIndex(group => group.id === groupId), 0, dragged);
+        handleCurrentStepsChange(currentSteps, reordered);
+        return;
+    }
+    try {
+        commitDrop(JSON.parse(e.dataTransfer.getData('application/json')), 'current', currentSteps.length, groupId);
+    } catch (error) {
+        console.error("Drop on group failed:", error);
+    }
+  };
+
+  const rangeGeneratorDefaults = useMemo(
+    () => getDefaultStepRange(activeEvent?.mediaType ?? 'generic', activeEvent?.mediaMetadata),
+    [activeEvent?.mediaType, activeEvent?.mediaMetadata]
+  );
+
+  const handleGenerateRange = (options: StepRangeOptions, completedCount: number) => {
+    const now = Date.now();
+    const nextGroups = [...stepGroups];
+    const lastGroupId = currentSteps[currentSteps.length - 1]?.groupId;
+    // Each season goes into the group of the same name, which is created when missing.
+    const runs = generateStepRangeBySeason(options).map(run => {
+        if (run.season === null) return { groupId: lastGroupId, descriptions: run.descriptions };
+        const name = `第 ${run.season} 季`;
+        let group = nextGroups.find(g => g.name === name);
+        if (!group) {
+            group = { id: `group-${now}-${run.season}`, name };
+            nextGroups.push(group);
+        }
+        return { groupId: group.id, descriptions: run.descriptions };
+    });
+    const generatedSteps: ProgressStep[] = runs
+        .flatMap(run => run.descriptions.map(description => ({ description, groupId: run.groupId })))
+        .map(({ description, groupId }, i) => assignStepGroup({
+            id: `step-${now}-${i}`, description, timestamp: new Date(), completed: i < completedCount,
+        }, groupId));
+    handleCurrentStepsChange([...currentSteps, ...generatedSteps], nextGroups.length !== stepGroups.length ? nextGroups : undefined);
+    setIsRangeGeneratorOpen(false);
+    showSnackbar(`已添加 ${generatedSteps.length} 个步骤`, <PlusIcon className="w-5 h-5" />, !!onUndo);
+  };
+
+  const handleSaveRangeAsTemplate = (name: string, descriptions: string[]) => {
+    const now = Date.now();
+    const newSet: StepSetTemplate = {
+      id: `set-${now}`,
+      name,
+      steps: descriptions.map((description, i) => ({ id: `set-step-${now}-${i}`, description })),
+    };
+    onStepSetTemplatesChange([...stepSetTemplates, newSet]);
+    showSnackbar(`已创建模板 "${newSet.name}"`, <CheckIcon className="w-5 h-5" />);
+  };
 
   const addStepToCurrent = (desc: string) => {
-    const newStep: ProgressStep = { id: `step-${Date.now()}`, description: desc, timestamp: new Date(), completed: false };
+    // The new step joins the group at the end of the list.
+    const newStep = assignStepGroup({ id: `step-${Date.now()}`, description: desc, timestamp: new Date(), completed: false }, currentSteps[currentSteps.length - 1]?.groupId);
     handleCurrentStepsChange([...currentSteps, newStep]);
     showSnackbar(`已添加步骤: "${desc.substring(0, 20)}..."`, <PlusIcon className="w-5 h-5" />);
   };
@@ -843,6 +1028,17 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     const newSteps = currentSteps.map(s => s.id === id ? { ...s, description: newDesc } : s);
     handleCurrentStepsChange(newSteps);
   };
+
+  const openNoteEditor = (stepId: string) => {
+    setNoteEditor({ stepId, draft: currentSteps.find(s => s.id === stepId)?.note ?? '' });
+    setContextMenu(null);
+  };
+
+  const saveNote = () => {
+    if (!noteEditor) return;
+    handleCurrentStepsChange(currentSteps.map(s => s.id === noteEditor.stepId ? setStepNote(s, noteEditor.draft) : s));
+    setNoteEditor(null);
+  };
   
   const addSingleTemplate = (desc: string) => {
     if(desc.trim() && !templates.some(t => t.description === desc.trim())) {
@@ -882,7 +1078,7 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     setSelectedCurrentStepIds(new Set());
     setLastSelectedCurrentStepId(null);
     setShowClearStepsConfirm(false);
-    if (count > 0) showSnackbar(`已重置 ${count} 个步骤`, <TrashIcon className="w-5 h-5" />);
+    if (count > 0) showSnackbar(`已重置 ${count} 个步骤`, <TrashIcon className="w-5 h-5" />, !!onUndo);
   };
 
   const handleCurrentStepInteraction = (e: React.MouseEvent | React.TouchEvent, clickedId: string) => {
@@ -1056,98 +1252,43 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     if (count === 0) return [];
     
     switch (contextMenu.type) {
-        case 'current':
-            return [{ label: `删除 ${count} 个步骤`, icon: <TrashIcon className="w-5 h-5" />, isDestructive: true, onClick: deleteSelectedCurrentSteps }];
+        case 'current': {
+            const ids = contextMenu.ids;
+            const selectedSteps = currentSteps.filter(step => ids.has(step.id));
+            const moveActions: ContextMenuAction[] = stepGroups
+                .filter(group => selectedSteps.some(step => step.groupId !== group.id))
+                .map(group => ({ label: `移至「${group.name}」`, icon: <ChevronRightIcon className="w-5 h-5" />, onClick: () => moveStepsToGroup(ids, group.id) }));
+            if (selectedSteps.some(step => step.groupId)) {
+                moveActions.push({ label: '移出分组', icon: <ChevronLeftIcon className="w-5 h-5" />, onClick: () => moveStepsToGroup(ids, undefined) });
+            }
+            const noteActions: ContextMenuAction[] = selectedSteps.length === 1
+                ? [{ label: selectedSteps[0].note ? '编辑笔记' : '添加笔记', icon: <DocumentTextIcon className="w-5 h-5" />, onClick: () => openNoteEditor(selectedSteps[0].id) }]
+                : [];
+            return [...noteActions, ...moveActions, { label: `删除 ${count} 个步骤`, icon: <TrashIcon className="w-5 h-5" />, isDestructive: true, onClick: deleteSelectedCurrentSteps }];
+        }
         case 'template':
             return [{ label: `删除 ${count} 个归档步骤`, icon: <TrashIcon className="w-5 h-5" />, isDestructive: true, onClick: deleteSelectedTemplates }];
         case 'templateSet':
             return [{ label: `删除 ${count} 个模板`, icon: <TrashIcon className="w-5 h-5" />, isDestructive: true, onClick: deleteSelectedTemplateSets }];
         default: return [];
     }
-  }, [contextMenu, deleteSelectedCurrentSteps, deleteSelectedTemplates, deleteSelectedTemplateSets]);
-
-  const handleGenericDragStart = useCallback((e: React.DragEvent, itemType: 'current' | 'archive' | 'templateSet', itemId: string) => {
-    let currentSelection = selectedCurrentStepIds;
-    let archiveSelection = selectedTemplateIds;
-    let setSelection = selectedTemplateSetIds;
-
-    // If the dragged item is not part of the current selection, create a new selection with just this item.
-    if ( (itemType === 'current' && !currentSelection.has(itemId)) ||
-         (itemType === 'archive' && !archiveSelection.has(itemId)) ||
-         (itemType === 'templateSet' && !setSelection.has(itemId)) ) {
-      currentSelection = itemType === 'current' ? new Set([itemId]) : new Set();
-      archiveSelection = itemType === 'archive' ? new Set([itemId]) : new Set();
-      setSelection = itemType === 'templateSet' ? new Set([itemId]) : new Set();
-      setSelectedCurrentStepIds(currentSelection);
-      setSelectedTemplateIds(archiveSelection);
-      setSelectedTemplateSetIds(setSelection);
-    }
-
-    const draggedSteps = currentSteps.filter(s => currentSelection.has(s.id));
-    const draggedArchive = templates.filter(t => archiveSelection.has(t.id));
-    const draggedSets = stepSetTemplates.filter(s => setSelection.has(s.id));
-
-    const payload = {
-      type: 'multi-source-drag',
-      sources: {
-        steps: draggedSteps.map(s => ({ id: s.id, description: s.description })),
-        archive: draggedArchive.map(t => ({ id: t.id, description: t.description })),
-        sets: draggedSets.map(s => ({ id: s.id, name: s.name, steps: s.steps })),
-      },
-    };
-
-    e.dataTransfer.setData('application/json', JSON.stringify(payload));
-    e.dataTransfer.effectAllowed = 'copyMove';
-
-    const allDraggedIds = new Set([...currentSelection, ...archiveSelection, ...setSelection]);
-    setDraggedIds(allDraggedIds);
-  }, [currentSteps, templates, stepSetTemplates, selectedCurrentStepIds, selectedTemplateIds, selectedTemplateSetIds]);
-  
-  const getClosestIndicatorIndex = (container: HTMLElement, clientY: number, clientX: number, draggedIds: Set<string>) => {
-    const originalElements = Array.from(container.querySelectorAll('[data-reorder-id]')) as HTMLElement[];
-    const draggableElements = originalElements.filter(el => !draggedIds.has(el.dataset.reorderId || ''));
-
-    if (draggableElements.length === 0) return 0;
-
-    let closest = { offset: Number.NEGATIVE_INFINITY, index: -1 };
-
-    draggableElements.forEach((child) => {
-        const box = child.getBoundingClientRect();
-        const offset = clientY - (box.top + box.height / 2);
-        if (offset < 0 && offset > closest.offset) {
-            closest = { offset, index: originalElements.indexOf(child) };
-        }
-    });
-
-    if (closest.index !== -1) return closest.index;
+  }, [contextMenu, currentSteps, stepGroups, deleteSelectedCurrentSteps, deleteSelectedTemplates, deleteSelectedTemplateSets]);
 
-    const lastEl = draggableElements[draggableElements.length - 1];
-    const box = lastEl.getBoundingClientRect();
-    if (clientY > box.bottom) return originalElements.length;
-    
-    return originalElements.indexOf(lastEl) + 1;
-  };
-  
-  const updateDropIndicator = useCallback((clientX: number, clientY: number, data: string) => {
+  const findStepDropTarget = useCallback((clientX: number, clientY: number, payload: any): StepDropTarget | null => {
     const el = document.elementFromPoint(clientX, clientY);
-    if (!el) {
-        setDropIndicator(null);
-        return;
-    }
+    if (!el || !payload || !payload.sources) return null;
 
     const currentPanel = currentStepsPanelRef.current;
     const archivePanel = archivePanelRef.current;
     const templatePanel = templateSetPanelRef.current;
-    
-    let payload;
-    try { payload = JSON.parse(data); } catch { return; }
-    if (!payload || !payload.sources) return;
 
-    const allDraggedIds = new Set([
+    const allDraggedIds = new Set<string>([
         ...payload.sources.steps.map((s: any) => s.id),
         ...payload.sources.archive.map((a: any) => a.id),
         ...payload.sources.sets.map((s: any) => s.id),
     ]);
+    const targetIn = (panelNode: HTMLElement, panel: StepDropTarget['panel']): StepDropTarget =>
+        ({ panel, index: getDropIndex(panelNode, findDropPosition(panelNode, clientX, clientY, allDraggedIds)) });
     
     if (isMobileView) {
         const panelMap: Array<'current' | 'archive' | 'templateSet'> = ['current', 'archive', 'templateSet'];
@@ -1157,43 +1298,19 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
         else if (activePanelIndex === 1) activePanelNode = archivePanel;
         else if (activePanelIndex === 2) activePanelNode = templatePanel;
 
-        if (activePanelNode && activePanelNode.contains(el)) {
-            if (activePanelName === 'templateSet' && payload.sources.sets.length === 0) {
-                setDropIndicator(null);
-                return;
-            }
-            const index = getClosestIndicatorIndex(activePanelNode, clientY, clientX, allDraggedIds);
-            setDropIndicator({ panel: activePanelName, index });
-        } else {
-            setDropIndicator(null);
-        }
-        return;
+        if (!activePanelNode || !activePanelNode.contains(el)) return null;
+        if (activePanelName === 'templateSet' && payload.sources.sets.length === 0) return null;
+        return targetIn(activePanelNode, activePanelName);
     }
 
-    if(currentPanel?.contains(el)) {
-        const index = getClosestIndicatorIndex(currentPanel, clientY, clientX, allDraggedIds);
-        setDropIndicator({ panel: 'current', index });
-    } else if (archivePanel?.contains(el)) {
-        const index = getClosestIndicatorIndex(archivePanel, clientY, clientX, allDraggedIds);
-        setDropIndicator({ panel: 'archive', index });
-    } else if (templatePanel?.contains(el)) {
-        if(payload.sources.sets.length > 0) {
-            const index = getClosestIndicatorIndex(templatePanel, clientY, clientX, allDraggedIds);
-            setDropIndicator({ panel: 'templateSet', index });
-        } else {
-            setDropIndicator(null);
-        }
-    } else {
-        setDropIndicator(null);
-    }
+    if (currentPanel?.contains(el)) return targetIn(currentPanel, 'current');
+    if (archivePanel?.contains(el)) return targetIn(archivePanel, 'archive');
+    if (templatePanel?.contains(el) && payload.sources.sets.length > 0) return targetIn(templatePanel, 'templateSet');
+    return null;
   }, [isMobileView, activePanelIndex]);
-  
-  const handlePanelDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    updateDropIndicator(e.clientX, e.clientY, e.dataTransfer.getData('application/json'));
-  };
 
-  const commitDrop = useCallback((payload: any, panel: 'current' | 'archive' | 'templateSet', dropIndex: number) => {
+  // `targetGroupId` is set when steps are dropped on a group header; otherwise they join the group of their neighbour.
+  const commitDrop = useCallback((payload: any, panel: 'current' | 'archive' | 'templateSet', dropIndex: number, targetGroupId?: string) => {
     if (payload.type !== 'multi-source-drag' || !payload.sources) return;
     
     const { steps: sourceSteps, archive: sourceArchive, sets: sourceSets } = payload.sources;
@@ -1211,8 +1328,6 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
         const stepsFromArchive = sourceArchive.map((item: any) => ({ id: `step-${Date.now()}-${Math.random()}`, description: item.description, timestamp: new Date(), completed: false }));
         const stepsFromSets = sourceSets.flatMap((set: any) => set.steps.map((step: any) => ({ id: `step-${Date.now()}-${Math.random()}`, description: step.description, timestamp: new Date(), completed: false })));
 
-        const allNewItems = [...stepsFromReorder, ...stepsFromArchive, ...stepsFromSets];
-        
         let remainingSteps = nextCurrentSteps.filter(s => !sourceStepIds.has(s.id));
         
         let adjustedDropIndex = dropIndex;
@@ -1220,6 +1335,10 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
         const numDraggedBeforeDrop = originalItemsBeforeDrop.filter(item => sourceStepIds.has(item.id)).length;
         adjustedDropIndex -= numDraggedBeforeDrop;
 
+        const neighbour = remainingSteps[adjustedDropIndex - 1] ?? remainingSteps[adjustedDropIndex];
+        const groupId = targetGroupId ?? neighbour?.groupId;
+        const allNewItems = [...stepsFromReorder, ...stepsFromArchive, ...stepsFromSets].map(step => assignStepGroup(step, groupId));
+
         remainingSteps.splice(adjustedDropIndex, 0, ...allNewItems);
         handleCurrentStepsChange(remainingSteps);
 
@@ -1269,6 +1388,43 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
 
   }, [currentSteps, templates, stepSetTemplates, handleCurrentStepsChange, onTemplatesChange, onStepSetTemplatesChange]);
 
+  const reorder = useDragReorder<any, StepDropTarget>(findStepDropTarget, (payload, target) => commitDrop(payload, target.panel, target.index));
+  const { draggedIds, dropTarget: dropIndicator } = reorder;
+
+  const handleGenericDragStart = useCallback((e: React.DragEvent, itemType: 'current' | 'archive' | 'templateSet', itemId: string) => {
+    let currentSelection = selectedCurrentStepIds;
+    let archiveSelection = selectedTemplateIds;
+    let setSelection = selectedTemplateSetIds;
+
+    // If the dragged item is not part of the current selection, create a new selection with just this item.
+    if ( (itemType === 'current' && !currentSelection.has(itemId)) ||
+         (itemType === 'archive' && !archiveSelection.has(itemId)) ||
+         (itemType === 'templateSet' && !setSelection.has(itemId)) ) {
+      currentSelection = itemType === 'current' ? new Set([itemId]) : new Set();
+      archiveSelection = itemType === 'archive' ? new Set([itemId]) : new Set();
+      setSelection = itemType === 'templateSet' ? new Set([itemId]) : new Set();
+      setSelectedCurrentStepIds(currentSelection);
+      setSelectedTemplateIds(archiveSelection);
+      setSelectedTemplateSetIds(setSelection);
+    }
+
+    const draggedSteps = currentSteps.filter(s => currentSelection.has(s.id));
+    const draggedArchive = templates.filter(t => archiveSelection.has(t.id));
+    const draggedSets = stepSetTemplates.filter(s => setSelection.has(s.id));
+
+    const payload = {
+      type: 'multi-source-drag',
+      sources: {
+        steps: draggedSteps.map(s => ({ id: s.id, description: s.description })),
+        archive: draggedArchive.map(t => ({ id: t.id, description: t.description })),
+        sets: draggedSets.map(s => ({ id: s.id, name: s.name, steps: s.steps })),
+      },
+    };
+
+    reorder.startDrag(e, payload, [...currentSelection, ...archiveSelection, ...setSelection], 'copyMove');
+  }, [currentSteps, templates, stepSetTemplates, selectedCurrentStepIds, selectedTemplateIds, selectedTemplateSetIds, reorder]);
+  
+
   const handleDrop = (e: React.DragEvent, panel: 'current' | 'archive' | 'templateSet') => {
     e.preventDefault();
     e.stopPropagation();
@@ -1282,7 +1438,7 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     } catch (error) {
         console.error("Drop failed:", error);
     } finally {
-        setDropIndicator(null);
+        reorder.handleDragEnd();
     }
   };
 
@@ -1346,8 +1502,6 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
     };
 
     const startTouchDrag = useCallback((e: React.TouchEvent, itemType: 'current' | 'archive' | 'templateSet', itemId: string) => {
-        e.preventDefault();
-        
         let currentSelection = selectedCurrentStepIds;
         let archiveSelection = selectedTemplateIds;
         let setSelection = selectedTemplateSetIds;
@@ -1373,12 +1527,6 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
             },
         };
         
-        const allDraggedIds = new Set([...currentSelection, ...archiveSelection, ...setSelection]);
-        setDraggedIds(allDraggedIds);
-
-        const touch = e.touches[0];
-        const targetRect = (e.currentTarget as HTMLElement).getBoundingClientRect();
-        
         const parts = [];
         if (payload.sources.steps?.length > 0) parts.push(`${payload.sources.steps.length} 个步骤`);
         if (payload.sources.archive?.length > 0) parts.push(`${payload.sources.archive.length} 个归档项`);
@@ -1386,49 +1534,15 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
         const ghostContent = parts.join(', ');
         const ghost = <div className="p-2 rounded-lg bg-white dark:bg-slate-600 shadow-xl">{ghostContent || '拖动中...'}</div>;
 
-        setTouchDragState({
-            payload, ghostElement: ghost,
-            position: { x: touch.clientX, y: touch.clientY },
-            offset: { x: touch.clientX - targetRect.left, y: touch.clientY - targetRect.top }
-        });
-    }, [currentSteps, templates, stepSetTemplates, selectedCurrentStepIds, selectedTemplateIds, selectedTemplateSetIds]);
-
-    useEffect(() => {
-        const handleTouchMove = (e: TouchEvent) => {
-            if (touchDragState) {
-                e.preventDefault();
-                const touch = e.touches[0];
-                setTouchDragState(prev => prev ? { ...prev, position: { x: touch.clientX, y: touch.clientY } } : null);
-                updateDropIndicator(touch.clientX, touch.clientY, JSON.stringify(touchDragState.payload));
-            }
-        };
-
-        const handleTouchEnd = (e: TouchEvent) => {
-            if (touchDragState && dropIndicator) {
-                commitDrop(touchDragState.payload, dropIndicator.panel, dropIndicator.index);
-            }
-            setTouchDragState(null);
-            setDropIndicator(null);
-            setDraggedIds(new Set());
-        };
-
-        if (touchDragState) {
-            window.addEventListener('touchmove', handleTouchMove, { passive: false });
-            window.addEventListener('touchend', handleTouchEnd);
-        }
-
-        return () => {
-            window.removeEventListener('touchmove', handleTouchMove);
-            window.removeEventListener('touchend', handleTouchEnd);
-        };
-    }, [touchDragState, dropIndicator, commitDrop, updateDropIndicator]);
+        reorder.startTouchDrag(e, payload, [...currentSelection, ...archiveSelection, ...setSelection], ghost);
+    }, [currentSteps, templates, stepSetTemplates, selectedCurrentStepIds, selectedTemplateIds, selectedTemplateSetIds, reorder]);
 
     const handleSwipeStart = (e: React.TouchEvent) => {
       touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
     };
 
     const handleSwipeEnd = (e: React.TouchEvent) => {
-        if (!touchStartRef.current || touchDragState) return;
+        if (!touchStartRef.current || reorder.touchDragState) return;
 
         const endX = e.changedTouches[0].clientX;
         const endY = e.changedTouches[0].clientY;
@@ -1554,21 +1668,78 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
       return null;
     }
     
+    let sectionStart = 0;
+    const currentSections = groupSteps(currentSteps, stepGroups).map(section => {
+        const start = sectionStart;
+        sectionStart += section.steps.length;
+        return { ...section, start };
+    });
+    const isCurrentDropIndex = (index: number) => dropIndicator?.panel === 'current' && dropIndicator.index === index;
+    const renderCurrentStep = (step: ProgressStep) => (
+        <DraggableItem itemType="current" id={step.id} description={step.description} onUpdate={updateCurrentStep} dragProps={{ onDragStart: (e) => handleGenericDragStart(e, 'current', step.id), onTouchStart: (e) => startTouchDrag(e, 'current', step.id) }} onItemClick={handleCurrentStepInteraction} onItemLongPress={handleCurrentStepLongPress} onItemPointerDown={handleItemPointerDown} onContextMenu={(e) => handleCurrentStepContextMenu(e, step.id)} isGhost={draggedIds.has(step.id)} isSelected={selectedCurrentStepIds.has(step.id)} isSelectionMode={isSelectionMode} note={step.note} onEditNote={() => openNoteEditor(step.id)} />
+    );
+
     const renderCurrentStepsPanel = () => (
         <section ref={currentStepsPanelRef} className="border border-slate-200 dark:border-slate-700 rounded-lg flex flex-col min-h-0 w-full animate-fade-in-up flex-grow">
             <div className="flex justify-between items-center mb-3 flex-shrink-0 p-4 pb-0">
                 <h3 className="font-bold text-lg">{panelTitles[0]}</h3>
-                <button onClick={handleClearCurrentSteps} className="text-sm text-red-500 hover:underline disabled:text-slate-400 disabled:no-underline px-2 py-1 transition-transform active:scale-95" disabled={currentSteps.length === 0}>重置</button>
+                <div className="flex items-center">
+                    <button onClick={handleCreateGroup} className="text-sm text-slate-600 dark:text-slate-300 hover:underline px-2 py-1 transition-transform active:scale-95" title="新建分组，已选中的步骤将移入其中">新建分组</button>
+                    <button onClick={() => setIsRangeGeneratorOpen(true)} className="text-sm text-slate-600 dark:text-slate-300 hover:underline px-2 py-1 transition-transform active:scale-95">批量生成</button>
+                    <button onClick={handleClearCurrentSteps} className="text-sm text-red-500 hover:underline disabled:text-slate-400 disabled:no-underline px-2 py-1 transition-transform active:scale-95" disabled={currentSteps.length === 0}>重置</button>
+                </div>
             </div>
             <div className="flex-grow flex flex-col min-h-0 bg-slate-100 dark:bg-slate-900/50 rounded-b-lg">
-                <div onDragOver={handlePanelDragOver} onDrop={(e) => handleDrop(e, 'current')} onDragLeave={() => setDropIndicator(null)} onClick={handleContainerClickToDeselect} className="flex-grow overflow-y-auto flex flex-col gap-2 content-start p-2 mx-2 cursor-default">
-                {currentSteps.map((step, index) => (
-                    <React.Fragment key={step.id}>
-                    {dropIndicator?.panel === 'current' && dropIndicator.index === index && <DropIndicator orientation="horizontal" />}
-                    <DraggableItem itemType="current" id={step.id} description={step.description} onUpdate={updateCurrentStep} dragProps={{ onDragStart: (e) => handleGenericDragStart(e, 'current', step.id), onTouchStart: (e) => startTouchDrag(e, 'current', step.id) }} onItemClick={handleCurrentStepInteraction} onItemLongPress={handleCurrentStepLongPress} onItemPointerDown={handleItemPointerDown} onContextMenu={(e) => handleCurrentStepContextMenu(e, step.id)} isGhost={draggedIds.has(step.id)} isSelected={selectedCurrentStepIds.has(step.id)} isSelectionMode={isSelectionMode} />
-                    </React.Fragment>
-                ))}
-                {dropIndicator?.panel === 'current' && dropIndicator.index === currentSteps.length && <DropIndicator orientation="horizontal" />}
+                <div onDragOver={reorder.handleDragOver} onDrop={(e) => handleDrop(e, 'current')} onDragLeave={() => reorder.clearDropTarget()} onClick={handleContainerClickToDeselect} className="flex-grow overflow-y-auto flex flex-col gap-2 content-start p-2 mx-2 cursor-default">
+                {stepGroups.length === 0 ? (
+                    <>
+                    {currentSteps.map((step, index) => (
+                        <React.Fragment key={step.id}>
+                        {isCurrentDropIndex(index) && <DropIndicator orientation="horizontal" />}
+                        {renderCurrentStep(step)}
+                        </React.Fragment>
+                    ))}
+                    {isCurrentDropIndex(currentSteps.length) && <DropIndicator orientation="horizontal" />}
+                    </>
+                ) : (
+                    <>
+                    {currentSections.map(({ group, steps, start }) => {
+                        const isCollapsed = !!group && collapsedGroupIds.has(group.id);
+                        return (
+                            <React.Fragment key={group?.id ?? 'ungrouped'}>
+                            {group ? (
+                                <StepGroupHeader
+                                    group={group}
+                                    completedCount={countCompletedSteps(steps)}
+                                    totalCount={steps.length}
+                                    isCollapsed={isCollapsed}
+                                    isDropTarget={groupDropTargetId === group.id}
+                                    onToggleCollapse={() => toggleGroupCollapsed(group.id)}
+                                    onRename={(name) => handleRenameGroup(group.id, name)}
+                                    onMarkComplete={() => handleMarkGroupComplete(group.id)}
+                                    onDelete={() => handleDeleteGroup(group.id)}
+                                    onGroupDragStart={(e) => handleGroupDragStart(e, group.id)}
+                                    onDragOver={(e) => handleGroupHeaderDragOver(e, group.id)}
+                                    onDragLeave={() => setGroupDropTargetId(null)}
+                                    onDrop={(e) => handleGroupHeaderDrop(e, group.id)}
+                                />
+                            ) : (
+                                <p className="px-2 pt-1 text-xs font-semibold text-slate-500 dark:text-slate-400 select-none">未分组</p>
+                            )}
+                            {steps.map((step, i) => (
+                                <React.Fragment key={step.id}>
+                                {/* At a group boundary the indicator is shown at the end of the previous group, which is where the step lands. */}
+                                {isCurrentDropIndex(start + i) && (i > 0 || start === 0) && <DropIndicator orientation="horizontal" />}
+                                <div className={isCollapsed ? 'hidden' : undefined}>{renderCurrentStep(step)}</div>
+                                </React.Fragment>
+                            ))}
+                            {steps.length > 0 && isCurrentDropIndex(start + steps.length) && <DropIndicator orientation="horizontal" />}
+                            </React.Fragment>
+                        );
+                    })}
+                    {currentSteps.length === 0 && isCurrentDropIndex(0) && <DropIndicator orientation="horizontal" />}
+                    </>
+                )}
                 {currentSteps.length === 0 && !dropIndicator && <p className="text-slate-500 text-center py-4 w-full select-none">从归档或模板中添加，或创建新步骤。</p>}
                 </div>
                 <div className="flex-shrink-0 p-4 pt-3">
@@ -1585,7 +1756,7 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
                 <button onClick={handleClearSingleTemplates} className="text-sm text-red-500 hover:underline disabled:text-slate-400 disabled:no-underline px-2 py-1 transition-transform active:scale-95" disabled={templates.length === 0}>重置</button>
             </div>
             <div className="flex-grow flex flex-col min-h-0 bg-slate-100 dark:bg-slate-900/50 rounded-b-lg">
-                <div onDragOver={handlePanelDragOver} onDrop={(e) => handleDrop(e, 'archive')} onDragLeave={() => setDropIndicator(null)} onClick={handleContainerClickToDeselect} className="flex-grow overflow-y-auto flex flex-col gap-2 content-start p-2 mx-2 cursor-default">
+                <div onDragOver={reorder.handleDragOver} onDrop={(e) => handleDrop(e, 'archive')} onDragLeave={() => reorder.clearDropTarget()} onClick={handleContainerClickToDeselect} className="flex-grow overflow-y-auto flex flex-col gap-2 content-start p-2 mx-2 cursor-default">
                     {templates.map((template, index) => (
                     <React.Fragment key={template.id}>
                         {dropIndicator?.panel === 'archive' && dropIndicator.index === index && <DropIndicator orientation="horizontal" />}
@@ -1612,15 +1783,15 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
                     try {
                         const payload = JSON.parse(payloadString);
                         if (payload.type === 'multi-source-drag' && payload.sources.sets?.length > 0) {
-                            handlePanelDragOver(e);
+                            reorder.handleDragOver(e);
                             e.dataTransfer.dropEffect = 'move';
                         } else {
                             e.dataTransfer.dropEffect = 'copy';
                             const target = e.target as HTMLElement;
-                            if (!target.closest('[data-reorder-id]')) setDropIndicator(null);
+                            if (!target.closest('[data-reorder-id]')) reorder.clearDropTarget();
                         }
                     } catch (e) {}
-                }} onDragLeave={() => setDropIndicator(null)}>
+                }} onDragLeave={() => reorder.clearDropTarget()}>
                     <SaveAsSetInput onSave={saveCurrentAsSet} currentStepCount={currentSteps.length}/>
                     {stepSetTemplates.map((templateSet, index) => (
                     <React.Fragment key={templateSet.id}>
@@ -1632,7 +1803,7 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
                             onTouchStartSet={(e) => startTouchDrag(e, 'templateSet', templateSet.id)} 
                             isGhost={draggedIds.has(templateSet.id)} 
                             draggedStepIds={draggedIds} 
-                            onSetDraggedIds={setDraggedIds}
+                            onSetDraggedIds={reorder.setDraggedIds}
                             isSelectionMode={isSelectionMode}
                             isSelected={selectedTemplateSetIds.has(templateSet.id)}
                             onItemClick={handleTemplateSetInteraction}
@@ -1733,7 +1904,7 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
         >
           <div 
             className="flex flex-col h-full"
-            onDragEnd={handleDragEnd} 
+            onDragEnd={reorder.handleDragEnd} 
             onClick={handleCloseContextMenu}
           >
               {isMobileView ? (
@@ -1771,13 +1942,13 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
                   </div>
               )}
                
-               {touchDragState && (
+               {reorder.touchDragState && (
                   <div 
                       id="touch-drag-ghost"
                       className="fixed top-0 left-0 pointer-events-none z-50" 
-                      style={{ transform: `translate(${touchDragState.position.x - touchDragState.offset.x}px, ${touchDragState.position.y - touchDragState.offset.y}px)` }}
+                      style={{ transform: `translate(${reorder.touchDragState.position.x - reorder.touchDragState.offset.x}px, ${reorder.touchDragState.position.y - reorder.touchDragState.offset.y}px)` }}
                   >
-                      {touchDragState.ghostElement}
+                      {reorder.touchDragState.ghost}
                   </div>
               )}
               {contextMenu && <ContextMenu x={contextMenu.x} y={contextMenu.y} actions={contextMenuActions} onClose={handleCloseContextMenu}/>}
@@ -1811,6 +1982,29 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
                       </div>
                   </div>
               </Modal>
+              <Modal isOpen={!!noteEditor} onClose={() => setNoteEditor(null)} title="步骤笔记" variant="sheet">
+                  <div className="space-y-4">
+                      <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{currentSteps.find(s => s.id === noteEditor?.stepId)?.description}</p>
+                      <textarea
+                          value={noteEditor?.draft ?? ''}
+                          onChange={(e) => setNoteEditor(prev => prev && { ...prev, draft: e.target.value })}
+                          rows={8}
+                          placeholder="写点什么... 支持 Markdown，||剧透|| 会被隐藏"
+                          className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500"
+                      />
+                      <div className="flex justify-end gap-3 pt-2">
+                          <button onClick={() => setNoteEditor(null)} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+                          <button onClick={saveNote} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base">保存</button>
+                      </div>
+                  </div>
+              </Modal>
+              <StepRangeGeneratorModal
+                  isOpen={isRangeGeneratorOpen}
+                  onClose={() => setIsRangeGeneratorOpen(false)}
+                  initialOptions={rangeGeneratorDefaults}
+                  onGenerate={handleGenerateRange}
+                  onSaveAsTemplate={handleSaveRangeAsTemplate}
+              />
           </div>
         </Modal>
         <Snackbar
@@ -1818,6 +2012,8 @@ const StepsEditorPanel: React.FC<StepsEditorPanelProps> = ({
             message={snackbar?.message || ''}
             icon={snackbar?.icon}
             bottomClass="bottom-24 lg:bottom-8"
+            actionLabel={snackbar?.undoable ? '撤销' : undefined}
+            onAction={() => { setSnackbar(null); onUndo?.(); }}
         />
       </>
     );
@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Modal from './Modal';
+import { CheckIcon, SaveIcon } from './icons';
+import { ParsedTextEvent, parseTextImport } from '../utils/textImport';
+
+interface TextImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialTitle: string;
+  onImport: (events: ParsedTextEvent[]) => void;
+}
+
+const PREVIEW_STEP_LIMIT = 5;
+
+const TextImportModal: React.FC<TextImportModalProps> = ({ isOpen, onClose, initialTitle, onImport }) => {
+  const [text, setText] = useState('');
+  const [plainListTitle, setPlainListTitle] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText('');
+      setPlainListTitle(initialTitle);
+    }
+  }, [isOpen, initialTitle]);
+
+  const parsed = useMemo(() => parseTextImport(text, plainListTitle.trim()), [text, plainListTitle]);
+  const canImport = parsed.events.length > 0 && parsed.events.every(event => event.title !== '');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    if (!plainListTitle.trim()) setPlainListTitle(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="从清单导入" variant="sheet">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          粘贴 Markdown 或纯文本。<code># 标题</code> 创建事件，<code>- [ ]</code> 和 <code>- [x]</code> 成为步骤，<code>#标签</code> 成为标签。没有标题的文本将作为单个事件的步骤列表，每行一个步骤。
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'# 某部动画 #动画\n- [x] 第 1 集\n- [ ] 第 2 集'}
+          rows={8}
+          className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500 font-mono text-sm"
+        />
+        <div className="flex justify-end">
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".md,.markdown,.txt,text/plain,text/markdown" className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center justify-center gap-2">
+            <SaveIcon className="w-5 h-5" />
+            选择文件
+          </button>
+        </div>
+        {parsed.isPlainList && text.trim() !== '' && (
+          <div>
+            <label htmlFor="plainListTitle" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">事件标题*</label>
+            <input type="text" id="plainListTitle" value={plainListTitle} onChange={(e) => setPlainListTitle(e.target.value)} placeholder="例如：某部动画" className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-slate-500 focus:border-slate-500" />
+          </div>
+        )}
+        {parsed.events.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">预览</h4>
+            {parsed.events.map((event, index) => {
+              const completed = event.steps.filter(step => step.completed).length;
+              return (
+                <div key={index} className="p-4 rounded-lg bg-slate-100 dark:bg-slate-900/50 space-y-2">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className={`font-semibold truncate ${event.title ? 'text-slate-800 dark:text-slate-100' : 'text-red-600 dark:text-red-400'}`}>{event.title || '缺少标题'}</p>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">{event.steps.length} 个步骤 · {completed} 已完成</span>
+                  </div>
+                  {event.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {event.tags.map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{tag}</span>)}
+                    </div>
+                  )}
+                  {event.description && <p className="text-sm text-slate-600 dark:text-slate-300 whitespace-pre-line line-clamp-3">{event.description}</p>}
+                  <ul className="space-y-1">
+                    {event.steps.slice(0, PREVIEW_STEP_LIMIT).map((step, stepIndex) => (
+                      <li key={stepIndex} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <span className={`w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center ${step.completed ? 'bg-slate-800 dark:bg-slate-300 border-slate-800 dark:border-slate-300' : 'border-slate-400 dark:border-slate-500'}`}>
+                          {step.completed && <CheckIcon className="w-3 h-3 text-white dark:text-slate-900" />}
+                        </span>
+                        <span className="truncate">{step.description}</span>
+                      </li>
+                    ))}
+                    {event.steps.length > PREVIEW_STEP_LIMIT && (
+                      <li className="text-xs text-slate-500 dark:text-slate-400">还有 {event.steps.length - PREVIEW_STEP_LIMIT} 个步骤...</li>
+                    )}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex justify-end gap-3 pt-2">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+          <button onClick={() => onImport(parsed.events)} disabled={!canImport} className="px-5 py-2.5 rounded-lg bg-slate-900 dark:bg-slate-200 text-white dark:text-slate-900 font-semibold hover:bg-slate-700 dark:hover:bg-slate-300 transition-all active:scale-95 text-base disabled:bg-slate-400 dark:disabled:bg-slate-700 disabled:cursor-not-allowed">
+            {parsed.events.length > 1 ? `添加 ${parsed.events.length} 个事件` : '添加事件'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default TextImportModal;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import Modal from './Modal';
+import { TrashedEvent } from '../types';
+import { TrashIcon, ArrowLeftIcon, LoadingSpinnerIcon, ExclamationTriangleIcon } from './icons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+  { days: 90, label: '90 天' },
+  { days: 0, label: '永不' },
+];
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: TrashedEvent[] | null; // null while loading
+  isAvailable: boolean;
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  onRestore: (item: TrashedEvent) => void;
+  onDeletePermanently: (ids: string[] | 'all') => void;
+}
+
+const TrashModal: React.FC<TrashModalProps> = ({
+  isOpen, onClose, items, isAvailable, retentionDays, onRetentionDaysChange, onRestore, onDeletePermanently
+}) => {
+  const [confirmDelete, setConfirmDelete] = useState<{ ids: string[] | 'all'; message: string } | null>(null);
+
+  const getPurgeHint = (item: TrashedEvent) => {
+    if (retentionDays <= 0) return '不会自动清理';
+    const daysLeft = Math.ceil((item.deletedAt.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS);
+    return daysLeft <= 1 ? '将在 1 天内自动清理' : `将在 ${daysLeft} 天后自动清理`;
+  };
+
+  const renderContent = () => {
+    if (!isAvailable) {
+      return (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-10">
+          回收站仅在常规数据库中可用。临时存储和演示数据库中删除的事件不会被保留。
+        </p>
+      );
+    }
+    if (items === null) {
+      return (
+        <div className="flex items-center justify-center gap-3 py-10 text-slate-500 dark:text-slate-400">
+          <LoadingSpinnerIcon className="w-6 h-6" />
+          <span>正在加载回收站...</span>
+        </div>
+      );
+    }
+    if (items.length === 0) {
+      return <p className="text-center text-slate-500 dark:text-slate-400 py-10">回收站是空的。</p>;
+    }
+    return (
+      <div className="space-y-3">
+        {items.map(item => (
+          <div key={item.id} className="p-4 rounded-lg bg-slate-100 dark:bg-slate-900/50 flex items-center justify-between gap-4">
+            <div className="flex-grow min-w-0">
+              <p className="font-semibold truncate text-slate-800 dark:text-slate-100">{item.event.title}</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                删除于 {item.deletedAt.toLocaleString('zh-CN')} · {getPurgeHint(item)}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button onClick={() => onRestore(item)} className="px-3 py-2 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-sm font-medium flex items-center gap-1.5">
+                <ArrowLeftIcon className="w-4 h-4" />
+                恢复
+              </button>
+              <button
+                onClick={() => setConfirmDelete({ ids: [item.id], message: `“${item.event.title}”将被永久删除，包括其原始图片。此操作无法撤销。` })}
+                className="p-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-all active:scale-95"
+                aria-label="永久删除"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="回收站" variant="sheet">
+        <div className="space-y-4">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {retentionDays > 0
+              ? `已删除的事件会在这里保留 ${retentionDays} 天，之后将被自动永久删除。`
+              : '已删除的事件会一直保留在这里，直到您手动删除。'}
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">自动清理</label>
+            <div className="flex items-center bg-slate-200 dark:bg-slate-700 p-1 rounded-lg">
+              {RETENTION_OPTIONS.map(option => (
+                <button
+                  key={option.days}
+                  onClick={() => onRetentionDaysChange(option.days)}
+                  className={`w-full px-3 py-1.5 text-sm font-semibold rounded-md transition-all ${
+                    retentionDays === option.days
+                      ? 'bg-white dark:bg-slate-800 shadow-sm text-slate-800 dark:text-slate-100'
+                      : 'text-slate-600 dark:text-slate-300 hover:bg-white/50 dark:hover:bg-slate-800/50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {renderContent()}
+          {isAvailable && items && items.length > 0 && (
+            <div className="flex justify-end pt-2">
+              <button
+                onClick={() => setConfirmDelete({ ids: 'all', message: `回收站中的 ${items.length} 个事件将被永久删除。此操作无法撤销。` })}
+                className="px-4 py-2.5 rounded-lg text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/40 hover:bg-red-200 dark:hover:bg-red-900/60 transition-all active:scale-95 text-sm font-medium flex items-center gap-2"
+              >
+                <TrashIcon className="w-5 h-5" />
+                清空回收站
+              </button>
+            </div>
+          )}
+        </div>
+      </Modal>
+      <Modal isOpen={!!confirmDelete} onClose={() => setConfirmDelete(null)} title="确认永久删除" variant="dialog">
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <ExclamationTriangleIcon className="w-10 h-10 text-red-500 flex-shrink-0" />
+            <p className="text-slate-600 dark:text-slate-300">{confirmDelete?.message}</p>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button onClick={() => setConfirmDelete(null)} className="px-5 py-2.5 rounded-lg text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 transition-all active:scale-95 text-base font-medium">取消</button>
+            <button
+              onClick={() => { if (confirmDelete) onDeletePermanently(confirmDelete.ids); setConfirmDelete(null); }}
+              className="px-5 py-2.5 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 transition-all active:scale-95 text-base"
+            >
+              永久删除
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default TrashModal;
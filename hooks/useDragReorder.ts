@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface TouchDragState<P> {
+  payload: P;
+  ghost: React.ReactNode;
+  position: { x: number; y: number };
+  offset: { x: number; y: number };
+}
+
+/** An item of a reorderable list, found by its `data-reorder-id`, and which side of it a drop goes to. */
+export interface ReorderDropTarget {
+  id: string;
+  position: 'before' | 'after';
+}
+
+const getItems = (container: HTMLElement) => Array.from(container.querySelectorAll('[data-reorder-id]')) as HTMLElement[];
+
+const sharesRow = (a: DOMRect, b: DOMRect) => a.top < b.bottom && b.top < a.bottom;
+
+/**
+ * The item nearest to the pointer that is neither dragged nor hidden (such as
+ * the steps of a collapsed group). Where the item shares a row with the item
+ * before or after it, as in a wrapping grid, the pointer's side of it decides
+ * between before and after; in a column it is the pointer's half.
+ */
+export const findDropPosition = (container: HTMLElement, clientX: number, clientY: number, draggedIds: Set<string>): ReorderDropTarget | null => {
+  const items = getItems(container).filter(item => !draggedIds.has(item.dataset.reorderId || '') && item.getClientRects().length > 0);
+  const boxes = items.map(item => item.getBoundingClientRect());
+
+  let closest = -1;
+  let closestDistance = Infinity;
+  boxes.forEach((box, index) => {
+    const dx = Math.max(box.left - clientX, 0, clientX - box.right);
+    const dy = Math.max(box.top - clientY, 0, clientY - box.bottom);
+    const distance = Math.hypot(dx, dy);
+    if (distance < closestDistance) {
+      closest = index;
+      closestDistance = distance;
+    }
+  });
+  if (closest === -1) return null;
+
+  const box = boxes[closest];
+  const isInRow = [boxes[closest - 1], boxes[closest + 1]].some(neighbour => neighbour && sharesRow(box, neighbour));
+  const isBefore = isInRow ? clientX < box.left + box.width / 2 : clientY < box.top + box.height / 2;
+  return { id: items[closest].dataset.reorderId!, position: isBefore ? 'before' : 'after' };
+};
+
+/** Where a drop goes in the list of all items of the container, dragged ones included; `0` when there is nothing to drop next to. */
+export const getDropIndex = (container: HTMLElement, target: ReorderDropTarget | null): number => {
+  if (!target) return 0;
+  const index = getItems(container).findIndex(item => item.dataset.reorderId === target.id);
+  return target.position === 'before' ? index : index + 1;
+};
+
+const readPayload = <P,>(dataTransfer: DataTransfer): P | null => {
+  try {
+    return JSON.parse(dataTransfer.getData('application/json'));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Drag and drop for reorderable lists, by mouse or by touch. Mouse drags use
+ * the native drag events and carry `payload` as JSON; touch drags are started
+ * through `useLongPress`'s `onDrag` and follow the finger with a ghost.
+ * `findDropTarget` turns a pointer position into a place to drop, and
+ * `onDrop` receives it together with the payload of the drag.
+ */
+const useDragReorder = <P, T>(
+  findDropTarget: (clientX: number, clientY: number, payload: P, draggedIds: Set<string>) => T | null,
+  onDrop: (payload: P, target: T) => void
+) => {
+  const [draggedIds, setDraggedIds] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<T | null>(null);
+  const [touchDragState, setTouchDragState] = useState<TouchDragState<P> | null>(null);
+  // Browsers hide the dragged data until the drop, so the drag over events read it from here.
+  const mouseDragPayloadRef = useRef<P | null>(null);
+
+  const reset = useCallback(() => {
+    mouseDragPayloadRef.current = null;
+    setDraggedIds(new Set());
+    setDropTarget(null);
+    setTouchDragState(null);
+  }, []);
+
+  const updateDropTarget = useCallback((clientX: number, clientY: number, payload: P) => {
+    const next = findDropTarget(clientX, clientY, payload, draggedIds);
+    // Drag over events fire continuously, so an unchanged target keeps its identity.
+    setDropTarget(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+  }, [findDropTarget, draggedIds]);
+
+  const clearDropTarget = useCallback(() => setDropTarget(null), []);
+
+  const startDrag = (e: React.DragEvent, payload: P, ids: Iterable<string>, effectAllowed: DataTransfer['effectAllowed'] = 'move') => {
+    mouseDragPayloadRef.current = payload;
+    setDraggedIds(new Set(ids));
+    e.dataTransfer.effectAllowed = effectAllowed;
+    e.dataTransfer.setData('application/json', JSON.stringify(payload));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    const payload = mouseDragPayloadRef.current ?? readPayload<P>(e.dataTransfer);
+    if (!payload) return;
+    e.preventDefault();
+    updateDropTarget(e.clientX, e.clientY, payload);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const payload = mouseDragPayloadRef.current ?? readPayload<P>(e.dataTransfer);
+    const finalTarget = dropTarget;
+    reset();
+    if (payload && finalTarget !== null) onDrop(payload, finalTarget);
+  };
+
+  const startTouchDrag = (e: React.TouchEvent, payload: P, ids: Iterable<string>, ghost: React.ReactNode) => {
+    e.preventDefault();
+    const touch = e.touches[0];
+    const targetRect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setDraggedIds(new Set(ids));
+    setTouchDragState({
+      payload, ghost,
+      position: { x: touch.clientX, y: touch.clientY },
+      // The ghost is a small label, so it stays under the finger even when the item is large.
+      offset: { x: Math.min(touch.clientX - targetRect.left, 24), y: Math.min(touch.clientY - targetRect.top, 24) },
+    });
+  };
+
+  useEffect(() => {
+    if (!touchDragState) return;
+    const handleTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      const touch = e.touches[0];
+      setTouchDragState(prev => prev ? { ...prev, position: { x: touch.clientX, y: touch.clientY } } : null);
+      updateDropTarget(touch.clientX, touch.clientY, touchDragState.payload);
+    };
+    const handleTouchEnd = () => {
+      if (dropTarget !== null) onDrop(touchDragState.payload, dropTarget);
+      reset();
+    };
+    window.addEventListener('touchmove', handleTouchMove, { passive: false });
+    window.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [touchDragState, dropTarget, onDrop, updateDropTarget, reset]);
+
+  return {
+    draggedIds,
+    setDraggedIds,
+    dropTarget,
+    touchDragState,
+    startDrag,
+    startTouchDrag,
+    updateDropTarget,
+    clearDropTarget,
+    handleDragOver,
+    handleDrop,
+    handleDragEnd: reset,
+  };
+};
+
+export default useDragReorder;
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+
+export type ObjectUrlState = { status: 'loading' | 'missing'; url: null } | { status: 'ready'; url: string };
+
+/**
+ * Loads a stored file or image and exposes it as an object URL for as long as
+ * the component is mounted. Nothing is loaded while `key` is null; `load`
+ * resolves to `undefined` when the file is gone.
+ */
+const useObjectUrl = (
+  key: string | null,
+  load: (key: string) => Promise<Blob | undefined>
+): ObjectUrlState => {
+  const [state, setState] = useState<ObjectUrlState>({ status: 'loading', url: null });
+
+  useEffect(() => {
+    setState({ status: 'loading', url: null });
+    if (!key) return;
+    let cancelled = false;
+    let url: string | null = null;
+    load(key)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setState({ status: 'missing', url: null });
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setState({ status: 'ready', url });
+      })
+      .catch(error => {
+        console.warn("读取文件失败:", error);
+        if (!cancelled) setState({ status: 'missing', url: null });
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+    // `load` changes with every render of its owner; what is stored under a key never changes.
+  }, [key]);
+
+  return state;
+};
+
+/** An object URL for a blob that is already in memory, such as a preview. */
+export const useBlobUrl = (blob: Blob | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
+
+export default useObjectUrl;
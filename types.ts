@@ -3,17 +3,120 @@ export interface ProgressStep {
   description: string;
   timestamp: Date;
   completed: boolean;
+  /** Multi-line Markdown. */
+  note?: string;
+  /** When the step was last marked as completed; cleared when it is uncompleted. */
+  completedAt?: Date;
+  /** The `StepGroup` this step belongs to; ungrouped when absent. */
+  groupId?: string;
 }
 
+export type StepActivityType = 'added' | 'removed' | 'renamed' | 'completed' | 'uncompleted';
+
+/** An entry of an event's append-only activity log. */
+export interface StepActivity {
+  type: StepActivityType;
+  stepId: string;
+  /** The description of the step at that time; the new one for renames. */
+  description: string;
+  /** Only for renames. */
+  previousDescription?: string;
+  at: Date;
+}
+
+/** A named section of an event's steps, such as a season, a volume or an arc. */
+export interface StepGroup {
+  id: string;
+  name: string;
+}
+
+export type MediaType = 'anime' | 'novel' | 'tv' | 'film' | 'generic';
+
+/**
+ * Type-specific details of an event. Series (anime, tv) use seasons/episodes,
+ * novels volumes/chapters and films their runtime; generic events may name a type of their own.
+ */
+export interface MediaMetadata {
+  seasons?: number;
+  episodes?: number;
+  volumes?: number;
+  chapters?: number;
+  runtimeMinutes?: number;
+  customType?: string;
+}
+
+/**
+ * A file attached to an event, or to one of its steps. The file itself is
+ * stored as a blob under `id`; only this description is part of the event.
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** In bytes. */
+  size: number;
+  addedAt: Date;
+  /** The step the file belongs to; the event as a whole when absent. */
+  stepId?: string;
+}
+
+export type CoverRendition = 'thumbnail' | 'medium';
+
+/** The stored versions of a cover image. A missing thumbnail is generated in the background. */
+export interface CoverRenditions {
+  medium: Blob;
+  thumbnail?: Blob;
+}
+
+export type CoverAspect = 'card' | 'poster' | 'square';
+
+/** The part of the original image a cover shows. Coordinates are fractions of the image after rotation. */
+export interface CoverCrop {
+  aspect: CoverAspect;
+  /** Clockwise, in degrees. */
+  rotation: 0 | 90 | 180 | 270;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A point of the cover (fractions of its width and height) that stays visible when the cover is shown in another shape. */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export type LifecycleStatus = 'planned' | 'in-progress' | 'on-hold' | 'dropped' | 'finished';
+
 export interface Event {
   id: string;
   title: string;
   description: string;
   createdAt: Date;
   steps: ProgressStep[];
+  /** The cover's renditions are stored under this id. */
+  coverImageId?: string;
+  /** Only `DEFAULT_ANIMATED_PLACEHOLDER`, or a data URL in backups (see `extractInlineCover`). */
   imageUrl?: string;
+  /** How the cover was cut from the original image, so the crop can be adjusted later. */
+  coverCrop?: CoverCrop;
+  coverFocalPoint?: FocalPoint;
   tags?: string[];
   hasOriginalImage?: boolean;
+  mediaType: MediaType;
+  mediaMetadata?: MediaMetadata;
+  /** Groups in display order. */
+  stepGroups?: StepGroup[];
+  /** Oldest first. */
+  activityLog?: StepActivity[];
+  /** Set by the user; derived from the step progress when absent. */
+  lifecycleStatus?: LifecycleStatus;
+  /** 1–10. */
+  rating?: number;
+  review?: string;
+  /** In the order they were added. */
+  attachments?: Attachment[];
 }
 
 export interface StepTemplate {
@@ -31,3 +134,59 @@ export interface StepSetTemplate {
   name: string;
   steps: StepSetTemplateStep[];
 }
+
+/** Files of newly added attachments, keyed by attachment id. */
+export type AttachmentFiles = Record<string, File>;
+
+export type PendingAction =
+  | { type: 'ADD_EVENT'; payload: { event: Event, originalImage?: File, coverImage?: CoverRenditions, attachmentFiles?: AttachmentFiles, fromTrash?: boolean } } // fromTrash: undoing it moves the event back to the trash
+  | { type: 'UPDATE_EVENT'; payload: { event: Event, originalImage?: File | 'remove', coverImage?: CoverRenditions, attachmentFiles?: AttachmentFiles } } // coverImage is stored under event.coverImageId
+  | { type: 'DELETE_EVENT'; payload: string; permanent?: boolean } // eventId; permanent deletes, such as undoing an add, skip the trash
+  | { type: 'UPDATE_EVENT_STEPS'; payload: { eventId: string; steps: ProgressStep[]; stepGroups?: StepGroup[]; activityLog?: StepActivity[] } } // stepGroups and activityLog are left as they are when absent
+  | { type: 'ADD_TAG'; payload: string } // new tag
+  | { type: 'DELETE_TAGS'; payload: string[] } // tags to delete
+  | { type: 'RENAME_TAG'; payload: { oldTag: string; newTag: string } }
+  | { type: 'REORDER_TAGS'; payload: string[] } // reordered tags
+  | { type: 'UPDATE_STEP_TEMPLATES'; payload: StepTemplate[] }
+  | { type: 'UPDATE_STEP_SET_TEMPLATES'; payload: StepSetTemplate[] };
+
+export interface AppData {
+  events: Event[];
+  tags: string[];
+  stepTemplates: StepTemplate[];
+  stepSetTemplates: StepSetTemplate[];
+}
+
+export interface TrashedEvent {
+  id: string; // same as event.id
+  event: Event;
+  originalImage?: File;
+  deletedAt: Date;
+}
+
+/** `manual` is the order events were dragged into (see `utils/eventOrder.ts`). */
+export type SortOrder = 'createdAt-desc' | 'createdAt-asc' | 'title-asc' | 'title-desc' | 'progress-desc' | 'progress-asc' | 'status-asc' | 'rating-desc' | 'rating-asc' | 'manual';
+
+/** Whether an event needs every selected tag or any one of them. */
+export type TagMatchMode = 'all' | 'any';
+
+/** What the event list is narrowed to; the tag part is described in `utils/tagFilter.ts`. */
+export interface ActiveFilters {
+  status: 'all' | LifecycleStatus;
+  /** Included tags. */
+  tags: string[];
+  tagMatchMode: TagMatchMode;
+  excludedTags: string[];
+  /** Only events without tags; both tag lists are empty while this is set. */
+  untaggedOnly: boolean;
+  mediaType: MediaType | null;
+}
+
+/** A named combination of filters, search and sort order, kept per database. */
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: ActiveFilters;
+  searchQuery: string;
+  sortOrder: SortOrder;
+}
@@ -0,0 +1,94 @@
+// =================================================================
+// Attachments
+// =================================================================
+//
+// Events (and their steps) can carry any number of files. An event only keeps
+// an `Attachment` description of each; the files are stored as blobs in their
+// own store, keyed by attachment id, and travel with the pending actions that
+// add them (`attachmentFiles`) until they are saved.
+//
+// Removing an attachment from an event leaves its file in place, so undo and
+// the trash keep working. Files that no event, trashed event or history entry
+// refers to any more are swept when a database is opened and whenever the
+// trash is emptied.
+
+import { Attachment, AttachmentFiles, Event, PendingAction } from '../types';
+
+/** Larger files are refused; they would bloat backups and the crash journal. */
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+const generateAttachmentId = () => `attachment-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const createAttachment = (file: File, stepId?: string, at: Date = new Date()): Attachment => ({
+    id: generateAttachmentId(),
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    addedAt: at,
+    ...(stepId && { stepId }),
+});
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'mimeType'>) => attachment.mimeType.startsWith('image/');
+
+/** E.g. "1.5 MB". */
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
+
+/**
+ * Attachments of a step, or of the event itself when `stepId` is undefined.
+ * Attachments of steps that no longer exist count as the event's own.
+ */
+export const getAttachmentsFor = (event: Event, stepId?: string): Attachment[] => {
+    const attachments = event.attachments ?? [];
+    if (stepId) return attachments.filter(a => a.stepId === stepId);
+    const stepIds = new Set(event.steps.map(step => step.id));
+    return attachments.filter(a => !a.stepId || !stepIds.has(a.stepId));
+};
+
+/** Ids of every attachment the events refer to. */
+export const collectAttachmentIds = (events: Event[], ids: Set<string> = new Set()): Set<string> => {
+    events.forEach(event => event.attachments?.forEach(a => ids.add(a.id)));
+    return ids;
+};
+
+/** Ids of every attachment the events in `actions` refer to, e.g. to keep the files an undo would need. */
+export const collectActionAttachmentIds = (actions: PendingAction[], ids: Set<string> = new Set()): Set<string> => {
+    actions.forEach(action => {
+        if (action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') collectAttachmentIds([action.payload.event], ids);
+    });
+    return ids;
+};
+
+/** The file of an attachment that is still waiting in `actions` to be saved, newest first. */
+export const findQueuedAttachmentFile = (actions: PendingAction[], attachmentId: string): File | undefined => {
+    for (let i = actions.length - 1; i >= 0; i--) {
+        const action = actions[i];
+        if ((action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') && action.payload.attachmentFiles?.[attachmentId]) {
+            return action.payload.attachmentFiles[attachmentId];
+        }
+    }
+    return undefined;
+};
+
+/** The files of `attachments` that are in `files`, or `undefined` when there are none. */
+export const pickAttachmentFiles = (attachments: Attachment[] | undefined, files: Map<string, File>): AttachmentFiles | undefined => {
+    const picked: AttachmentFiles = {};
+    let found = false;
+    attachments?.forEach(a => {
+        const file = files.get(a.id);
+        if (file) {
+            picked[a.id] = file;
+            found = true;
+        }
+    });
+    return found ? picked : undefined;
+};
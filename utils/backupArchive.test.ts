@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { BackupDocument, createBackupArchive, readBackupFile } from './backupArchive';
+
+const document: BackupDocument = {
+    version: 1,
+    exportedAt: '2023-10-15T00:00:00.000Z',
+    data: { events: [], tags: ['重要'], stepTemplates: [], stepSetTemplates: [] },
+};
+
+const source = { sourceDb: 'default', schemaVersion: 5, appliedMigrations: [] };
+
+const createArchive = async (metadata: Record<string, unknown> = {}) => {
+    const images = new Map([['event-1', new File(['image bytes'], 'cover.png', { type: 'image/png', lastModified: 1 })]]);
+    const blob = await createBackupArchive(document, images, new Map(), metadata, source);
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+const toFile = (bytes: Uint8Array) => new File([bytes], 'backup.zip', { type: 'application/zip' });
+
+describe('backup archives', () => {
+    it('round-trip the document, the files and the metadata', async () => {
+        const metadata = { savedViews: { views: [], defaultViewId: null }, eventOrder: { manual: ['event-1'], pinned: [] } };
+        const backup = await readBackupFile(toFile(await createArchive(metadata)));
+        expect(backup.document).toEqual(document);
+        expect(backup.metadata).toEqual(metadata);
+        expect(await backup.originalImages.get('event-1')?.text()).toBe('image bytes');
+    });
+
+    it('reject entries whose contents do not match their checksum', async () => {
+        const bytes = await createArchive();
+        // Latin-1 keeps one character per byte, so the index is a byte offset.
+        const index = new TextDecoder('latin1').decode(bytes).indexOf('image bytes');
+        bytes[index] ^= 0xff;
+        await expect(readBackupFile(toFile(bytes))).rejects.toThrow('备份压缩包中的条目校验失败: images/event-1.png');
+    });
+});
@@ -0,0 +1,307 @@
+// =================================================================
+// Full backup archive
+// =================================================================
+//
+// The plain JSON export only carries `{ events, tags, stepTemplates, stepSetTemplates }`.
+// A full backup is a ZIP archive (stored, uncompressed) with:
+//
+//   manifest.json                format, versions and the list of files
+//   data.json                    the same document as the JSON export
+//   metadata.json                the database's own settings, such as saved views
+//   images/<eventId>.<ext>       one original image per event
+//   attachments/<id>/<fileName>  the files of event and step attachments
+//
+// The ZIP reader and writer below only cover what this format needs, so no
+// dependency is required. Images are stored as-is; they are already compressed.
+// Every entry is checked against its CRC-32 when read, so a damaged archive is
+// rejected instead of restoring corrupt files.
+
+import { AppData } from '../types';
+import { AppliedMigration } from './migrations';
+
+export const BACKUP_ARCHIVE_FORMAT = 'essenmelia-backup';
+export const BACKUP_ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const DATA_PATH = 'data.json';
+const METADATA_PATH = 'metadata.json';
+
+export interface BackupImageEntry {
+    eventId: string;
+    path: string;
+    name: string;
+    type: string;
+    lastModified: number;
+}
+
+export interface BackupAttachmentEntry {
+    attachmentId: string;
+    path: string;
+    name: string;
+    type: string;
+    lastModified: number;
+}
+
+export interface BackupManifest {
+    format: typeof BACKUP_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    /** The database the backup was taken from, without the `essenmelia-db-` prefix. */
+    sourceDb: string;
+    schemaVersion: number;
+    appliedMigrations: AppliedMigration[];
+    counts: { events: number; tags: number; stepTemplates: number; stepSetTemplates: number; originalImages: number; attachments?: number };
+    originalImages: BackupImageEntry[];
+    /** Absent in backups from before attachments existed. */
+    attachments?: BackupAttachmentEntry[];
+}
+
+/** The JSON document shared by the plain export and `data.json`. */
+export interface BackupDocument {
+    version: number;
+    exportedAt: string;
+    data: AppData;
+}
+
+export interface ParsedBackup {
+    document: any;
+    /** Original images keyed by the event id they had in the backup. */
+    originalImages: Map<string, File>;
+    /** Attachment files keyed by attachment id. */
+    attachments: Map<string, File>;
+    /** Records of the metadata store by key; absent in plain exports and older archives. */
+    metadata?: Record<string, unknown>;
+    manifest?: BackupManifest;
+}
+
+// =================================================================
+// ZIP container
+// =================================================================
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Builds an uncompressed ZIP archive from the given files. */
+const createZip = async (files: { path: string; data: Blob }[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.path);
+        const bytes = new Uint8Array(await file.data.arrayBuffer());
+        const crc = crc32(bytes);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_FILE_HEADER, true);
+        local.setUint16(4, 20, true); // version needed to extract
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // method: stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, bytes.length, true);
+        local.setUint32(22, bytes.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name, bytes);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, bytes.length, true);
+        central.setUint32(24, bytes.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + bytes.length;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+/** Lists the files of a ZIP archive. Only stored (uncompressed) entries can be read. */
+const readZip = async (blob: Blob): Promise<Map<string, Blob>> => {
+    // The end record is 22 bytes plus a comment of at most 65535 bytes.
+    const tailStart = Math.max(0, blob.size - 22 - 0xffff);
+    const tail = new DataView(await blob.slice(tailStart).arrayBuffer());
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) throw new Error("文件不是有效的备份压缩包。");
+
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+    const central = new DataView(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+    const decoder = new TextDecoder();
+    const files = new Map<string, Blob>();
+
+    let pos = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (central.getUint32(pos, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("备份压缩包的目录已损坏。");
+        const method = central.getUint16(pos + 10, true);
+        const crc = central.getUint32(pos + 16, true);
+        const size = central.getUint32(pos + 20, true);
+        const nameLength = central.getUint16(pos + 28, true);
+        const extraLength = central.getUint16(pos + 30, true);
+        const commentLength = central.getUint16(pos + 32, true);
+        const localOffset = central.getUint32(pos + 42, true);
+        const path = decoder.decode(new Uint8Array(central.buffer, pos + 46, nameLength));
+        pos += 46 + nameLength + extraLength + commentLength;
+
+        if (path.endsWith('/')) continue;
+        if (method !== 0) throw new Error(`不支持压缩的条目: ${path}`);
+
+        const local = new DataView(await blob.slice(localOffset, localOffset + 30).arrayBuffer());
+        if (local.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new Error(`备份压缩包中的条目已损坏: ${path}`);
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = blob.slice(dataStart, dataStart + size);
+        if (crc32(new Uint8Array(await data.arrayBuffer())) !== crc) throw new Error(`备份压缩包中的条目校验失败: ${path}`);
+        files.set(path, data);
+    }
+    return files;
+};
+
+// =================================================================
+// Backup format
+// =================================================================
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp', 'image/avif': 'avif', 'image/svg+xml': 'svg',
+};
+
+export const createBackupArchive = async (
+    document: BackupDocument,
+    originalImages: Map<string, File>,
+    attachments: Map<string, File>,
+    metadata: Record<string, unknown>,
+    source: { sourceDb: string; schemaVersion: number; appliedMigrations: AppliedMigration[] },
+): Promise<Blob> => {
+    const imageEntries: BackupImageEntry[] = [];
+    const files: { path: string; data: Blob }[] = [];
+    originalImages.forEach((image, eventId) => {
+        const extension = IMAGE_EXTENSIONS[image.type] || 'bin';
+        const path = `images/${encodeURIComponent(eventId)}.${extension}`;
+        imageEntries.push({ eventId, path, name: image.name, type: image.type, lastModified: image.lastModified });
+        files.push({ path, data: image });
+    });
+    const attachmentEntries: BackupAttachmentEntry[] = [];
+    attachments.forEach((file, attachmentId) => {
+        const path = `attachments/${encodeURIComponent(attachmentId)}/${encodeURIComponent(file.name || 'file')}`;
+        attachmentEntries.push({ attachmentId, path, name: file.name, type: file.type, lastModified: file.lastModified });
+        files.push({ path, data: file });
+    });
+
+    const { data } = document;
+    const manifest: BackupManifest = {
+        format: BACKUP_ARCHIVE_FORMAT,
+        version: BACKUP_ARCHIVE_VERSION,
+        exportedAt: document.exportedAt,
+        ...source,
+        counts: {
+            events: data.events.length,
+            tags: data.tags.length,
+            stepTemplates: data.stepTemplates.length,
+            stepSetTemplates: data.stepSetTemplates.length,
+            originalImages: imageEntries.length,
+            attachments: attachmentEntries.length,
+        },
+        originalImages: imageEntries,
+        attachments: attachmentEntries,
+    };
+
+    const json = (value: unknown) => new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+    return createZip([
+        { path: MANIFEST_PATH, data: json(manifest) },
+        { path: DATA_PATH, data: json(document) },
+        { path: METADATA_PATH, data: json(metadata) },
+        ...files,
+    ]);
+};
+
+const isZipFile = async (file: Blob): Promise<boolean> => {
+    if (file.size < 4) return false;
+    return new DataView(await file.slice(0, 4).arrayBuffer()).getUint32(0, true) === LOCAL_FILE_HEADER;
+};
+
+/** Reads either a plain JSON export or a full backup archive. */
+export const readBackupFile = async (file: File): Promise<ParsedBackup> => {
+    if (!(await isZipFile(file))) {
+        try {
+            return { document: JSON.parse(await file.text()), originalImages: new Map(), attachments: new Map() };
+        } catch {
+            throw new Error("文件不是有效的 JSON。");
+        }
+    }
+
+    const files = await readZip(file);
+    const manifestBlob = files.get(MANIFEST_PATH);
+    const dataBlob = files.get(DATA_PATH);
+    if (!manifestBlob || !dataBlob) throw new Error("备份压缩包缺少清单或数据文件。");
+
+    const manifest: BackupManifest = JSON.parse(await manifestBlob.text());
+    if (manifest.format !== BACKUP_ARCHIVE_FORMAT) throw new Error("文件不是埃森梅莉亚的备份。");
+    if (manifest.version > BACKUP_ARCHIVE_VERSION) throw new Error("此备份由更新版本的应用创建，请先更新应用。");
+
+    const originalImages = new Map<string, File>();
+    (manifest.originalImages || []).forEach(entry => {
+        const blob = files.get(entry.path);
+        if (!blob) throw new Error(`备份压缩包缺少图片: ${entry.path}`);
+        originalImages.set(entry.eventId, new File([blob], entry.name, { type: entry.type, lastModified: entry.lastModified }));
+    });
+    const attachments = new Map<string, File>();
+    (manifest.attachments || []).forEach(entry => {
+        const blob = files.get(entry.path);
+        if (!blob) throw new Error(`备份压缩包缺少附件: ${entry.path}`);
+        attachments.set(entry.attachmentId, new File([blob], entry.name, { type: entry.type, lastModified: entry.lastModified }));
+    });
+
+    const metadataBlob = files.get(METADATA_PATH);
+    const metadata = metadataBlob ? JSON.parse(await metadataBlob.text()) : undefined;
+
+    return { document: JSON.parse(await dataBlob.text()), originalImages, attachments, metadata, manifest };
+};
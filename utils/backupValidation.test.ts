@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_DOCUMENT_VERSION, BackupValidationError, validateBackupDocument } from './backupValidation';
+
+const rawEvent = (overrides: Record<string, unknown> = {}) => ({
+    id: 'event-1',
+    title: '进击的巨人',
+    description: '',
+    createdAt: '2023-10-15T00:00:00.000Z',
+    steps: [{ id: 'step-1', description: '第1集', timestamp: '2023-10-15T00:00:00.000Z', completed: true, completedAt: '2023-10-16T00:00:00.000Z' }],
+    tags: ['动画'],
+    mediaType: 'anime',
+    ...overrides,
+});
+
+const makeDocument = (data: Record<string, unknown> = {}, version: unknown = BACKUP_DOCUMENT_VERSION) => ({
+    version,
+    exportedAt: '2023-10-15T00:00:00.000Z',
+    data: { events: [rawEvent()], tags: ['动画'], stepTemplates: [], stepSetTemplates: [], ...data },
+});
+
+const validationError = (document: unknown) => {
+    try {
+        validateBackupDocument(document);
+    } catch (error) {
+        return error;
+    }
+    throw new Error('expected the document to be rejected');
+};
+
+describe('validateBackupDocument', () => {
+    it('revives the dates of valid records', () => {
+        const { data, skipped } = validateBackupDocument(makeDocument());
+        expect(skipped).toEqual([]);
+        expect(data.events[0].createdAt).toEqual(new Date('2023-10-15T00:00:00.000Z'));
+        expect(data.events[0].steps[0].completedAt).toEqual(new Date('2023-10-16T00:00:00.000Z'));
+    });
+
+    it('rejects documents that are not backups or come from a newer version', () => {
+        expect(validationError(null)).toBeInstanceOf(BackupValidationError);
+        expect(validationError(makeDocument({}, BACKUP_DOCUMENT_VERSION + 1))).toMatchObject({ path: 'version' });
+        expect(validationError(makeDocument({}, 'one'))).toMatchObject({ path: 'version' });
+        expect(validationError(makeDocument({ tags: 'x' }))).toMatchObject({ path: 'data.tags' });
+    });
+
+    it('reads documents from before versions and media types as generic events of version 1', () => {
+        const { version, ...unversioned } = makeDocument({ events: [rawEvent({ mediaType: undefined })] });
+        expect(version).toBe(1);
+        const { data, skipped } = validateBackupDocument(unversioned);
+        expect(skipped).toEqual([]);
+        expect(data.events[0].mediaType).toBe('generic');
+    });
+
+    it('skips only the broken records and reports the path of each problem', () => {
+        const { data, skipped } = validateBackupDocument(makeDocument({
+            events: [
+                rawEvent(),
+                rawEvent({ id: 'event-2', title: '坏日期', steps: [{ id: 'step-1', description: '', timestamp: 'yesterday', completed: false }] }),
+                rawEvent({ id: 'event-3', title: '坏评分', rating: 11, lifecycleStatus: 'lost' }),
+                'not an event',
+            ],
+        }));
+        expect(data.events.map(e => e.id)).toEqual(['event-1']);
+        expect(skipped).toEqual([
+            { path: 'data.events[1]', label: '坏日期', issues: [{ path: 'data.events[1].steps[0].timestamp', message: '不是有效的日期' }] },
+            {
+                path: 'data.events[2]',
+                label: '坏评分',
+                issues: [
+                    { path: 'data.events[2].lifecycleStatus', message: expect.stringContaining('之一') },
+                    { path: 'data.events[2].rating', message: expect.stringContaining('整数') },
+                ],
+            },
+            { path: 'data.events[3]', label: undefined, issues: [{ path: 'data.events[3]', message: '应为对象' }] },
+        ]);
+    });
+
+    it('skips records whose id repeats an earlier one', () => {
+        const { data, skipped } = validateBackupDocument(makeDocument({ events: [rawEvent(), rawEvent({ title: '副本' })] }));
+        expect(data.events).toHaveLength(1);
+        expect(skipped).toEqual([{ path: 'data.events[1]', label: '副本', issues: [{ path: 'data.events[1].id', message: 'ID “event-1”重复' }] }]);
+    });
+
+    it('skips empty tags and drops repeated ones', () => {
+        const { data, skipped } = validateBackupDocument(makeDocument({ tags: ['动画', '', 3, '动画', '漫画'] }));
+        expect(data.tags).toEqual(['动画', '漫画']);
+        expect(skipped.map(record => record.path)).toEqual(['data.tags[1]', 'data.tags[2]']);
+    });
+
+    it('checks the steps of step set templates', () => {
+        const { data, skipped } = validateBackupDocument(makeDocument({
+            stepSetTemplates: [
+                { id: 'set-1', name: '追番', steps: [{ id: 's-1', description: '第1集' }] },
+                { id: 'set-2', name: '坏模板', steps: [{ description: '缺少 ID' }] },
+            ],
+        }));
+        expect(data.stepSetTemplates.map(set => set.id)).toEqual(['set-1']);
+        expect(skipped).toEqual([{ path: 'data.stepSetTemplates[1]', label: '坏模板', issues: [{ path: 'data.stepSetTemplates[1].steps[0].id', message: '缺少字符串' }] }]);
+    });
+});
@@ -0,0 +1,297 @@
+// =================================================================
+// Backup validation
+// =================================================================
+//
+// Imported files are checked record by record before anything is applied.
+// Problems with the document as a whole (not a backup, or written by a newer
+// version) throw a `BackupValidationError`. A broken record only skips that
+// record; every problem is reported with a path such as
+// `data.events[12].steps[3].timestamp`, so the rest can still be imported.
+
+import { AppData, Event, ProgressStep, StepSetTemplate, StepTemplate } from '../types';
+import { DEFAULT_MEDIA_TYPE, MEDIA_TYPES, isMediaType } from './mediaTypes';
+import { STEP_ACTIVITY_TYPES } from './stepActivity';
+import { LIFECYCLE_STATUSES, MAX_RATING, MIN_RATING, isLifecycleStatus, isValidRating } from './lifecycle';
+import { COVER_ASPECTS } from './coverImages';
+
+/** The `version` written by the exports of this build. */
+export const BACKUP_DOCUMENT_VERSION = 1;
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface SkippedRecord {
+    /** Path of the skipped record, e.g. `data.events[12]`. */
+    path: string;
+    /** A human-readable name for the record, when one could be read. */
+    label?: string;
+    issues: ValidationIssue[];
+}
+
+export interface BackupValidationResult {
+    /** The valid records, with dates revived. */
+    data: AppData;
+    skipped: SkippedRecord[];
+}
+
+export class BackupValidationError extends Error {
+    path: string;
+
+    constructor(path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'BackupValidationError';
+        this.path = path;
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Collects the issues of a single record. */
+class RecordChecker {
+    issues: ValidationIssue[] = [];
+
+    fail(path: string, message: string) {
+        this.issues.push({ path, message });
+    }
+
+    string(value: unknown, path: string, { optional = false, nonEmpty = false } = {}): string | undefined {
+        if (value === undefined && optional) return undefined;
+        if (typeof value !== 'string') this.fail(path, optional ? '应为字符串' : '缺少字符串');
+        else if (nonEmpty && value.trim() === '') this.fail(path, '不能为空');
+        else return value;
+        return undefined;
+    }
+
+    boolean(value: unknown, path: string, { optional = false } = {}): boolean | undefined {
+        if (value === undefined && optional) return undefined;
+        if (typeof value !== 'boolean') this.fail(path, '应为布尔值');
+        else return value;
+        return undefined;
+    }
+
+    number(value: unknown, path: string, { optional = false } = {}): number | undefined {
+        if (value === undefined && optional) return undefined;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) this.fail(path, '应为非负数');
+        else return value;
+        return undefined;
+    }
+
+    date(value: unknown, path: string): Date | undefined {
+        const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date ? new Date(value) : null;
+        if (!date || isNaN(date.getTime())) this.fail(path, '不是有效的日期');
+        else return date;
+        return undefined;
+    }
+
+    array(value: unknown, path: string): unknown[] {
+        if (!Array.isArray(value)) {
+            this.fail(path, '应为数组');
+            return [];
+        }
+        return value;
+    }
+}
+
+const recordLabel = (record: unknown, key: string): string | undefined =>
+    isObject(record) && typeof record[key] === 'string' ? record[key] : undefined;
+
+const validateStep = (check: RecordChecker, value: unknown, path: string): ProgressStep | undefined => {
+    if (!isObject(value)) {
+        check.fail(path, '应为对象');
+        return undefined;
+    }
+    const step = {
+        id: check.string(value.id, `${path}.id`, { nonEmpty: true }),
+        description: check.string(value.description, `${path}.description`),
+        timestamp: check.date(value.timestamp, `${path}.timestamp`),
+        completed: check.boolean(value.completed, `${path}.completed`),
+        ...(value.completedAt !== undefined && { completedAt: check.date(value.completedAt, `${path}.completedAt`) }),
+    };
+    check.string(value.groupId, `${path}.groupId`, { optional: true });
+    check.string(value.note, `${path}.note`, { optional: true });
+    return { ...value, ...step } as ProgressStep;
+};
+
+const validateEvent = (check: RecordChecker, value: Record<string, any>, path: string): Event => {
+    const steps = check.array(value.steps, `${path}.steps`).map((step, i) => validateStep(check, step, `${path}.steps[${i}]`));
+    const tags = value.tags === undefined ? undefined : check.array(value.tags, `${path}.tags`);
+    tags?.forEach((tag, i) => check.string(tag, `${path}.tags[${i}]`, { nonEmpty: true }));
+    check.string(value.imageUrl, `${path}.imageUrl`, { optional: true });
+    check.string(value.coverImageId, `${path}.coverImageId`, { optional: true, nonEmpty: true });
+    check.boolean(value.hasOriginalImage, `${path}.hasOriginalImage`, { optional: true });
+    if (value.coverCrop !== undefined) {
+        const cropPath = `${path}.coverCrop`;
+        if (!isObject(value.coverCrop)) {
+            check.fail(cropPath, '应为对象');
+        } else {
+            if (!COVER_ASPECTS.some(aspect => aspect.id === value.coverCrop.aspect)) check.fail(`${cropPath}.aspect`, `应为 ${COVER_ASPECTS.map(aspect => aspect.id).join('、')} 之一`);
+            if (![0, 90, 180, 270].includes(value.coverCrop.rotation)) check.fail(`${cropPath}.rotation`, '应为 0、90、180、270 之一');
+            (['x', 'y', 'width', 'height'] as const).forEach(key => check.number(value.coverCrop[key], `${cropPath}.${key}`));
+        }
+    }
+    if (value.coverFocalPoint !== undefined) {
+        const focalPath = `${path}.coverFocalPoint`;
+        if (!isObject(value.coverFocalPoint)) check.fail(focalPath, '应为对象');
+        else (['x', 'y'] as const).forEach(key => check.number(value.coverFocalPoint[key], `${focalPath}.${key}`));
+    }
+    const stepGroups = value.stepGroups === undefined ? [] : check.array(value.stepGroups, `${path}.stepGroups`);
+    stepGroups.forEach((group, i) => {
+        const groupPath = `${path}.stepGroups[${i}]`;
+        if (!isObject(group)) {
+            check.fail(groupPath, '应为对象');
+            return;
+        }
+        check.string(group.id, `${groupPath}.id`, { nonEmpty: true });
+        check.string(group.name, `${groupPath}.name`);
+    });
+    // Backups written before media types existed have none; they are generic events.
+    const mediaType = value.mediaType ?? DEFAULT_MEDIA_TYPE;
+    if (!isMediaType(mediaType)) check.fail(`${path}.mediaType`, `应为 ${MEDIA_TYPES.map(type => type.id).join('、')} 之一`);
+    if (value.mediaMetadata !== undefined) {
+        const metadataPath = `${path}.mediaMetadata`;
+        if (!isObject(value.mediaMetadata)) {
+            check.fail(metadataPath, '应为对象');
+        } else {
+            (['seasons', 'episodes', 'volumes', 'chapters', 'runtimeMinutes'] as const).forEach(key =>
+                check.number(value.mediaMetadata[key], `${metadataPath}.${key}`, { optional: true }));
+            check.string(value.mediaMetadata.customType, `${metadataPath}.customType`, { optional: true });
+        }
+    }
+    if (value.lifecycleStatus !== undefined && !isLifecycleStatus(value.lifecycleStatus)) {
+        check.fail(`${path}.lifecycleStatus`, `应为 ${LIFECYCLE_STATUSES.map(status => status.id).join('、')} 之一`);
+    }
+    if (value.rating !== undefined && !isValidRating(value.rating)) check.fail(`${path}.rating`, `应为 ${MIN_RATING} 到 ${MAX_RATING} 的整数`);
+    check.string(value.review, `${path}.review`, { optional: true });
+    const activityLog = value.activityLog === undefined ? undefined : check.array(value.activityLog, `${path}.activityLog`).map((entry, i) => {
+        const entryPath = `${path}.activityLog[${i}]`;
+        if (!isObject(entry)) {
+            check.fail(entryPath, '应为对象');
+            return entry;
+        }
+        if (!STEP_ACTIVITY_TYPES.includes(entry.type)) check.fail(`${entryPath}.type`, `应为 ${STEP_ACTIVITY_TYPES.join('、')} 之一`);
+        check.string(entry.stepId, `${entryPath}.stepId`, { nonEmpty: true });
+        check.string(entry.description, `${entryPath}.description`);
+        check.string(entry.previousDescription, `${entryPath}.previousDescription`, { optional: true });
+        return { ...entry, at: check.date(entry.at, `${entryPath}.at`) };
+    });
+    const attachments = value.attachments === undefined ? undefined : check.array(value.attachments, `${path}.attachments`).map((attachment, i) => {
+        const attachmentPath = `${path}.attachments[${i}]`;
+        if (!isObject(attachment)) {
+            check.fail(attachmentPath, '应为对象');
+            return attachment;
+        }
+        check.string(attachment.id, `${attachmentPath}.id`, { nonEmpty: true });
+        check.string(attachment.name, `${attachmentPath}.name`);
+        check.string(attachment.mimeType, `${attachmentPath}.mimeType`);
+        check.number(attachment.size, `${attachmentPath}.size`);
+        check.string(attachment.stepId, `${attachmentPath}.stepId`, { optional: true });
+        return { ...attachment, addedAt: check.date(attachment.addedAt, `${attachmentPath}.addedAt`) };
+    });
+    return {
+        ...value,
+        mediaType,
+        ...(activityLog && { activityLog }),
+        ...(attachments && { attachments }),
+        id: check.string(value.id, `${path}.id`, { nonEmpty: true }),
+        title: check.string(value.title, `${path}.title`),
+        description: check.string(value.description, `${path}.description`),
+        createdAt: check.date(value.createdAt, `${path}.createdAt`),
+        steps,
+    } as Event;
+};
+
+const validateStepTemplate = (check: RecordChecker, value: Record<string, any>, path: string): StepTemplate => ({
+    ...value,
+    id: check.string(value.id, `${path}.id`, { nonEmpty: true }),
+    description: check.string(value.description, `${path}.description`),
+} as StepTemplate);
+
+const validateStepSetTemplate = (check: RecordChecker, value: Record<string, any>, path: string): StepSetTemplate => {
+    const steps = check.array(value.steps, `${path}.steps`).map((step, i) => {
+        const stepPath = `${path}.steps[${i}]`;
+        if (!isObject(step)) {
+            check.fail(stepPath, '应为对象');
+            return step;
+        }
+        check.string(step.id, `${stepPath}.id`, { nonEmpty: true });
+        check.string(step.description, `${stepPath}.description`);
+        return step;
+    });
+    return {
+        ...value,
+        id: check.string(value.id, `${path}.id`, { nonEmpty: true }),
+        name: check.string(value.name, `${path}.name`),
+        steps,
+    } as StepSetTemplate;
+};
+
+/** Validates every record of a collection, keeping the valid ones and reporting the rest. */
+const validateRecords = <T extends { id: string }>(
+    values: unknown[],
+    path: string,
+    labelKey: string,
+    validate: (check: RecordChecker, value: Record<string, any>, path: string) => T,
+    skipped: SkippedRecord[],
+): T[] => {
+    const valid: T[] = [];
+    const seenIds = new Set<string>();
+    values.forEach((value, i) => {
+        const recordPath = `${path}[${i}]`;
+        const check = new RecordChecker();
+        let record: T | undefined;
+        if (!isObject(value)) {
+            check.fail(recordPath, '应为对象');
+        } else {
+            record = validate(check, value, recordPath);
+            if (check.issues.length === 0 && seenIds.has(record.id)) check.fail(`${recordPath}.id`, `ID “${record.id}”重复`);
+        }
+        if (record && check.issues.length === 0) {
+            seenIds.add(record.id);
+            valid.push(record);
+        } else {
+            skipped.push({ path: recordPath, label: recordLabel(value, labelKey), issues: check.issues });
+        }
+    });
+    return valid;
+};
+
+/**
+ * Checks a parsed export document (`{ version, exportedAt, data }`). Throws a
+ * `BackupValidationError` if the document cannot be imported at all.
+ */
+export const validateBackupDocument = (document: unknown): BackupValidationResult => {
+    if (!isObject(document)) throw new BackupValidationError('$', '文件不是有效的备份。');
+    // Exports from before the field existed carry no version.
+    const version = document.version ?? BACKUP_DOCUMENT_VERSION;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new BackupValidationError('version', `无法识别的备份版本: ${JSON.stringify(version)}`);
+    }
+    if (version > BACKUP_DOCUMENT_VERSION) {
+        throw new BackupValidationError('version', `此备份的格式版本为 ${version}，当前应用最高支持版本 ${BACKUP_DOCUMENT_VERSION}。请先更新应用再导入。`);
+    }
+
+    const { data } = document;
+    if (!isObject(data)) throw new BackupValidationError('data', '缺少数据部分。');
+    (['events', 'tags', 'stepTemplates', 'stepSetTemplates'] as const).forEach(key => {
+        if (!Array.isArray(data[key])) throw new BackupValidationError(`data.${key}`, '缺少或不是数组。');
+    });
+
+    const skipped: SkippedRecord[] = [];
+    const events = validateRecords(data.events, 'data.events', 'title', validateEvent, skipped);
+    const stepTemplates = validateRecords(data.stepTemplates, 'data.stepTemplates', 'description', validateStepTemplate, skipped);
+    const stepSetTemplates = validateRecords(data.stepSetTemplates, 'data.stepSetTemplates', 'name', validateStepSetTemplate, skipped);
+
+    const tags: string[] = [];
+    (data.tags as unknown[]).forEach((tag, i) => {
+        const path = `data.tags[${i}]`;
+        if (typeof tag !== 'string' || tag.trim() === '') {
+            skipped.push({ path, issues: [{ path, message: '标签应为非空字符串' }] });
+        } else if (!tags.includes(tag)) {
+            tags.push(tag);
+        }
+    });
+
+    return { data: { events, tags, stepTemplates, stepSetTemplates }, skipped };
+};
@@ -0,0 +1,218 @@
+// =================================================================
+// Cover images
+// =================================================================
+//
+// A cover is stored as two JPEG renditions in the `coverImages` store, keyed
+// by `Event.coverImageId`: a small thumbnail for the event cards and a medium
+// rendition for the detail view. The uploaded file itself, if any, stays in
+// `originalImages`. Event records only carry the id, so loading the event list
+// no longer reads any image data.
+//
+// A cover id is never reused for other pixels. Replacing a cover stores new
+// renditions under a new id, which lets undo and the trash go back to the old
+// one; renditions nothing refers to are swept like attachment files.
+//
+// Renditions are cut from the uploaded image as described by `Event.coverCrop`
+// (an aspect preset, a rotation and a region). Where a cover is shown in
+// another shape, such as the fixed-height event cards, CSS keeps
+// `Event.coverFocalPoint` in view.
+//
+// Exports inline the medium rendition as a data URL again, so a backup stays a
+// self-contained document; imports move it back out. Covers that older
+// databases inlined only get a medium rendition at first, since a migration
+// cannot decode images. Their thumbnails are generated in the background;
+// until then the medium rendition is shown instead.
+
+import { CoverAspect, CoverCrop, CoverRendition, CoverRenditions, Event, FocalPoint, PendingAction } from '../types';
+
+// Square bounds, so posters keep as much detail as landscape covers.
+export const COVER_RENDITION_SIZES: Record<CoverRendition, { maxWidth: number; maxHeight: number; quality: number }> = {
+    thumbnail: { maxWidth: 640, maxHeight: 640, quality: 0.75 },
+    medium: { maxWidth: 1280, maxHeight: 1280, quality: 0.8 },
+};
+
+export const COVER_ASPECTS: { id: CoverAspect; label: string; ratio: number }[] = [
+    { id: 'card', label: '卡片 16:9', ratio: 16 / 9 },
+    { id: 'poster', label: '海报 2:3', ratio: 2 / 3 },
+    { id: 'square', label: '方形 1:1', ratio: 1 },
+];
+
+export const getCoverAspectRatio = (aspect: CoverAspect): number => COVER_ASPECTS.find(a => a.id === aspect)!.ratio;
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 };
+
+/** The CSS `object-position` that keeps the event's focal point in view. */
+export const getCoverObjectPosition = (event: Event): string => {
+    const { x, y } = event.coverFocalPoint ?? DEFAULT_FOCAL_POINT;
+    return `${Math.round(x * 100)}% ${Math.round(y * 100)}%`;
+};
+
+export const generateCoverImageId = () => `cover-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const loadImage = (source: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(source);
+    const img = new Image();
+    img.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(img);
+    };
+    img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('无法读取图片'));
+    };
+    img.src = url;
+});
+
+/**
+ * Cuts `crop` (the whole image if absent) out of an image, scales it down to fit
+ * within `maxWidth` × `maxHeight` and encodes it as JPEG. Transparent areas
+ * become white instead of black.
+ */
+export const resizeImage = async (source: Blob, options: { maxWidth: number; maxHeight: number; quality: number }, crop?: CoverCrop): Promise<Blob> => {
+    const img = await loadImage(source);
+    const { maxWidth, maxHeight, quality } = options;
+    const rotation = crop?.rotation ?? 0;
+    const rotatedWidth = rotation % 180 === 0 ? img.width : img.height;
+    const rotatedHeight = rotation % 180 === 0 ? img.height : img.width;
+    const region = crop
+        ? { x: crop.x * rotatedWidth, y: crop.y * rotatedHeight, width: crop.width * rotatedWidth, height: crop.height * rotatedHeight }
+        : { x: 0, y: 0, width: rotatedWidth, height: rotatedHeight };
+    const scale = Math.min(1, maxWidth / region.width, maxHeight / region.height);
+    const width = Math.max(1, Math.round(region.width * scale));
+    const height = Math.max(1, Math.round(region.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('无法获取 canvas 上下文');
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.scale(width / region.width, height / region.height);
+    ctx.translate(rotatedWidth / 2 - region.x, rotatedHeight / 2 - region.y);
+    ctx.rotate(rotation * Math.PI / 180);
+    ctx.drawImage(img, -img.width / 2, -img.height / 2);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片编码失败')), 'image/jpeg', quality);
+    });
+};
+
+export const createCoverRenditions = async (source: Blob, crop?: CoverCrop): Promise<CoverRenditions> => {
+    const [thumbnail, medium] = await Promise.all([
+        resizeImage(source, COVER_RENDITION_SIZES.thumbnail, crop),
+        resizeImage(source, COVER_RENDITION_SIZES.medium, crop),
+    ]);
+    return { thumbnail, medium };
+};
+
+/** The requested rendition, or the medium one while the thumbnail has not been generated yet. */
+export const pickCoverRendition = (renditions: CoverRenditions, rendition: CoverRendition): Blob =>
+    (rendition === 'thumbnail' && renditions.thumbnail) || renditions.medium;
+
+// =================================================================
+// Inline (data URL) covers
+// =================================================================
+
+export const isDataUrl = (value: string | undefined): value is string => !!value?.startsWith('data:');
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const comma = dataUrl.indexOf(',');
+    const header = dataUrl.slice(5, comma);
+    const mimeType = header.split(';')[0] || 'application/octet-stream';
+    const data = dataUrl.slice(comma + 1);
+    if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(data)], { type: mimeType });
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/** cyrb53, a fast 53-bit string hash. */
+const hashString = (text: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Moves a data URL cover out of the event record. Inline covers get an id
+ * derived from their content, so the same image always ends up under the same
+ * id, however often it is migrated or imported.
+ */
+export const extractInlineCover = (event: Event): { event: Event; coverImage?: CoverRenditions } => {
+    if (!isDataUrl(event.imageUrl)) return { event };
+    const { imageUrl, ...rest } = event;
+    return {
+        event: { ...rest, coverImageId: event.coverImageId ?? `cover-inline-${hashString(imageUrl)}` },
+        coverImage: { medium: dataUrlToBlob(imageUrl) },
+    };
+};
+
+/**
+ * Moves the inline covers of imported events out of their records. Thumbnails are
+ * generated right away; an image that cannot be decoded keeps only its medium rendition.
+ */
+export const extractInlineCovers = async (events: Event[]): Promise<{ events: Event[]; coverImages: Map<string, CoverRenditions> }> => {
+    const coverImages = new Map<string, CoverRenditions>();
+    const extracted: Event[] = [];
+    // One image at a time, so a large backup does not decode all of its covers at once.
+    for (const original of events) {
+        const { event, coverImage } = extractInlineCover(original);
+        if (coverImage && event.coverImageId && !coverImages.has(event.coverImageId)) {
+            const thumbnail = await resizeImage(coverImage.medium, COVER_RENDITION_SIZES.thumbnail).catch(() => undefined);
+            coverImages.set(event.coverImageId, thumbnail ? { ...coverImage, thumbnail } : coverImage);
+        }
+        extracted.push(event);
+    }
+    return { events: extracted, coverImages };
+};
+
+/** The events with their covers inlined as data URLs of the medium rendition, for self-contained exports. */
+export const inlineCoverImages = async (events: Event[], loadCoverImage: (coverImageId: string, rendition: CoverRendition) => Promise<Blob | undefined>): Promise<Event[]> =>
+    Promise.all(events.map(async event => {
+        if (!event.coverImageId) return event;
+        const medium = await loadCoverImage(event.coverImageId, 'medium');
+        return medium ? { ...event, imageUrl: await blobToDataUrl(medium) } : event;
+    }));
+
+// =================================================================
+// References
+// =================================================================
+
+export const collectCoverImageIds = (events: Event[], ids: Set<string> = new Set()): Set<string> => {
+    events.forEach(event => { if (event.coverImageId) ids.add(event.coverImageId); });
+    return ids;
+};
+
+export const collectActionCoverImageIds = (actions: PendingAction[], ids: Set<string> = new Set()): Set<string> => {
+    actions.forEach(action => {
+        if (action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') collectCoverImageIds([action.payload.event], ids);
+    });
+    return ids;
+};
+
+/** The renditions of a cover that are still waiting in `actions` to be saved. */
+export const findQueuedCoverImage = (actions: PendingAction[], coverImageId: string): CoverRenditions | undefined => {
+    for (let i = actions.length - 1; i >= 0; i--) {
+        const action = actions[i];
+        if ((action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') && action.payload.coverImage && action.payload.event.coverImageId === coverImageId) {
+            return action.payload.coverImage;
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { EventOrder, NO_EVENT_ORDER, createManualComparator, createPinnedComparator, mapEventOrderIds, mergeEventOrder, moveEvents, readEventOrder, togglePinned } from './eventOrder';
+
+const makeEvent = (id: string, day: number): Event => ({
+    id,
+    title: id,
+    description: '',
+    createdAt: new Date(2023, 9, day),
+    steps: [],
+    tags: [],
+    mediaType: 'generic',
+});
+
+// Newest first when nothing has been dragged yet: d, c, b, a.
+const events = [makeEvent('a', 1), makeEvent('b', 2), makeEvent('c', 3), makeEvent('d', 4)];
+
+const sortIds = (order: EventOrder) => [...events].sort(createManualComparator(order)).map(event => event.id);
+
+describe('moveEvents', () => {
+    it('moves events before or after the target', () => {
+        expect(moveEvents(NO_EVENT_ORDER, events, ['a'], { id: 'c', position: 'before' }).manual).toEqual(['d', 'a', 'c', 'b']);
+        expect(moveEvents(NO_EVENT_ORDER, events, ['d'], { id: 'a', position: 'after' }).manual).toEqual(['c', 'b', 'a', 'd']);
+    });
+
+    it('keeps the relative order of several moved events', () => {
+        expect(moveEvents(NO_EVENT_ORDER, events, ['a', 'd'], { id: 'b', position: 'before' }).manual).toEqual(['c', 'd', 'a', 'b']);
+    });
+
+    it('leaves the order alone when dropping onto a moved event or an unknown one', () => {
+        const order = { manual: ['b', 'a'], pinned: ['a'] };
+        expect(moveEvents(order, events, ['a'], { id: 'a', position: 'after' })).toBe(order);
+        expect(moveEvents(order, events, ['a'], { id: 'gone', position: 'after' })).toBe(order);
+    });
+
+    it('places events that were never dragged first, newest first, and drops ids of deleted events', () => {
+        const order = { manual: ['b', 'gone', 'a'], pinned: [] };
+        expect(sortIds(order)).toEqual(['d', 'c', 'b', 'a']);
+        expect(moveEvents(order, events, ['c'], { id: 'a', position: 'after' }).manual).toEqual(['d', 'b', 'a', 'c']);
+    });
+});
+
+describe('pinned events', () => {
+    it('come first and keep the chosen order among themselves', () => {
+        const order = togglePinned(togglePinned(NO_EVENT_ORDER, 'a'), 'b');
+        expect(order.pinned).toEqual(['a', 'b']);
+        const sorted = [...events].sort(createManualComparator(order)).sort(createPinnedComparator(order));
+        expect(sorted.map(event => event.id)).toEqual(['b', 'a', 'd', 'c']);
+        expect(togglePinned(order, 'a').pinned).toEqual(['b']);
+    });
+});
+
+describe('readEventOrder', () => {
+    it('keeps only lists of ids', () => {
+        expect(readEventOrder({ manual: ['a', 1, 'b'], pinned: 'a' })).toEqual({ manual: ['a', 'b'], pinned: [] });
+        expect(readEventOrder(null)).toEqual(NO_EVENT_ORDER);
+        expect(readEventOrder('manual')).toEqual(NO_EVENT_ORDER);
+    });
+});
+
+describe('importing an order', () => {
+    it('adds the ids that are not in the order yet', () => {
+        expect(mergeEventOrder({ manual: ['a', 'b'], pinned: ['a'] }, { manual: ['c', 'a'], pinned: ['c'] })).toEqual({ manual: ['a', 'b', 'c'], pinned: ['a', 'c'] });
+    });
+
+    it('maps ids onto copies and leaves out the ones that map to nothing', () => {
+        const copies = new Map([['a', 'a-copy']]);
+        expect(mapEventOrderIds({ manual: ['a', 'b'], pinned: ['a'] }, id => copies.get(id))).toEqual({ manual: ['a-copy'], pinned: ['a-copy'] });
+    });
+});
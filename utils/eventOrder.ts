@@ -0,0 +1,82 @@
+// =================================================================
+// Event order
+// =================================================================
+//
+// The `manual` sort order shows events in the order they were dragged into,
+// and pinned events come first under every sort order. Both are kept per
+// database in its `metadata` store under `EVENT_ORDER_KEY`, as lists of event
+// ids. Events that were never dragged, such as new ones, come before the
+// others, newest first; ids of deleted events are dropped on the next move.
+
+import { Event } from '../types';
+
+export const EVENT_ORDER_KEY = 'eventOrder';
+
+export interface EventOrder {
+    /** Event ids in the `manual` sort order. */
+    manual: string[];
+    pinned: string[];
+}
+
+export const NO_EVENT_ORDER: EventOrder = { manual: [], pinned: [] };
+
+/** Where dragged events go, relative to an event in the list. */
+export interface EventDropTarget {
+    id: string;
+    position: 'before' | 'after';
+}
+
+const readIds = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((id: unknown): id is string => typeof id === 'string') : [];
+
+/** The order stored in a database's metadata. */
+export const readEventOrder = (value: unknown): EventOrder => {
+    const order = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    return { manual: readIds(order.manual), pinned: readIds(order.pinned) };
+};
+
+/** Compares events by the `manual` sort order. */
+export const createManualComparator = (order: EventOrder) => {
+    const ranks = new Map(order.manual.map((id, index) => [id, index]));
+    return (a: Event, b: Event) => (ranks.get(a.id) ?? -1) - (ranks.get(b.id) ?? -1) || b.createdAt.getTime() - a.createdAt.getTime();
+};
+
+/** Sorts pinned events before the others; used after the chosen sort, which it keeps within each part. */
+export const createPinnedComparator = (order: EventOrder) => {
+    const pinned = new Set(order.pinned);
+    return (a: Event, b: Event) => Number(pinned.has(b.id)) - Number(pinned.has(a.id));
+};
+
+export const togglePinned = (order: EventOrder, id: string): EventOrder => ({
+    ...order,
+    pinned: order.pinned.includes(id) ? order.pinned.filter(pinnedId => pinnedId !== id) : [...order.pinned, id],
+});
+
+/** Moves `movedIds` next to the target, keeping their relative order. `events` are all events, not just the ones shown. */
+export const moveEvents = (order: EventOrder, events: Event[], movedIds: string[], target: EventDropTarget): EventOrder => {
+    const moved = new Set(movedIds);
+    if (moved.has(target.id)) return order;
+    const ordered = [...events].sort(createManualComparator(order)).map(event => event.id);
+    const remaining = ordered.filter(id => !moved.has(id));
+    const targetIndex = remaining.indexOf(target.id);
+    if (targetIndex === -1) return order;
+    const insertAt = target.position === 'before' ? targetIndex : targetIndex + 1;
+    const manual = [...remaining.slice(0, insertAt), ...ordered.filter(id => moved.has(id)), ...remaining.slice(insertAt)];
+    return { ...order, manual };
+};
+
+/** The order with every id replaced by `map(id)`; ids that map to `undefined` are left out. */
+export const mapEventOrderIds = (order: EventOrder, map: (id: string) => string | undefined): EventOrder => {
+    const mapIds = (ids: string[]) => ids.flatMap(id => map(id) ?? []);
+    return { manual: mapIds(order.manual), pinned: mapIds(order.pinned) };
+};
+
+/** Adds the pins and manual order of a backup; events already in the manual order keep their place. */
+export const mergeEventOrder = (order: EventOrder, incoming: EventOrder): EventOrder => {
+    const manual = new Set(order.manual);
+    const pinned = new Set(order.pinned);
+    return {
+        manual: [...order.manual, ...incoming.manual.filter(id => !manual.has(id))],
+        pinned: [...order.pinned, ...incoming.pinned.filter(id => !pinned.has(id))],
+    };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, Event, PendingAction } from '../types';
+import { diffImport, planImport } from './importPlan';
+
+const makeEvent = (id: string, overrides: Partial<Event> = {}): Event => ({
+    id,
+    title: id,
+    description: '',
+    createdAt: new Date(2023, 9, 15),
+    steps: [{ id: `${id}-step`, description: '第1集', timestamp: new Date(2023, 9, 15), completed: false }],
+    tags: [],
+    mediaType: 'anime',
+    ...overrides,
+});
+
+const makeData = (events: Event[], overrides: Partial<AppData> = {}): AppData => ({ events, tags: ['动画'], stepTemplates: [], stepSetTemplates: [], ...overrides });
+
+const current = makeData([
+    makeEvent('kept'),
+    makeEvent('edited'),
+    makeEvent('clash'),
+    makeEvent('local', { hasOriginalImage: true }),
+]);
+
+const incoming = makeData([
+    makeEvent('kept'),
+    makeEvent('edited', { title: '新标题' }),
+    // Same id, created at another time: a different event.
+    makeEvent('clash', { createdAt: new Date(2022, 0, 1) }),
+    makeEvent('new'),
+], { tags: ['动画', '漫画'] });
+
+const image = new File(['image bytes'], 'cover.png', { type: 'image/png' });
+
+const summarize = (actions: PendingAction[]) => actions.map(action => {
+    switch (action.type) {
+        case 'ADD_EVENT': case 'UPDATE_EVENT': return `${action.type} ${action.payload.event.id}`;
+        case 'DELETE_EVENT': case 'ADD_TAG': return `${action.type} ${action.payload}`;
+        default: return action.type;
+    }
+});
+
+describe('diffImport', () => {
+    it('classifies events by id and tells conflicting ones apart by creation time', () => {
+        expect(diffImport(current, incoming, 'merge').events).toEqual({ added: 1, updated: 1, unchanged: 1, conflicting: 1, removed: 0 });
+        expect(diffImport(current, incoming, 'restore').events).toEqual({ added: 1, updated: 1, unchanged: 1, conflicting: 1, removed: 1 });
+    });
+
+    it('counts everything as added when appending', () => {
+        expect(diffImport(current, incoming, 'append').events).toEqual({ added: 4, updated: 0, unchanged: 0, conflicting: 0, removed: 0 });
+        expect(diffImport(current, incoming, 'append').tags).toEqual({ added: 1, updated: 0, unchanged: 1, conflicting: 0, removed: 0 });
+    });
+
+    it('ignores the order of object keys', () => {
+        const { id, title, ...rest } = makeEvent('kept');
+        const reordered = makeData([{ ...rest, title, id } as Event]);
+        expect(diffImport(makeData([makeEvent('kept')]), reordered, 'merge').events.unchanged).toBe(1);
+    });
+});
+
+describe('planImport', () => {
+    it('merges by id and keeps a conflicting event as a copy', () => {
+        const { actions, copiedEventIds } = planImport(current, incoming, 'merge', new Map(), false);
+        expect(summarize(actions)).toEqual([
+            'ADD_EVENT new',
+            'UPDATE_EVENT edited',
+            `ADD_EVENT ${copiedEventIds.get('clash')}`,
+            'ADD_TAG 漫画',
+        ]);
+        const copy = actions.find((a): a is Extract<PendingAction, { type: 'ADD_EVENT' }> => a.type === 'ADD_EVENT' && a.payload.event.id !== 'new')!.payload.event;
+        expect(copy.id).not.toBe('clash');
+        expect(copy.createdAt).toEqual(new Date(2022, 0, 1));
+        expect(copy.steps[0].id).not.toBe('clash-step');
+        expect([...copiedEventIds.keys()]).toEqual(['clash']);
+    });
+
+    it('restores by deleting the events the backup does not have, so they go to the trash', () => {
+        const { actions } = planImport(current, incoming, 'restore', new Map(), false);
+        expect(summarize(actions)).toEqual([
+            'DELETE_EVENT local',
+            'ADD_EVENT new',
+            'UPDATE_EVENT edited',
+            'UPDATE_EVENT clash',
+            'REORDER_TAGS',
+        ]);
+        expect(actions[0]).toEqual({ type: 'DELETE_EVENT', payload: 'local' });
+    });
+
+    it('removes images on restore only when the backup is a full archive', () => {
+        const backup = makeData([makeEvent('local', { hasOriginalImage: true })]);
+        const local = makeData([makeEvent('local', { hasOriginalImage: true })]);
+        expect(planImport(local, backup, 'restore', new Map(), false).actions).toEqual([]);
+        expect(planImport(local, backup, 'restore', new Map(), true).actions).toEqual([
+            { type: 'UPDATE_EVENT', payload: { event: backup.events[0], originalImage: 'remove' } },
+        ]);
+        expect(planImport(local, backup, 'restore', new Map([['local', image]]), true).actions).toEqual([
+            { type: 'UPDATE_EVENT', payload: { event: backup.events[0], originalImage: image } },
+        ]);
+    });
+
+    it('appends copies with new ids that keep the images of the backup', () => {
+        const { actions, copiedEventIds } = planImport(current, incoming, 'append', new Map([['new', image]]), false);
+        const added = actions.filter((a): a is Extract<PendingAction, { type: 'ADD_EVENT' }> => a.type === 'ADD_EVENT');
+        expect(added.map(a => a.payload.event.id)).toEqual(incoming.events.map(e => copiedEventIds.get(e.id)));
+        expect(added.every(a => !current.events.some(e => e.id === a.payload.event.id))).toBe(true);
+        expect(added[3].payload.originalImage).toBe(image);
+        expect(summarize(actions).slice(4)).toEqual(['ADD_TAG 漫画']);
+    });
+
+    it('has nothing to do when the database already holds the backup', () => {
+        expect(planImport(current, current, 'merge', new Map(), false).actions).toEqual([]);
+        expect(planImport(current, current, 'restore', new Map(), false).actions).toEqual([]);
+    });
+});
@@ -0,0 +1,237 @@
+// =================================================================
+// Import planning
+// =================================================================
+//
+// An import is turned into ordinary pending actions, so it is saved, journaled
+// and undone like any other change. Three modes are offered:
+//
+//   restore  the database ends up exactly like the backup
+//   merge    records are matched by id; existing ones are updated, new ones added
+//   append   everything is added as copies with new ids and fresh timestamps
+//
+// Before anything is applied, `diffImport` summarises what the chosen mode will do.
+
+import { AppData, CoverRenditions, Event, PendingAction, StepSetTemplate, StepTemplate } from '../types';
+import { pickAttachmentFiles } from './attachments';
+
+export type ImportMode = 'restore' | 'merge' | 'append';
+
+export interface ImportDiffCounts {
+    added: number;
+    updated: number;
+    unchanged: number;
+    /** Same id, but evidently a different record (events only: a different `createdAt`). */
+    conflicting: number;
+    removed: number;
+}
+
+export interface ImportDiff {
+    events: ImportDiffCounts;
+    tags: ImportDiffCounts;
+    stepTemplates: ImportDiffCounts;
+    stepSetTemplates: ImportDiffCounts;
+}
+
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/** JSON with sorted object keys, so records compare equal regardless of property order. */
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, v) => {
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+    return Object.keys(v).sort().reduce((sorted: Record<string, unknown>, k) => { sorted[k] = v[k]; return sorted; }, {});
+});
+
+interface Classified<T> {
+    added: T[];
+    updated: T[];
+    unchanged: T[];
+    conflicting: T[];
+    removed: T[];
+}
+
+const classify = <T extends { id: string }>(current: T[], incoming: T[], isConflict?: (existing: T, item: T) => boolean): Classified<T> => {
+    const currentById = new Map(current.map(item => [item.id, item]));
+    const incomingIds = new Set(incoming.map(item => item.id));
+    const result: Classified<T> = { added: [], updated: [], unchanged: [], conflicting: [], removed: [] };
+    incoming.forEach(item => {
+        const existing = currentById.get(item.id);
+        if (!existing) result.added.push(item);
+        else if (stableStringify(existing) === stableStringify(item)) result.unchanged.push(item);
+        else if (isConflict?.(existing, item)) result.conflicting.push(item);
+        else result.updated.push(item);
+    });
+    result.removed = current.filter(item => !incomingIds.has(item.id));
+    return result;
+};
+
+const isDifferentEvent = (existing: Event, item: Event) => existing.createdAt.getTime() !== item.createdAt.getTime();
+
+const countTags = (current: string[], incoming: string[], mode: ImportMode): ImportDiffCounts => {
+    const added = incoming.filter(tag => !current.includes(tag)).length;
+    return {
+        added,
+        updated: 0,
+        unchanged: incoming.length - added,
+        conflicting: 0,
+        removed: mode === 'restore' ? current.filter(tag => !incoming.includes(tag)).length : 0,
+    };
+};
+
+const countClassified = <T,>(classified: Classified<T>, mode: ImportMode): ImportDiffCounts => ({
+    added: classified.added.length,
+    updated: classified.updated.length,
+    unchanged: classified.unchanged.length,
+    conflicting: classified.conflicting.length,
+    removed: mode === 'restore' ? classified.removed.length : 0,
+});
+
+const appendCounts = (count: number): ImportDiffCounts => ({ added: count, updated: 0, unchanged: 0, conflicting: 0, removed: 0 });
+
+/** `incoming` must already have its event dates revived. */
+export const diffImport = (current: AppData, incoming: AppData, mode: ImportMode): ImportDiff => {
+    const tags = countTags(current.tags, incoming.tags, mode);
+    if (mode === 'append') {
+        return {
+            events: appendCounts(incoming.events.length),
+            tags,
+            stepTemplates: appendCounts(incoming.stepTemplates.length),
+            stepSetTemplates: appendCounts(incoming.stepSetTemplates.length),
+        };
+    }
+    return {
+        events: countClassified(classify(current.events, incoming.events, isDifferentEvent), mode),
+        tags,
+        stepTemplates: countClassified(classify(current.stepTemplates, incoming.stepTemplates), mode),
+        stepSetTemplates: countClassified(classify(current.stepSetTemplates, incoming.stepSetTemplates), mode),
+    };
+};
+
+/** Copies keep the ids of their attachments and cover: those files never change, so the copies can share them. */
+const copyEvent = (event: Event, resetDates: boolean): Event => {
+    const stepIds = new Map(event.steps.map(step => [step.id, generateId('step')]));
+    return {
+        ...event,
+        id: generateId('event'),
+        createdAt: resetDates ? new Date() : event.createdAt,
+        steps: event.steps.map(step => ({
+            ...step,
+            id: stepIds.get(step.id)!,
+            timestamp: resetDates ? new Date() : step.timestamp,
+        })),
+        ...(event.attachments && {
+            attachments: event.attachments.map(a => a.stepId && stepIds.has(a.stepId) ? { ...a, stepId: stepIds.get(a.stepId) } : a),
+        }),
+    };
+};
+
+const copyStepTemplate = (template: StepTemplate): StepTemplate => ({ ...template, id: generateId('template') });
+
+const copyStepSetTemplate = (set: StepSetTemplate): StepSetTemplate => ({
+    ...set,
+    id: generateId('set'),
+    steps: set.steps.map(step => ({ ...step, id: generateId('set-step') })),
+});
+
+/** Current records replaced by their incoming versions, followed by the new ones. */
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+    const incomingById = new Map(incoming.map(item => [item.id, item]));
+    const currentIds = new Set(current.map(item => item.id));
+    return [...current.map(item => incomingById.get(item.id) ?? item), ...incoming.filter(item => !currentIds.has(item.id))];
+};
+
+export interface ImportPlan {
+    actions: PendingAction[];
+    /** Ids of backup events that are added as copies, mapped to the ids of the copies. */
+    copiedEventIds: Map<string, string>;
+}
+
+/**
+ * The pending actions that carry out an import.
+ *
+ * `originalImages` are keyed by the event ids in the backup. With `replaceImages`
+ * (a full backup archive), a restore also removes images the backup does not have.
+ * `attachments` are the attachment files of the backup, keyed by attachment id, and
+ * `coverImages` the covers moved out of its events, keyed by cover id.
+ */
+export const planImport = (
+    current: AppData,
+    incoming: AppData,
+    mode: ImportMode,
+    originalImages: Map<string, File>,
+    replaceImages: boolean,
+    attachments: Map<string, File> = new Map(),
+    coverImages: Map<string, CoverRenditions> = new Map(),
+): ImportPlan => {
+    const actions: PendingAction[] = [];
+    const copiedEventIds = new Map<string, string>();
+    const addCopy = (event: Event, resetDates: boolean) => {
+        const copy = copyEvent(event, resetDates);
+        copiedEventIds.set(event.id, copy.id);
+        actions.push({ type: 'ADD_EVENT', payload: { event: copy, originalImage: originalImages.get(event.id), ...filesFor(event) } });
+    };
+    const filesFor = (event: Event) => {
+        const attachmentFiles = pickAttachmentFiles(event.attachments, attachments);
+        const coverImage = event.coverImageId ? coverImages.get(event.coverImageId) : undefined;
+        if (!attachmentFiles && !coverImage) return undefined;
+        return { ...(attachmentFiles && { attachmentFiles }), ...(coverImage && { coverImage }) };
+    };
+    const addNewTags = () => {
+        incoming.tags.filter(tag => !current.tags.includes(tag)).forEach(tag => actions.push({ type: 'ADD_TAG', payload: tag }));
+    };
+
+    if (mode === 'append') {
+        incoming.events.forEach(event => addCopy(event, true));
+        addNewTags();
+        if (incoming.stepTemplates.length > 0) {
+            actions.push({ type: 'UPDATE_STEP_TEMPLATES', payload: [...current.stepTemplates, ...incoming.stepTemplates.map(copyStepTemplate)] });
+        }
+        if (incoming.stepSetTemplates.length > 0) {
+            actions.push({ type: 'UPDATE_STEP_SET_TEMPLATES', payload: [...current.stepSetTemplates, ...incoming.stepSetTemplates.map(copyStepSetTemplate)] });
+        }
+        return { actions, copiedEventIds };
+    }
+
+    const events = classify(current.events, incoming.events, isDifferentEvent);
+    const stepTemplates = classify(current.stepTemplates, incoming.stepTemplates);
+    const stepSetTemplates = classify(current.stepSetTemplates, incoming.stepSetTemplates);
+
+    if (mode === 'merge') {
+        events.added.forEach(event => actions.push({ type: 'ADD_EVENT', payload: { event, originalImage: originalImages.get(event.id), ...filesFor(event) } }));
+        events.updated.forEach(event => actions.push({ type: 'UPDATE_EVENT', payload: { event, originalImage: originalImages.get(event.id), ...filesFor(event) } }));
+        // A different event that happens to share an id is kept as a copy instead of overwriting the local one.
+        events.conflicting.forEach(event => addCopy(event, false));
+        addNewTags();
+        if (stepTemplates.added.length + stepTemplates.updated.length > 0) {
+            actions.push({ type: 'UPDATE_STEP_TEMPLATES', payload: mergeById(current.stepTemplates, incoming.stepTemplates) });
+        }
+        if (stepSetTemplates.added.length + stepSetTemplates.updated.length > 0) {
+            actions.push({ type: 'UPDATE_STEP_SET_TEMPLATES', payload: mergeById(current.stepSetTemplates, incoming.stepSetTemplates) });
+        }
+        return { actions, copiedEventIds };
+    }
+
+    // Restore: removed events go through the normal delete, so they can still be recovered from the trash.
+    const currentById = new Map(current.events.map(event => [event.id, event]));
+    const imageFor = (event: Event): File | 'remove' | undefined => {
+        const image = originalImages.get(event.id);
+        if (image) return image;
+        return replaceImages && currentById.get(event.id)?.hasOriginalImage ? 'remove' : undefined;
+    };
+    events.removed.forEach(event => actions.push({ type: 'DELETE_EVENT', payload: event.id }));
+    events.added.forEach(event => actions.push({ type: 'ADD_EVENT', payload: { event, originalImage: originalImages.get(event.id), ...filesFor(event) } }));
+    [...events.updated, ...events.conflicting].forEach(event => actions.push({ type: 'UPDATE_EVENT', payload: { event, originalImage: imageFor(event), ...filesFor(event) } }));
+    events.unchanged.forEach(event => {
+        const originalImage = replaceImages ? imageFor(event) : undefined;
+        const files = replaceImages ? filesFor(event) : undefined;
+        if (originalImage || files) actions.push({ type: 'UPDATE_EVENT', payload: { event, originalImage, ...files } });
+    });
+    if (stableStringify(current.tags) !== stableStringify(incoming.tags)) {
+        actions.push({ type: 'REORDER_TAGS', payload: incoming.tags });
+    }
+    if (stableStringify(current.stepTemplates) !== stableStringify(incoming.stepTemplates)) {
+        actions.push({ type: 'UPDATE_STEP_TEMPLATES', payload: incoming.stepTemplates });
+    }
+    if (stableStringify(current.stepSetTemplates) !== stableStringify(incoming.stepSetTemplates)) {
+        actions.push({ type: 'UPDATE_STEP_SET_TEMPLATES', payload: incoming.stepSetTemplates });
+    }
+    return { actions, copiedEventIds };
+};
@@ -0,0 +1,46 @@
+// =================================================================
+// Lifecycle status and rating
+// =================================================================
+//
+// An event's lifecycle status (`Event.lifecycleStatus`) is what the user says
+// about it: planned, in progress, on hold, dropped or finished. Events without
+// one fall back to a status derived from their steps, so filters and sorting
+// treat every event alike. Ratings are whole numbers from 1 to 10.
+
+import { Event, LifecycleStatus, ProgressStep } from '../types';
+
+/** In lifecycle order, which is also the sort order. */
+export const LIFECYCLE_STATUSES: { id: LifecycleStatus; label: string }[] = [
+    { id: 'planned', label: '计划中' },
+    { id: 'in-progress', label: '进行中' },
+    { id: 'on-hold', label: '搁置' },
+    { id: 'dropped', label: '已放弃' },
+    { id: 'finished', label: '已完成' },
+];
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 10;
+
+export const isLifecycleStatus = (value: unknown): value is LifecycleStatus => LIFECYCLE_STATUSES.some(status => status.id === value);
+
+export const isValidRating = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= MIN_RATING && value <= MAX_RATING;
+
+/** Planned until a step is completed, finished once every step is. */
+export const deriveLifecycleStatus = (steps: ProgressStep[]): LifecycleStatus => {
+    const completed = steps.filter(step => step.completed).length;
+    if (completed === 0) return 'planned';
+    return completed === steps.length ? 'finished' : 'in-progress';
+};
+
+export const getLifecycleStatus = (event: Pick<Event, 'lifecycleStatus' | 'steps'>): LifecycleStatus =>
+    event.lifecycleStatus ?? deriveLifecycleStatus(event.steps);
+
+export const getLifecycleLabel = (status: LifecycleStatus): string =>
+    LIFECYCLE_STATUSES.find(s => s.id === status)?.label ?? status;
+
+/** Compares events by lifecycle order. */
+export const compareLifecycleStatus = (a: Pick<Event, 'lifecycleStatus' | 'steps'>, b: Pick<Event, 'lifecycleStatus' | 'steps'>): number => {
+    const order = (event: Pick<Event, 'lifecycleStatus' | 'steps'>) => LIFECYCLE_STATUSES.findIndex(s => s.id === getLifecycleStatus(event));
+    return order(a) - order(b);
+};
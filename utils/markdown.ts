@@ -0,0 +1,205 @@
+// =================================================================
+// Markdown
+// =================================================================
+//
+// A small Markdown dialect for event descriptions and step notes. Text is
+// parsed into a tree that `MarkdownView` renders as React elements, so no
+// HTML from the text ever reaches the page.
+//
+//   # Heading            headings, levels 1 to 6
+//   - item / 1. item     lists, one level
+//   > quote              block quotes
+//   ```code```           fenced code blocks
+//   ---                  a horizontal rule
+//   **bold** *italic* ~~struck~~ `code`
+//   [text](https://…)    links; bare http(s) URLs become links too
+//   ||spoiler||          hidden until clicked
+//
+// Anything else is a paragraph; single line breaks inside one are kept.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'break' }
+    | { type: 'code'; text: string }
+    | { type: 'strong' | 'em' | 'strike' | 'spoiler'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+    | { type: 'quote'; children: MarkdownBlock[] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM = /^[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+const RULE = /^(?:-{3,}|\*{3,}|_{3,})$/;
+
+const SAFE_LINK = /^(?:https?:|mailto:)/i;
+
+/** Only web and mail links are kept; anything else (e.g. `javascript:`) is rendered as text. */
+export const isSafeLink = (href: string) => SAFE_LINK.test(href.trim());
+
+// Delimited spans, tried in this order at every position.
+const DELIMITERS: { open: string; close: string; type: 'strong' | 'em' | 'strike' | 'spoiler' }[] = [
+    { open: '||', close: '||', type: 'spoiler' },
+    { open: '**', close: '**', type: 'strong' },
+    { open: '__', close: '__', type: 'strong' },
+    { open: '~~', close: '~~', type: 'strike' },
+    { open: '*', close: '*', type: 'em' },
+    { open: '_', close: '_', type: 'em' },
+];
+
+const LINK = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+const BARE_URL = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"，。；：！？]/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) nodes.push({ type: 'text', text: buffer });
+        buffer = '';
+    };
+
+    let i = 0;
+    outer: while (i < text.length) {
+        const rest = text.slice(i);
+        if (rest[0] === '\\' && rest.length > 1) {
+            buffer += rest[1];
+            i += 2;
+            continue;
+        }
+        if (rest[0] === '\n') {
+            flush();
+            nodes.push({ type: 'break' });
+            i++;
+            continue;
+        }
+        if (rest[0] === '`') {
+            const end = rest.indexOf('`', 1);
+            if (end > 1) {
+                flush();
+                nodes.push({ type: 'code', text: rest.slice(1, end) });
+                i += end + 1;
+                continue;
+            }
+        }
+        const link = rest.match(LINK);
+        if (link) {
+            flush();
+            const children = parseInline(link[1]);
+            nodes.push(isSafeLink(link[2]) ? { type: 'link', href: link[2], children } : { type: 'text', text: link[0] });
+            i += link[0].length;
+            continue;
+        }
+        // A URL only starts at a word boundary, so "xhttp://" stays text.
+        const url = /\w/.test(text[i - 1] ?? '') ? null : rest.match(BARE_URL);
+        if (url) {
+            flush();
+            nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+            i += url[0].length;
+            continue;
+        }
+        for (const { open, close, type } of DELIMITERS) {
+            if (!rest.startsWith(open) || /\s/.test(rest[open.length] ?? ' ')) continue;
+            // Underscores inside words such as snake_case are plain text.
+            if (open[0] === '_' && /\w/.test(text[i - 1] ?? '')) continue;
+            const end = rest.indexOf(close, open.length + 1);
+            if (end === -1 || /\s/.test(rest[end - 1])) continue;
+            flush();
+            nodes.push({ type, children: parseInline(rest.slice(open.length, end)) });
+            i += end + close.length;
+            continue outer;
+        }
+        buffer += rest[0];
+        i++;
+    }
+    flush();
+    return nodes;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    const isBlockStart = (line: string) =>
+        HEADING.test(line) || UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line) || QUOTE.test(line) || FENCE.test(line) || RULE.test(line);
+
+    while (i < lines.length) {
+        const line = lines[i].trim();
+        if (line === '') {
+            i++;
+            continue;
+        }
+        if (FENCE.test(line)) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE.test(lines[i].trim())) code.push(lines[i++]);
+            i++; // The closing fence, if any.
+            blocks.push({ type: 'code', text: code.join('\n') });
+            continue;
+        }
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i].trim())) quoted.push(lines[i++].trim().match(QUOTE)![1]);
+            blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+            continue;
+        }
+        const ordered = ORDERED_ITEM.test(line);
+        if (ordered || UNORDERED_ITEM.test(line)) {
+            const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+            const items: MarkdownInline[][] = [];
+            while (i < lines.length && pattern.test(lines[i].trim())) items.push(parseInline(lines[i++].trim().match(pattern)![1]));
+            blocks.push({ type: 'list', ordered, items });
+            continue;
+        }
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !isBlockStart(lines[i].trim()))) {
+            paragraph.push(lines[i++].trim());
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    return blocks;
+};
+
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+    nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+            case 'code': return node.text;
+            case 'break': return ' ';
+            case 'spoiler': return '[剧透]';
+            default: return inlineToPlainText(node.children);
+        }
+    }).join('');
+
+const blocksToPlainText = (blocks: MarkdownBlock[]): string =>
+    blocks.map(block => {
+        switch (block.type) {
+            case 'heading':
+            case 'paragraph': return inlineToPlainText(block.children);
+            case 'list': return block.items.map(inlineToPlainText).join(' ');
+            case 'quote': return blocksToPlainText(block.children);
+            case 'code': return block.text;
+            case 'rule': return '';
+        }
+    }).filter(Boolean).join(' ');
+
+/** The text without Markdown syntax on a single line, e.g. for previews. Spoilers stay hidden. */
+export const markdownToPlainText = (text: string): string => blocksToPlainText(parseMarkdown(text)).replace(/\s+/g, ' ').trim();
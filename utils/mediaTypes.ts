@@ -0,0 +1,56 @@
+// =================================================================
+// Media types
+// =================================================================
+//
+// Labels and type-specific fields for `Event.mediaType`. Records written
+// before media types existed are migrated to 'generic'.
+
+import { Event, MediaMetadata, MediaType } from '../types';
+
+export const DEFAULT_MEDIA_TYPE: MediaType = 'generic';
+
+export const MEDIA_TYPES: { id: MediaType; label: string }[] = [
+    { id: 'anime', label: '番剧' },
+    { id: 'novel', label: '小说' },
+    { id: 'tv', label: '电视剧' },
+    { id: 'film', label: '电影' },
+    { id: 'generic', label: '事件' },
+];
+
+export const isMediaType = (value: unknown): value is MediaType => MEDIA_TYPES.some(type => type.id === value);
+
+type NumericMetadataKey = Exclude<keyof MediaMetadata, 'customType'>;
+
+/** The numeric fields each type offers. Generic events only have the free-form `customType`. */
+export const MEDIA_METADATA_FIELDS: Record<MediaType, { key: NumericMetadataKey; label: string; unit: string }[]> = {
+    anime: [{ key: 'seasons', label: '季数', unit: '季' }, { key: 'episodes', label: '集数', unit: '集' }],
+    tv: [{ key: 'seasons', label: '季数', unit: '季' }, { key: 'episodes', label: '集数', unit: '集' }],
+    novel: [{ key: 'volumes', label: '卷数', unit: '卷' }, { key: 'chapters', label: '章节数', unit: '章' }],
+    film: [{ key: 'runtimeMinutes', label: '片长（分钟）', unit: '分钟' }],
+    generic: [],
+};
+
+/** The label shown on badges. A generic event shows its own type name if it has one. */
+export const getMediaTypeLabel = (event: Pick<Event, 'mediaType' | 'mediaMetadata'>): string => {
+    if (event.mediaType === 'generic' && event.mediaMetadata?.customType) return event.mediaMetadata.customType;
+    return MEDIA_TYPES.find(type => type.id === event.mediaType)?.label ?? '事件';
+};
+
+/** e.g. "2 季 · 24 集". Empty when the event has no details for its type. */
+export const describeMediaMetadata = (event: Pick<Event, 'mediaType' | 'mediaMetadata'>): string =>
+    MEDIA_METADATA_FIELDS[event.mediaType]
+        .filter(field => event.mediaMetadata?.[field.key])
+        .map(field => `${event.mediaMetadata![field.key]} ${field.unit}`)
+        .join(' · ');
+
+/** Keeps only the fields that belong to `mediaType`, or `undefined` when none are set. */
+export const normalizeMediaMetadata = (mediaType: MediaType, metadata: MediaMetadata | undefined): MediaMetadata | undefined => {
+    if (!metadata) return undefined;
+    const result: MediaMetadata = {};
+    MEDIA_METADATA_FIELDS[mediaType].forEach(({ key }) => {
+        const value = metadata[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value > 0) result[key] = Math.round(value);
+    });
+    if (mediaType === 'generic' && metadata.customType?.trim()) result.customType = metadata.customType.trim();
+    return Object.keys(result).length > 0 ? result : undefined;
+};
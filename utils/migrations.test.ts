@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ADDED_STORES, APPLIED_MIGRATIONS_KEY, LATEST_DB_VERSION, MIGRATIONS, MIGRATION_STORES,
+    Migration, MigrationError, MigrationFixture, MigrationRecord, runMigrationsOnFixture,
+} from './migrations';
+
+/** A database at `version`, with the stores that version had and the given records. */
+const fixtureAt = (version: number, records: Record<string, MigrationRecord[]> = {}): MigrationFixture => {
+    const stores: MigrationFixture['stores'] = {};
+    if (version >= 1) {
+        Object.values(MIGRATION_STORES).forEach(name => { stores[name] = { records: [] }; });
+        [MIGRATION_STORES.events, MIGRATION_STORES.stepTemplates, MIGRATION_STORES.stepSetTemplates]
+            .forEach(name => { stores[name].keyPath = 'id'; });
+    }
+    if (version >= 2) stores[ADDED_STORES.trash] = { keyPath: 'id', records: [] };
+    if (version >= 4) stores[ADDED_STORES.attachments] = { records: [] };
+    if (version >= 5) stores[ADDED_STORES.coverImages] = { records: [] };
+    Object.entries(records).forEach(([name, storeRecords]) => { stores[name].records = storeRecords; });
+    return { stores };
+};
+
+const values = (fixture: MigrationFixture, storeName: string) => fixture.stores[storeName].records.map(r => r.value);
+
+const event = (id: string, overrides: Record<string, unknown> = {}) => ({ id, title: id, description: '', createdAt: '2023-10-15T00:00:00.000Z', steps: [], tags: [], ...overrides });
+
+describe('migrations', () => {
+    it('are numbered from 1 without gaps', () => {
+        expect(MIGRATIONS.map(m => m.version)).toEqual(Array.from({ length: LATEST_DB_VERSION }, (_, i) => i + 1));
+    });
+
+    it('1 creates the initial stores', async () => {
+        const result = await runMigrationsOnFixture({ stores: {} }, 0, 1);
+        expect(Object.keys(result.stores).sort()).toEqual(Object.values(MIGRATION_STORES).sort());
+        expect(result.stores[MIGRATION_STORES.events].keyPath).toBe('id');
+        expect(result.stores[MIGRATION_STORES.tags].keyPath).toBeUndefined();
+        expect(result.stores[MIGRATION_STORES.originalImages].keyPath).toBeUndefined();
+    });
+
+    it('2 adds the trash keyed by id', async () => {
+        const result = await runMigrationsOnFixture(fixtureAt(1), 1, 2);
+        expect(result.stores[ADDED_STORES.trash]).toEqual({ keyPath: 'id', records: [] });
+    });
+
+    it('3 makes events without a media type generic, also in the trash', async () => {
+        const result = await runMigrationsOnFixture(fixtureAt(2, {
+            [MIGRATION_STORES.events]: [
+                { key: 'a', value: event('a') },
+                { key: 'b', value: event('b', { mediaType: 'anime' }) },
+            ],
+            [ADDED_STORES.trash]: [{ key: 'c', value: { id: 'c', event: event('c'), deletedAt: '2023-10-16T00:00:00.000Z' } }],
+        }), 2, 3);
+        expect(values(result, MIGRATION_STORES.events).map(e => e.mediaType)).toEqual(['generic', 'anime']);
+        expect(values(result, ADDED_STORES.trash)[0].event.mediaType).toBe('generic');
+    });
+
+    it('4 adds the attachment store', async () => {
+        const result = await runMigrationsOnFixture(fixtureAt(3), 3, 4);
+        expect(result.stores[ADDED_STORES.attachments]).toEqual({ keyPath: undefined, records: [] });
+    });
+
+    it('5 moves inline covers into the cover store', async () => {
+        const result = await runMigrationsOnFixture(fixtureAt(4, {
+            [MIGRATION_STORES.events]: [
+                { key: 'a', value: event('a', { imageUrl: 'data:image/png;base64,AAAA' }) },
+                { key: 'b', value: event('b', { imageUrl: 'https://example.com/cover.png' }) },
+            ],
+            [ADDED_STORES.trash]: [{ key: 'c', value: { id: 'c', event: event('c', { imageUrl: 'data:image/png;base64,AAAA' }), deletedAt: '2023-10-16T00:00:00.000Z' } }],
+        }), 4, 5);
+        const [a, b] = values(result, MIGRATION_STORES.events);
+        const trashed = values(result, ADDED_STORES.trash)[0].event;
+        expect(a.imageUrl).toBeUndefined();
+        expect(a.coverImageId).toMatch(/^cover-inline-/);
+        expect(b).toEqual(event('b', { imageUrl: 'https://example.com/cover.png' }));
+        // The same pixels share one set of renditions.
+        expect(trashed.coverImageId).toBe(a.coverImageId);
+        const covers = result.stores[ADDED_STORES.coverImages].records;
+        expect(covers.map(r => r.key)).toEqual([a.coverImageId]);
+        expect(covers[0].value.medium.type).toBe('image/png');
+    });
+
+    it('bring an empty database up to the latest version and record each of them', async () => {
+        const result = await runMigrationsOnFixture({ stores: {} }, 0);
+        expect(Object.keys(result.stores).sort()).toEqual([...Object.values(MIGRATION_STORES), ...Object.values(ADDED_STORES)].sort());
+        const applied = result.stores[MIGRATION_STORES.metadata].records.find(r => r.key === APPLIED_MIGRATIONS_KEY)!.value;
+        expect(applied.map((m: { version: number }) => m.version)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('record earlier versions as a baseline for databases that never recorded them', async () => {
+        const result = await runMigrationsOnFixture(fixtureAt(3), 3);
+        const applied = result.stores[MIGRATION_STORES.metadata].records.find(r => r.key === APPLIED_MIGRATIONS_KEY)!.value;
+        expect(applied.map((m: { appliedAt: string }) => m.appliedAt === 'baseline')).toEqual([true, true, true, false, false]);
+    });
+
+    it('name the migration that failed and leave the fixture untouched', async () => {
+        const fixture = fixtureAt(1);
+        const failing: Migration[] = [...MIGRATIONS.slice(0, 1), { version: 2, description: '失败', up: () => { throw new Error('boom'); } }];
+        const error = await runMigrationsOnFixture(fixture, 1, 2, failing).catch(e => e);
+        expect(error).toBeInstanceOf(MigrationError);
+        expect(error.version).toBe(2);
+        expect(fixture).toEqual(fixtureAt(1));
+    });
+});
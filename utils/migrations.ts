@@ -0,0 +1,291 @@
+// =================================================================
+// IndexedDB schema migrations
+// =================================================================
+//
+// Every database is opened at `LATEST_DB_VERSION`. When the stored version is
+// older, `runMigrations` applies each pending migration in order inside the
+// `versionchange` transaction, so a failed migration aborts the whole upgrade
+// and leaves the database at its previous version.
+//
+// Migrations only talk to a `MigrationContext`, which lets the same migration
+// run against a real database or an in-memory fixture (`runMigrationsOnFixture`).
+
+import { extractInlineCover, isDataUrl } from './coverImages';
+
+/** The stores of the initial schema, all created by migration 1. Never add to this list. */
+export const MIGRATION_STORES = {
+    events: 'events',
+    tags: 'tags',
+    stepTemplates: 'stepTemplates',
+    stepSetTemplates: 'stepSetTemplates',
+    metadata: 'metadata',
+    originalImages: 'originalImages',
+} as const;
+
+/** Stores added after the initial schema, each created by the migration that introduced it. */
+export const ADDED_STORES = {
+    trash: 'trash',
+    attachments: 'attachments',
+    coverImages: 'coverImages',
+} as const;
+
+/** Metadata key under which the list of applied migrations is recorded. */
+export const APPLIED_MIGRATIONS_KEY = 'appliedMigrations';
+
+export interface MigrationRecord {
+    key: IDBValidKey;
+    value: any;
+}
+
+export interface MigrationContext {
+    hasStore: (storeName: string) => boolean;
+    createStore: (storeName: string, options?: IDBObjectStoreParameters) => void;
+    deleteStore: (storeName: string) => void;
+    getAll: (storeName: string) => Promise<MigrationRecord[]>;
+    get: (storeName: string, key: IDBValidKey) => Promise<any>;
+    /** `key` is ignored for stores with a keyPath and required for all others. */
+    put: (storeName: string, value: any, key?: IDBValidKey) => Promise<void>;
+    delete: (storeName: string, key: IDBValidKey) => Promise<void>;
+}
+
+export interface Migration {
+    version: number;
+    description: string;
+    up: (ctx: MigrationContext) => Promise<void> | void;
+}
+
+export interface AppliedMigration {
+    version: number;
+    description: string;
+    appliedAt: string;
+}
+
+export class MigrationError extends Error {
+    version: number;
+    cause?: unknown;
+
+    constructor(version: number, cause: unknown) {
+        super(`迁移到版本 ${version} 失败: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'MigrationError';
+        this.version = version;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Rewrites every record of a store. Return a new value to replace the record,
+ * `null` to delete it, or `undefined` to leave it untouched.
+ */
+export const updateRecords = async (
+    ctx: MigrationContext,
+    storeName: string,
+    transform: (value: any, key: IDBValidKey) => any,
+): Promise<void> => {
+    const records = await ctx.getAll(storeName);
+    for (const { key, value } of records) {
+        const next = transform(value, key);
+        if (next === null) {
+            await ctx.delete(storeName, key);
+        } else if (next !== undefined) {
+            await ctx.put(storeName, next, key);
+        }
+    }
+};
+
+// =================================================================
+// Migration list — append only. Never edit a migration once released.
+// =================================================================
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: '初始数据库结构',
+        up: (ctx) => {
+            const keyedStores: string[] = [MIGRATION_STORES.events, MIGRATION_STORES.stepTemplates, MIGRATION_STORES.stepSetTemplates];
+            Object.values(MIGRATION_STORES).forEach(storeName => {
+                if (ctx.hasStore(storeName)) return;
+                // Stores such as originalImages are keyed by eventId, which is not part of the stored value.
+                ctx.createStore(storeName, keyedStores.includes(storeName) ? { keyPath: 'id' } : undefined);
+            });
+        },
+    },
+    {
+        version: 2,
+        description: '添加回收站',
+        up: (ctx) => {
+            // Records look like `TrashedEvent`: the deleted event, its original image and `deletedAt`.
+            if (!ctx.hasStore(ADDED_STORES.trash)) {
+                ctx.createStore(ADDED_STORES.trash, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 3,
+        description: '为事件添加媒体类型',
+        up: async (ctx) => {
+            // Events created before media types existed become 'generic', including those in the trash.
+            await updateRecords(ctx, MIGRATION_STORES.events, (event) =>
+                event.mediaType ? undefined : { ...event, mediaType: 'generic' });
+            await updateRecords(ctx, ADDED_STORES.trash, (record) =>
+                record.event?.mediaType ? undefined : { ...record, event: { ...record.event, mediaType: 'generic' } });
+        },
+    },
+    {
+        version: 4,
+        description: '添加附件存储',
+        up: (ctx) => {
+            // Attachment files are keyed by attachment id, which is not part of the stored file.
+            if (!ctx.hasStore(ADDED_STORES.attachments)) {
+                ctx.createStore(ADDED_STORES.attachments);
+            }
+        },
+    },
+    {
+        version: 5,
+        description: '将封面图片移出事件记录',
+        up: async (ctx) => {
+            // Renditions are keyed by cover id. Thumbnails cannot be generated here and follow in the background.
+            if (!ctx.hasStore(ADDED_STORES.coverImages)) {
+                ctx.createStore(ADDED_STORES.coverImages);
+            }
+            const moveCover = async (event: any) => {
+                const { event: migrated, coverImage } = extractInlineCover(event);
+                if (coverImage) await ctx.put(ADDED_STORES.coverImages, coverImage, migrated.coverImageId);
+                return migrated;
+            };
+            for (const { value } of await ctx.getAll(MIGRATION_STORES.events)) {
+                if (isDataUrl(value.imageUrl)) await ctx.put(MIGRATION_STORES.events, await moveCover(value));
+            }
+            for (const { value } of await ctx.getAll(ADDED_STORES.trash)) {
+                if (isDataUrl(value.event?.imageUrl)) await ctx.put(ADDED_STORES.trash, { ...value, event: await moveCover(value.event) });
+            }
+        },
+    },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
+
+/**
+ * Applies all migrations newer than `fromVersion` (up to `toVersion`) and
+ * records them in the metadata store. Throws a `MigrationError` naming the
+ * first migration that failed.
+ */
+export const runMigrations = async (
+    ctx: MigrationContext,
+    fromVersion: number,
+    toVersion: number = LATEST_DB_VERSION,
+    migrations: Migration[] = MIGRATIONS,
+): Promise<AppliedMigration[]> => {
+    const pending = migrations
+        .filter(m => m.version > fromVersion && m.version <= toVersion)
+        .sort((a, b) => a.version - b.version);
+
+    const applied: AppliedMigration[] = [];
+    for (const migration of pending) {
+        try {
+            await migration.up(ctx);
+        } catch (error) {
+            throw new MigrationError(migration.version, error);
+        }
+        applied.push({ version: migration.version, description: migration.description, appliedAt: new Date().toISOString() });
+    }
+
+    if (applied.length > 0 && ctx.hasStore(MIGRATION_STORES.metadata)) {
+        const previous: AppliedMigration[] = (await ctx.get(MIGRATION_STORES.metadata, APPLIED_MIGRATIONS_KEY)) || [];
+        // Databases created before migrations were recorded only know their version number.
+        const baseline = previous.length === 0 && fromVersion > 0
+            ? migrations
+                .filter(m => m.version <= fromVersion)
+                .map(m => ({ version: m.version, description: m.description, appliedAt: 'baseline' }))
+            : [];
+        await ctx.put(MIGRATION_STORES.metadata, [...previous, ...baseline, ...applied], APPLIED_MIGRATIONS_KEY);
+    }
+    return applied;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Context backed by the `versionchange` transaction of `onupgradeneeded`. */
+export const createIdbMigrationContext = (db: IDBDatabase, transaction: IDBTransaction): MigrationContext => ({
+    hasStore: (storeName) => db.objectStoreNames.contains(storeName),
+    createStore: (storeName, options) => { db.createObjectStore(storeName, options); },
+    deleteStore: (storeName) => db.deleteObjectStore(storeName),
+    getAll: (storeName) => new Promise((resolve, reject) => {
+        const records: MigrationRecord[] = [];
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve(records);
+            records.push({ key: cursor.primaryKey, value: cursor.value });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    }),
+    get: (storeName, key) => requestToPromise(transaction.objectStore(storeName).get(key)),
+    put: async (storeName, value, key) => {
+        const store = transaction.objectStore(storeName);
+        await requestToPromise(store.keyPath === null ? store.put(value, key) : store.put(value));
+    },
+    delete: (storeName, key) => requestToPromise(transaction.objectStore(storeName).delete(key)),
+});
+
+// =================================================================
+// Fixture support
+// =================================================================
+
+/** An in-memory snapshot of a database: store name -> records. */
+export interface MigrationFixture {
+    stores: Record<string, { keyPath?: string; records: MigrationRecord[] }>;
+}
+
+/**
+ * Runs migrations against a deep copy of `fixture` and returns the resulting
+ * snapshot, so each migration can be checked without a browser IndexedDB.
+ */
+export const runMigrationsOnFixture = async (
+    fixture: MigrationFixture,
+    fromVersion: number,
+    toVersion: number = LATEST_DB_VERSION,
+    migrations: Migration[] = MIGRATIONS,
+): Promise<MigrationFixture> => {
+    const stores = new Map<string, { keyPath?: string; records: Map<string, MigrationRecord> }>();
+    Object.entries(fixture.stores).forEach(([name, store]) => {
+        const records = new Map<string, MigrationRecord>();
+        store.records.forEach(r => records.set(JSON.stringify(r.key), structuredClone(r)));
+        stores.set(name, { keyPath: store.keyPath, records });
+    });
+
+    const requireStore = (storeName: string) => {
+        const store = stores.get(storeName);
+        if (!store) throw new Error(`对象存储不存在: ${storeName}`);
+        return store;
+    };
+
+    const ctx: MigrationContext = {
+        hasStore: (storeName) => stores.has(storeName),
+        createStore: (storeName, options) => {
+            if (stores.has(storeName)) throw new Error(`对象存储已存在: ${storeName}`);
+            stores.set(storeName, { keyPath: options?.keyPath as string | undefined, records: new Map() });
+        },
+        deleteStore: (storeName) => { requireStore(storeName); stores.delete(storeName); },
+        getAll: async (storeName) => Array.from(requireStore(storeName).records.values()).map(r => structuredClone(r)),
+        get: async (storeName, key) => structuredClone(requireStore(storeName).records.get(JSON.stringify(key))?.value),
+        put: async (storeName, value, key) => {
+            const store = requireStore(storeName);
+            const recordKey = store.keyPath ? value[store.keyPath] : key;
+            if (recordKey === undefined) throw new Error(`缺少记录键: ${storeName}`);
+            store.records.set(JSON.stringify(recordKey), { key: recordKey, value: structuredClone(value) });
+        },
+        delete: async (storeName, key) => { requireStore(storeName).records.delete(JSON.stringify(key)); },
+    };
+
+    await runMigrations(ctx, fromVersion, toVersion, migrations);
+
+    const result: MigrationFixture = { stores: {} };
+    stores.forEach((store, name) => {
+        result.stores[name] = { keyPath: store.keyPath, records: Array.from(store.records.values()) };
+    });
+    return result;
+};
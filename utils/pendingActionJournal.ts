@@ -0,0 +1,127 @@
+// =================================================================
+// Pending action journal
+// =================================================================
+//
+// While changes are only held in memory ("已临时保存"), the queue of pending
+// actions is mirrored into its own IndexedDB database. It lives outside the
+// user databases so it stays writable when the active database fails to open,
+// and it is replayed on the next start after the user has reviewed it.
+// Every session holds a Web Lock named after it while its page is open, so
+// the journals of sessions still running in other tabs are never offered.
+
+import { PendingAction } from '../types';
+
+// Deliberately not prefixed with `essenmelia-db`, so it is never listed as a user database.
+export const JOURNAL_DB_NAME = 'essenmelia-journal';
+const JOURNAL_DB_VERSION = 1;
+const JOURNAL_STORE = 'journal';
+
+/** One entry per app session, so several tabs never overwrite each other's journal. */
+export interface PendingActionJournal {
+    sessionId: string;
+    /** The database the actions were recorded against. */
+    dbName: string;
+    savedAt: string;
+    actions: PendingAction[];
+}
+
+let journalConnection: Promise<IDBDatabase> | null = null;
+
+const openJournalDb = (): Promise<IDBDatabase> => {
+    if (journalConnection) return journalConnection;
+    journalConnection = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(JOURNAL_DB_NAME, JOURNAL_DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(JOURNAL_STORE)) {
+                request.result.createObjectStore(JOURNAL_STORE);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            db.onversionchange = () => {
+                db.close();
+                journalConnection = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+    }).catch(error => {
+        journalConnection = null;
+        throw error;
+    });
+    return journalConnection;
+};
+
+const runJournalRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openJournalDb();
+    return new Promise((resolve, reject) => {
+        const request = makeRequest(db.transaction(JOURNAL_STORE, mode).objectStore(JOURNAL_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const createJournalSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const SESSION_LOCK_PREFIX = 'essenmelia-session:';
+
+/** Marks the session as live until the page is closed. Without Web Locks, every other session counts as ended. */
+export const holdSessionLock = (sessionId: string) => {
+    if (!navigator.locks) return;
+    // `ifAvailable` keeps a second call for the same session from queueing behind the first.
+    navigator.locks.request(SESSION_LOCK_PREFIX + sessionId, { ifAvailable: true }, lock => lock ? new Promise<never>(() => {}) : undefined)
+        .catch(error => console.warn("无法标记当前会话:", error));
+};
+
+const loadLiveSessionIds = async (): Promise<Set<string>> => {
+    if (!navigator.locks) return new Set();
+    const { held = [] } = await navigator.locks.query();
+    return new Set(held
+        .map(lock => lock.name ?? '')
+        .filter(name => name.startsWith(SESSION_LOCK_PREFIX))
+        .map(name => name.slice(SESSION_LOCK_PREFIX.length)));
+};
+
+/** Journals left behind by sessions that have ended, oldest first. */
+export const loadJournals = async (exceptSessionId?: string): Promise<PendingActionJournal[]> => {
+    const [journals, liveSessionIds] = await Promise.all([
+        runJournalRequest<PendingActionJournal[]>('readonly', store => store.getAll()),
+        loadLiveSessionIds(),
+    ]);
+    return journals
+        .filter(j => j.sessionId !== exceptSessionId && !liveSessionIds.has(j.sessionId) && j.actions.length > 0)
+        .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+};
+
+/** Overwrites this session's entry with the current queue. `originalImage` Files are stored as-is. */
+export const saveJournal = async (sessionId: string, dbName: string, actions: PendingAction[]): Promise<void> => {
+    const journal: PendingActionJournal = { sessionId, dbName, savedAt: new Date().toISOString(), actions };
+    await runJournalRequest('readwrite', store => store.put(journal, sessionId));
+};
+
+export const deleteJournals = async (sessionIds: string[]): Promise<void> => {
+    const db = await openJournalDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+        const store = transaction.objectStore(JOURNAL_STORE);
+        sessionIds.forEach(id => store.delete(id));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+/** A one-line, user-facing description of an action for the review screen. */
+export const describePendingAction = (action: PendingAction): string => {
+    switch (action.type) {
+        case 'ADD_EVENT': return `添加事件「${action.payload.event.title}」${action.payload.originalImage ? '（含原图）' : ''}`;
+        case 'UPDATE_EVENT': return `更新事件「${action.payload.event.title}」${action.payload.originalImage instanceof File ? '（含原图）' : ''}`;
+        case 'DELETE_EVENT': return `${action.permanent ? '永久删除' : '删除'}事件 (${action.payload})`;
+        case 'UPDATE_EVENT_STEPS': return `更新步骤 (${action.payload.steps.length} 个)`;
+        case 'ADD_TAG': return `添加标签「${action.payload}」`;
+        case 'DELETE_TAGS': return `删除标签: ${action.payload.join(', ')}`;
+        case 'RENAME_TAG': return `重命名标签「${action.payload.oldTag}」为「${action.payload.newTag}」`;
+        case 'REORDER_TAGS': return '调整标签顺序';
+        case 'UPDATE_STEP_TEMPLATES': return `更新步骤归档 (${action.payload.length} 个)`;
+        case 'UPDATE_STEP_SET_TEMPLATES': return `更新步骤模板 (${action.payload.length} 个)`;
+    }
+};
@@ -0,0 +1,144 @@
+// =================================================================
+// Pending actions
+// =================================================================
+//
+// Every change to events, tags and templates is expressed as a `PendingAction`.
+// The same actions drive the in-memory state, the IndexedDB sync, the crash
+// journal and the undo/redo history.
+
+import { PendingAction, AppData } from '../types';
+
+/** Applies a tag delete/rename to an event's tags. Returns the same array when nothing changes. */
+export const applyTagAction = (tags: string[] | undefined, action: PendingAction): string[] | undefined => {
+    if (!tags) return tags;
+    if (action.type === 'DELETE_TAGS') {
+        const deleteSet = new Set(action.payload);
+        return tags.some(t => deleteSet.has(t)) ? tags.filter(t => !deleteSet.has(t)) : tags;
+    }
+    if (action.type === 'RENAME_TAG') {
+        const { oldTag, newTag } = action.payload;
+        return tags.includes(oldTag) ? tags.map(t => t === oldTag ? newTag : t) : tags;
+    }
+    return tags;
+};
+
+export const applyPendingActions = (base: AppData, actions: PendingAction[]): AppData => {
+    let { events, tags, stepTemplates, stepSetTemplates } = base;
+
+    actions.forEach(action => {
+        switch (action.type) {
+            case 'ADD_EVENT': if (!events.some(e => e.id === action.payload.event.id)) events = [action.payload.event, ...events]; break;
+            case 'UPDATE_EVENT': events = events.map(e => e.id === action.payload.event.id ? action.payload.event : e); break;
+            case 'DELETE_EVENT': events = events.filter(e => e.id !== action.payload); break;
+            case 'UPDATE_EVENT_STEPS': {
+                const { eventId, steps, stepGroups, activityLog } = action.payload;
+                events = events.map(e => e.id === eventId ? { ...e, steps, ...(stepGroups && { stepGroups }), ...(activityLog && { activityLog }) } : e);
+                break;
+            }
+            case 'ADD_TAG': if (!tags.includes(action.payload)) tags = [...tags, action.payload]; break;
+            case 'DELETE_TAGS': const deleteSet = new Set(action.payload); tags = tags.filter(t => !deleteSet.has(t)); events = events.map(e => ({ ...e, tags: applyTagAction(e.tags, action) })); break;
+            case 'RENAME_TAG': const { oldTag, newTag } = action.payload; tags = tags.map(t => t === oldTag ? newTag : t); events = events.map(e => ({ ...e, tags: applyTagAction(e.tags, action) })); break;
+            case 'REORDER_TAGS': tags = action.payload; break;
+            case 'UPDATE_STEP_TEMPLATES': stepTemplates = action.payload; break;
+            case 'UPDATE_STEP_SET_TEMPLATES': stepSetTemplates = action.payload; break;
+        }
+    });
+    return { events, tags, stepTemplates, stepSetTemplates };
+};
+
+// =================================================================
+// Undo / redo
+// =================================================================
+
+export interface HistoryEntry {
+    label: string;
+    actions: PendingAction[];
+    /** Actions that roll `actions` back, in the order they must be applied. */
+    inverse: PendingAction[];
+    /** Original images that `actions` delete or replace, keyed by event id. Filled in asynchronously. */
+    originalImages: Map<string, File>;
+}
+
+const invertPendingAction = (before: AppData, action: PendingAction): PendingAction[] => {
+    const findEvent = (id: string) => before.events.find(e => e.id === id);
+    switch (action.type) {
+        case 'ADD_EVENT': {
+            // A new event was never in the trash, so it does not go there when the add is undone.
+            const { event, fromTrash } = action.payload;
+            return findEvent(event.id) ? [] : [{ type: 'DELETE_EVENT', payload: event.id, permanent: !fromTrash }];
+        }
+        case 'UPDATE_EVENT': {
+            const previous = findEvent(action.payload.event.id);
+            if (!previous) return [];
+            // An image added to an event without one is removed again; a replaced image is restored from `originalImages`.
+            const removeAddedImage = action.payload.originalImage !== undefined && !previous.hasOriginalImage;
+            return [{ type: 'UPDATE_EVENT', payload: { event: previous, originalImage: removeAddedImage ? 'remove' : undefined } }];
+        }
+        case 'DELETE_EVENT': {
+            const previous = findEvent(action.payload);
+            return previous ? [{ type: 'ADD_EVENT', payload: { event: previous, fromTrash: true } }] : [];
+        }
+        case 'UPDATE_EVENT_STEPS': {
+            const previous = findEvent(action.payload.eventId);
+            if (!previous) return [];
+            const stepGroups = action.payload.stepGroups ? previous.stepGroups ?? [] : undefined;
+            return [{ type: 'UPDATE_EVENT_STEPS', payload: { eventId: previous.id, steps: previous.steps, ...(stepGroups && { stepGroups }) } }];
+        }
+        case 'ADD_TAG':
+        case 'REORDER_TAGS':
+            return [{ type: 'REORDER_TAGS', payload: before.tags }];
+        case 'DELETE_TAGS': {
+            const deleteSet = new Set(action.payload);
+            const affectedEvents = before.events.filter(e => e.tags?.some(t => deleteSet.has(t)));
+            return [
+                { type: 'REORDER_TAGS', payload: before.tags },
+                ...affectedEvents.map((event): PendingAction => ({ type: 'UPDATE_EVENT', payload: { event } })),
+            ];
+        }
+        case 'RENAME_TAG':
+            return [{ type: 'RENAME_TAG', payload: { oldTag: action.payload.newTag, newTag: action.payload.oldTag } }];
+        case 'UPDATE_STEP_TEMPLATES':
+            return [{ type: 'UPDATE_STEP_TEMPLATES', payload: before.stepTemplates }];
+        case 'UPDATE_STEP_SET_TEMPLATES':
+            return [{ type: 'UPDATE_STEP_SET_TEMPLATES', payload: before.stepSetTemplates }];
+    }
+};
+
+/** Ids of events whose stored original image is deleted or replaced by `action`. */
+const getReplacedImageIds = (before: AppData, action: PendingAction): string[] => {
+    const hadImage = (id: string) => !!before.events.find(e => e.id === id)?.hasOriginalImage;
+    if (action.type === 'DELETE_EVENT') return hadImage(action.payload) ? [action.payload] : [];
+    if (action.type === 'UPDATE_EVENT' && action.payload.originalImage !== undefined) {
+        return hadImage(action.payload.event.id) ? [action.payload.event.id] : [];
+    }
+    return [];
+};
+
+/**
+ * Builds a history entry for `actions` applied on top of `before`. The caller
+ * still has to load the images listed in `replacedImageIds` into `originalImages`.
+ */
+export const createHistoryEntry = (label: string, before: AppData, actions: PendingAction[]): { entry: HistoryEntry; replacedImageIds: string[] } => {
+    let state = before;
+    const inverse: PendingAction[] = [];
+    const replacedImageIds: string[] = [];
+    actions.forEach(action => {
+        inverse.unshift(...invertPendingAction(state, action));
+        replacedImageIds.push(...getReplacedImageIds(state, action));
+        state = applyPendingActions(state, [action]);
+    });
+    return { entry: { label, actions, inverse, originalImages: new Map() }, replacedImageIds };
+};
+
+/**
+ * Copies the actions of a history entry so they can be queued again. Copies keep the sync
+ * effect, which removes flushed actions by identity, from dropping a replayed action.
+ */
+export const prepareHistoryActions = (actions: PendingAction[], originalImages: Map<string, File>): PendingAction[] =>
+    actions.map(action => {
+        if ((action.type === 'ADD_EVENT' || action.type === 'UPDATE_EVENT') && !action.payload.originalImage) {
+            const image = originalImages.get(action.payload.event.id);
+            if (image) return { ...action, payload: { ...action.payload, originalImage: image } };
+        }
+        return { ...action } as PendingAction;
+    });
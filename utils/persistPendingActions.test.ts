@@ -0,0 +1,110 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it } from 'vitest';
+import { AppData, Event, PendingAction } from '../types';
+import { ADDED_STORES, LATEST_DB_VERSION, MIGRATION_STORES, createIdbMigrationContext, runMigrations } from './migrations';
+import { applyPendingActions, createHistoryEntry } from './pendingActions';
+import { PENDING_ACTION_STORES, writePendingActions } from './persistPendingActions';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = new IDBFactory().open('test', LATEST_DB_VERSION);
+    request.onupgradeneeded = () => { runMigrations(createIdbMigrationContext(request.result, request.transaction!), 0); };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Writes `actions` on top of `before` the way the sync effect does, and returns the state after them. */
+const persist = (db: IDBDatabase, before: AppData, actions: PendingAction[]) => new Promise<AppData>((resolve, reject) => {
+    const data = applyPendingActions(before, actions);
+    const transaction = db.transaction(PENDING_ACTION_STORES, 'readwrite');
+    transaction.oncomplete = () => resolve(data);
+    transaction.onerror = () => reject(transaction.error);
+    writePendingActions(transaction, actions, data);
+});
+
+const read = <T,>(db: IDBDatabase, storeName: string, key: string) => new Promise<T | undefined>((resolve, reject) => {
+    const request = db.transaction(storeName).objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const countTrash = (db: IDBDatabase) => new Promise<number>((resolve, reject) => {
+    const request = db.transaction(ADDED_STORES.trash).objectStore(ADDED_STORES.trash).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const makeEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: '进击的巨人',
+    description: '',
+    createdAt: new Date(2023, 9, 15),
+    steps: [],
+    tags: ['动画'],
+    mediaType: 'anime',
+    hasOriginalImage: true,
+    ...overrides,
+});
+
+const EMPTY: AppData = { events: [], tags: ['动画'], stepTemplates: [], stepSetTemplates: [] };
+
+/** A database holding one event with an original image, and the state that matches it. */
+const seed = async () => {
+    const db = await openDatabase();
+    const image = new File(['image bytes'], 'cover.png', { type: 'image/png' });
+    const data = await persist(db, EMPTY, [{ type: 'ADD_EVENT', payload: { event: makeEvent(), originalImage: image } }]);
+    return { db, data };
+};
+
+const readImageText = async (db: IDBDatabase) => (await read<File>(db, MIGRATION_STORES.originalImages, 'event-1'))?.text();
+
+describe('writePendingActions', () => {
+    it('moves a deleted event and its image to the trash and puts both back when the delete is undone', async () => {
+        const { db, data } = await seed();
+        const deleteActions: PendingAction[] = [{ type: 'DELETE_EVENT', payload: 'event-1' }];
+        const { entry } = createHistoryEntry('删除事件', data, deleteActions);
+
+        const deleted = await persist(db, data, deleteActions);
+        expect(await read(db, MIGRATION_STORES.originalImages, 'event-1')).toBeUndefined();
+        expect(await countTrash(db)).toBe(1);
+
+        // The history entry has not loaded the image, so the undo carries none of its own.
+        await persist(db, deleted, entry.inverse);
+        expect(await read<Event>(db, MIGRATION_STORES.events, 'event-1')).toMatchObject({ hasOriginalImage: true });
+        expect(await readImageText(db)).toBe('image bytes');
+        expect(await countTrash(db)).toBe(0);
+    });
+
+    it('keeps the image of an event deleted and undone within one batch', async () => {
+        const { db, data } = await seed();
+        const deleteActions: PendingAction[] = [{ type: 'DELETE_EVENT', payload: 'event-1' }];
+        const { entry } = createHistoryEntry('删除事件', data, deleteActions);
+
+        await persist(db, data, [...deleteActions, ...entry.inverse]);
+        expect(await readImageText(db)).toBe('image bytes');
+        expect(await countTrash(db)).toBe(0);
+    });
+
+    it('deletes an event without trashing it when its add is undone', async () => {
+        const db = await openDatabase();
+        const addActions: PendingAction[] = [{ type: 'ADD_EVENT', payload: { event: makeEvent({ hasOriginalImage: false }) } }];
+        const { entry } = createHistoryEntry('添加事件', EMPTY, addActions);
+
+        const added = await persist(db, EMPTY, addActions);
+        await persist(db, added, entry.inverse);
+        expect(await read(db, MIGRATION_STORES.events, 'event-1')).toBeUndefined();
+        expect(await countTrash(db)).toBe(0);
+    });
+
+    it('applies tag renames to stored events without undoing later updates in the batch', async () => {
+        const { db, data } = await seed();
+        const other = makeEvent({ id: 'event-2', hasOriginalImage: false });
+        const withOther = await persist(db, data, [{ type: 'ADD_EVENT', payload: { event: other } }]);
+
+        await persist(db, withOther, [
+            { type: 'RENAME_TAG', payload: { oldTag: '动画', newTag: '番剧' } },
+            { type: 'UPDATE_EVENT', payload: { event: makeEvent({ tags: ['番剧', '动画'] }) } },
+        ]);
+        expect((await read<Event>(db, MIGRATION_STORES.events, 'event-1'))?.tags).toEqual(['番剧', '动画']);
+        expect((await read<Event>(db, MIGRATION_STORES.events, 'event-2'))?.tags).toEqual(['番剧']);
+    });
+});
@@ -0,0 +1,156 @@
+// =================================================================
+// Writing pending actions
+// =================================================================
+//
+// The sync effect saves the queue of pending actions in batches. A batch is
+// written inside one transaction over all data stores, so it is saved
+// completely or not at all, and every action becomes targeted puts and
+// deletes rather than a rewrite of whole stores.
+
+import { AppData, Event, PendingAction, TrashedEvent } from '../types';
+import { ADDED_STORES, MIGRATION_STORES } from './migrations';
+import { applyPendingActions, applyTagAction } from './pendingActions';
+
+/** The stores a transaction passed to `writePendingActions` must cover. */
+export const PENDING_ACTION_STORES = [
+    MIGRATION_STORES.events, MIGRATION_STORES.tags, MIGRATION_STORES.stepTemplates, MIGRATION_STORES.stepSetTemplates,
+    MIGRATION_STORES.originalImages, ADDED_STORES.trash, ADDED_STORES.attachments, ADDED_STORES.coverImages,
+];
+
+/** Puts every record and deletes the ones that are no longer in the list. */
+const replaceStoreRecords = (store: IDBObjectStore, records: { id: string }[]) => {
+    const ids = new Set(records.map(r => r.id));
+    records.forEach(record => store.put(record));
+    const keysRequest = store.getAllKeys();
+    keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => {
+            if (!ids.has(key as string)) store.delete(key);
+        });
+    };
+};
+
+/**
+ * Queues the writes for a batch of pending actions on `transaction`. `data` is the
+ * state with the actions already applied; records touched by the batch are written from it.
+ */
+export const writePendingActions = (transaction: IDBTransaction, actions: PendingAction[], data: AppData): void => {
+    const eventsStore = transaction.objectStore(MIGRATION_STORES.events);
+    const imagesStore = transaction.objectStore(MIGRATION_STORES.originalImages);
+    const trashStore = transaction.objectStore(ADDED_STORES.trash);
+    const attachmentsStore = transaction.objectStore(ADDED_STORES.attachments);
+    const coverImagesStore = transaction.objectStore(ADDED_STORES.coverImages);
+    const eventsById = new Map(data.events.map(e => [e.id, e]));
+    const deletedAt = new Date();
+    const deletedEventIds = new Set(actions.flatMap(a => a.type === 'DELETE_EVENT' ? [a.payload] : []));
+    // Whether the event was last added again without an image of its own, as undoing a delete does,
+    // so it needs the image it had when it was deleted.
+    const needsDeletedImage = (eventId: string) => {
+        if (!eventsById.get(eventId)?.hasOriginalImage) return false;
+        let needs = false;
+        actions.forEach(a => {
+            if ((a.type === 'ADD_EVENT' || a.type === 'UPDATE_EVENT') && a.payload.event.id === eventId) {
+                needs = a.type === 'ADD_EVENT' ? !a.payload.originalImage : needs && !a.payload.originalImage;
+            }
+        });
+        return needs;
+    };
+
+    // Deleted events move to the trash, unless the delete is permanent. Their stored versions are read before
+    // anything in this batch writes to them, then brought up to date with the actions queued ahead of the delete.
+    actions.forEach((action, index) => {
+        if (action.type !== 'DELETE_EVENT' || action.permanent) return;
+        const eventId = action.payload;
+        const eventRequest = eventsStore.get(eventId);
+        const imageRequest = imagesStore.get(eventId);
+        imageRequest.onsuccess = () => {
+            const earlierActions = actions.slice(0, index);
+            let originalImage: File | undefined = imageRequest.result;
+            earlierActions.forEach(a => {
+                if ((a.type === 'ADD_EVENT' || a.type === 'UPDATE_EVENT') && a.payload.event.id === eventId && a.payload.originalImage) {
+                    originalImage = a.payload.originalImage === 'remove' ? undefined : a.payload.originalImage;
+                }
+            });
+            // Restored again later in the same batch, so it skips the trash.
+            if (eventsById.has(eventId)) {
+                if (originalImage && needsDeletedImage(eventId)) imagesStore.put(originalImage, eventId);
+                return;
+            }
+            const storedEvent: Event | undefined = eventRequest.result;
+            const event = applyPendingActions({ events: storedEvent ? [storedEvent] : [], tags: [], stepTemplates: [], stepSetTemplates: [] }, earlierActions)
+                .events.find(e => e.id === eventId);
+            if (!event) return;
+            const trashed: TrashedEvent = { id: eventId, event, originalImage, deletedAt };
+            trashStore.put(trashed);
+        };
+    });
+
+    const touchedEventIds = new Set<string>();
+    const restoredEventIds = new Set<string>();
+    const tagActions: PendingAction[] = [];
+    let tagsChanged = false;
+    let stepTemplatesChanged = false;
+    let stepSetTemplatesChanged = false;
+
+    // Image writes keep the order of the actions; event records are written once from `data`.
+    actions.forEach(action => {
+        switch (action.type) {
+            case 'ADD_EVENT':
+            case 'UPDATE_EVENT': {
+                const { event, originalImage, attachmentFiles, coverImage } = action.payload;
+                touchedEventIds.add(event.id);
+                if (action.type === 'ADD_EVENT') restoredEventIds.add(event.id);
+                if (originalImage === 'remove') imagesStore.delete(event.id);
+                else if (originalImage) imagesStore.put(originalImage, event.id);
+                // Files of removed attachments stay until the next sweep, so undo can bring them back.
+                Object.entries(attachmentFiles ?? {}).forEach(([id, file]) => attachmentsStore.put(file, id));
+                if (coverImage && event.coverImageId) coverImagesStore.put(coverImage, event.coverImageId);
+                break;
+            }
+            case 'DELETE_EVENT': touchedEventIds.add(action.payload); imagesStore.delete(action.payload); break;
+            case 'UPDATE_EVENT_STEPS': touchedEventIds.add(action.payload.eventId); break;
+            case 'ADD_TAG': case 'REORDER_TAGS': tagsChanged = true; break;
+            case 'DELETE_TAGS': case 'RENAME_TAG': tagsChanged = true; tagActions.push(action); break;
+            case 'UPDATE_STEP_TEMPLATES': stepTemplatesChanged = true; break;
+            case 'UPDATE_STEP_SET_TEMPLATES': stepSetTemplatesChanged = true; break;
+        }
+    });
+
+    touchedEventIds.forEach(id => {
+        const event = eventsById.get(id);
+        if (event) eventsStore.put(event);
+        else eventsStore.delete(id);
+    });
+    // An event that is added again (undo, restore from trash) leaves the trash, and takes its image back out of it.
+    restoredEventIds.forEach(id => {
+        if (!eventsById.has(id)) return;
+        if (!deletedEventIds.has(id) && needsDeletedImage(id)) {
+            const trashedRequest = trashStore.get(id);
+            trashedRequest.onsuccess = () => {
+                const trashed: TrashedEvent | undefined = trashedRequest.result;
+                if (trashed?.originalImage) imagesStore.put(trashed.originalImage, id);
+            };
+        }
+        trashStore.delete(id);
+    });
+    if (tagsChanged) transaction.objectStore(MIGRATION_STORES.tags).put(data.tags, 'allTags');
+    if (stepTemplatesChanged) replaceStoreRecords(transaction.objectStore(MIGRATION_STORES.stepTemplates), data.stepTemplates);
+    if (stepSetTemplatesChanged) replaceStoreRecords(transaction.objectStore(MIGRATION_STORES.stepSetTemplates), data.stepSetTemplates);
+
+    // Tag deletes and renames also reach events that are not otherwise part of the batch.
+    if (tagActions.length > 0) {
+        const cursorRequest = eventsStore.openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            // Events written from `data` above already reflect the whole batch.
+            if (touchedEventIds.has(cursor.key as string)) {
+                cursor.continue();
+                return;
+            }
+            const tags: string[] | undefined = cursor.value.tags;
+            const nextTags = tagActions.reduce(applyTagAction, tags);
+            if (nextTags !== tags) cursor.update({ ...cursor.value, tags: nextTags });
+            cursor.continue();
+        };
+    }
+};
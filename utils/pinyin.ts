@@ -0,0 +1,90 @@
+// =================================================================
+// Pinyin
+// =================================================================
+//
+// Reads Chinese characters as toneless pinyin so that `shwz` or `shenghuo`
+// can find 生活物资. There is no dictionary: a collator that sorts Han
+// characters by their pinyin (`zh-Hans-u-co-pinyin`) puts every character
+// between the first character of its syllable and the first character of the
+// next one, so a binary search over one character per syllable finds the
+// reading. A character with several readings gets the one it is sorted under.
+//
+// ü is written as `v`, as in most input methods (女 is `nv`). Without a
+// collator that sorts by pinyin, `getPinyin` returns undefined for everything.
+
+/** The first character of each syllable in `SYLLABLES`, in pinyin order. */
+const SYLLABLE_STARTS =
+    '吖哎安肮凹丷挀扳邦勹卑奔伻屄边灬憋汃冫癶峬嚓偲参仓撡冊嵾曽叉芆辿伥抄车抻阷吃充抽' +
+    '出歘揣巛刅吹旾逴呲匆凑粗汆崔邨搓咑呆丹当刀嘚灯氐嗲敁刁爹丁丟东吺厾耑垖譵多妸奀儿' +
+    '发帆匚飞分丰仏紑夫旮侅甘冈皋戈鉻根搄工勾估瓜乖关光归丨呙哈咍佄夯茠诃黒拫亨叿闀乎' +
+    '花怀欢巟灰昏吙丌加戋江艽阶巾坕冂丩凥姢噘军咔开刊忼尻匼肎劥空抠扝夸蒯宽匡亏坤扩垃' +
+    '来兰啷捞仂勒崚哩俩奁良撩毟拎〇溜龙瞜噜驴娈掠抡啰呣妈埋嫚牤猫呅椚擝咪宀喵乜民名谬' +
+    '摸哞毪拏腉男囔孬疒娞恁能嗯拈娘鸟捏囜宁妞农羺奴女奻疟郍喔讴妑拍眅乓抛呸喷匉丕囨剽' +
+    '蔈姘乒钋剖仆七掐千呛悄切亲靑卭丘区奍炔夋呥穣娆惹人扔日戎厹邚堧婑瞤捼仨毢三桒掻色' +
+    '森僧杀筛山伤弰奢谁申升尸収书刷衰闩双脽吮说厶忪凁苏狻夊孙唆他囼坍汤夲忑疼剔天旫帖' +
+    '厅囲偷凸湍推吞乇屲歪弯尢危昷翁挝乌夕呷仙乡灱些心星凶休吁吅削坃丫恹央幺倻一囙应哟' +
+    '佣优込囦曰晕帀災兂奘傮则贼怎増扎夈枬张佋蜇贞凧之中州朱抓跩专妆隹宒拙乲宗邹租钻厜' +
+    '尊嘬';
+
+const SYLLABLES = [
+    'a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo',
+    'bu ca cai can cang cao ce cen ceng cha chai chan chang chao che chen cheng chi chong chou',
+    'chu chua chuai chuan chuang chui chun chuo ci cong cou cu cuan cui cun cuo da dai dan dang',
+    'dao de deng di dia dian diao die ding diu dong dou du duan dui dun duo e en er',
+    'fa fan fang fei fen feng fo fou fu ga gai gan gang gao ge gei gen geng gong gou',
+    'gu gua guai guan guang gui gun guo ha hai han hang hao he hei hen heng hong hou hu',
+    'hua huai huan huang hui hun huo ji jia jian jiang jiao jie jin jing jiong jiu ju juan jue',
+    'jun ka kai kan kang kao ke ken keng kong kou ku kua kuai kuan kuang kui kun kuo la',
+    'lai lan lang lao le lei leng li lia lian liang liao lie lin ling liu long lou lu lv',
+    'luan lve lun luo m ma mai man mang mao mei men meng mi mian miao mie min ming miu',
+    'mo mou mu na nai nan nang nao ne nei nen neng ni nian niang niao nie nin ning niu',
+    'nong nou nu nv nuan nve nuo o ou pa pai pan pang pao pei pen peng pi pian piao',
+    'pie pin ping po pou pu qi qia qian qiang qiao qie qin qing qiong qiu qu quan que qun',
+    'ran rang rao re ren reng ri rong rou ru ruan rui run ruo sa sai san sang sao se',
+    'sen seng sha shai shan shang shao she shei shen sheng shi shou shu shua shuai shuan shuang shui shun',
+    'shuo si song sou su suan sui sun suo ta tai tan tang tao te teng ti tian tiao tie',
+    'ting tong tou tu tuan tui tun tuo wa wai wan wang wei wen weng wo wu xi xia xian',
+    'xiang xiao xie xin xing xiong xiu xu xuan xue xun ya yan yang yao ye yi yin ying yo',
+    'yong you yu yuan yue yun za zai zan zang zao ze zei zen zeng zha zhai zhan zhang zhao',
+    'zhe zhen zheng zhi zhong zhou zhu zhua zhuai zhuan zhuang zhui zhun zhuo zi zong zou zu zuan zui',
+    'zun zuo',
+].join(' ').split(' ');
+
+const HAN = /\p{Script=Han}/u;
+
+let collator: Intl.Collator | null | undefined;
+const cache = new Map<string, string | undefined>();
+
+const getCollator = (): Intl.Collator | null => {
+    if (collator !== undefined) return collator;
+    try {
+        const candidate = new Intl.Collator('zh-Hans-u-co-pinyin');
+        // Sorted by code point instead, 八 (U+516B) would come before 阿 (U+963F).
+        collator = candidate.compare('阿', '八') < 0 && candidate.compare('八', '中') < 0 ? candidate : null;
+    } catch {
+        collator = null;
+    }
+    return collator;
+};
+
+/** The toneless pinyin of a single Han character, e.g. `zhong` for 中. */
+export const getPinyin = (char: string): string | undefined => {
+    if (cache.has(char)) return cache.get(char);
+    let pinyin: string | undefined;
+    const compare = getCollator()?.compare;
+    if (compare && HAN.test(char)) {
+        let low = 0;
+        let high = SYLLABLES.length - 1;
+        while (low <= high) {
+            const middle = (low + high) >> 1;
+            if (compare(SYLLABLE_STARTS[middle], char) <= 0) {
+                pinyin = SYLLABLES[middle];
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+    }
+    cache.set(char, pinyin);
+    return pinyin;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS, DEFAULT_SORT_ORDER, NO_SAVED_VIEWS, mergeSavedViews, readSavedViews } from './savedViews';
+
+const storedView = (overrides: Record<string, unknown> = {}) => ({
+    id: 'view-1',
+    name: '在追',
+    filters: { status: 'in-progress', tags: ['动画'], tagMatchMode: 'any', excludedTags: [], untaggedOnly: false, mediaType: 'anime' },
+    searchQuery: 'rating:>=8',
+    sortOrder: 'rating-desc',
+    ...overrides,
+});
+
+describe('readSavedViews', () => {
+    it('reads stored views and their default', () => {
+        expect(readSavedViews({ views: [storedView()], defaultViewId: 'view-1' })).toEqual({ views: [storedView()], defaultViewId: 'view-1' });
+    });
+
+    it('falls back to defaults for values it does not know', () => {
+        const [view] = readSavedViews({
+            views: [storedView({ filters: { status: 'lost', tags: ['动画', 3], mediaType: 'podcast' }, searchQuery: null, sortOrder: 'popularity-desc' })],
+        }).views;
+        expect(view.filters).toEqual({ ...DEFAULT_FILTERS, tags: ['动画'] });
+        expect(view.searchQuery).toBe('');
+        expect(view.sortOrder).toBe(DEFAULT_SORT_ORDER);
+    });
+
+    it('leaves out views without an id or name and a default that is gone', () => {
+        expect(readSavedViews({ views: [storedView({ id: 1 }), storedView({ name: undefined }), null], defaultViewId: 'view-1' })).toEqual(NO_SAVED_VIEWS);
+        expect(readSavedViews('views')).toEqual(NO_SAVED_VIEWS);
+        expect(readSavedViews(undefined)).toEqual(NO_SAVED_VIEWS);
+    });
+});
+
+describe('mergeSavedViews', () => {
+    it('adds the views whose names are not taken and keeps the current default', () => {
+        const current = readSavedViews({ views: [storedView()], defaultViewId: 'view-1' });
+        const incoming = readSavedViews({ views: [storedView({ id: 'view-2' }), storedView({ id: 'view-3', name: '已看完' })], defaultViewId: 'view-3' });
+        expect(mergeSavedViews(current, incoming)).toEqual({ views: [current.views[0], incoming.views[1]], defaultViewId: 'view-1' });
+    });
+});
@@ -0,0 +1,132 @@
+// =================================================================
+// Saved views
+// =================================================================
+//
+// A saved view is a named combination of filters, search query and sort
+// order, applied with one click from the chips above the filter bar. Each
+// database keeps its own views in its `metadata` store under
+// `SAVED_VIEWS_KEY`, in the order their chips are shown, together with the
+// view applied whenever the database is opened. Views refer to tags by name,
+// so renaming or deleting a tag updates them too.
+
+import { ActiveFilters, SavedView, SortOrder } from '../types';
+import { isLifecycleStatus } from './lifecycle';
+import { isMediaType } from './mediaTypes';
+import { mapFilterTags } from './tagFilter';
+
+export const SAVED_VIEWS_KEY = 'savedViews';
+
+export const DEFAULT_FILTERS: ActiveFilters = { status: 'all', tags: [], tagMatchMode: 'all', excludedTags: [], untaggedOnly: false, mediaType: null };
+export const DEFAULT_SORT_ORDER: SortOrder = 'createdAt-desc';
+
+/** What a view restores. */
+export type ViewState = Pick<SavedView, 'filters' | 'searchQuery' | 'sortOrder'>;
+
+export interface SavedViews {
+    views: SavedView[];
+    /** The view applied when the database is opened. */
+    defaultViewId: string | null;
+}
+
+export const NO_SAVED_VIEWS: SavedViews = { views: [], defaultViewId: null };
+
+const generateId = () => `view-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const SORT_ORDERS: SortOrder[] = [
+    'createdAt-desc', 'createdAt-asc', 'title-asc', 'title-desc', 'progress-desc', 'progress-asc', 'status-asc', 'rating-desc', 'rating-asc', 'manual',
+];
+
+const isSortOrder = (value: unknown): value is SortOrder => SORT_ORDERS.some(order => order === value);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readTags = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((tag: unknown): tag is string => typeof tag === 'string') : [];
+
+const readFilters = (value: unknown): ActiveFilters => {
+    const filters = isObject(value) ? value : {};
+    return {
+        status: isLifecycleStatus(filters.status) ? filters.status : 'all',
+        tags: readTags(filters.tags),
+        tagMatchMode: filters.tagMatchMode === 'any' ? 'any' : 'all',
+        excludedTags: readTags(filters.excludedTags),
+        untaggedOnly: filters.untaggedOnly === true,
+        mediaType: isMediaType(filters.mediaType) ? filters.mediaType : null,
+    };
+};
+
+/** The saved views stored in a database's metadata; records that cannot be read are left out. */
+export const readSavedViews = (value: unknown): SavedViews => {
+    if (!isObject(value) || !Array.isArray(value.views)) return NO_SAVED_VIEWS;
+    const views = value.views.flatMap((view: unknown): SavedView[] => {
+        if (!isObject(view) || typeof view.id !== 'string' || typeof view.name !== 'string') return [];
+        return [{
+            id: view.id,
+            name: view.name,
+            filters: readFilters(view.filters),
+            searchQuery: typeof view.searchQuery === 'string' ? view.searchQuery : '',
+            // Also covers orders written by a newer version of the app.
+            sortOrder: isSortOrder(view.sortOrder) ? view.sortOrder : DEFAULT_SORT_ORDER,
+        }];
+    });
+    const defaultViewId = views.find(view => view.id === value.defaultViewId)?.id ?? null;
+    return { views, defaultViewId };
+};
+
+export const createSavedView = (name: string, state: ViewState): SavedView => ({
+    id: generateId(),
+    name,
+    filters: { ...state.filters, tags: [...state.filters.tags], excludedTags: [...state.filters.excludedTags] },
+    searchQuery: state.searchQuery.trim(),
+    sortOrder: state.sortOrder,
+});
+
+const haveSameTags = (a: string[], b: string[]) => a.length === b.length && a.every(tag => b.includes(tag));
+
+/** Whether the list is currently showing exactly what the view would show. */
+export const isViewApplied = (view: SavedView, state: ViewState): boolean => {
+    const { filters } = view;
+    return filters.status === state.filters.status
+        && filters.mediaType === state.filters.mediaType
+        && filters.untaggedOnly === state.filters.untaggedOnly
+        && haveSameTags(filters.tags, state.filters.tags)
+        && haveSameTags(filters.excludedTags, state.filters.excludedTags)
+        // The match mode makes no difference to fewer than two tags.
+        && (filters.tags.length < 2 || filters.tagMatchMode === state.filters.tagMatchMode)
+        && view.searchQuery === state.searchQuery.trim()
+        && view.sortOrder === state.sortOrder;
+};
+
+/** Moves a view one place up (`-1`) or down (`1`). */
+export const moveSavedView = (saved: SavedViews, id: string, offset: -1 | 1): SavedViews => {
+    const index = saved.views.findIndex(view => view.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= saved.views.length) return saved;
+    const views = [...saved.views];
+    [views[index], views[target]] = [views[target], views[index]];
+    return { ...saved, views };
+};
+
+export const deleteSavedView = (saved: SavedViews, id: string): SavedViews => ({
+    views: saved.views.filter(view => view.id !== id),
+    defaultViewId: saved.defaultViewId === id ? null : saved.defaultViewId,
+});
+
+/** Adds the views of a backup whose names are not taken yet; the current default stays. */
+export const mergeSavedViews = (saved: SavedViews, incoming: SavedViews): SavedViews => {
+    const names = new Set(saved.views.map(view => view.name));
+    const ids = new Set(saved.views.map(view => view.id));
+    const added = incoming.views.filter(view => !names.has(view.name) && !ids.has(view.id));
+    return { views: [...saved.views, ...added], defaultViewId: saved.defaultViewId };
+};
+
+const mapViewTags = (saved: SavedViews, map: (tags: string[]) => string[]): SavedViews => ({
+    ...saved,
+    views: saved.views.map(view => ({ ...view, filters: mapFilterTags(view.filters, map) })),
+});
+
+export const renameTagInSavedViews = (saved: SavedViews, oldTag: string, newTag: string): SavedViews =>
+    mapViewTags(saved, tags => tags.map(tag => tag === oldTag ? newTag : tag));
+
+export const removeTagsFromSavedViews = (saved: SavedViews, removed: Set<string>): SavedViews =>
+    mapViewTags(saved, tags => tags.filter(tag => !removed.has(tag)));
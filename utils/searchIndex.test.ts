@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { SearchIndex, searchEvents, updateSearchIndex } from './searchIndex';
+import { parseSearchQuery } from './searchQuery';
+
+const makeEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: 'Attack on Titan',
+    description: '',
+    createdAt: new Date(2023, 9, 15),
+    steps: [],
+    tags: [],
+    mediaType: 'anime',
+    ...overrides,
+});
+
+const search = (query: string, event = makeEvent()) => {
+    const index: SearchIndex = updateSearchIndex(new Map(), [event]);
+    return searchEvents(index, parseSearchQuery(query).node!).get(event.id);
+};
+
+describe('searchEvents', () => {
+    it('highlights exact and pinyin matches', () => {
+        expect(search('titan')?.hits[0]).toMatchObject({ field: 'title', start: 10, end: 15 });
+        expect(search('shenghuo', makeEvent({ title: '日常生活物资' }))?.hits[0]).toMatchObject({ start: 2, end: 4 });
+    });
+
+    it('highlights a typo from where its alignment begins', () => {
+        expect(search('atack')?.hits[0]).toMatchObject({ field: 'title', start: 0, end: 6 });
+        expect(search('attakc')?.hits[0]).toMatchObject({ start: 0, end: 6 });
+        expect(search('titna')?.hits[0]).toMatchObject({ start: 10, end: 15 });
+    });
+
+    it('forgives no typos in short words', () => {
+        expect(search('atak')).toBeUndefined();
+    });
+});
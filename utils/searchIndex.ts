@@ -0,0 +1,256 @@
+// =================================================================
+// Search index
+// =================================================================
+//
+// Words in a search query (see `searchQuery.ts`) are looked up in an index of
+// each event's title, description, tags, step descriptions and step notes.
+// Besides a plain substring, a word matches
+//
+//   - pinyin, spelled out or by initials: `shenghuo`, `shwz` or `shhwz` all
+//     find 生活物资;
+//   - a title, tag or step with a typo or two: one per four typed characters.
+//
+// Each match is scored by how and where it matched, so results can be ranked,
+// and keeps its position so it can be highlighted. The index is keyed by event
+// object: `updateSearchIndex` only indexes events that are new or changed.
+
+import { Event } from '../types';
+import { markdownToPlainText } from './markdown';
+import { getPinyin } from './pinyin';
+import { SearchNode, matchesSearchQuery } from './searchQuery';
+
+export type SearchHitField = 'title' | 'description' | 'tag' | 'step' | 'note';
+
+export interface SearchHit {
+    field: SearchHitField;
+    /** For `tag` hits. */
+    tag?: string;
+    /** For `step` and `note` hits, the position of the step in `event.steps`. */
+    stepIndex?: number;
+    /** The matched part of the field's text, as string offsets. */
+    start: number;
+    end: number;
+    score: number;
+}
+
+export interface EventSearchResult {
+    /** Higher is better; 0 when the query has no words to rank by. */
+    score: number;
+    /** Best first. */
+    hits: SearchHit[];
+}
+
+interface IndexedText {
+    text: string;
+    lower: string;
+    /** The pinyin of each Han character; undefined at other positions. */
+    pinyin: (string | undefined)[];
+}
+
+interface IndexedEvent {
+    title: IndexedText;
+    /** As plain text, the way `EventCard` shows it. */
+    description: IndexedText;
+    tags: IndexedText[];
+    steps: { description: IndexedText; note?: IndexedText }[];
+}
+
+export type SearchIndex = Map<Event, IndexedEvent>;
+
+const MATCH_SCORES = { exact: 100, pinyin: 80, initials: 70, fuzzy: 50 };
+const FIELD_WEIGHTS: Record<SearchHitField, number> = { title: 1, tag: 0.9, step: 0.8, description: 0.7, note: 0.6 };
+
+// =================================================================
+// Indexing
+// =================================================================
+
+const indexText = (text: string): IndexedText => {
+    const lower = text.toLowerCase();
+    return {
+        text,
+        // A few characters change length when lowercased; matching those case-sensitively keeps the offsets right.
+        lower: lower.length === text.length ? lower : text,
+        pinyin: Array.from({ length: text.length }, (_, i) => getPinyin(text[i])),
+    };
+};
+
+const indexEvent = (event: Event): IndexedEvent => ({
+    title: indexText(event.title),
+    description: indexText(markdownToPlainText(event.description)),
+    tags: (event.tags ?? []).map(indexText),
+    steps: event.steps.map(step => ({ description: indexText(step.description), note: step.note ? indexText(step.note) : undefined })),
+});
+
+/** The index for `events`, reusing the entries of `previous` for events that are unchanged. */
+export const updateSearchIndex = (previous: SearchIndex, events: Event[]): SearchIndex =>
+    new Map(events.map(event => [event, previous.get(event) ?? indexEvent(event)]));
+
+// =================================================================
+// Matching one word
+// =================================================================
+
+interface TextMatch {
+    start: number;
+    end: number;
+    score: number;
+}
+
+const findExact = (indexed: IndexedText, needle: string): TextMatch | null => {
+    const start = indexed.lower.indexOf(needle);
+    if (start === -1) return null;
+    // A title that starts with the word beats one that merely contains it.
+    return { start, end: start + needle.length, score: MATCH_SCORES.exact + (start === 0 ? 10 : 0) };
+};
+
+/**
+ * Matches `needle` against the characters from `from` on: each Han character
+ * by its pinyin or a prefix of it, anything else by itself. `spelledOut` is
+ * false when a character other than the last was given by a prefix only.
+ */
+const matchPinyinFrom = (indexed: IndexedText, needle: string, from: number): { end: number; spelledOut: boolean } | null => {
+    const { lower, pinyin } = indexed;
+    const failed = new Set<number>();
+    const visit = (n: number, i: number): { end: number; spelledOut: boolean } | null => {
+        if (n === needle.length) return { end: i, spelledOut: true };
+        const key = n * (lower.length + 1) + i;
+        if (i >= lower.length || failed.has(key)) return null;
+        const syllable = pinyin[i];
+        if (syllable === undefined) {
+            if (lower[i] === needle[n]) return visit(n + 1, i + 1);
+            // Spaces between words need not be typed.
+            if (/\s/.test(lower[i])) return visit(n, i + 1);
+        } else {
+            // Longest first, so spelled-out readings are preferred over initials.
+            for (let length = Math.min(syllable.length, needle.length - n); length > 0; length--) {
+                if (!needle.startsWith(syllable.slice(0, length), n)) continue;
+                const rest = visit(n + length, i + 1);
+                if (rest) return { end: rest.end, spelledOut: rest.spelledOut && (length === syllable.length || n + length === needle.length) };
+            }
+        }
+        failed.add(key);
+        return null;
+    };
+    return visit(0, from);
+};
+
+const findPinyin = (indexed: IndexedText, needle: string): TextMatch | null => {
+    const letters = needle.replace(/'/g, '');
+    if (!/^[a-z]+$/.test(letters)) return null;
+    let best: TextMatch | null = null;
+    for (let from = 0; from < indexed.text.length; from++) {
+        if (indexed.pinyin[from] === undefined) continue;
+        const match = matchPinyinFrom(indexed, letters, from);
+        if (!match) continue;
+        const score = match.spelledOut ? MATCH_SCORES.pinyin : MATCH_SCORES.initials;
+        if (!best || score > best.score) best = { start: from, end: match.end, score };
+        if (match.spelledOut) break;
+    }
+    return best;
+};
+
+/** The part of the text closest to `needle`, if it is close enough. Swapping two neighbouring characters counts as one typo. */
+const findFuzzy = (indexed: IndexedText, needle: string): TextMatch | null => {
+    const allowed = Math.min(2, Math.floor(needle.length / 4));
+    if (allowed === 0) return null;
+    const text = indexed.lower;
+    // cost[j]: the fewest edits that turn the needle so far into some text ending at j; start[j]: where that text begins.
+    // Of alignments with equal cost, the one that begins first wins: "atack" is "attack" with a t added, not "ttack" with an a replaced.
+    let cost = Array.from({ length: text.length + 1 }, () => 0);
+    let start = Array.from({ length: text.length + 1 }, (_, j) => j);
+    let previousCost = cost;
+    let previousStart = start;
+    for (let i = 1; i <= needle.length; i++) {
+        const nextCost = [i];
+        const nextStart = [0];
+        for (let j = 1; j <= text.length; j++) {
+            const candidates: [number, number][] = [
+                [cost[j - 1] + (needle[i - 1] === text[j - 1] ? 0 : 1), start[j - 1]],
+                [cost[j] + 1, start[j]],
+                [nextCost[j - 1] + 1, nextStart[j - 1]],
+            ];
+            if (i > 1 && j > 1 && needle[i - 1] === text[j - 2] && needle[i - 2] === text[j - 1]) {
+                candidates.push([previousCost[j - 2] + 1, previousStart[j - 2]]);
+            }
+            [nextCost[j], nextStart[j]] = candidates.reduce((a, b) => b[0] < a[0] || (b[0] === a[0] && b[1] < a[1]) ? b : a);
+        }
+        previousCost = cost;
+        previousStart = start;
+        cost = nextCost;
+        start = nextStart;
+    }
+    // Likewise an equally close end further along the same alignment wins: "attakc" is all of "attack", not "attac".
+    let best = -1;
+    for (let j = 1; j <= text.length; j++) {
+        if (cost[j] > allowed) continue;
+        if (best === -1 || cost[j] < cost[best] || (cost[j] === cost[best] && start[j] === start[best])) best = j;
+    }
+    if (best === -1) return null;
+    return { start: start[best], end: best, score: MATCH_SCORES.fuzzy - 10 * cost[best] };
+};
+
+const matchText = (indexed: IndexedText, needle: string, allowTypos: boolean): TextMatch | null =>
+    findExact(indexed, needle) ?? findPinyin(indexed, needle) ?? (allowTypos ? findFuzzy(indexed, needle) : null);
+
+/** Every field of the event that `text` matches, best first. Typos are only forgiven in the short fields. */
+const findHits = (entry: IndexedEvent, text: string, scope: 'all' | 'title' | 'step'): SearchHit[] => {
+    const needle = text.trim().toLowerCase();
+    const hits: SearchHit[] = [];
+    const add = (field: SearchHitField, indexed: IndexedText, allowTypos: boolean, details: Pick<SearchHit, 'tag' | 'stepIndex'> = {}) => {
+        const match = matchText(indexed, needle, allowTypos);
+        if (match) hits.push({ field, ...details, start: match.start, end: match.end, score: match.score * FIELD_WEIGHTS[field] });
+    };
+    if (scope !== 'step') add('title', entry.title, true);
+    if (scope === 'all') {
+        add('description', entry.description, false);
+        entry.tags.forEach(tag => add('tag', tag, true, { tag: tag.text }));
+    }
+    if (scope !== 'title') {
+        entry.steps.forEach((step, stepIndex) => {
+            add('step', step.description, true, { stepIndex });
+            if (step.note) add('note', step.note, false, { stepIndex });
+        });
+    }
+    return hits.sort((a, b) => b.score - a.score);
+};
+
+// =================================================================
+// Evaluation
+// =================================================================
+
+const evaluate = (event: Event, entry: IndexedEvent, node: SearchNode): EventSearchResult | null => {
+    switch (node.kind) {
+        case 'and': {
+            const result: EventSearchResult = { score: 0, hits: [] };
+            for (const child of node.children) {
+                const childResult = evaluate(event, entry, child);
+                if (!childResult) return null;
+                result.score += childResult.score;
+                result.hits.push(...childResult.hits);
+            }
+            return result;
+        }
+        case 'or': {
+            const results = node.children.map(child => evaluate(event, entry, child)).filter((result): result is EventSearchResult => !!result);
+            if (results.length === 0) return null;
+            return { score: Math.max(...results.map(result => result.score)), hits: results.flatMap(result => result.hits) };
+        }
+        case 'not': return evaluate(event, entry, node.child) ? null : { score: 0, hits: [] };
+        case 'text':
+        case 'title':
+        case 'step': {
+            const hits = findHits(entry, node.text, node.kind === 'text' ? 'all' : node.kind);
+            return hits.length > 0 ? { score: hits[0].score, hits } : null;
+        }
+        default: return matchesSearchQuery(event, node) ? { score: 0, hits: [] } : null;
+    }
+};
+
+/** The events in the index that match the query, by event id. */
+export const searchEvents = (index: SearchIndex, node: SearchNode): Map<string, EventSearchResult> => {
+    const results = new Map<string, EventSearchResult>();
+    index.forEach((entry, event) => {
+        const result = evaluate(event, entry, node);
+        if (result) results.set(event.id, { score: result.score, hits: result.hits.sort((a, b) => b.score - a.score) });
+    });
+    return results;
+};
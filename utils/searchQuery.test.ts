@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { SearchNode, matchesSearchQuery, parseSearchQuery } from './searchQuery';
+
+const makeEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: '部署指南',
+    description: '如何部署到生产环境',
+    createdAt: new Date(2023, 9, 15),
+    steps: [
+        { id: 'step-1', description: '安装依赖', timestamp: new Date(2023, 9, 15), completed: true },
+        { id: 'step-2', description: '配置服务器', timestamp: new Date(2023, 9, 16), completed: false, note: '记得开放 443 端口' },
+    ],
+    tags: ['重要', '教程'],
+    mediaType: 'generic',
+    ...overrides,
+});
+
+const parse = (query: string): SearchNode => {
+    const result = parseSearchQuery(query);
+    if (result.error) throw new Error(`"${query}" failed to parse: ${result.error.message}`);
+    return result.node!;
+};
+
+const matches = (query: string, event = makeEvent()) => matchesSearchQuery(event, parse(query));
+
+describe('parseSearchQuery', () => {
+    it('returns no node for an empty query', () => {
+        expect(parseSearchQuery('   ')).toEqual({ node: null, error: null });
+    });
+
+    it('joins terms with AND', () => {
+        expect(parse('部署 指南')).toEqual({ kind: 'and', children: [{ kind: 'text', text: '部署' }, { kind: 'text', text: '指南' }] });
+    });
+
+    it('keeps the spaces of quoted phrases, also as field values', () => {
+        expect(parse('"生产 环境"')).toEqual({ kind: 'text', text: '生产 环境' });
+        expect(parse('step:"配置 服务器"')).toEqual({ kind: 'step', text: '配置 服务器' });
+    });
+
+    it('negates terms and groups with a leading minus', () => {
+        expect(parse('-tag:教程')).toEqual({ kind: 'not', child: { kind: 'tag', tag: '教程' } });
+        expect(parse('-(a b)')).toEqual({ kind: 'not', child: { kind: 'and', children: [{ kind: 'text', text: 'a' }, { kind: 'text', text: 'b' }] } });
+    });
+
+    it('binds OR and | more loosely than AND', () => {
+        expect(parse('a b OR c')).toEqual({
+            kind: 'or',
+            children: [{ kind: 'and', children: [{ kind: 'text', text: 'a' }, { kind: 'text', text: 'b' }] }, { kind: 'text', text: 'c' }],
+        });
+        expect(parse('a|c')).toEqual({ kind: 'or', children: [{ kind: 'text', text: 'a' }, { kind: 'text', text: 'c' }] });
+    });
+
+    it('reads comparisons and ranges of numeric and date fields', () => {
+        expect(parse('progress:>50')).toEqual({ kind: 'progress', comparison: '>', value: 50 });
+        expect(parse('rating:<=7.5')).toEqual({ kind: 'rating', comparison: '<=', value: 7.5 });
+        expect(parse('created:2023-10')).toEqual({ kind: 'created', comparison: '=', start: new Date(2023, 9, 1), end: new Date(2023, 10, 1) });
+        expect(parse('created:>=2023-10-15')).toEqual({ kind: 'created', comparison: '>=', start: new Date(2023, 9, 15), end: new Date(2023, 9, 16) });
+    });
+
+    it('accepts status labels and aliases', () => {
+        expect(parse('status:已完成')).toEqual({ kind: 'status', status: 'finished' });
+        expect(parse('status:done')).toEqual({ kind: 'status', status: 'finished' });
+    });
+
+    it('treats words whose key is not a field as plain words', () => {
+        expect(parse('Re:Zero')).toEqual({ kind: 'text', text: 'Re:Zero' });
+        expect(parse('https://x.com')).toEqual({ kind: 'text', text: 'https://x.com' });
+        expect(parse('3:00')).toEqual({ kind: 'text', text: '3:00' });
+    });
+
+    it('reports errors with the offsets of the offending part', () => {
+        expect(parseSearchQuery('a "b c').error).toMatchObject({ message: '引号未闭合', start: 2, end: 6 });
+        expect(parseSearchQuery('a progress:lots').error).toMatchObject({ start: 2, end: 15 });
+        expect(parseSearchQuery('x tag:').error).toMatchObject({ start: 2, end: 6 });
+        expect(parseSearchQuery('created:2023-13').error).toMatchObject({ start: 0, end: 15 });
+        expect(parseSearchQuery('status:unknown').error).toMatchObject({ start: 0, end: 14 });
+        expect(parseSearchQuery('(a b').error).toMatchObject({ message: '括号未闭合', start: 0, end: 1 });
+        expect(parseSearchQuery('a b)').error).toMatchObject({ message: '多余的右括号', start: 3, end: 4 });
+        expect(parseSearchQuery('a OR').error).toMatchObject({ message: 'OR 后缺少条件', start: 2, end: 4 });
+        expect(parseSearchQuery('OR a').error).toMatchObject({ message: 'OR 前缺少条件', start: 0, end: 2 });
+    });
+});
+
+describe('matchesSearchQuery', () => {
+    it('matches plain words in the title, description, tags, steps and notes', () => {
+        expect(matches('指南')).toBe(true);
+        expect(matches('生产')).toBe(true);
+        expect(matches('教程')).toBe(true);
+        expect(matches('依赖')).toBe(true);
+        expect(matches('443')).toBe(true);
+        expect(matches('不存在')).toBe(false);
+    });
+
+    it('requires every AND term and any OR term', () => {
+        expect(matches('部署 依赖')).toBe(true);
+        expect(matches('部署 不存在')).toBe(false);
+        expect(matches('不存在 OR 依赖')).toBe(true);
+    });
+
+    it('matches quoted phrases as a whole', () => {
+        expect(matches('"部署到生产"')).toBe(true);
+        expect(matches('"部署 生产"')).toBe(false);
+    });
+
+    it('negates terms', () => {
+        expect(matches('-tag:教程')).toBe(false);
+        expect(matches('-tag:草稿')).toBe(true);
+        expect(matches('部署 -(不存在 OR 依赖)')).toBe(false);
+    });
+
+    it('compares progress, rating and creation date', () => {
+        expect(matches('progress:50')).toBe(true);
+        expect(matches('progress:>50')).toBe(false);
+        expect(matches('rating:>=8')).toBe(false);
+        expect(matches('rating:>=8', makeEvent({ rating: 8 }))).toBe(true);
+        expect(matches('created:2023-10')).toBe(true);
+        expect(matches('created:<2023-10-15')).toBe(false);
+        expect(matches('created:<=2023-10-15')).toBe(true);
+        expect(matches('created:>2023')).toBe(false);
+    });
+
+    it('matches status, type, step and title fields', () => {
+        expect(matches('status:in-progress')).toBe(true);
+        expect(matches('status:finished', makeEvent({ lifecycleStatus: 'finished' }))).toBe(true);
+        expect(matches('type:anime')).toBe(false);
+        expect(matches('step:端口')).toBe(true);
+        expect(matches('title:生产')).toBe(false);
+    });
+
+    it('matches words with an unknown key as plain text', () => {
+        expect(matches('Re:Zero', makeEvent({ title: 'Re:Zero 第二季' }))).toBe(true);
+        expect(matches('https://x.com', makeEvent({ description: '见 https://x.com/post' }))).toBe(true);
+        expect(matches('Re:Zero')).toBe(false);
+    });
+});
@@ -0,0 +1,382 @@
+// =================================================================
+// Search queries
+// =================================================================
+//
+// The search box accepts plain words as well as field filters:
+//
+//   tag:重要 -tag:教程 status:completed progress:>50 created:2023-10 step:"部署"
+//
+// Terms separated by spaces must all match. `OR` (or `|`) between terms lets
+// either side match, and parentheses group terms. A leading `-` negates a term.
+// Quoted phrases keep their spaces. Plain words match the title, the
+// description, tags, steps and step notes; a word whose key is not a field,
+// such as `Re:Zero`, is a plain word too.
+//
+// `parseSearchQuery` turns the text into a tree, or reports the first syntax
+// error with its position; `matchesSearchQuery` evaluates that tree against an
+// event by plain substrings. The search index (`searchIndex.ts`) evaluates the
+// same tree with pinyin and typo-tolerant matching and ranks the results.
+// `getSearchCompletions` suggests field keys and values for the word at the
+// cursor.
+
+import { Event, LifecycleStatus, MediaType } from '../types';
+import { LIFECYCLE_STATUSES, getLifecycleStatus } from './lifecycle';
+import { MEDIA_TYPES } from './mediaTypes';
+
+export type SearchField = 'tag' | 'status' | 'type' | 'progress' | 'rating' | 'created' | 'step' | 'title';
+
+export const SEARCH_FIELDS: { key: SearchField; label: string; example: string }[] = [
+    { key: 'tag', label: '标签', example: 'tag:重要' },
+    { key: 'status', label: '状态', example: 'status:finished' },
+    { key: 'type', label: '类型', example: 'type:anime' },
+    { key: 'progress', label: '进度 (%)', example: 'progress:>50' },
+    { key: 'rating', label: '评分', example: 'rating:>=8' },
+    { key: 'created', label: '创建日期', example: 'created:2023-10' },
+    { key: 'step', label: '步骤内容', example: 'step:"部署"' },
+    { key: 'title', label: '标题', example: 'title:指南' },
+];
+
+/** Words people are likely to type for a status besides its id and label. */
+const STATUS_ALIASES: Record<string, LifecycleStatus> = {
+    completed: 'finished',
+    done: 'finished',
+    todo: 'planned',
+    active: 'in-progress',
+    doing: 'in-progress',
+    paused: 'on-hold',
+};
+
+export type Comparison = '=' | '>' | '>=' | '<' | '<=';
+
+export type SearchNode =
+    | { kind: 'and'; children: SearchNode[] }
+    | { kind: 'or'; children: SearchNode[] }
+    | { kind: 'not'; child: SearchNode }
+    /** A plain word or phrase. */
+    | { kind: 'text'; text: string }
+    | { kind: 'tag'; tag: string }
+    | { kind: 'status'; status: LifecycleStatus }
+    | { kind: 'type'; mediaType: MediaType }
+    | { kind: 'progress' | 'rating'; comparison: Comparison; value: number }
+    /** `start` and `end` (exclusive) span the year, month or day that was given. */
+    | { kind: 'created'; comparison: Comparison; start: Date; end: Date }
+    | { kind: 'step' | 'title'; text: string };
+
+export interface SearchQueryError {
+    message: string;
+    /** The offending part of the query, as string offsets. */
+    start: number;
+    end: number;
+}
+
+/** `node` is null for an empty query. */
+export type ParsedSearchQuery = { node: SearchNode | null; error: null } | { node: null; error: SearchQueryError };
+
+class SearchSyntaxError extends Error {
+    start: number;
+    end: number;
+
+    constructor(message: string, start: number, end: number) {
+        super(message);
+        this.name = 'SearchSyntaxError';
+        this.start = start;
+        this.end = end;
+    }
+}
+
+// =================================================================
+// Tokenizer
+// =================================================================
+
+type Token =
+    | { type: '(' | ')' | 'or' | 'not'; start: number; end: number }
+    | { type: 'term'; field?: SearchField; value: string; start: number; end: number };
+
+const isBoundary = (ch: string) => /\s/.test(ch) || ch === '(' || ch === ')' || ch === '"';
+
+const isSearchField = (key: string): key is SearchField => SEARCH_FIELDS.some(field => field.key === key);
+
+/** Reads a quoted phrase starting at the quote at `start`. */
+const readPhrase = (input: string, start: number): { value: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) throw new SearchSyntaxError('引号未闭合', start, input.length);
+    return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < input.length) {
+        const ch = input[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '(' || ch === ')') {
+            tokens.push({ type: ch, start: i, end: i + 1 });
+            i++;
+        } else if (ch === '|') {
+            tokens.push({ type: 'or', start: i, end: i + 1 });
+            i++;
+        } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]) && input[i + 1] !== ')') {
+            tokens.push({ type: 'not', start: i, end: i + 1 });
+            i++;
+        } else if (ch === '"') {
+            const phrase = readPhrase(input, i);
+            if (phrase.value.trim()) tokens.push({ type: 'term', value: phrase.value, start: i, end: phrase.end });
+            i = phrase.end;
+        } else {
+            const start = i;
+            while (i < input.length && !isBoundary(input[i]) && input[i] !== '|') i++;
+            const word = input.slice(start, i);
+            if (word === 'OR') {
+                tokens.push({ type: 'or', start, end: i });
+                continue;
+            }
+            const colon = word.indexOf(':');
+            const field = word.slice(0, colon).toLowerCase();
+            // Only a known key before the colon makes a field, so words such as "3:00", "Re:Zero" or URLs stay plain words.
+            if (colon <= 0 || !isSearchField(field)) {
+                tokens.push({ type: 'term', value: word, start, end: i });
+                continue;
+            }
+            let value = word.slice(colon + 1);
+            if (value === '' && input[i] === '"') {
+                const phrase = readPhrase(input, i);
+                value = phrase.value;
+                i = phrase.end;
+            }
+            if (value.trim() === '') throw new SearchSyntaxError(`${field}: 缺少值，例如 ${SEARCH_FIELDS.find(f => f.key === field)!.example}`, start, i);
+            tokens.push({ type: 'term', field, value, start, end: i });
+        }
+    }
+    return tokens;
+};
+
+// =================================================================
+// Parser
+// =================================================================
+
+const parseNumber = (token: Token & { type: 'term' }, field: 'progress' | 'rating'): SearchNode => {
+    const match = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)%?$/.exec(token.value);
+    if (!match) throw new SearchSyntaxError(`${field}: 应为数字，例如 ${SEARCH_FIELDS.find(f => f.key === field)!.example}`, token.start, token.end);
+    return { kind: field, comparison: (match[1] || '=') as Comparison, value: Number(match[2]) };
+};
+
+const parseDate = (token: Token & { type: 'term' }): SearchNode => {
+    const match = /^(>=|<=|>|<|=)?(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(token.value);
+    const fail = () => new SearchSyntaxError('created: 应为 年、年-月 或 年-月-日，例如 created:2023-10', token.start, token.end);
+    if (!match) throw fail();
+    const comparison = (match[1] || '=') as Comparison;
+    const year = Number(match[2]);
+    const month = match[3] ? Number(match[3]) - 1 : undefined;
+    const day = match[4] ? Number(match[4]) : undefined;
+    if (month !== undefined && (month < 0 || month > 11)) throw fail();
+    const start = new Date(year, month ?? 0, day ?? 1);
+    if (day !== undefined && start.getDate() !== day) throw fail();
+    const end = day !== undefined ? new Date(year, month!, day + 1)
+        : month !== undefined ? new Date(year, month + 1, 1)
+        : new Date(year + 1, 0, 1);
+    return { kind: 'created', comparison, start, end };
+};
+
+const findByIdOrLabel = <T extends string>(options: { id: T; label: string }[], value: string): T | undefined => {
+    const lower = value.toLowerCase();
+    return options.find(option => option.id === lower || option.label === value)?.id;
+};
+
+const termToNode = (token: Token & { type: 'term' }): SearchNode => {
+    switch (token.field) {
+        case undefined: return { kind: 'text', text: token.value };
+        case 'tag': return { kind: 'tag', tag: token.value };
+        case 'status': {
+            const status = findByIdOrLabel(LIFECYCLE_STATUSES, token.value) ?? STATUS_ALIASES[token.value.toLowerCase()];
+            if (!status) throw new SearchSyntaxError(`未知状态 "${token.value}"，可用：${LIFECYCLE_STATUSES.map(s => s.id).join('、')}`, token.start, token.end);
+            return { kind: 'status', status };
+        }
+        case 'type': {
+            const mediaType = findByIdOrLabel(MEDIA_TYPES, token.value);
+            if (!mediaType) throw new SearchSyntaxError(`未知类型 "${token.value}"，可用：${MEDIA_TYPES.map(t => t.id).join('、')}`, token.start, token.end);
+            return { kind: 'type', mediaType };
+        }
+        case 'progress':
+        case 'rating': return parseNumber(token, token.field);
+        case 'created': return parseDate(token);
+        case 'step':
+        case 'title': return { kind: token.field, text: token.value };
+    }
+};
+
+const parseTokens = (tokens: Token[], inputLength: number): SearchNode => {
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const startOf = (token: Token | undefined) => token ? token.start : inputLength;
+
+    const parseOr = (): SearchNode => {
+        const children = [parseAnd()];
+        while (peek()?.type === 'or') {
+            const or = tokens[pos++];
+            if (!peek() || peek().type === ')' || peek().type === 'or') throw new SearchSyntaxError('OR 后缺少条件', or.start, or.end);
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { kind: 'or', children };
+    };
+
+    const parseAnd = (): SearchNode => {
+        const children: SearchNode[] = [];
+        while (peek() && peek().type !== ')' && peek().type !== 'or') children.push(parseUnary());
+        if (children.length === 0) {
+            const next = peek();
+            throw new SearchSyntaxError(next?.type === 'or' ? 'OR 前缺少条件' : '缺少条件', startOf(next), next ? next.end : inputLength);
+        }
+        return children.length === 1 ? children[0] : { kind: 'and', children };
+    };
+
+    const parseUnary = (): SearchNode => {
+        const token = tokens[pos++];
+        switch (token.type) {
+            case 'not': {
+                const next = peek();
+                if (!next || next.type === ')' || next.type === 'or') throw new SearchSyntaxError('"-" 后缺少条件', token.start, token.end);
+                return { kind: 'not', child: parseUnary() };
+            }
+            case '(': {
+                if (peek()?.type === ')') throw new SearchSyntaxError('括号内缺少条件', token.start, peek().end);
+                const node = parseOr();
+                if (peek()?.type !== ')') throw new SearchSyntaxError('括号未闭合', token.start, token.end);
+                pos++;
+                return node;
+            }
+            case ')': throw new SearchSyntaxError('多余的右括号', token.start, token.end);
+            case 'or': throw new SearchSyntaxError('OR 前缺少条件', token.start, token.end);
+            case 'term': return termToNode(token);
+        }
+    };
+
+    const node = parseOr();
+    const rest = peek();
+    if (rest) throw new SearchSyntaxError('多余的右括号', rest.start, rest.end);
+    return node;
+};
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+    try {
+        const tokens = tokenize(input);
+        return { node: tokens.length > 0 ? parseTokens(tokens, input.length) : null, error: null };
+    } catch (error) {
+        if (!(error instanceof SearchSyntaxError)) throw error;
+        return { node: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+};
+
+// =================================================================
+// Evaluation
+// =================================================================
+
+const includesText = (haystack: string | undefined, needle: string) => !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+const compare = (actual: number, comparison: Comparison, expected: number): boolean => {
+    switch (comparison) {
+        case '=': return actual === expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+    }
+};
+
+/** Whether a date falls on the given side of a period; `=` means within it. */
+const compareToPeriod = (date: Date, comparison: Comparison, start: Date, end: Date): boolean => {
+    const time = date.getTime();
+    switch (comparison) {
+        case '=': return time >= start.getTime() && time < end.getTime();
+        case '>': return time >= end.getTime();
+        case '>=': return time >= start.getTime();
+        case '<': return time < start.getTime();
+        case '<=': return time < end.getTime();
+    }
+};
+
+const getProgressPercent = (event: Event) =>
+    event.steps.length === 0 ? 0 : event.steps.filter(step => step.completed).length / event.steps.length * 100;
+
+export const matchesSearchQuery = (event: Event, node: SearchNode): boolean => {
+    switch (node.kind) {
+        case 'and': return node.children.every(child => matchesSearchQuery(event, child));
+        case 'or': return node.children.some(child => matchesSearchQuery(event, child));
+        case 'not': return !matchesSearchQuery(event, node.child);
+        case 'text':
+            return includesText(event.title, node.text)
+                || includesText(event.description, node.text)
+                || !!event.tags?.some(tag => includesText(tag, node.text))
+                || event.steps.some(step => includesText(step.description, node.text) || includesText(step.note, node.text));
+        case 'tag': return !!event.tags?.some(tag => tag.toLowerCase() === node.tag.toLowerCase());
+        case 'status': return getLifecycleStatus(event) === node.status;
+        case 'type': return event.mediaType === node.mediaType;
+        case 'progress': return compare(getProgressPercent(event), node.comparison, node.value);
+        case 'rating': return event.rating !== undefined && compare(event.rating, node.comparison, node.value);
+        case 'created': return compareToPeriod(event.createdAt, node.comparison, node.start, node.end);
+        case 'step': return event.steps.some(step => includesText(step.description, node.text) || includesText(step.note, node.text));
+        case 'title': return includesText(event.title, node.text);
+    }
+};
+
+// =================================================================
+// Completions
+// =================================================================
+
+export interface SearchCompletion {
+    label: string;
+    detail?: string;
+    /** Replaces the query between `from` and `to`. */
+    insert: string;
+}
+
+const MAX_COMPLETIONS = 8;
+
+/** A value as it has to be typed: quoted if it contains spaces or parentheses. */
+export const formatSearchValue = (value: string): string => /[\s()"|]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+/**
+ * Suggestions for the word at `cursor`: field keys while typing a key, values
+ * after `tag:`, `status:` or `type:`, and matching tags for any other word.
+ */
+export const getSearchCompletions = (query: string, cursor: number, tags: string[]): { from: number; to: number; items: SearchCompletion[] } | null => {
+    let start = cursor;
+    while (start > 0 && !/[\s()]/.test(query[start - 1])) start--;
+    let to = cursor;
+    while (to < query.length && !/[\s()]/.test(query[to])) to++;
+    const from = query[start] === '-' ? start + 1 : start;
+    const fragment = query.slice(from, cursor);
+
+    if (fragment === '') {
+        // Only an empty box offers every field, as a reminder of what can be searched.
+        if (query.trim() !== '') return null;
+        return { from, to, items: SEARCH_FIELDS.map(field => ({ label: `${field.key}:`, detail: field.label, insert: `${field.key}:` })) };
+    }
+
+    const colon = fragment.indexOf(':');
+    if (colon > 0) {
+        const key = fragment.slice(0, colon).toLowerCase();
+        const partial = fragment.slice(colon + 1).replace(/^"/, '').toLowerCase();
+        const values: { value: string; detail?: string }[] =
+            key === 'tag' ? tags.map(tag => ({ value: tag }))
+            : key === 'status' ? LIFECYCLE_STATUSES.map(s => ({ value: s.id, detail: s.label }))
+            : key === 'type' ? MEDIA_TYPES.map(t => ({ value: t.id, detail: t.label }))
+            : [];
+        const items = values
+            .filter(({ value, detail }) => value.toLowerCase().includes(partial) || !!detail?.includes(partial))
+            .slice(0, MAX_COMPLETIONS)
+            .map(({ value, detail }) => ({ label: value, detail, insert: `${key}:${formatSearchValue(value)} ` }));
+        return items.length > 0 ? { from, to, items } : null;
+    }
+
+    const lower = fragment.toLowerCase();
+    const items: SearchCompletion[] = [
+        ...SEARCH_FIELDS
+            .filter(field => field.key.startsWith(lower))
+            .map(field => ({ label: `${field.key}:`, detail: field.label, insert: `${field.key}:` })),
+        ...tags
+            .filter(tag => tag.toLowerCase().includes(lower))
+            .map(tag => ({ label: `tag:${tag}`, detail: '标签', insert: `tag:${formatSearchValue(tag)} ` })),
+    ].slice(0, MAX_COMPLETIONS);
+    return items.length > 0 ? { from, to, items } : null;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { collectCompletions, getEventFinishedAt, getTagStatistics } from './statistics';
+
+const makeEvent = (overrides: Partial<Event> = {}): Event => ({
+    id: 'event-1',
+    title: '进击的巨人',
+    description: '',
+    createdAt: new Date(2023, 9, 1),
+    steps: [
+        { id: 'step-1', description: '第1集', timestamp: new Date(2023, 9, 1), completed: true, completedAt: new Date(2023, 9, 2) },
+        { id: 'step-2', description: '第2集', timestamp: new Date(2023, 9, 1), completed: true, completedAt: new Date(2023, 9, 5) },
+    ],
+    tags: ['动画'],
+    mediaType: 'anime',
+    ...overrides,
+});
+
+const range = { from: new Date(2023, 9, 1), to: new Date(2023, 9, 31, 23, 59, 59, 999) };
+
+const openSteps = makeEvent().steps.map((step, index) => index === 1 ? { ...step, completed: false, completedAt: undefined } : step);
+
+describe('getEventFinishedAt', () => {
+    it('is the last completion of an event whose steps are all completed', () => {
+        expect(getEventFinishedAt(makeEvent())).toEqual(new Date(2023, 9, 5));
+    });
+
+    it('follows the lifecycle status when it is set', () => {
+        expect(getEventFinishedAt(makeEvent({ lifecycleStatus: 'dropped' }))).toBeNull();
+        expect(getEventFinishedAt(makeEvent({ steps: openSteps, lifecycleStatus: 'finished' }))).toEqual(new Date(2023, 9, 2));
+        expect(getEventFinishedAt(makeEvent({ steps: openSteps }))).toBeNull();
+    });
+
+    it('is unknown without completion times', () => {
+        const undated = makeEvent().steps.map(step => ({ ...step, completedAt: undefined }));
+        expect(getEventFinishedAt(makeEvent({ steps: undated }))).toBeNull();
+        expect(getEventFinishedAt(makeEvent({ steps: [], lifecycleStatus: 'finished' }))).toBeNull();
+    });
+});
+
+describe('getTagStatistics', () => {
+    it('counts finished events by their lifecycle status', () => {
+        const events = [
+            makeEvent(),
+            makeEvent({ id: 'event-2', lifecycleStatus: 'on-hold' }),
+            makeEvent({ id: 'event-3', steps: openSteps, lifecycleStatus: 'finished' }),
+        ];
+        const [stats] = getTagStatistics(events, collectCompletions(events).completions, range);
+        expect(stats).toEqual({ tag: '动画', events: 3, finishedEvents: 2, completedSteps: 5 });
+    });
+});
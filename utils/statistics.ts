@@ -0,0 +1,235 @@
+// =================================================================
+// Progress statistics
+// =================================================================
+//
+// Everything the statistics screen shows is derived from the events of the
+// active database. Time series are based on `completedAt`, so steps that were
+// completed before completion times were recorded only count towards totals;
+// `undatedCount` says how many of them there are.
+//
+// Days are local calendar days and weeks start on Monday. Whether an event is
+// finished follows its lifecycle status, so an event marked as dropped does
+// not count even when all of its steps are completed.
+
+import { Event, StepActivity } from '../types';
+import { getLifecycleStatus } from './lifecycle';
+
+export type StatisticsRangePreset = '7d' | '30d' | '90d' | '365d' | 'all';
+export type StatisticsGranularity = 'day' | 'week' | 'month';
+
+export const STATISTICS_RANGE_PRESETS: { id: StatisticsRangePreset; label: string; days?: number }[] = [
+    { id: '7d', label: '近 7 天', days: 7 },
+    { id: '30d', label: '近 30 天', days: 30 },
+    { id: '90d', label: '近 90 天', days: 90 },
+    { id: '365d', label: '近一年', days: 365 },
+    { id: 'all', label: '全部' },
+];
+
+export const STATISTICS_GRANULARITIES: { id: StatisticsGranularity; label: string }[] = [
+    { id: 'day', label: '日' },
+    { id: 'week', label: '周' },
+    { id: 'month', label: '月' },
+];
+
+/** Inclusive range of local days. */
+export interface StatisticsRange {
+    from: Date;
+    to: Date;
+}
+
+export interface StepCompletion {
+    eventId: string;
+    eventTitle: string;
+    stepId: string;
+    description: string;
+    at: Date;
+}
+
+export interface CompletionBucket {
+    start: Date;
+    label: string;
+    count: number;
+}
+
+export interface TagStatistics {
+    tag: string;
+    events: number;
+    finishedEvents: number;
+    /** Steps of the tag's events completed within the range. */
+    completedSteps: number;
+}
+
+export interface ActivityFeedEntry extends StepActivity {
+    eventId: string;
+    eventTitle: string;
+}
+
+export interface Statistics {
+    range: StatisticsRange;
+    completedSteps: number;
+    /** Completed steps without a completion time, which the time series leave out. */
+    undatedCount: number;
+    buckets: CompletionBucket[];
+    startedEvents: number;
+    finishedEvents: number;
+    tags: TagStatistics[];
+    currentStreak: number;
+    longestStreak: number;
+    /** Days from creation to the last completed step, over events finished within the range. */
+    averageDaysToComplete: number | null;
+    activity: ActivityFeedEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_LIMIT = 50;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/** `YYYY-MM-DD` of the local day. */
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const isInRange = (date: Date, range: StatisticsRange) => date >= range.from && date <= range.to;
+
+/** Every completed step with its completion time, oldest first. */
+export const collectCompletions = (events: Event[]): { completions: StepCompletion[]; undatedCount: number } => {
+    const completions: StepCompletion[] = [];
+    let undatedCount = 0;
+    events.forEach(event => event.steps.forEach(step => {
+        if (!step.completed) return;
+        if (!step.completedAt) {
+            undatedCount++;
+            return;
+        }
+        completions.push({ eventId: event.id, eventTitle: event.title, stepId: step.id, description: step.description, at: step.completedAt });
+    }));
+    completions.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return { completions, undatedCount };
+};
+
+/**
+ * When the last completed step of a finished event was completed; events
+ * marked as finished by hand may have steps left open. `null` for unfinished
+ * events and for those whose completion time is not known.
+ */
+export const getEventFinishedAt = (event: Event): Date | null => {
+    if (getLifecycleStatus(event) !== 'finished') return null;
+    const completed = event.steps.filter(step => step.completed);
+    if (completed.length === 0 || completed.some(step => !step.completedAt)) return null;
+    return new Date(Math.max(...completed.map(step => step.completedAt!.getTime())));
+};
+
+/** The range for a preset, ending today. "All" starts at the oldest event or completion. */
+export const getStatisticsRange = (preset: StatisticsRangePreset, events: Event[], now: Date = new Date()): StatisticsRange => {
+    const to = endOfDay(now);
+    const days = STATISTICS_RANGE_PRESETS.find(p => p.id === preset)?.days;
+    if (days) return { from: addDays(startOfDay(now), -(days - 1)), to };
+    const dates = events.flatMap(event => [event.createdAt, ...event.steps.flatMap(step => step.completedAt ? [step.completedAt] : [])]);
+    const oldest = dates.reduce((min, date) => date < min ? date : min, now);
+    return { from: startOfDay(oldest), to };
+};
+
+const bucketStart = (date: Date, granularity: StatisticsGranularity) =>
+    granularity === 'day' ? startOfDay(date) : granularity === 'week' ? startOfWeek(date) : startOfMonth(date);
+
+const nextBucket = (start: Date, granularity: StatisticsGranularity) =>
+    granularity === 'day' ? addDays(start, 1) : granularity === 'week' ? addDays(start, 7) : new Date(start.getFullYear(), start.getMonth() + 1, 1);
+
+const bucketLabel = (start: Date, granularity: StatisticsGranularity) =>
+    granularity === 'month' ? `${start.getFullYear()}-${pad(start.getMonth() + 1)}` : toDayKey(start);
+
+/** Completions per day, week or month, including empty ones, for every bucket that overlaps the range. */
+export const bucketCompletions = (completions: StepCompletion[], range: StatisticsRange, granularity: StatisticsGranularity): CompletionBucket[] => {
+    const counts = new Map<number, number>();
+    completions.forEach(({ at }) => {
+        if (!isInRange(at, range)) return;
+        const key = bucketStart(at, granularity).getTime();
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    const buckets: CompletionBucket[] = [];
+    for (let start = bucketStart(range.from, granularity); start <= range.to; start = nextBucket(start, granularity)) {
+        buckets.push({ start, label: bucketLabel(start, granularity), count: counts.get(start.getTime()) ?? 0 });
+    }
+    return buckets;
+};
+
+/**
+ * Consecutive days with at least one completion. The current streak is still
+ * alive when nothing has been completed yet today.
+ */
+export const getStreaks = (completions: StepCompletion[], now: Date = new Date()): { current: number; longest: number } => {
+    const days = [...new Set(completions.map(({ at }) => startOfDay(at).getTime()))].sort((a, b) => a - b);
+    let longest = 0;
+    let run = 0;
+    days.forEach((day, i) => {
+        // Rounded, since a day is not always 24 hours long around daylight saving changes.
+        run = i > 0 && Math.round((day - days[i - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+
+    const daySet = new Set(days);
+    let cursor = startOfDay(now);
+    if (!daySet.has(cursor.getTime())) cursor = addDays(cursor, -1);
+    let current = 0;
+    while (daySet.has(cursor.getTime())) {
+        current++;
+        cursor = addDays(cursor, -1);
+    }
+    return { current, longest };
+};
+
+export const getTagStatistics = (events: Event[], completions: StepCompletion[], range: StatisticsRange): TagStatistics[] => {
+    const completedByEvent = new Map<string, number>();
+    completions.forEach(({ eventId, at }) => {
+        if (isInRange(at, range)) completedByEvent.set(eventId, (completedByEvent.get(eventId) ?? 0) + 1);
+    });
+    const byTag = new Map<string, TagStatistics>();
+    events.forEach(event => {
+        const isFinished = getLifecycleStatus(event) === 'finished';
+        (event.tags ?? []).forEach(tag => {
+            const stats = byTag.get(tag) ?? { tag, events: 0, finishedEvents: 0, completedSteps: 0 };
+            stats.events++;
+            if (isFinished) stats.finishedEvents++;
+            stats.completedSteps += completedByEvent.get(event.id) ?? 0;
+            byTag.set(tag, stats);
+        });
+    });
+    return [...byTag.values()].sort((a, b) => b.completedSteps - a.completedSteps || b.events - a.events || a.tag.localeCompare(b.tag));
+};
+
+/** The step activity of all events within the range, newest first. */
+export const getActivityFeed = (events: Event[], range: StatisticsRange, limit: number = FEED_LIMIT): ActivityFeedEntry[] =>
+    events
+        .flatMap(event => (event.activityLog ?? [])
+            .filter(activity => isInRange(activity.at, range))
+            .map(activity => ({ ...activity, eventId: event.id, eventTitle: event.title })))
+        .sort((a, b) => b.at.getTime() - a.at.getTime())
+        .slice(0, limit);
+
+export const computeStatistics = (events: Event[], range: StatisticsRange, granularity: StatisticsGranularity, now: Date = new Date()): Statistics => {
+    const { completions, undatedCount } = collectCompletions(events);
+    const finishedWithin = events
+        .map(event => ({ event, finishedAt: getEventFinishedAt(event) }))
+        .filter((item): item is { event: Event; finishedAt: Date } => !!item.finishedAt && isInRange(item.finishedAt, range));
+    const streaks = getStreaks(completions, now);
+    return {
+        range,
+        completedSteps: completions.filter(({ at }) => isInRange(at, range)).length,
+        undatedCount,
+        buckets: bucketCompletions(completions, range, granularity),
+        startedEvents: events.filter(event => isInRange(event.createdAt, range)).length,
+        finishedEvents: finishedWithin.length,
+        tags: getTagStatistics(events, completions, range),
+        currentStreak: streaks.current,
+        longestStreak: streaks.longest,
+        averageDaysToComplete: finishedWithin.length > 0
+            ? finishedWithin.reduce((sum, { event, finishedAt }) => sum + (finishedAt.getTime() - event.createdAt.getTime()) / DAY_MS, 0) / finishedWithin.length
+            : null,
+        activity: getActivityFeed(events, range),
+    };
+};
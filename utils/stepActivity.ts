@@ -0,0 +1,100 @@
+// =================================================================
+// Step activity
+// =================================================================
+//
+// Every event keeps an append-only log of what happened to its steps
+// (`Event.activityLog`): steps being added, removed, renamed, completed and
+// uncompleted. The log is derived by comparing an event's steps before and
+// after a change, so it works the same for every editor.
+//
+// Actions are stamped with the log before they are applied and queued. They
+// then carry the complete log, which keeps journal replays and imports from
+// logging anything twice. Undo and redo are stamped again against the current
+// state, so they add entries instead of erasing the ones they roll back.
+
+import { AppData, Event, PendingAction, ProgressStep, StepActivity, StepActivityType } from '../types';
+import { applyPendingActions } from './pendingActions';
+
+export const STEP_ACTIVITY_LABELS: Record<StepActivityType, string> = {
+    added: '添加',
+    removed: '删除',
+    renamed: '重命名',
+    completed: '完成',
+    uncompleted: '取消完成',
+};
+
+export const STEP_ACTIVITY_TYPES = Object.keys(STEP_ACTIVITY_LABELS) as StepActivityType[];
+
+/** Describes an entry in one line, e.g. "完成「第3集」". */
+export const describeStepActivity = (activity: StepActivity): string =>
+    activity.type === 'renamed'
+        ? `将「${activity.previousDescription ?? ''}」重命名为「${activity.description}」`
+        : `${STEP_ACTIVITY_LABELS[activity.type]}「${activity.description}」`;
+
+/**
+ * Compares `previous` steps with `steps`. Returns the steps with `completedAt`
+ * set on newly completed steps and dropped from uncompleted ones, and the log
+ * with an entry for every difference appended.
+ */
+export const applyStepChanges = (
+    previous: Pick<Event, 'steps' | 'activityLog'>,
+    steps: ProgressStep[],
+    at: Date = new Date(),
+): { steps: ProgressStep[]; activityLog: StepActivity[] } => {
+    const previousById = new Map(previous.steps.map(step => [step.id, step]));
+    const nextIds = new Set(steps.map(step => step.id));
+    const entries: StepActivity[] = [];
+    const log = (type: StepActivityType, step: ProgressStep, previousDescription?: string) =>
+        entries.push({ type, stepId: step.id, description: step.description, ...(previousDescription !== undefined && { previousDescription }), at });
+
+    previous.steps.forEach(step => { if (!nextIds.has(step.id)) log('removed', step); });
+    const stampedSteps = steps.map(step => {
+        const before = previousById.get(step.id);
+        if (!before) {
+            log('added', step);
+            if (step.completed) log('completed', step);
+        } else {
+            if (before.description !== step.description) log('renamed', step, before.description);
+            if (before.completed !== step.completed) log(step.completed ? 'completed' : 'uncompleted', step);
+        }
+        if (step.completed && !step.completedAt) {
+            // Steps completed before completion times were recorded keep no time rather than a made-up one.
+            const keepUnknown = before?.completed && !before.completedAt;
+            return keepUnknown ? step : { ...step, completedAt: at };
+        }
+        if (!step.completed && step.completedAt) {
+            const { completedAt: _completedAt, ...rest } = step;
+            return rest;
+        }
+        return step;
+    });
+
+    const activityLog = previous.activityLog ?? [];
+    return { steps: stampedSteps, activityLog: entries.length > 0 ? [...activityLog, ...entries] : activityLog };
+};
+
+/**
+ * Stamps the step changes of event updates in `actions` onto their payloads,
+ * as if the actions were applied in order on top of `before`. The payload's
+ * own log is replaced by the current log plus the new entries.
+ */
+export const stampStepActivity = (before: AppData, actions: PendingAction[], at: Date = new Date()): PendingAction[] => {
+    let state = before;
+    return actions.map(action => {
+        let stamped = action;
+        if (action.type === 'UPDATE_EVENT') {
+            const previous = state.events.find(e => e.id === action.payload.event.id);
+            if (previous) {
+                const changes = applyStepChanges(previous, action.payload.event.steps, at);
+                stamped = { ...action, payload: { ...action.payload, event: { ...action.payload.event, ...changes } } };
+            }
+        } else if (action.type === 'UPDATE_EVENT_STEPS') {
+            const previous = state.events.find(e => e.id === action.payload.eventId);
+            if (previous) {
+                stamped = { ...action, payload: { ...action.payload, ...applyStepChanges(previous, action.payload.steps, at) } };
+            }
+        }
+        state = applyPendingActions(state, [stamped]);
+        return stamped;
+    });
+};
@@ -0,0 +1,50 @@
+// =================================================================
+// Step groups
+// =================================================================
+//
+// An event may split its steps into named groups such as a season, a volume
+// or an arc (`Event.stepGroups`). Steps point at their group with `groupId`;
+// steps without one, or whose group no longer exists, are ungrouped and come
+// first. Groups are shown in the order of `stepGroups`, and the steps of a
+// group keep their timestamp order.
+
+import { ProgressStep, StepGroup } from '../types';
+
+export interface StepSection {
+    /** `null` for the steps that belong to no group. */
+    group: StepGroup | null;
+    steps: ProgressStep[];
+}
+
+const byTimestamp = (a: ProgressStep, b: ProgressStep) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * Splits steps into sections in display order, keeping the order of `steps`
+ * within each section. Every group gets a section, even an empty one; the
+ * ungrouped section is left out when it is empty.
+ */
+export const groupSteps = (steps: ProgressStep[], groups: StepGroup[] = []): StepSection[] => {
+    const groupIds = new Set(groups.map(group => group.id));
+    const ungrouped = steps.filter(step => !step.groupId || !groupIds.has(step.groupId));
+    const sections: StepSection[] = groups.map(group => ({ group, steps: steps.filter(step => step.groupId === group.id) }));
+    return ungrouped.length > 0 || groups.length === 0 ? [{ group: null, steps: ungrouped }, ...sections] : sections;
+};
+
+/** The steps in display order, i.e. ungrouped steps first and then group by group. */
+export const orderStepsByGroup = (steps: ProgressStep[], groups: StepGroup[] = []): ProgressStep[] =>
+    groupSteps([...steps].sort(byTimestamp), groups).flatMap(section => section.steps);
+
+/** Moves a step into a group, or out of any group when `groupId` is undefined. */
+export const assignStepGroup = (step: ProgressStep, groupId: string | undefined): ProgressStep => {
+    if (groupId) return { ...step, groupId };
+    const { groupId: _groupId, ...rest } = step;
+    return rest;
+};
+
+/** Drops the `groupId` of steps whose group is not in `groups`. */
+export const detachOrphanSteps = (steps: ProgressStep[], groups: StepGroup[]): ProgressStep[] => {
+    const groupIds = new Set(groups.map(group => group.id));
+    return steps.map(step => !step.groupId || groupIds.has(step.groupId) ? step : assignStepGroup(step, undefined));
+};
+
+export const countCompletedSteps = (steps: ProgressStep[]) => steps.filter(step => step.completed).length;
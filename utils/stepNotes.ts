@@ -0,0 +1,17 @@
+// =================================================================
+// Step notes
+// =================================================================
+//
+// Steps may carry a multi-line Markdown note (`ProgressStep.note`), e.g.
+// impressions of an episode or minutes of a meeting. Blank notes are not
+// stored, so "has a note" is simply `!!step.note`.
+
+import { ProgressStep } from '../types';
+
+/** Sets or, for blank text, removes the note of a step. */
+export const setStepNote = (step: ProgressStep, note: string): ProgressStep => {
+    const trimmed = note.trim();
+    if (trimmed) return { ...step, note: trimmed };
+    const { note: _note, ...rest } = step;
+    return rest;
+};
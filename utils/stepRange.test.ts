@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_GENERATED_STEPS, StepRangeOptions, generateStepRange, generateStepRangeBySeason, getDefaultStepRange, getStepRangeError } from './stepRange';
+
+const options = (overrides: Partial<StepRangeOptions> = {}): StepRangeOptions => ({ pattern: '第{n}集', start: 1, end: 3, seasons: null, ...overrides });
+
+describe('generateStepRange', () => {
+    it('expands {n} over the range', () => {
+        expect(generateStepRange(options())).toEqual(['第1集', '第2集', '第3集']);
+        expect(generateStepRange(options({ start: 5, end: 5 }))).toEqual(['第5集']);
+    });
+
+    it('pads numbers with zeros and repeats the range for every season', () => {
+        expect(generateStepRange(options({ pattern: 'S{season}E{n:02}', end: 2, seasons: { from: 1, to: 2 } }))).toEqual(['S1E01', 'S1E02', 'S2E01', 'S2E02']);
+        expect(generateStepRangeBySeason(options({ end: 1, seasons: { from: 3, to: 4 } }))).toEqual([
+            { season: 3, descriptions: ['第1集'] },
+            { season: 4, descriptions: ['第1集'] },
+        ]);
+        expect(generateStepRangeBySeason(options({ end: 1 }))).toEqual([{ season: null, descriptions: ['第1集'] }]);
+    });
+
+    it('generates nothing for invalid options', () => {
+        expect(generateStepRange(options({ end: 0 }))).toEqual([]);
+    });
+});
+
+describe('getStepRangeError', () => {
+    it('accepts valid options', () => {
+        expect(getStepRangeError(options())).toBeNull();
+        expect(getStepRangeError(options({ pattern: '{season}-{n}', seasons: { from: 1, to: 1 } }))).toBeNull();
+    });
+
+    it('explains what is wrong with the pattern', () => {
+        expect(getStepRangeError(options({ pattern: ' ' }))).toBe('请输入命名格式');
+        expect(getStepRangeError(options({ pattern: '第{x}集' }))).toBe('未知的占位符 {x}，可用 {n} 和 {season}');
+        expect(getStepRangeError(options({ pattern: '第一集' }))).toBe('命名格式中需要包含 {n}');
+        expect(getStepRangeError(options({ pattern: '{season}-{n}' }))).toBe('使用 {season} 时需要启用分季');
+    });
+
+    it('explains what is wrong with the ranges', () => {
+        expect(getStepRangeError(options({ start: 1.5 }))).toBe('起止编号应为非负整数');
+        expect(getStepRangeError(options({ start: -1 }))).toBe('起止编号应为非负整数');
+        expect(getStepRangeError(options({ start: 3, end: 1 }))).toBe('结束编号不能小于起始编号');
+        expect(getStepRangeError(options({ seasons: { from: 2, to: 1 } }))).toBe('结束季不能小于起始季');
+    });
+
+    it('limits how many steps are generated at once', () => {
+        expect(getStepRangeError(options({ end: MAX_GENERATED_STEPS }))).toBeNull();
+        expect(getStepRangeError(options({ end: MAX_GENERATED_STEPS / 2, seasons: { from: 1, to: 3 } }))).toBe(`一次最多生成 ${MAX_GENERATED_STEPS} 个步骤`);
+    });
+});
+
+describe('getDefaultStepRange', () => {
+    it('counts episodes or chapters from the media metadata', () => {
+        expect(getDefaultStepRange('anime', { episodes: 24 })).toEqual(options({ end: 24 }));
+        expect(getDefaultStepRange('novel')).toEqual(options({ pattern: '第{n}章', end: 10 }));
+        expect(getDefaultStepRange('generic')).toEqual(options({ pattern: '第{n}部分', end: 10 }));
+    });
+});
@@ -0,0 +1,87 @@
+// =================================================================
+// Episode / chapter range generator
+// =================================================================
+//
+// Expands a pattern over a numeric range to create many steps at once:
+//
+//   第{n}集          第1集, 第2集, ...
+//   S{season}E{n:02} S1E01, S1E02, ... (with a season range)
+//
+// `{n}` is the number within the range, `{season}` the season number. A
+// `:0N` suffix pads the number with zeros to N digits. With a season range,
+// the episode range is repeated for every season.
+
+import { MediaMetadata, MediaType } from '../types';
+
+/** Upper bound on the steps generated at once, so a typo cannot freeze the editor. */
+export const MAX_GENERATED_STEPS = 2000;
+
+export interface StepRangeOptions {
+    pattern: string;
+    start: number;
+    end: number;
+    /** Inclusive season range; `null` generates a single run without seasons. */
+    seasons: { from: number; to: number } | null;
+}
+
+const TOKEN = /\{(\w+)(?::(0\d+))?\}/g;
+const KNOWN_TOKENS = ['n', 'season'];
+
+const isWholeNumber = (value: number) => Number.isInteger(value) && value >= 0;
+
+/** Returns why the options cannot be expanded, or `null` when they can. */
+export const getStepRangeError = (options: StepRangeOptions): string | null => {
+    const { pattern, start, end, seasons } = options;
+    if (pattern.trim() === '') return '请输入命名格式';
+    const tokens = [...pattern.matchAll(TOKEN)].map(match => match[1]);
+    const unknown = tokens.find(token => !KNOWN_TOKENS.includes(token));
+    if (unknown) return `未知的占位符 {${unknown}}，可用 {n} 和 {season}`;
+    if (!tokens.includes('n')) return '命名格式中需要包含 {n}';
+    if (tokens.includes('season') && !seasons) return '使用 {season} 时需要启用分季';
+    if (!isWholeNumber(start) || !isWholeNumber(end)) return '起止编号应为非负整数';
+    if (end < start) return '结束编号不能小于起始编号';
+    if (seasons) {
+        if (!isWholeNumber(seasons.from) || !isWholeNumber(seasons.to)) return '季数应为非负整数';
+        if (seasons.to < seasons.from) return '结束季不能小于起始季';
+    }
+    const seasonCount = seasons ? seasons.to - seasons.from + 1 : 1;
+    if ((end - start + 1) * seasonCount > MAX_GENERATED_STEPS) return `一次最多生成 ${MAX_GENERATED_STEPS} 个步骤`;
+    return null;
+};
+
+const formatPattern = (pattern: string, values: Record<string, number>) =>
+    pattern.replace(TOKEN, (_match, token: string, padding?: string) => {
+        const value = String(values[token]);
+        return padding ? value.padStart(Number(padding), '0') : value;
+    });
+
+/**
+ * Expands the pattern season by season; `season` is `null` without a season
+ * range. Returns an empty list when the options are invalid.
+ */
+export const generateStepRangeBySeason = (options: StepRangeOptions): { season: number | null; descriptions: string[] }[] => {
+    if (getStepRangeError(options)) return [];
+    const { pattern, start, end, seasons } = options;
+    const seasonNumbers = seasons ? Array.from({ length: seasons.to - seasons.from + 1 }, (_, i) => seasons.from + i) : [null];
+    return seasonNumbers.map(season => ({
+        season,
+        descriptions: Array.from({ length: end - start + 1 }, (_, i) => formatPattern(pattern, { n: start + i, season: season ?? 0 })),
+    }));
+};
+
+/** Expands the pattern into step descriptions. Returns an empty list when the options are invalid. */
+export const generateStepRange = (options: StepRangeOptions): string[] =>
+    generateStepRangeBySeason(options).flatMap(run => run.descriptions);
+
+/** Sensible starting values for an event of the given type. */
+export const getDefaultStepRange = (mediaType: MediaType, metadata?: MediaMetadata): StepRangeOptions => {
+    switch (mediaType) {
+        case 'anime':
+        case 'tv':
+            return { pattern: '第{n}集', start: 1, end: metadata?.episodes || 12, seasons: null };
+        case 'novel':
+            return { pattern: '第{n}章', start: 1, end: metadata?.chapters || 10, seasons: null };
+        default:
+            return { pattern: '第{n}部分', start: 1, end: 10, seasons: null };
+    }
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { cycleTagFilter, describeTagFilter, getTagFilterState, hasTagFilter, mapFilterTags, matchesTagFilter, setUntaggedOnly } from './tagFilter';
+
+const NO_TAG_FILTER = { tags: [], tagMatchMode: 'all' as const, excludedTags: [], untaggedOnly: false };
+
+const makeEvent = (tags?: string[]): Event => ({
+    id: 'event-1',
+    title: '进击的巨人',
+    description: '',
+    createdAt: new Date(2023, 9, 15),
+    steps: [],
+    tags,
+    mediaType: 'anime',
+});
+
+describe('cycleTagFilter', () => {
+    it('moves a tag from off to include to exclude and off again', () => {
+        const included = cycleTagFilter(NO_TAG_FILTER, '动画');
+        expect(getTagFilterState(included, '动画')).toBe('include');
+        const excluded = cycleTagFilter(included, '动画');
+        expect(excluded).toMatchObject({ tags: [], excludedTags: ['动画'] });
+        expect(getTagFilterState(cycleTagFilter(excluded, '动画'), '动画')).toBe('off');
+    });
+
+    it('turns off untagged only, which the untagged toggle turns on by clearing both lists', () => {
+        const untagged = setUntaggedOnly(cycleTagFilter(NO_TAG_FILTER, '动画'), true);
+        expect(untagged).toEqual({ ...NO_TAG_FILTER, untaggedOnly: true });
+        expect(cycleTagFilter(untagged, '漫画')).toEqual({ ...NO_TAG_FILTER, tags: ['漫画'] });
+        expect(setUntaggedOnly(cycleTagFilter(NO_TAG_FILTER, '动画'), false).tags).toEqual(['动画']);
+    });
+});
+
+describe('matchesTagFilter', () => {
+    it('requires all included tags, or any of them, and none of the excluded ones', () => {
+        const filters = { ...NO_TAG_FILTER, tags: ['动画', '重温'], excludedTags: ['弃坑'] };
+        expect(matchesTagFilter(makeEvent(['动画', '重温']), filters)).toBe(true);
+        expect(matchesTagFilter(makeEvent(['动画']), filters)).toBe(false);
+        expect(matchesTagFilter(makeEvent(['动画']), { ...filters, tagMatchMode: 'any' })).toBe(true);
+        expect(matchesTagFilter(makeEvent(['动画', '重温', '弃坑']), filters)).toBe(false);
+        expect(matchesTagFilter(makeEvent(), { ...NO_TAG_FILTER, excludedTags: ['弃坑'] })).toBe(true);
+    });
+
+    it('matches only events without tags when untagged only is on', () => {
+        const filters = { ...NO_TAG_FILTER, untaggedOnly: true };
+        expect(matchesTagFilter(makeEvent(), filters)).toBe(true);
+        expect(matchesTagFilter(makeEvent([]), filters)).toBe(true);
+        expect(matchesTagFilter(makeEvent(['动画']), filters)).toBe(false);
+    });
+});
+
+describe('describeTagFilter', () => {
+    it('joins included tags by the match mode and lists the excluded ones', () => {
+        expect(describeTagFilter(NO_TAG_FILTER)).toBeNull();
+        expect(hasTagFilter(NO_TAG_FILTER)).toBe(false);
+        expect(describeTagFilter({ ...NO_TAG_FILTER, tags: ['A', 'B'], tagMatchMode: 'any', excludedTags: ['C'] })).toBe('A 或 B，不含 C');
+        expect(describeTagFilter({ ...NO_TAG_FILTER, tags: ['A', 'B'] })).toBe('A 且 B');
+        expect(describeTagFilter({ ...NO_TAG_FILTER, untaggedOnly: true })).toBe('仅无标签');
+    });
+});
+
+describe('mapFilterTags', () => {
+    it('maps both lists', () => {
+        const filters = { ...NO_TAG_FILTER, tags: ['A'], excludedTags: ['B'] };
+        expect(mapFilterTags(filters, tags => tags.map(tag => tag.toLowerCase()))).toEqual({ ...NO_TAG_FILTER, tags: ['a'], excludedTags: ['b'] });
+    });
+});
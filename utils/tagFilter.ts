@@ -0,0 +1,56 @@
+// =================================================================
+// Tag filter
+// =================================================================
+//
+// The tag part of `ActiveFilters`. Each tag chip cycles through include,
+// exclude and off: an event must have the included tags (all of them, or any
+// one with `tagMatchMode: 'any'`) and none of the excluded ones. "Untagged
+// only" stands on its own and clears both lists, as no tag can match then.
+
+import { ActiveFilters, Event } from '../types';
+
+export type TagFilterState = 'include' | 'exclude' | 'off';
+
+type TagFilter = Pick<ActiveFilters, 'tags' | 'tagMatchMode' | 'excludedTags' | 'untaggedOnly'>;
+
+export const hasTagFilter = (filters: TagFilter): boolean =>
+    filters.tags.length > 0 || filters.excludedTags.length > 0 || filters.untaggedOnly;
+
+export const getTagFilterState = (filters: TagFilter, tag: string): TagFilterState =>
+    filters.tags.includes(tag) ? 'include' : filters.excludedTags.includes(tag) ? 'exclude' : 'off';
+
+/** Moves the tag on to its next state: off, include, exclude, off again. */
+export const cycleTagFilter = <T extends TagFilter>(filters: T, tag: string): T => {
+    const state = getTagFilterState(filters, tag);
+    const tags = filters.tags.filter(t => t !== tag);
+    const excludedTags = filters.excludedTags.filter(t => t !== tag);
+    if (state === 'off') tags.push(tag);
+    if (state === 'include') excludedTags.push(tag);
+    return { ...filters, tags, excludedTags, untaggedOnly: false };
+};
+
+export const setUntaggedOnly = <T extends TagFilter>(filters: T, untaggedOnly: boolean): T =>
+    untaggedOnly ? { ...filters, tags: [], excludedTags: [], untaggedOnly } : { ...filters, untaggedOnly };
+
+/** Applies `map` to both tag lists, e.g. when tags are renamed or deleted. */
+export const mapFilterTags = <T extends TagFilter>(filters: T, map: (tags: string[]) => string[]): T =>
+    ({ ...filters, tags: map(filters.tags), excludedTags: map(filters.excludedTags) });
+
+export const matchesTagFilter = (event: Event, filters: TagFilter): boolean => {
+    const tags = event.tags ?? [];
+    if (filters.untaggedOnly) return tags.length === 0;
+    if (filters.excludedTags.some(tag => tags.includes(tag))) return false;
+    if (filters.tags.length === 0) return true;
+    return filters.tagMatchMode === 'any'
+        ? filters.tags.some(tag => tags.includes(tag))
+        : filters.tags.every(tag => tags.includes(tag));
+};
+
+/** The filter as an expression such as `A 或 B，不含 C`; null when no tag is filtered on. */
+export const describeTagFilter = (filters: TagFilter): string | null => {
+    if (filters.untaggedOnly) return '仅无标签';
+    const parts: string[] = [];
+    if (filters.tags.length > 0) parts.push(filters.tags.join(filters.tagMatchMode === 'any' ? ' 或 ' : ' 且 '));
+    if (filters.excludedTags.length > 0) parts.push(`不含 ${filters.excludedTags.join('、')}`);
+    return parts.length > 0 ? parts.join('，') : null;
+};
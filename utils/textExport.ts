@@ -0,0 +1,63 @@
+// =================================================================
+// CSV and Markdown export
+// =================================================================
+//
+// Unlike the backups, these exports are meant for people: spreadsheets and
+// progress reports. The Markdown export can be read back as a checklist
+// (`textImport.ts`), which skips its activity log.
+
+import { Event } from '../types';
+import { describeStepActivity } from './stepActivity';
+
+export type TextExportFormat = 'csv' | 'markdown';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local time as `YYYY-MM-DD HH:mm`, which spreadsheets recognise as a date. */
+const formatDateTime = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const escapeCsvCell = (value: string): string => {
+    // Cells starting with these characters would be evaluated as formulas by spreadsheet apps.
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** One row per step. Events without steps get a single row with empty step columns. */
+export const eventsToCsv = (events: Event[]): string => {
+    const rows: string[][] = [['事件', '标签', '步骤', '已完成', '时间', '完成时间', '笔记']];
+    events.forEach(event => {
+        const tags = (event.tags || []).join(', ');
+        if (event.steps.length === 0) {
+            rows.push([event.title, tags, '', '', '', '', '']);
+            return;
+        }
+        event.steps.forEach(step => {
+            rows.push([event.title, tags, step.description, step.completed ? '是' : '否', formatDateTime(step.timestamp), step.completedAt ? formatDateTime(step.completedAt) : '', step.note ?? '']);
+        });
+    });
+    // The BOM makes Excel read the file as UTF-8.
+    return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const singleLine = (text: string) => text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+
+/** Per-event checklists with tags, progress and the activity log, newest entry first. */
+export const eventsToMarkdown = (events: Event[], title: string): string => {
+    const sections = events.map(event => {
+        const completed = event.steps.filter(step => step.completed).length;
+        const total = event.steps.length;
+        const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
+        const lines = [`## ${singleLine(event.title)}`, ''];
+        if (event.tags && event.tags.length > 0) lines.push(`标签: ${event.tags.map(tag => `\`${tag}\``).join(' ')}  `);
+        lines.push(`进度: ${completed}/${total} (${progress}%)`, '');
+        if (event.description.trim()) lines.push(event.description.trim(), '');
+        event.steps.forEach(step => lines.push(`- [${step.completed ? 'x' : ' '}] ${singleLine(step.description)}`));
+        if (event.activityLog && event.activityLog.length > 0) {
+            lines.push('', '动态记录:', '');
+            [...event.activityLog].reverse().forEach(activity => lines.push(`- ${formatDateTime(activity.at)} ${singleLine(describeStepActivity(activity))}`));
+        }
+        return lines.join('\n').trimEnd();
+    });
+    return [`# ${title}`, '', `导出于 ${formatDateTime(new Date())} · ${events.length} 个事件`, '', ...sections.flatMap(s => [s, ''])].join('\n');
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Event } from '../types';
+import { eventsToMarkdown } from './textExport';
+import { parseTextImport } from './textImport';
+
+describe('parseTextImport', () => {
+    it('reads a plain list without headings as the steps of one event', () => {
+        expect(parseTextImport('第1集\n\n- 第2集\n2. 第3集\n- [x] 第4集', '新清单')).toEqual({
+            events: [{
+                title: '新清单',
+                description: '',
+                tags: [],
+                steps: [
+                    { description: '第1集', completed: false },
+                    { description: '第2集', completed: false },
+                    { description: '第3集', completed: false },
+                    { description: '第4集', completed: true },
+                ],
+            }],
+            isPlainList: true,
+        });
+        expect(parseTextImport('  \n ', '新清单')).toEqual({ events: [], isPlainList: true });
+    });
+
+    it('starts an event at every heading, with tags, checklist steps and a description', () => {
+        const { events, isPlainList } = parseTextImport([
+            '# 进击的巨人 #动画',
+            '第一季 #重温',
+            '',
+            '- [x] 第1集',
+            '- [X] 第2集',
+            '- [ ] 第3集',
+            '* [ ]',
+            '## 钢之炼金术师',
+            '1) 第1话',
+        ].join('\n'), '新清单');
+        expect(isPlainList).toBe(false);
+        expect(events).toEqual([
+            {
+                title: '进击的巨人',
+                description: '第一季',
+                tags: ['动画', '重温'],
+                steps: [
+                    { description: '第1集', completed: true },
+                    { description: '第2集', completed: true },
+                    { description: '第3集', completed: false },
+                ],
+            },
+            { title: '钢之炼金术师', description: '', tags: [], steps: [{ description: '第1话', completed: false }] },
+        ]);
+    });
+
+    it('ignores text before the first heading and treats an empty heading above deeper ones as a title', () => {
+        const { events } = parseTextImport('前言\n# 我的清单\n## 事件\n- 步骤', '新清单');
+        expect(events.map(e => e.title)).toEqual(['事件']);
+        expect(parseTextImport('# 空事件\n# 另一个', '新清单').events.map(e => e.title)).toEqual(['空事件', '另一个']);
+    });
+
+    it('reads back the Markdown export without its progress, date and activity lines', () => {
+        const event: Event = {
+            id: 'event-1',
+            title: '进击的巨人',
+            description: '第一季',
+            createdAt: new Date(2023, 9, 15),
+            steps: [
+                { id: 'step-1', description: '第1集', timestamp: new Date(2023, 9, 15), completed: true, completedAt: new Date(2023, 9, 16) },
+                { id: 'step-2', description: '第2集', timestamp: new Date(2023, 9, 15), completed: false },
+            ],
+            tags: ['动画', '重温'],
+            mediaType: 'anime',
+            activityLog: [{ type: 'completed', stepId: 'step-1', description: '第1集', at: new Date(2023, 9, 16) }],
+        };
+        expect(parseTextImport(eventsToMarkdown([event], '导出'), '新清单').events).toEqual([{
+            title: '进击的巨人',
+            description: '第一季',
+            tags: ['动画', '重温'],
+            steps: [{ description: '第1集', completed: true }, { description: '第2集', completed: false }],
+        }]);
+    });
+});
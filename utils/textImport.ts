@@ -0,0 +1,119 @@
+// =================================================================
+// Markdown and plain-text checklist import
+// =================================================================
+//
+// Turns pasted or uploaded text into events:
+//
+//   # Heading          starts an event; `#tag` tokens in it become tags
+//   - [ ] / - [x] item a step, completed when checked
+//   - item, 1. item    a step that is not completed
+//   #tag #other        tags of the current event
+//   other text         the event description
+//
+// Text without any heading is read as a plain list for a single event, one
+// step per non-empty line. The Markdown export (`textExport.ts`) reads back in.
+
+export interface ParsedTextEvent {
+    title: string;
+    description: string;
+    tags: string[];
+    steps: { description: string; completed: boolean }[];
+}
+
+export interface ParsedTextImport {
+    events: ParsedTextEvent[];
+    /** True when the text had no headings and was read as a single plain list. */
+    isPlainList: boolean;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const CHECKLIST_ITEM = /^[-*+]\s+\[([ xX])\]\s*(.*)$/;
+const LIST_ITEM = /^(?:[-*+]|\d+[.)])\s+(.*)$/;
+const TAG_TOKEN = /(^|\s)#([^\s#]+)/g;
+// Lines written by the Markdown export that carry no content of their own.
+const TAG_LINE = /^(?:标签|tags)\s*[:：]\s*(.*)$/i;
+const EXPORT_NOISE = /^(?:进度\s*[:：]\s*\d+\/\d+|导出于\s)/;
+// The exported activity log runs until the next heading; its entries are not steps.
+const ACTIVITY_LOG_LINE = /^动态记录\s*[:：]$/;
+
+/** Splits `text #a #b` into the text and its tags. */
+const extractTags = (line: string): { text: string; tags: string[] } => {
+    const tags: string[] = [];
+    const text = line.replace(TAG_TOKEN, (_match, lead: string, tag: string) => {
+        tags.push(tag);
+        return lead;
+    });
+    return { text: text.replace(/\s+/g, ' ').trim(), tags };
+};
+
+const addTags = (event: ParsedTextEvent, tags: string[]) => {
+    tags.forEach(tag => { if (!event.tags.includes(tag)) event.tags.push(tag); });
+};
+
+const parseStepLine = (line: string): { description: string; completed: boolean } | null => {
+    const checklist = line.match(CHECKLIST_ITEM);
+    if (checklist) return { description: checklist[2].trim(), completed: checklist[1] !== ' ' };
+    const item = line.match(LIST_ITEM);
+    if (item) return { description: item[1].trim(), completed: false };
+    return null;
+};
+
+const parsePlainList = (lines: string[], title: string): ParsedTextEvent => ({
+    title,
+    description: '',
+    tags: [],
+    steps: lines.map(line => parseStepLine(line) ?? { description: line, completed: false }).filter(step => step.description !== ''),
+});
+
+export const parseTextImport = (text: string, plainListTitle: string): ParsedTextImport => {
+    const lines = text.split(/\r?\n/).map(line => line.trim());
+    const nonEmpty = lines.filter(line => line !== '');
+    if (!nonEmpty.some(line => HEADING.test(line))) {
+        return { events: nonEmpty.length > 0 ? [parsePlainList(nonEmpty, plainListTitle)] : [], isPlainList: true };
+    }
+
+    const sections: { level: number; event: ParsedTextEvent; descriptionLines: string[]; inActivityLog?: boolean }[] = [];
+    lines.forEach(line => {
+        const heading = line.match(HEADING);
+        if (heading) {
+            const { text: title, tags } = extractTags(heading[2]);
+            sections.push({ level: heading[1].length, event: { title, description: '', tags, steps: [] }, descriptionLines: [] });
+            return;
+        }
+        const current = sections[sections.length - 1];
+        if (!current) return; // Text before the first heading has no event to belong to.
+        if (current.inActivityLog) return;
+        if (ACTIVITY_LOG_LINE.test(line)) {
+            current.inActivityLog = true;
+            return;
+        }
+
+        const step = parseStepLine(line);
+        if (step) {
+            if (step.description) current.event.steps.push(step);
+            return;
+        }
+        const tagLine = line.match(TAG_LINE);
+        if (tagLine) {
+            addTags(current.event, tagLine[1].split(/[\s,，]+/).map(tag => tag.replace(/^[`#]+|`+$/g, '')).filter(Boolean));
+            return;
+        }
+        if (EXPORT_NOISE.test(line)) return;
+
+        const { text: rest, tags } = extractTags(line);
+        addTags(current.event, tags);
+        if (rest || current.descriptionLines.length > 0) current.descriptionLines.push(rest);
+    });
+
+    // A heading with no content of its own directly above a deeper heading is a document title, not an event.
+    const events = sections
+        .filter((section, i) => {
+            const next = sections[i + 1];
+            const isEmpty = section.event.steps.length === 0 && section.descriptionLines.every(line => line === '');
+            return !(isEmpty && next && next.level > section.level);
+        })
+        .map(({ event, descriptionLines }) => ({ ...event, description: descriptionLines.join('\n').trim() }))
+        .filter(event => event.title !== '');
+
+    return { events, isPlainList: false };
+};